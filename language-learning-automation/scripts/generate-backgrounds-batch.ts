@@ -15,6 +15,7 @@ import path from 'path';
 import { generateIllustration } from '../src/image/generator';
 import { IMAGE_STYLES } from '../src/image/art-styles';
 import type { Script } from '../src/script/types';
+import { openEpisodeManifest, resolveEpisodeFile } from '../src/episode';
 
 const STYLE_IDS = IMAGE_STYLES.map((s) => s.id);
 
@@ -71,12 +72,6 @@ function printStyles() {
   console.log('If no style specified, a random style will be used for each image.\n');
 }
 
-async function findScriptFile(episodeDir: string): Promise<string | null> {
-  const files = await fs.readdir(episodeDir);
-  const scriptFile = files.find((f) => f.endsWith('.json') && !f.includes('manifest'));
-  return scriptFile ? path.join(episodeDir, scriptFile) : null;
-}
-
 async function main() {
   const { channel, folder, count, style, listStyles, all } = parseArgs();
 
@@ -118,7 +113,8 @@ async function main() {
   }
 
   // Find and load script file
-  const scriptPath = await findScriptFile(episodeDir);
+  const manifest = await openEpisodeManifest(episodeDir, channel);
+  const scriptPath = resolveEpisodeFile(episodeDir, manifest, 'script');
   if (!scriptPath) {
     console.error(`❌ No script JSON file found in: ${episodeDir}`);
     process.exit(1);
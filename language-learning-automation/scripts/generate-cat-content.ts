@@ -5,6 +5,7 @@
  *   npx tsx scripts/generate-cat-content.ts
  *   npx tsx scripts/generate-cat-content.ts --theme "food"
  *   npx tsx scripts/generate-cat-content.ts --skip-video
+ *   npx tsx scripts/generate-cat-content.ts --skip-render
  */
 
 import 'dotenv/config';
@@ -16,6 +17,7 @@ async function main() {
   // 옵션 파싱
   let theme: string | undefined;
   let skipVideo = false;
+  let skipRender = false;
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === '--theme' && args[i + 1]) {
@@ -25,6 +27,9 @@ async function main() {
     if (args[i] === '--skip-video') {
       skipVideo = true;
     }
+    if (args[i] === '--skip-render') {
+      skipRender = true;
+    }
   }
 
   console.log('🐱 Cat Interview Content Generator\n');
@@ -37,6 +42,7 @@ async function main() {
     const result = await runInterviewPipeline('cat_interview', {
       theme,
       skipVideoGeneration: skipVideo,
+      skipRender,
     });
 
     console.log('\n📊 Result Summary:');
@@ -45,6 +51,9 @@ async function main() {
     if (result.videoPath) {
       console.log(`   Video: ${result.videoPath}`);
     }
+    if (result.shortPath) {
+      console.log(`   Short: ${result.shortPath}`);
+    }
   } catch (error) {
     console.error('\n❌ Failed:', error);
     process.exit(1);
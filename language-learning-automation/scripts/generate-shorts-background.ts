@@ -4,6 +4,8 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { generateShortsBackground } from '../src/image/generator';
 import type { Script } from '../src/script/types';
+import { GEMINI_MODELS } from '../src/config/gemini';
+import { openEpisodeManifest, recordEpisodeArtifacts, resolveEpisodeFile } from '../src/episode';
 
 async function main() {
   const args = process.argv.slice(2);
@@ -37,18 +39,15 @@ This generates a 9:16 vertical background image optimized for YouTube Shorts.
   }
 
   // Find script file
-  const files = await fs.readdir(outputDir);
-  const scriptFile = files.find(
-    (f) => f.endsWith('.json') && f.match(/^\d{4}-\d{2}-\d{2}_.*\.json$/)
-  );
+  const manifest = await openEpisodeManifest(outputDir, channelId);
+  const scriptPath = resolveEpisodeFile(outputDir, manifest, 'script');
 
-  if (!scriptFile) {
+  if (!scriptPath) {
     console.error(`❌ No script file found in ${outputDir}`);
     process.exit(1);
   }
 
   // Load script
-  const scriptPath = path.join(outputDir, scriptFile);
   const scriptContent = await fs.readFile(scriptPath, 'utf-8');
   const script: Script = JSON.parse(scriptContent);
 
@@ -60,6 +59,19 @@ This generates a 9:16 vertical background image optimized for YouTube Shorts.
 
   try {
     const imagePath = await generateShortsBackground(script, outputDir);
+    await recordEpisodeArtifacts(
+      outputDir,
+      [
+        {
+          kind: 'shorts-background',
+          path: imagePath,
+          generator: 'scripts/generate-shorts-background',
+          provider: 'gemini',
+          model: GEMINI_MODELS.image,
+        },
+      ],
+      channelId
+    );
     console.log(`\n✅ Done! Image saved to: ${imagePath}`);
   } catch (error) {
     console.error(`\n❌ Failed to generate shorts background:`, error);
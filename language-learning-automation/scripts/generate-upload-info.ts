@@ -4,12 +4,8 @@ import path from 'path';
 import type { Script } from '../src/script/types';
 import type { ChannelConfig } from '../src/config/types';
 import type { AudioFile } from '../src/tts/types';
-import { calculateIntroDuration } from '../src/compositions/Intro';
-import { calculateStep1Duration } from '../src/compositions/Step1';
-import { calculateStep2Duration } from '../src/compositions/Step2';
-import { calculateStep3Duration } from '../src/compositions/Step3';
-import { calculateStep4Duration } from '../src/compositions/Step4';
-import { STEP_TRANSITION_DURATION } from '../src/compositions/StepTransition';
+import { buildVideoTimeline, getTimelineChapters } from '../src/timeline';
+import { openEpisodeManifest, recordEpisodeArtifacts, resolveEpisodeFile } from '../src/episode';
 
 async function generateUploadInfo() {
   // Parse command line arguments
@@ -34,17 +30,17 @@ async function generateUploadInfo() {
     process.exit(1);
   }
 
-  // Find script file
-  const files = await fs.readdir(baseDir);
-  const scriptFile = files.find((f) => f.endsWith('.json') && f !== 'manifest.json');
+  // Find script file (episode.json 기준)
+  const episode = await openEpisodeManifest(baseDir, channelId);
+  const scriptPath = resolveEpisodeFile(baseDir, episode, 'script');
+  const manifestPath = resolveEpisodeFile(baseDir, episode, 'audio-manifest');
 
-  if (!scriptFile) {
-    console.error(`❌ No script file found in ${baseDir}`);
+  if (!scriptPath || !manifestPath) {
+    console.error(`❌ No script / audio manifest found in ${baseDir}`);
     process.exit(1);
   }
 
   // Load script
-  const scriptPath = path.join(baseDir, scriptFile);
   const scriptContent = await fs.readFile(scriptPath, 'utf-8');
   const script: Script = JSON.parse(scriptContent);
 
@@ -54,7 +50,6 @@ async function generateUploadInfo() {
   const config: ChannelConfig = JSON.parse(configContent);
 
   // Load audio manifest
-  const manifestPath = path.join(baseDir, 'audio/manifest.json');
   const manifestContent = await fs.readFile(manifestPath, 'utf-8');
   const audioFiles: AudioFile[] = JSON.parse(manifestContent);
 
@@ -62,70 +57,29 @@ async function generateUploadInfo() {
   console.log(`🎤 Audio files: ${audioFiles.length}`);
   console.log(`📊 Sentences: ${script.sentences.length}`);
 
-  // Calculate durations
-  const FPS = 30;
-  const framesToSeconds = (frames: number) => frames / FPS;
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${String(mins).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
-  };
-
   // Calculate durations with actual TTS durations (matching inputProps from render)
   // These should match the values from pipeline/index.ts inputProps
-  const viralNarrationDuration = 5.256; // assets/intro-viral.mp3
-  const guideNarrationDuration = 3.936; // assets/intro-narration.mp3
-  const stepNarrationDurations = [8.52, 8.904, 9.72, 7.464]; // intro-step1~4.mp3
-  const closingNarrationDuration = 2.952; // assets/intro-closing.mp3
-
-  const introDuration = calculateIntroDuration(
-    viralNarrationDuration,
-    guideNarrationDuration,
-    stepNarrationDurations,
-    closingNarrationDuration
-  );
-  const step1Duration = calculateStep1Duration(audioFiles);
-  const step2Duration = calculateStep2Duration(script.sentences, audioFiles);
-  const step3Duration = calculateStep3Duration(
-    script.sentences,
+  const videoTimeline = buildVideoTimeline({
+    script,
     audioFiles,
-    config.content.repeatCount
-  );
-  const step4Duration = calculateStep4Duration(audioFiles);
-
-  // Build timeline
-  let currentFrame = 0;
-  const timeline: Array<{ time: string; label: string }> = [];
-
-  timeline.push({ time: formatTime(framesToSeconds(currentFrame)), label: '인트로' });
-  currentFrame += introDuration;
-
-  currentFrame += STEP_TRANSITION_DURATION;
-  timeline.push({
-    time: formatTime(framesToSeconds(currentFrame)),
-    label: 'Step 1. 전체 흐름 파악 (자막 없이 듣기)',
+    content: config.content,
+    narration: {
+      viral: 5.256, // assets/intro-viral.mp3
+      guide: 3.936, // assets/intro-narration.mp3
+      steps: [8.52, 8.904, 9.72, 7.464], // intro-step1~4.mp3
+      closing: 2.952, // assets/intro-closing.mp3
+    },
   });
-  currentFrame += step1Duration;
 
-  currentFrame += STEP_TRANSITION_DURATION;
-  timeline.push({
-    time: formatTime(framesToSeconds(currentFrame)),
-    label: 'Step 2. 자막 보며 듣기',
-  });
-  currentFrame += step2Duration;
-
-  currentFrame += STEP_TRANSITION_DURATION;
-  timeline.push({
-    time: formatTime(framesToSeconds(currentFrame)),
-    label: 'Step 3. 문장별 3단계 훈련',
+  // Build timeline
+  const timeline = getTimelineChapters(videoTimeline, {
+    intro: '인트로',
+    step1: 'Step 1. 전체 흐름 파악 (자막 없이 듣기)',
+    step2: 'Step 2. 자막 보며 듣기',
+    step3: 'Step 3. 문장별 3단계 훈련',
+    step4: 'Step 4. 최종 확인',
+    ending: '마무리',
   });
-  currentFrame += step3Duration;
-
-  currentFrame += STEP_TRANSITION_DURATION;
-  timeline.push({ time: formatTime(framesToSeconds(currentFrame)), label: 'Step 4. 최종 확인' });
-  currentFrame += step4Duration;
-
-  timeline.push({ time: formatTime(framesToSeconds(currentFrame)), label: '마무리' });
 
   // Write upload_info.txt
   const uploadInfoPath = path.join(baseDir, 'upload_info.txt');
@@ -139,6 +93,11 @@ ${timelineText}
 `;
 
   await fs.writeFile(uploadInfoPath, uploadInfo, 'utf-8');
+  await recordEpisodeArtifacts(
+    baseDir,
+    [{ kind: 'upload-info', path: uploadInfoPath, generator: 'scripts/generate-upload-info' }],
+    channelId
+  );
   console.log(`\n✅ Upload info created: ${uploadInfoPath}`);
   console.log('\n타임라인:');
   timeline.forEach((t) => console.log(`  ${t.time} ${t.label}`));
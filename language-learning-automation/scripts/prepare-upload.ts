@@ -14,6 +14,17 @@ import { promises as fs } from 'fs';
 import { createReadStream } from 'fs';
 import path from 'path';
 import { google } from 'googleapis';
+import { formatLocaleTemplate, getLanguageName, getLocalePack } from '../src/i18n';
+import {
+  getArtifact,
+  getArtifacts,
+  moveEpisodeArtifact,
+  openEpisodeManifest,
+  recordEpisodeUpload,
+  resolveEpisodeFile,
+  type EpisodeManifest,
+} from '../src/episode';
+import { indexLibraryEpisode } from '../src/library';
 
 interface UploadInfo {
   title: string;
@@ -24,6 +35,15 @@ interface UploadInfo {
   channelId: string;
   category: string;
   topic: string;
+  captions: CaptionInfo[];
+}
+
+// Caption file in the upload bundle (pipeline writes subtitles/captions.{track}.{format})
+interface CaptionInfo {
+  file: string;
+  track: string;
+  format: string;
+  language: string;
 }
 
 interface ScriptMetadata {
@@ -39,6 +59,9 @@ interface ChannelConfig {
     targetLanguage: string;
     nativeLanguage: string;
   };
+  tts?: {
+    targetLanguageCode?: string;
+  };
 }
 
 // Google Drive folder IDs - set these in .env
@@ -157,18 +180,15 @@ async function main() {
   const outputDir = path.join(process.cwd(), 'output', channelId, folderName);
   console.log(`\n📁 Processing: ${outputDir}\n`);
 
-  // Load script JSON
-  const files = await fs.readdir(outputDir);
-  const scriptFile = files.find(
-    (f) => f.endsWith('.json') && !f.includes('manifest') && !f.includes('_info')
-  );
+  // Load script JSON (episode.json 기준)
+  const manifest = await openEpisodeManifest(outputDir, channelId);
+  const scriptPath = resolveEpisodeFile(outputDir, manifest, 'script');
 
-  if (!scriptFile) {
+  if (!scriptPath) {
     console.error('No script file found');
     process.exit(1);
   }
 
-  const scriptPath = path.join(outputDir, scriptFile);
   const scriptContent = await fs.readFile(scriptPath, 'utf-8');
   const script: ScriptMetadata = JSON.parse(scriptContent);
 
@@ -179,73 +199,59 @@ async function main() {
 
   // Load upload_info.txt for timeline
   let timeline = '';
-  const uploadInfoPath = path.join(outputDir, 'upload_info.txt');
-  try {
+  const uploadInfoPath = resolveEpisodeFile(outputDir, manifest, 'upload-info');
+  if (uploadInfoPath) {
     timeline = await fs.readFile(uploadInfoPath, 'utf-8');
-  } catch {
-    // No timeline file
   }
 
   // Generate description and tags
   const description = generateDescription(config, script, timeline);
   const tags = generateTags(config, script);
 
+  const language = getLocalePack(config.meta.nativeLanguage).languageCode;
+
+  // Create base name from folder
+  const baseName = `${folderName}_${script.metadata.topic.replace(/\s+/g, '_').substring(0, 30)}`;
+
+  // Copy caption files into the upload bundle
+  const captions = await collectCaptions(outputDir, manifest, baseName, {
+    target: config.tts?.targetLanguageCode?.split('-')[0] ?? 'en',
+    native: language,
+  });
+
   const uploadInfo: UploadInfo = {
     title: script.metadata.title.target,
     description,
     tags,
-    language: config.meta.nativeLanguage === 'Korean' ? 'ko' : 'en',
+    language,
     privacyStatus: 'public',
     channelId,
     category: script.category,
     topic: script.metadata.topic,
+    captions,
   };
 
-  // Create base name from folder
-  const baseName = `${folderName}_${script.metadata.topic.replace(/\s+/g, '_').substring(0, 30)}`;
-
   // Save info file
   const infoPath = path.join(outputDir, `${baseName}_info.json`);
   await fs.writeFile(infoPath, JSON.stringify(uploadInfo, null, 2));
   console.log(`✅ Created: ${baseName}_info.json`);
 
-  // Rename video and thumbnail for upload
-  const videoSrc = path.join(outputDir, 'video.mp4');
+  // Rename video and thumbnail for upload (episode.json 경로도 함께 갱신)
   const videoDst = path.join(outputDir, `${baseName}.mp4`);
-  const thumbSrc = path.join(outputDir, 'thumbnail.png');
   const thumbDst = path.join(outputDir, `${baseName}_thumb.png`);
+  await renameForUpload(outputDir, manifest, 'video', `${baseName}.mp4`);
+  await renameForUpload(outputDir, manifest, 'thumbnail', `${baseName}_thumb.png`);
 
-  try {
-    await fs.access(videoSrc);
-    await fs.rename(videoSrc, videoDst);
-    console.log(`✅ Renamed: ${baseName}.mp4`);
-  } catch {
-    // Check if already renamed
-    try {
-      await fs.access(videoDst);
-      console.log(`✓ Already exists: ${baseName}.mp4`);
-    } catch {
-      console.log('⚠️ video.mp4 not found');
-    }
-  }
-
-  try {
-    await fs.access(thumbSrc);
-    await fs.rename(thumbSrc, thumbDst);
-    console.log(`✅ Renamed: ${baseName}_thumb.png`);
-  } catch {
-    try {
-      await fs.access(thumbDst);
-      console.log(`✓ Already exists: ${baseName}_thumb.png`);
-    } catch {
-      console.log('⚠️ thumbnail.png not found');
-    }
+  // 이미 업로드된 에피소드의 상태는 되돌리지 않음
+  if (!manifest.upload) {
+    await recordEpisodeUpload(outputDir, 'prepared');
   }
 
   console.log(`\n📦 Files ready:`);
   console.log(`   ${baseName}.mp4`);
   console.log(`   ${baseName}_thumb.png`);
   console.log(`   ${baseName}_info.json`);
+  captions.forEach((c) => console.log(`   ${c.file}`));
 
   // Upload to Google Drive if requested
   if (shouldUpload) {
@@ -260,39 +266,100 @@ async function main() {
 
     const auth = await getGoogleAuth();
 
-    // Upload video
-    console.log('   📤 Uploading video...');
-    await uploadToDrive(auth, videoDst, `${baseName}.mp4`, DRIVE_PENDING_FOLDER_ID, 'video/mp4');
-    console.log('   ✅ Video uploaded');
-
-    // Upload thumbnail
-    console.log('   📤 Uploading thumbnail...');
-    await uploadToDrive(
-      auth,
-      thumbDst,
-      `${baseName}_thumb.png`,
-      DRIVE_PENDING_FOLDER_ID,
-      'image/png'
-    );
-    console.log('   ✅ Thumbnail uploaded');
-
-    // Upload info
-    console.log('   📤 Uploading info...');
-    await uploadToDrive(
-      auth,
-      infoPath,
-      `${baseName}_info.json`,
-      DRIVE_PENDING_FOLDER_ID,
-      'application/json'
-    );
-    console.log('   ✅ Info uploaded');
+    // Video, thumbnail, info and caption files
+    const uploads = [
+      { label: 'video', path: videoDst, name: `${baseName}.mp4`, mimeType: 'video/mp4' },
+      { label: 'thumbnail', path: thumbDst, name: `${baseName}_thumb.png`, mimeType: 'image/png' },
+      {
+        label: 'info',
+        path: infoPath,
+        name: `${baseName}_info.json`,
+        mimeType: 'application/json',
+      },
+      ...captions.map((c) => ({
+        label: `${c.track} captions (${c.format})`,
+        path: path.join(outputDir, c.file),
+        name: c.file,
+        mimeType: c.format === 'srt' ? 'application/x-subrip' : 'text/vtt',
+      })),
+    ];
+
+    for (const upload of uploads) {
+      console.log(`   📤 Uploading ${upload.label}...`);
+      await uploadToDrive(auth, upload.path, upload.name, DRIVE_PENDING_FOLDER_ID, upload.mimeType);
+      console.log(`   ✅ ${upload.label} uploaded`);
+    }
 
+    if (manifest.upload?.status !== 'published') {
+      await recordEpisodeUpload(outputDir, 'uploaded');
+    }
     console.log(`\n🎉 All files uploaded to Google Drive!`);
     console.log(`   n8n이 예약된 시간에 자동으로 YouTube에 업로드합니다.`);
+    console.log(
+      `   업로드 후: npm run library -- set-youtube ${channelId}/${folderName} <videoId>`
+    );
   } else {
     console.log(`\n👉 Google Drive에 자동 업로드하려면:`);
     console.log(`   npx tsx scripts/prepare-upload.ts --channel ${channelId} --upload`);
   }
+
+  await indexLibraryEpisode(outputDir);
+}
+
+/**
+ * Rename a video / thumbnail artifact to its upload file name
+ */
+async function renameForUpload(
+  outputDir: string,
+  manifest: EpisodeManifest,
+  kind: 'video' | 'thumbnail',
+  fileName: string
+): Promise<void> {
+  const artifact = getArtifact(manifest, kind);
+  if (!artifact) {
+    console.log(`⚠️ ${kind} not found`);
+  } else if (artifact.path === fileName) {
+    console.log(`✓ Already exists: ${fileName}`);
+  } else {
+    await moveEpisodeArtifact(outputDir, artifact.path, fileName);
+    console.log(`✅ Renamed: ${fileName}`);
+  }
+}
+
+/**
+ * Copy subtitles/captions.{track}.{format} to {baseName}_{track}.{format}
+ */
+async function collectCaptions(
+  outputDir: string,
+  manifest: EpisodeManifest,
+  baseName: string,
+  languages: { target: string; native: string }
+): Promise<CaptionInfo[]> {
+  const subtitles = getArtifacts(manifest, 'subtitle');
+  if (subtitles.length === 0) {
+    console.log('⚠️ subtitles/ not found (no caption files)');
+    return [];
+  }
+
+  const captions: CaptionInfo[] = [];
+  for (const subtitle of subtitles) {
+    const match = path.basename(subtitle.path).match(/^captions\.(\w+)\.(srt|vtt)$/);
+    if (!match) continue;
+    const [, track, format] = match;
+    const dst = `${baseName}_${track}.${format}`;
+    await fs.copyFile(path.join(outputDir, subtitle.path), path.join(outputDir, dst));
+    captions.push({
+      file: dst,
+      track,
+      format,
+      // 발음 표기는 모국어 문자로 쓰므로 모국어 트랙으로 분류
+      language: track === 'target' ? languages.target : languages.native,
+    });
+  }
+  if (captions.length > 0) {
+    console.log(`✅ Copied ${captions.length} caption files`);
+  }
+  return captions;
 }
 
 function generateDescription(
@@ -300,80 +367,45 @@ function generateDescription(
   script: ScriptMetadata,
   timeline: string
 ): string {
-  const isKorean = config.meta.nativeLanguage === 'Korean';
-
-  const langNames: Record<string, string> = isKorean
-    ? { English: '영어', Korean: '한국어', Japanese: '일본어', Chinese: '중국어' }
-    : { English: 'English', Korean: 'Korean', Japanese: 'Japanese', Chinese: 'Chinese' };
-
-  const targetLang = langNames[config.meta.targetLanguage] || config.meta.targetLanguage;
-
-  let desc = '';
-
-  if (isKorean) {
-    desc = `${targetLang} 듣기 연습 - ${script.metadata.topic}
+  const pack = getLocalePack(config.meta.nativeLanguage);
+  const targetLang = getLanguageName(config.meta.targetLanguage, config.meta.nativeLanguage);
+  const vars = {
+    language: targetLang,
+    targetLanguage: config.meta.targetLanguage,
+    topic: script.metadata.topic,
+  };
 
-🎧 이 영상은 4단계 학습법으로 구성되어 있습니다:
-1️⃣ 자막 없이 듣기 - 전체 흐름 파악
-2️⃣ 자막 보며 듣기 - 내용 이해
-3️⃣ 반복 훈련 - 느리게/빈칸/빠르게
-4️⃣ 최종 확인 - 다시 자막 없이
+  let desc = `${formatLocaleTemplate(pack.upload.descriptionHeader, vars)}
 
-`;
-  } else {
-    desc = `${targetLang} Listening Practice - ${script.metadata.topic}
-
-🎧 This video uses a 4-step learning method:
-1️⃣ Listen without subtitles - Get the big picture
-2️⃣ Listen with subtitles - Understand the content
-3️⃣ Repetition training - Slow/Fill-in/Fast
-4️⃣ Final check - Listen again without subtitles
+${pack.upload.stepsSummary}
 
 `;
-  }
 
   // Add timeline
   if (timeline) {
-    const timelineSection = timeline.split('타임라인:')[1]?.split('\n\n')[0] || '';
+    const header = pack.timeline.timelineHeader;
+    const timelineSection = timeline.split(`${header}:`)[1]?.split('\n\n')[0] || '';
     if (timelineSection) {
-      desc += `⏱️ ${isKorean ? '타임라인' : 'Timeline'}:\n${timelineSection.trim()}\n\n`;
+      desc += `⏱️ ${header}:\n${timelineSection.trim()}\n\n`;
     }
   }
 
   // Add channel info
-  desc += isKorean
-    ? `\n📺 매일 새로운 ${targetLang} 듣기 영상이 업로드됩니다!\n구독과 알림 설정으로 매일 연습하세요 🔔`
-    : `\n📺 New ${targetLang} listening videos uploaded daily!\nSubscribe and turn on notifications to practice every day 🔔`;
+  desc += `\n${formatLocaleTemplate(pack.upload.subscribeMessage, vars)}`;
 
   // Add hashtags
-  desc += `\n\n#${targetLang.replace(/\s/g, '')} #${isKorean ? '듣기연습' : 'ListeningPractice'} #${isKorean ? '언어학습' : 'LanguageLearning'}`;
+  desc += `\n\n${pack.upload.hashtags
+    .map((tag) => `#${formatLocaleTemplate(tag, vars).replace(/\s/g, '')}`)
+    .join(' ')}`;
 
   return desc;
 }
 
 function generateTags(config: ChannelConfig, script: ScriptMetadata): string[] {
-  const isKorean = config.meta.nativeLanguage === 'Korean';
-  const targetLang = config.meta.targetLanguage;
-
-  const baseTags = isKorean
-    ? [
-        `${targetLang} 듣기`,
-        `${targetLang} 회화`,
-        `${targetLang} 공부`,
-        `${targetLang} 학습`,
-        '듣기 연습',
-        '언어 학습',
-        '외국어 공부',
-        '리스닝',
-      ]
-    : [
-        `${targetLang} listening`,
-        `${targetLang} practice`,
-        `learn ${targetLang}`,
-        `${targetLang} conversation`,
-        'listening practice',
-        'language learning',
-      ];
+  const pack = getLocalePack(config.meta.nativeLanguage);
+  const baseTags = pack.upload.tags.map((tag) =>
+    formatLocaleTemplate(tag, { targetLanguage: config.meta.targetLanguage })
+  );
 
   // Add topic-related tags
   const topicTags = script.metadata.topic
@@ -12,12 +12,16 @@
 import 'dotenv/config';
 import { promises as fs } from 'fs';
 import path from 'path';
-import { bundle } from '@remotion/bundler';
-import { renderMedia, selectComposition } from '@remotion/renderer';
 import type { Script } from '../src/script/types';
 import type { ChannelConfig } from '../src/config/types';
-import type { AudioFile } from '../src/tts/types';
 import { generateQuizChoices } from '../src/compositions/ListeningQuizShort';
+import {
+  formatShortsRenderSummary,
+  getChannelPublicDir,
+  getFailedShorts,
+  loadEpisodeAssets,
+  renderEpisodeQuizShorts,
+} from '../src/render';
 
 async function renderQuizShorts() {
   const args = process.argv.slice(2);
@@ -38,8 +42,7 @@ Examples:
 
   const channelId = args[0];
   const folderName = args[1];
-  const outputDir = path.join(process.cwd(), 'output', channelId, folderName);
-  const channelOutputDir = path.join(process.cwd(), 'output', channelId);
+  const outputDir = path.join(getChannelPublicDir(channelId), folderName);
 
   // Verify directory exists
   try {
@@ -49,146 +52,30 @@ Examples:
     process.exit(1);
   }
 
-  // Create shorts output directory
-  const shortsDir = path.join(outputDir, 'quiz-shorts');
-  await fs.mkdir(shortsDir, { recursive: true });
-
-  // Find script file
-  const files = await fs.readdir(outputDir);
-  const scriptFile = files.find(
-    (f) => f.endsWith('.json') && f.match(/^\d{4}-\d{2}-\d{2}_.*\.json$/)
-  );
-
-  if (!scriptFile) {
-    console.error(`❌ No script file found in ${outputDir}`);
-    process.exit(1);
-  }
-
-  // Load script
-  const scriptPath = path.join(outputDir, scriptFile);
-  const scriptContent = await fs.readFile(scriptPath, 'utf-8');
-  const script: Script = JSON.parse(scriptContent);
-
-  // Load channel config
-  const configPath = path.join(process.cwd(), 'channels', `${channelId}.json`);
-  const configContent = await fs.readFile(configPath, 'utf-8');
-  const config: ChannelConfig = JSON.parse(configContent);
-
-  // Load audio manifest
-  const manifestPath = path.join(outputDir, 'audio/manifest.json');
-  const manifestContent = await fs.readFile(manifestPath, 'utf-8');
-  const rawAudioFiles: AudioFile[] = JSON.parse(manifestContent);
-
-  // Convert to staticFile paths
-  const audioFiles: AudioFile[] = rawAudioFiles.map((af) => ({
-    ...af,
-    path: `${folderName}/audio/${path.basename(af.path)}`,
-  }));
+  const episode = await loadEpisodeAssets(channelId, outputDir);
+  const { script, config } = episode;
 
   console.log(`\n📱 Quiz Shorts Renderer`);
   console.log(`   Channel: ${channelId}`);
   console.log(`   Folder: ${folderName}`);
   console.log(`   Script: ${script.metadata.title.target}`);
   console.log(`   Sentences: ${script.sentences.length}`);
+  console.log(`   Background: ${episode.shortsBackgroundImage}`);
 
-  // Check for background image
-  const shortsBackgroundPath = path.join(outputDir, 'episode-shorts-background.png');
-  let backgroundImage: string;
-  try {
-    await fs.access(shortsBackgroundPath);
-    backgroundImage = `${folderName}/episode-shorts-background.png`;
-    console.log(`   Background: episode-shorts-background.png (9:16)`);
-  } catch {
-    backgroundImage = `${folderName}/background.png`;
-    console.log(`   Background: background.png (16:9 fallback)`);
-  }
-
-  // Copy common assets (ensure directory exists)
-  const commonAssetsDest = path.join(channelOutputDir, 'assets', 'common');
-  await fs.mkdir(commonAssetsDest, { recursive: true });
-
-  // Bundle Remotion project
-  console.log('\n📦 Bundling Remotion project...');
-  const bundleLocation = await bundle({
-    entryPoint: path.join(process.cwd(), 'src/index.ts'),
-    webpackOverride: (cfg) => cfg,
-    publicDir: channelOutputDir,
-  });
-
-  // Render each sentence as a Quiz Short
-  const totalSentences = script.sentences.length;
-  console.log(`\n🎬 Rendering ${totalSentences} Quiz Shorts...\n`);
-
-  for (let i = 0; i < script.sentences.length; i++) {
-    const sentence = script.sentences[i];
-    const audioFile = audioFiles.find((af) => af.sentenceId === sentence.id && af.speed === '1.0x');
-    const slowAudioFile = audioFiles.find(
-      (af) => af.sentenceId === sentence.id && af.speed === '0.8x'
-    );
-
-    if (!audioFile) {
-      console.warn(`   ⚠️ No audio for sentence ${sentence.id}, skipping`);
-      continue;
-    }
-
-    // Generate quiz choices
-    const quizSentence = {
-      ...sentence,
-      choices: generateQuizChoices(sentence),
-    };
-
-    const compositionId = 'ListeningQuizShort';
-
-    const inputProps = {
-      sentence: quizSentence,
-      audioFile,
-      slowAudioFile,
-      config,
-      backgroundImage,
-      sentenceIndex: i + 1,
-      episodeTitle: script.metadata.title.native,
-    };
-
-    console.log(`[${i + 1}/${totalSentences}] "${sentence.target.substring(0, 40)}..."`);
-    console.log(
-      `   Choices: ${quizSentence.choices.map((c) => (c.isCorrect ? `✓${c.text}` : c.text)).join(' | ')}`
-    );
-
-    try {
-      const composition = await selectComposition({
-        serveUrl: bundleLocation,
-        id: compositionId,
-        inputProps,
-        timeoutInMilliseconds: 60000,
-      });
-
-      console.log(
-        `   Duration: ${composition.durationInFrames} frames (${(composition.durationInFrames / 30).toFixed(1)}s)`
-      );
-
-      const outputPath = path.join(shortsDir, `quiz_${String(i + 1).padStart(2, '0')}.mp4`);
-
-      await renderMedia({
-        composition,
-        serveUrl: bundleLocation,
-        codec: 'h264',
-        outputLocation: outputPath,
-        inputProps,
-        timeoutInMilliseconds: 120000,
-        onProgress: ({ progress }) => {
-          process.stdout.write(`\r   Progress: ${(progress * 100).toFixed(1)}%`);
-        },
-      });
-
-      const stats = await fs.stat(outputPath);
-      console.log(`\r   ✅ Done (${(stats.size / 1024 / 1024).toFixed(2)} MB)                    `);
-    } catch (error) {
-      console.error(`\n   ❌ Failed: ${error}`);
-    }
-  }
+  const shortsDir = path.join(outputDir, 'quiz-shorts');
+  const summary = await renderEpisodeQuizShorts(episode, { dirName: 'quiz-shorts' });
 
-  console.log(`\n✅ All Quiz Shorts rendered!`);
+  const failed = getFailedShorts(summary);
+  console.log(
+    failed.length === 0
+      ? `\n✅ All Quiz Shorts rendered!`
+      : `\n❌ ${failed.length} Quiz Shorts failed (re-run to retry only the failed ones)`
+  );
+  console.log(formatShortsRenderSummary(summary));
   console.log(`📁 Output: ${shortsDir}`);
+  if (failed.length > 0) {
+    process.exit(1);
+  }
 
   // Generate upload info
   await generateQuizShortsUploadInfo(script, config, shortsDir);
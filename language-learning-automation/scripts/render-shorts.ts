@@ -12,13 +12,18 @@
 import 'dotenv/config';
 import { promises as fs } from 'fs';
 import path from 'path';
-import { bundle } from '@remotion/bundler';
-import { renderMedia, selectComposition } from '@remotion/renderer';
 import type { Script } from '../src/script/types';
-import type { ChannelConfig } from '../src/config/types';
-import type { AudioFile } from '../src/tts/types';
-import { generateQuizChoices } from '../src/compositions/ListeningQuizShort';
+import {
+  formatShortsRenderSummary,
+  getChannelPublicDir,
+  getFailedShorts,
+  loadEpisodeAssets,
+  prepareQuizBgm,
+  renderEpisodeQuizShorts,
+} from '../src/render';
 import { GEMINI_MODELS } from '@/config/gemini';
+import { withApiKey } from '@/config/api-keys';
+import { trackUsage } from '@/usage/tracker';
 
 async function renderShorts() {
   const args = process.argv.slice(2);
@@ -39,8 +44,7 @@ Examples:
 
   const channelId = args[0];
   const folderName = args[1];
-  const outputDir = path.join(process.cwd(), 'output', channelId, folderName);
-  const channelOutputDir = path.join(process.cwd(), 'output', channelId);
+  const outputDir = path.join(getChannelPublicDir(channelId), folderName);
 
   // Verify directory exists
   try {
@@ -50,211 +54,46 @@ Examples:
     process.exit(1);
   }
 
-  // Create shorts output directory
-  const shortsDir = path.join(outputDir, 'shorts');
-  await fs.mkdir(shortsDir, { recursive: true });
-
-  // Find script file
-  const files = await fs.readdir(outputDir);
-  const scriptFile = files.find(
-    (f) => f.endsWith('.json') && f.match(/^\d{4}-\d{2}-\d{2}_.*\.json$/)
-  );
-
-  if (!scriptFile) {
-    console.error(`❌ No script file found in ${outputDir}`);
-    process.exit(1);
-  }
-
-  // Load script
-  const scriptPath = path.join(outputDir, scriptFile);
-  const scriptContent = await fs.readFile(scriptPath, 'utf-8');
-  let script: Script = JSON.parse(scriptContent);
-
-  // Load channel config
-  const configPath = path.join(process.cwd(), 'channels', `${channelId}.json`);
-  const configContent = await fs.readFile(configPath, 'utf-8');
-  const config: ChannelConfig = JSON.parse(configContent);
+  const episode = await loadEpisodeAssets(channelId, outputDir);
 
   console.log(`\n📱 Quiz Shorts Renderer`);
   console.log(`   Channel: ${channelId}`);
   console.log(`   Folder: ${folderName}`);
-  console.log(`   Script: ${script.metadata.title.target}`);
-  console.log(`   Sentences: ${script.sentences.length}`);
+  console.log(`   Script: ${episode.script.metadata.title.target}`);
+  console.log(`   Sentences: ${episode.script.sentences.length}`);
 
   // Check if any sentence is missing wrongWordChoices (단어 기반 오답)
-  const needsWrongWords = script.sentences.some(
+  const needsWrongWords = episode.script.sentences.some(
     (s) => !s.wrongWordChoices || s.wrongWordChoices.length < 2
   );
 
   if (needsWrongWords) {
     console.log('\n🤖 Generating missing wrongWordChoices with GPT...');
-    script = await generateMissingWrongWordChoices(script);
+    episode.script = await generateMissingWrongWordChoices(episode.script);
     // Save updated script
-    await fs.writeFile(scriptPath, JSON.stringify(script, null, 2));
+    await fs.writeFile(episode.scriptPath, JSON.stringify(episode.script, null, 2));
     console.log('   ✅ Updated script with wrongWordChoices');
   }
 
-  // Load audio manifest
-  const manifestPath = path.join(outputDir, 'audio/manifest.json');
-  const manifestContent = await fs.readFile(manifestPath, 'utf-8');
-  const rawAudioFiles: AudioFile[] = JSON.parse(manifestContent);
-
-  // Convert to staticFile paths
-  const audioFiles: AudioFile[] = rawAudioFiles.map((af) => ({
-    ...af,
-    path: `${folderName}/audio/${path.basename(af.path)}`,
-  }));
-
-  // Check for background image
-  const backgroundImage = `${folderName}/background.png`;
-  console.log(`   Background: ${backgroundImage}`);
+  console.log(`   Background: ${episode.shortsBackgroundImage}`);
 
   // Setup BGM - copy from channel assets or fallback to english
-  let bgmPath: string | undefined;
-  const channelBgmPath = path.join(process.cwd(), 'assets', channelId, 'quiz_bgm.mp3');
-  const fallbackBgmPath = path.join(process.cwd(), 'assets', 'english', 'quiz_bgm.mp3');
-  const targetAssetsDir = path.join(channelOutputDir, 'assets');
-  const targetBgmPath = path.join(targetAssetsDir, 'quiz_bgm.mp3');
-
-  // Ensure assets directory exists
-  await fs.mkdir(targetAssetsDir, { recursive: true });
-
-  try {
-    // Check if channel has its own BGM
-    await fs.access(channelBgmPath);
-    await fs.copyFile(channelBgmPath, targetBgmPath);
-    bgmPath = 'assets/quiz_bgm.mp3';
-    console.log(`   BGM: ${channelBgmPath}`);
-  } catch {
-    // Fallback to english BGM
-    try {
-      await fs.access(fallbackBgmPath);
-      await fs.copyFile(fallbackBgmPath, targetBgmPath);
-      bgmPath = 'assets/quiz_bgm.mp3';
-      console.log(`   BGM: ${fallbackBgmPath} (fallback)`);
-    } catch {
-      console.log(`   BGM: Not found, skipping`);
-    }
-  }
+  const bgmPath = await prepareQuizBgm(channelId);
+  console.log(`   BGM: ${bgmPath ?? 'Not found, skipping'}`);
 
-  // Bundle Remotion project
-  console.log('\n📦 Bundling Remotion project...');
-  const bundleLocation = await bundle({
-    entryPoint: path.join(process.cwd(), 'src/index.ts'),
-    webpackOverride: (cfg) => cfg,
-    publicDir: channelOutputDir,
-  });
-
-  // Render each sentence as a Quiz Short
-  const totalSentences = script.sentences.length;
-  console.log(`\n🎬 Rendering ${totalSentences} Quiz Shorts...\n`);
-
-  for (let i = 0; i < script.sentences.length; i++) {
-    const sentence = script.sentences[i];
-    const audioFile = audioFiles.find((af) => af.sentenceId === sentence.id && af.speed === '1.0x');
-    const slowAudioFile = audioFiles.find(
-      (af) => af.sentenceId === sentence.id && af.speed === '0.8x'
-    );
+  const summary = await renderEpisodeQuizShorts(episode, { bgmPath });
 
-    if (!audioFile) {
-      console.warn(`   ⚠️ No audio for sentence ${sentence.id}, skipping`);
-      continue;
-    }
-
-    // Generate quiz choices from wrongWordChoices (단어 기반)
-    const quizSentence = {
-      ...sentence,
-      choices:
-        sentence.wrongWordChoices && sentence.wrongWordChoices.length >= 2
-          ? createChoicesFromWrongWords(
-              sentence.blankAnswer,
-              sentence.wrongWordChoices,
-              sentence.id
-            )
-          : generateQuizChoices(sentence),
-    };
-
-    const compositionId = 'ListeningQuizShort';
-
-    const inputProps = {
-      sentence: quizSentence,
-      audioFile,
-      slowAudioFile,
-      config,
-      backgroundImage,
-      sentenceIndex: i + 1,
-      episodeTitle: script.metadata.title.native,
-      // 동적 타이밍용 duration 전달
-      audioDuration: audioFile.duration,
-      slowAudioDuration: slowAudioFile?.duration,
-      // BGM
-      bgmPath,
-    };
-
-    console.log(`[${i + 1}/${totalSentences}] "${sentence.target.substring(0, 40)}..."`);
-
-    try {
-      const composition = await selectComposition({
-        serveUrl: bundleLocation,
-        id: compositionId,
-        inputProps,
-        timeoutInMilliseconds: 60000,
-      });
-
-      console.log(
-        `   Duration: ${composition.durationInFrames} frames (${(composition.durationInFrames / 30).toFixed(1)}s)`
-      );
-
-      const outputPath = path.join(shortsDir, `quiz_${String(i + 1).padStart(2, '0')}.mp4`);
-
-      await renderMedia({
-        composition,
-        serveUrl: bundleLocation,
-        codec: 'h264',
-        outputLocation: outputPath,
-        inputProps,
-        timeoutInMilliseconds: 120000,
-        onProgress: ({ progress }) => {
-          process.stdout.write(`\r   Progress: ${(progress * 100).toFixed(1)}%`);
-        },
-      });
-
-      // Remove metadata (Remotion watermark)
-      const { removeVideoMetadata } = await import('../src/video/utils');
-      await removeVideoMetadata(outputPath, true);
-
-      const stats = await fs.stat(outputPath);
-      console.log(`\r   ✅ Done (${(stats.size / 1024 / 1024).toFixed(2)} MB)                    `);
-    } catch (error) {
-      console.error(`\n   ❌ Failed: ${error}`);
-    }
-  }
-
-  console.log(`\n✅ All Quiz Shorts rendered!`);
-  console.log(`📁 Output: ${shortsDir}`);
-}
-
-/**
- * Create quiz choices from wrongWordChoices array (단어 기반)
- */
-function createChoicesFromWrongWords(
-  blankAnswer: string,
-  wrongWordChoices: string[],
-  sentenceId: number
-): Array<{ text: string; isCorrect: boolean }> {
-  const correctIndex = sentenceId % 3;
-  const choices: Array<{ text: string; isCorrect: boolean }> = [];
-  let wrongIdx = 0;
-
-  for (let i = 0; i < 3; i++) {
-    if (i === correctIndex) {
-      choices.push({ text: blankAnswer, isCorrect: true });
-    } else {
-      choices.push({ text: wrongWordChoices[wrongIdx++] || blankAnswer, isCorrect: false });
-    }
+  const failed = getFailedShorts(summary);
+  console.log(
+    failed.length === 0
+      ? `\n✅ All Quiz Shorts rendered!`
+      : `\n❌ ${failed.length} Quiz Shorts failed (re-run to retry only the failed ones)`
+  );
+  console.log(formatShortsRenderSummary(summary));
+  console.log(`📁 Output: ${path.join(outputDir, 'shorts')}`);
+  if (failed.length > 0) {
+    process.exit(1);
   }
-
-  return choices;
 }
 
 /**
@@ -263,15 +102,11 @@ function createChoicesFromWrongWords(
 async function generateMissingWrongWordChoices(script: Script): Promise<Script> {
   const { GoogleGenerativeAI } = await import('@google/generative-ai');
 
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
+  if (!process.env.GEMINI_API_KEY) {
     console.warn('   ⚠️ GEMINI_API_KEY not set, using fallback wrongWordChoices');
     return script;
   }
 
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: GEMINI_MODELS.text });
-
   const sentencesNeedingWrongWords = script.sentences.filter(
     (s) => !s.wrongWordChoices || s.wrongWordChoices.length < 2
   );
@@ -317,7 +152,19 @@ Example Output:
 Generate ONLY the JSON output.`;
 
   try {
-    const result = await model.generateContent(prompt);
+    const result = await trackUsage(
+      { service: 'gemini_text', model: GEMINI_MODELS.text },
+      () =>
+        withApiKey('gemini_text', (apiKey) =>
+          new GoogleGenerativeAI(apiKey)
+            .getGenerativeModel({ model: GEMINI_MODELS.text })
+            .generateContent(prompt)
+        ),
+      ({ response }) => ({
+        inputTokens: response.usageMetadata?.promptTokenCount,
+        outputTokens: response.usageMetadata?.candidatesTokenCount,
+      })
+    );
     const responseText = result.response.text();
 
     // Extract JSON from response
@@ -10,6 +10,7 @@
  */
 
 import { promises as fs } from 'fs';
+import { openEpisodeManifest, resolveEpisodeFile } from '../src/episode';
 import path from 'path';
 
 async function copyDir(src: string, dest: string): Promise<void> {
@@ -98,13 +99,13 @@ async function main() {
   }
 
   // Find and copy script.json
-  const files = await fs.readdir(baseDir);
-  const scriptFile = files.find(f => f.endsWith('.json') && !f.includes('manifest'));
+  const manifest = await openEpisodeManifest(baseDir, channelId);
+  const scriptPath = resolveEpisodeFile(baseDir, manifest, 'script');
   
-  if (scriptFile) {
-    console.log(`📝 Copying ${scriptFile} → public/script.json`);
+  if (scriptPath) {
+    console.log(`📝 Copying ${path.basename(scriptPath)} → public/script.json`);
     await fs.copyFile(
-      path.join(baseDir, scriptFile),
+      scriptPath,
       path.join(publicDir, 'script.json')
     );
   }
@@ -0,0 +1,80 @@
+/**
+ * Veo 작업 큐 워커
+ * output/veo-jobs.json의 작업을 제출/폴링/다운로드 (중단된 작업 이어받기)
+ *
+ * Usage:
+ *   npx tsx scripts/veo-worker.ts
+ *   npx tsx scripts/veo-worker.ts --once
+ *   npx tsx scripts/veo-worker.ts --max-in-flight 4 --timeout 1800
+ *   npx tsx scripts/veo-worker.ts --enqueue prompts.json
+ *
+ * prompts.json: [{ "prompt": "...", "outputPath": "output/clips/a.mp4", "channelId": "cat_interview" }]
+ */
+
+import 'dotenv/config';
+import * as fs from 'fs';
+import { z } from 'zod';
+import { enqueueVeoJobs, loadVeoQueue } from '../src/veo/job-store';
+import { summarizeVeoQueue } from '../src/veo/queue';
+import { veoRequestSchema } from '../src/veo/types';
+import { runVeoWorker } from '../src/veo/worker';
+
+const enqueueFileSchema = z.array(
+  veoRequestSchema.extend({
+    outputPath: z.string().min(1),
+    channelId: z.string().optional(),
+  })
+);
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  let once = false;
+  let maxInFlight: number | undefined;
+  let timeoutMs: number | undefined;
+  let enqueueFile: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--once') {
+      once = true;
+    } else if (args[i] === '--max-in-flight' && args[i + 1]) {
+      maxInFlight = parseInt(args[++i], 10);
+    } else if (args[i] === '--timeout' && args[i + 1]) {
+      timeoutMs = parseInt(args[++i], 10) * 1000;
+    } else if (args[i] === '--enqueue' && args[i + 1]) {
+      enqueueFile = args[++i];
+    }
+  }
+
+  console.log('🎞️  Veo Job Worker\n');
+
+  if (enqueueFile) {
+    const entries = enqueueFileSchema.parse(JSON.parse(fs.readFileSync(enqueueFile, 'utf-8')));
+    await enqueueVeoJobs(
+      entries.map(({ outputPath, channelId, ...request }) => ({ request, outputPath, channelId }))
+    );
+  }
+
+  const summary = summarizeVeoQueue(await loadVeoQueue());
+  console.log(
+    `📋 ${summary.queued} queued, ${summary.running} running, ${summary.completed} completed\n`
+  );
+
+  try {
+    const jobs = await runVeoWorker({ once, maxInFlight, timeoutMs });
+    const failed = jobs.filter((job) => job.status === 'failed');
+
+    console.log('\n📊 Result Summary:');
+    for (const job of jobs) {
+      console.log(`   ${job.id}: ${job.status}${job.error ? ` (${job.error})` : ''}`);
+    }
+    if (failed.length > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Failed:', error);
+    process.exit(1);
+  }
+}
+
+main();
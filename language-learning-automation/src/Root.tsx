@@ -20,10 +20,15 @@ import {
   calculateListeningQuizShortDuration,
   generateQuizChoices,
 } from './compositions/ListeningQuizShort';
-import { CatInterviewShort, calculateCatInterviewDuration } from './compositions/CatInterviewShort';
+import {
+  CatInterviewShort,
+  calculateCatInterviewDuration,
+  calculateCatInterviewShortDuration,
+  type CatInterviewShortProps,
+} from './compositions/CatInterviewShort';
 import type { ChannelConfig } from './config/types';
 import type { Script } from './script/types';
-import type { AudioFile } from './tts/types';
+import { type AudioFile, findSlowestAudioFile } from './tts/types';
 
 // =============================================================================
 // Dynamic Loading from public/ folder
@@ -87,6 +92,12 @@ const sampleConfig: ChannelConfig = {
     step3ImageRatio: 0.4,
     subtitlePosition: 'center',
     speakerIndicator: 'left',
+    karaoke: {
+      enabled: true,
+      mode: 'word',
+      upcomingColor: 'rgba(255, 255, 255, 0.45)',
+      activeScale: 1.08,
+    },
   },
   tts: {
     provider: 'openai',
@@ -95,9 +106,11 @@ const sampleConfig: ChannelConfig = {
     targetLanguageCode: 'en-US',
     speed: 1.0,
   },
+  llm: {
+    provider: 'gemini',
+  },
   content: {
     sentenceCount: 6,
-    repeatCount: 3,
     difficulty: 'beginner',
   },
   uiLabels: {
@@ -270,7 +283,7 @@ const step2Duration = calculateStep2Duration(activeScript.sentences, activeAudio
 const step3Duration = calculateStep3Duration(
   activeScript.sentences,
   activeAudioFiles,
-  activeConfig.content.repeatCount
+  activeConfig.content.step3Program
 );
 const step4Duration = calculateStep4Duration(activeAudioFiles);
 
@@ -284,23 +297,27 @@ const introDuration = calculateIntroDuration(
 const totalDuration = calculateTotalDuration(
   activeScript.sentences,
   activeAudioFiles,
-  activeConfig.content.repeatCount,
   VIRAL_TTS_DURATION,
   GUIDE_TTS_DURATION,
   STEP_TTS_DURATIONS,
-  CLOSING_TTS_DURATION
+  CLOSING_TTS_DURATION,
+  activeConfig.content.step3Program
 );
 
 // calculateMetadata function for Main composition (외부로 추출하여 ESLint prop-types 우회)
+const calculateCatInterviewMetadata = ({ props }: { props: CatInterviewShortProps }) => ({
+  durationInFrames: calculateCatInterviewShortDuration(props.dialogues),
+});
+
 const calculateMainMetadata = ({ props }: { props: MainProps }) => {
   const actualDuration = calculateTotalDuration(
     props.script.sentences,
     props.audioFiles,
-    props.config.content.repeatCount,
     props.viralNarrationDuration,
     props.guideNarrationDuration,
     props.stepNarrationDurations,
-    props.closingNarrationDuration
+    props.closingNarrationDuration,
+    props.config.content.step3Program
   );
   return {
     durationInFrames: actualDuration,
@@ -419,6 +436,7 @@ export const RemotionRoot: React.FC = () => {
             femaleText: activeConfig.colors.femaleText,
             nativeText: activeConfig.colors.nativeText,
           },
+          karaoke: activeConfig.layout.karaoke,
         }}
       />
       {/* Step 3: 10번씩 반복 듣기 (Interval Training) */}
@@ -435,9 +453,10 @@ export const RemotionRoot: React.FC = () => {
           sentences: activeScript.sentences,
           audioFiles: activeAudioFiles,
           colors: activeConfig.colors,
-          repeatCount: activeConfig.content.repeatCount,
           imageRatio: activeConfig.layout.step3ImageRatio,
           uiLabels: activeConfig.uiLabels,
+          karaoke: activeConfig.layout.karaoke,
+          program: activeConfig.content.step3Program,
         }}
       />
       {/* Step 4: 다시 자막 없이 듣기 */}
@@ -517,9 +536,9 @@ export const RemotionRoot: React.FC = () => {
       {/* Cat Interview Short - 고양이 인터뷰 영어 학습 (9:16) */}
       <Composition
         id="CatInterviewShort"
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        component={CatInterviewShort as any}
+        component={CatInterviewShort}
         durationInFrames={calculateCatInterviewDuration(2)} // 2개 대화 기본
+        calculateMetadata={calculateCatInterviewMetadata}
         fps={30}
         width={1080}
         height={1920}
@@ -542,9 +561,7 @@ export const RemotionRoot: React.FC = () => {
           activeAudioFiles.find(
             (af) => af.sentenceId === activeScript.sentences[0]?.id && af.speed === '1.0x'
           )?.duration,
-          activeAudioFiles.find(
-            (af) => af.sentenceId === activeScript.sentences[0]?.id && af.speed === '0.8x'
-          )?.duration
+          findSlowestAudioFile(activeAudioFiles, activeScript.sentences[0]?.id)?.duration
         )}
         fps={30}
         width={1080}
@@ -558,9 +575,7 @@ export const RemotionRoot: React.FC = () => {
             activeAudioFiles.find(
               (af) => af.sentenceId === activeScript.sentences[0]?.id && af.speed === '1.0x'
             ) || activeAudioFiles[0],
-          slowAudioFile: activeAudioFiles.find(
-            (af) => af.sentenceId === activeScript.sentences[0]?.id && af.speed === '0.8x'
-          ),
+          slowAudioFile: findSlowestAudioFile(activeAudioFiles, activeScript.sentences[0]?.id),
           config: activeConfig,
           backgroundImage: 'background.png',
           sentenceIndex: 1,
@@ -568,9 +583,8 @@ export const RemotionRoot: React.FC = () => {
           audioDuration: activeAudioFiles.find(
             (af) => af.sentenceId === activeScript.sentences[0]?.id && af.speed === '1.0x'
           )?.duration,
-          slowAudioDuration: activeAudioFiles.find(
-            (af) => af.sentenceId === activeScript.sentences[0]?.id && af.speed === '0.8x'
-          )?.duration,
+          slowAudioDuration: findSlowestAudioFile(activeAudioFiles, activeScript.sentences[0]?.id)
+            ?.duration,
         }}
         calculateMetadata={({ props }) => {
           return {
@@ -1,6 +1,6 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-import { GEMINI_API_URLS, getGeminiApiKey, type GeminiImageResponse } from '../config/gemini';
+import { fetchGeminiImage, type GeminiImageResponse } from '../config/gemini';
 import type { CharacterDefinition } from './types';
 import { buildCharacterPrompt, type PromptStyle } from './prompts';
 
@@ -21,7 +21,6 @@ export async function generateReferenceImage(
   outputPath?: string,
   style: PromptStyle = 'candid_film'
 ): Promise<string> {
-  const apiKey = getGeminiApiKey();
   const prompt = buildCharacterPrompt(character, style);
 
   console.log(`🎨 Generating reference image for character: ${character.name}...`);
@@ -42,13 +41,7 @@ export async function generateReferenceImage(
     },
   };
 
-  const response = await fetch(`${GEMINI_API_URLS.image}?key=${apiKey}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(requestBody),
-  });
+  const response = await fetchGeminiImage(requestBody);
 
   if (!response.ok) {
     const errorText = await response.text();
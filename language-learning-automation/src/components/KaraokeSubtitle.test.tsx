@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { KaraokeSubtitle } from './KaraokeSubtitle';
+
+describe('KaraokeSubtitle Component', () => {
+  const words = [
+    { word: 'Good', start: 0.2, end: 0.5 },
+    { word: 'morning', start: 0.6, end: 1.0 },
+    { word: 'everyone', start: 1.1, end: 1.6 },
+  ];
+
+  it('should render static text when no word timings are given', () => {
+    render(<KaraokeSubtitle text="Good morning" currentTime={0} color="#FFFFFF" />);
+    expect(screen.getByTestId('karaoke-subtitle')).toHaveTextContent('Good morning');
+    expect(screen.queryAllByTestId('karaoke-word')).toHaveLength(0);
+  });
+
+  it('should mark spoken, active and upcoming words', () => {
+    render(
+      <KaraokeSubtitle
+        text="Good morning, everyone!"
+        words={words}
+        currentTime={0.8}
+        color="#87CEEB"
+      />
+    );
+    const states = screen.getAllByTestId('karaoke-word').map((el) => el.dataset.state);
+    expect(states).toEqual(['spoken', 'active', 'upcoming']);
+  });
+
+  it('should keep punctuation from the display text', () => {
+    render(
+      <KaraokeSubtitle text="Good morning, everyone!" words={words} currentTime={2} color="#FFF" />
+    );
+    expect(screen.getByTestId('karaoke-subtitle')).toHaveTextContent('Good morning, everyone!');
+  });
+
+  it('should colour spoken words with the speaker colour', () => {
+    render(
+      <KaraokeSubtitle
+        text="Good morning everyone"
+        words={words}
+        currentTime={0.55}
+        color="#FF0000"
+        upcomingColor="#00FF00"
+      />
+    );
+    const [spoken, , upcoming] = screen.getAllByTestId('karaoke-word');
+    expect(spoken).toHaveStyle({ color: 'rgb(255, 0, 0)' });
+    expect(upcoming).toHaveStyle({ color: 'rgb(0, 255, 0)' });
+  });
+
+  it('should use the highlight colour for the highlighted phrase', () => {
+    render(
+      <KaraokeSubtitle
+        text="Good morning everyone"
+        words={words}
+        currentTime={2}
+        color="#FFFFFF"
+        highlightPhrase="morning"
+        highlightColor="#FFD700"
+      />
+    );
+    const [, highlighted] = screen.getAllByTestId('karaoke-word');
+    expect(highlighted).toHaveStyle({ color: 'rgb(255, 215, 0)' });
+  });
+});
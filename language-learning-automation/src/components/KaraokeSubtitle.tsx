@@ -0,0 +1,123 @@
+import React from 'react';
+import type { WordTiming } from '../tts/types';
+import { mapTextToWordTimings } from '../tts/alignment';
+
+export interface KaraokeSubtitleProps {
+  text: string;
+  /** 단어별 타이밍 (없으면 정적 자막) */
+  words?: WordTiming[];
+  /** 오디오 시작 기준 현재 시간 (초) */
+  currentTime: number;
+  /** 발화된 단어 색 (화자 색) */
+  color: string;
+  upcomingColor?: string;
+  mode?: 'word' | 'sweep';
+  activeScale?: number;
+  /** 강조할 단어/구 (예: blankAnswer) */
+  highlightPhrase?: string;
+  highlightColor?: string;
+  fontSize?: number;
+  fontWeight?: number;
+  textAlign?: 'left' | 'center' | 'right';
+  marginBottom?: number;
+  style?: React.CSSProperties;
+}
+
+type WordState = 'spoken' | 'active' | 'upcoming';
+
+export const KaraokeSubtitle: React.FC<KaraokeSubtitleProps> = ({
+  text,
+  words,
+  currentTime,
+  color,
+  upcomingColor = 'rgba(255, 255, 255, 0.45)',
+  mode = 'word',
+  activeScale = 1.08,
+  highlightPhrase,
+  highlightColor = '#FFD700',
+  fontSize = 48,
+  fontWeight = 600,
+  textAlign = 'center',
+  marginBottom = 20,
+  style,
+}) => {
+  const containerStyle: React.CSSProperties = {
+    color,
+    fontSize,
+    fontWeight,
+    textAlign,
+    marginBottom,
+    lineHeight: 1.4,
+    fontFamily: 'Pretendard, -apple-system, BlinkMacSystemFont, sans-serif',
+    ...style,
+  };
+
+  // 타이밍이 없으면 일반 자막처럼 렌더링
+  if (!words || words.length === 0) {
+    return (
+      <div style={containerStyle} data-testid="karaoke-subtitle">
+        {text}
+      </div>
+    );
+  }
+
+  const highlightTokens = new Set(
+    (highlightPhrase ?? '')
+      .split(/\s+/)
+      .map((w) => w.toLowerCase().replace(/[^\p{L}\p{N}']/gu, ''))
+      .filter(Boolean)
+  );
+  const tokens = mapTextToWordTimings(text, words);
+
+  return (
+    <div style={containerStyle} data-testid="karaoke-subtitle">
+      {tokens.map(({ token, timing }, i) => {
+        const state: WordState = !timing
+          ? 'spoken'
+          : currentTime >= timing.end
+            ? 'spoken'
+            : currentTime >= timing.start
+              ? 'active'
+              : 'upcoming';
+        const isHighlight = highlightTokens.has(
+          token.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '')
+        );
+        const spokenColor = isHighlight ? highlightColor : color;
+
+        // sweep 모드: 현재 단어 안에서 진행률만큼 채움
+        const progress =
+          timing && state === 'active'
+            ? Math.min(1, (currentTime - timing.start) / Math.max(timing.end - timing.start, 0.01))
+            : 0;
+        const sweepStyle: React.CSSProperties =
+          mode === 'sweep' && state === 'active'
+            ? {
+                backgroundImage: `linear-gradient(90deg, ${spokenColor} ${progress * 100}%, ${upcomingColor} ${progress * 100}%)`,
+                WebkitBackgroundClip: 'text',
+                backgroundClip: 'text',
+                color: 'transparent',
+              }
+            : {};
+
+        return (
+          <React.Fragment key={i}>
+            <span
+              data-testid="karaoke-word"
+              data-state={state}
+              style={{
+                display: 'inline-block',
+                color: state === 'upcoming' ? upcomingColor : spokenColor,
+                fontWeight: isHighlight ? 800 : undefined,
+                transform: state === 'active' ? `scale(${activeScale})` : undefined,
+                ...sweepStyle,
+              }}
+            >
+              {token}
+            </span>
+            {i < tokens.length - 1 && ' '}
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
 export * from './Subtitle';
+export * from './KaraokeSubtitle';
 export * from './WordMeaning';
 export * from './Logo';
 export * from './StepIndicator';
@@ -25,18 +25,41 @@ import {
 // Types
 // =============================================================================
 
+/** Veo 클립에서 질문/답변이 나오는 시점 (초) */
+export interface CatInterviewTiming {
+  start: number;
+  answerStart: number;
+  end: number;
+}
+
 export interface CatInterviewDialogue {
   question: string; // 한국어 질문 (e.g., "눈이 와요"는?)
   answer: string; // 영어 답변 (e.g., "It's snowing!")
   gesture?: string;
+  /** 답변의 시청자 언어 뜻 (e.g., 눈이 와요) - 없으면 질문에서 추출 */
+  translation?: string;
+  /** 없으면 고정 길이(질문 2초 + 답변 3초)로 순서대로 배치 */
+  timing?: CatInterviewTiming;
 }
 
-export interface CatInterviewShortProps {
+// type (not interface) so it satisfies Remotion's Record<string, unknown> props constraint
+export type CatInterviewShortProps = {
   dialogues: CatInterviewDialogue[];
   videoPath: string; // Veo 생성 영상 경로
   theme: string;
   outfit?: string;
   channelName?: string;
+  /** 채널명 앞 아이콘 */
+  channelIcon?: string;
+  /** 세로(9:16)로 크롭된 영상이면 화면 전체에 깔고 상/하단은 그라데이션 처리 */
+  fullFrameVideo?: boolean;
+};
+
+/** 대화 한 개의 프레임 구간 */
+interface DialogueSegment {
+  start: number;
+  answerStart: number;
+  end: number;
 }
 
 // =============================================================================
@@ -68,6 +91,35 @@ export function calculateCatInterviewDuration(dialogueCount: number): number {
   return dialogueCount * perDialogue + FPS;
 }
 
+/**
+ * 대화별 타이밍(초)이 있으면 마지막 답변 끝 + 1초, 없으면 고정 길이
+ */
+export function calculateCatInterviewShortDuration(dialogues: CatInterviewDialogue[]): number {
+  const segments = getDialogueSegments(dialogues);
+  const lastEnd = segments.length > 0 ? segments[segments.length - 1].end : 0;
+  return Math.max(calculateCatInterviewDuration(0), lastEnd + FPS);
+}
+
+// 대화별 질문/답변 프레임 구간
+function getDialogueSegments(dialogues: CatInterviewDialogue[]): DialogueSegment[] {
+  const perDialogue = QUESTION_DURATION + ANSWER_DURATION + TRANSITION_DURATION;
+  return dialogues.map((dialogue, i) => {
+    if (dialogue.timing) {
+      return {
+        start: Math.round(dialogue.timing.start * FPS),
+        answerStart: Math.round(dialogue.timing.answerStart * FPS),
+        end: Math.round(dialogue.timing.end * FPS),
+      };
+    }
+    const start = i * perDialogue;
+    return {
+      start,
+      answerStart: start + QUESTION_DURATION,
+      end: start + QUESTION_DURATION + ANSWER_DURATION,
+    };
+  });
+}
+
 // =============================================================================
 // Main Component
 // =============================================================================
@@ -76,11 +128,21 @@ export const CatInterviewShort: React.FC<CatInterviewShortProps> = ({
   dialogues,
   videoPath,
   channelName = '나비의 영어교실',
+  channelIcon = '🐱',
+  fullFrameVideo = false,
 }) => {
-  const perDialogue = QUESTION_DURATION + ANSWER_DURATION + TRANSITION_DURATION;
+  const segments = getDialogueSegments(dialogues);
 
   return (
     <AbsoluteFill style={{ backgroundColor: '#000' }}>
+      {/* 세로 영상은 화면 전체 배경으로 */}
+      {fullFrameVideo && (
+        <OffthreadVideo
+          src={staticFile(videoPath)}
+          style={{ width: WIDTH, height: HEIGHT, objectFit: 'cover' }}
+        />
+      )}
+
       {/* 상단 검정 영역 (420px) - 타이틀 */}
       <div
         style={{
@@ -89,7 +151,7 @@ export const CatInterviewShort: React.FC<CatInterviewShortProps> = ({
           left: 0,
           right: 0,
           height: TOP_BLACK_HEIGHT,
-          backgroundColor: '#000',
+          background: fullFrameVideo ? 'linear-gradient(#000, transparent)' : '#000',
         }}
       >
         <TopTitleArea dialogues={dialogues} />
@@ -106,16 +168,18 @@ export const CatInterviewShort: React.FC<CatInterviewShortProps> = ({
           overflow: 'hidden',
         }}
       >
-        <OffthreadVideo
-          src={staticFile(videoPath)}
-          style={{
-            width: WIDTH,
-            height: VIDEO_HEIGHT,
-            objectFit: 'cover',
-          }}
-        />
+        {!fullFrameVideo && (
+          <OffthreadVideo
+            src={staticFile(videoPath)}
+            style={{
+              width: WIDTH,
+              height: VIDEO_HEIGHT,
+              objectFit: 'cover',
+            }}
+          />
+        )}
         {/* 영상 위에 질문/답변 오버레이 */}
-        <CenterOverlay dialogues={dialogues} perDialogue={perDialogue} />
+        <CenterOverlay dialogues={dialogues} segments={segments} />
       </div>
 
       {/* 하단 검정 영역 (350px) - 채널명 */}
@@ -126,10 +190,10 @@ export const CatInterviewShort: React.FC<CatInterviewShortProps> = ({
           left: 0,
           right: 0,
           height: BOTTOM_PADDING,
-          backgroundColor: '#000',
+          background: fullFrameVideo ? 'linear-gradient(transparent, #000)' : '#000',
         }}
       >
-        <ChannelNameArea channelName={channelName} />
+        <ChannelNameArea channelName={channelName} channelIcon={channelIcon} />
       </div>
     </AbsoluteFill>
   );
@@ -148,13 +212,14 @@ const TopTitleArea: React.FC<{
   const firstDialogue = dialogues[0];
   if (!firstDialogue) return null;
 
-  // 질문에서 따옴표와 "는?" 제거하고 "영어로?" 추가
+  // 질문에서 따옴표와 "는?" 제거하고 "영어로?" 추가 (translation이 있으면 그대로 사용)
   // e.g., "눈사람 만들자"는? → 눈사람 만들자 영어로?
-  const questionText =
+  const phrase =
+    firstDialogue.translation ??
     firstDialogue.question
       .replace(/^"/, '') // 앞 따옴표 제거
-      .replace(/"는\?$/, '') // 뒤 "는? 제거
-      .trim() + ' 영어로?';
+      .replace(/"는\?$/, ''); // 뒤 "는? 제거
+  const questionText = phrase.trim() + ' 영어로?';
 
   // 페이드인 애니메이션
   const opacity = interpolate(frame, [0, 20], [0, 1], { extrapolateRight: 'clamp' });
@@ -216,34 +281,37 @@ const TopTitleArea: React.FC<{
 
 const CenterOverlay: React.FC<{
   dialogues: CatInterviewDialogue[];
-  perDialogue: number;
-}> = ({ dialogues, perDialogue }) => {
+  segments: DialogueSegment[];
+}> = ({ dialogues, segments }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
 
-  // 현재 대화 인덱스
-  const currentIndex = Math.min(Math.floor(frame / perDialogue), dialogues.length - 1);
-  const localFrame = frame - currentIndex * perDialogue;
-
+  // 현재 대화 인덱스 (시작 프레임을 지난 마지막 대화)
+  const currentIndex = segments.reduce((index, s, i) => (frame >= s.start ? i : index), 0);
+  const segment = segments[currentIndex];
   const currentDialogue = dialogues[currentIndex];
-  if (!currentDialogue) return null;
+  if (!currentDialogue || !segment) return null;
+
+  const localFrame = frame - segment.start;
+  const questionDuration = Math.max(segment.answerStart - segment.start, 20);
+  const answerDuration = Math.max(segment.end - segment.answerStart, 30);
 
   // 질문 표시 타이밍
   const questionOpacity = interpolate(
     localFrame,
-    [0, 15, QUESTION_DURATION - 10, QUESTION_DURATION],
+    [0, 15, questionDuration - 10, questionDuration],
     [0, 1, 1, 0.3],
     { extrapolateRight: 'clamp' }
   );
 
   // 답변 표시 타이밍
-  const answerStartFrame = QUESTION_DURATION;
+  const answerStartFrame = segment.answerStart - segment.start;
   const showAnswer = localFrame >= answerStartFrame;
   const answerLocalFrame = localFrame - answerStartFrame;
 
   const answerOpacity = interpolate(
     answerLocalFrame,
-    [0, 15, ANSWER_DURATION - 15, ANSWER_DURATION],
+    [0, 15, answerDuration - 15, answerDuration],
     [0, 1, 1, 0],
     { extrapolateRight: 'clamp', extrapolateLeft: 'clamp' }
   );
@@ -323,7 +391,8 @@ const CenterOverlay: React.FC<{
 
 const ChannelNameArea: React.FC<{
   channelName: string;
-}> = ({ channelName }) => {
+  channelIcon: string;
+}> = ({ channelName, channelIcon }) => {
   return (
     <div
       style={{
@@ -344,7 +413,7 @@ const ChannelNameArea: React.FC<{
           textShadow: '0 2px 8px rgba(0,0,0,0.5)',
         }}
       >
-        🐱 {channelName}
+        {channelIcon} {channelName}
       </div>
     </div>
   );
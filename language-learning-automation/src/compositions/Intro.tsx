@@ -9,6 +9,8 @@ import {
   staticFile,
   random,
 } from 'remotion';
+import type { UILabels } from '../config/types';
+import { formatLocaleTemplate, getLanguageName, getLocalePack, resolveUiLabels } from '../i18n';
 
 /** 스텝 설명 데이터 */
 export interface StepDescription {
@@ -81,58 +83,21 @@ const DEFAULT_STEPS_DURATION = 9 * 30; // 기본 9초 (TTS 없을 때)
 const BUFFER_FRAMES = 15; // 0.5초 여유 (페이드아웃용)
 const CLOSING_PAUSE_FRAMES = 30; // 마무리 후 1초 대기
 
-// 기본 스텝 설명 데이터
-export const DEFAULT_STEP_DESCRIPTIONS: StepDescription[] = [
-  {
-    title: '전체 흐름 파악 (자막 없이 듣기)',
-    description: '자막 없이 소리에만 집중하며, 상황을 상상해보세요.',
-  },
-  {
-    title: '자막으로 내용 이해 하기',
-    description: '자막과 함께 들으며, 안 들렸던 부분을 확인하세요.',
-  },
-  {
-    title: '3단계 반복 듣기',
-    description: '[느리게-빈칸-빠르게] 반복으로 영어가 들리기 시작해요.',
-  },
-  {
-    title: '기적의 순간 (다시 자막 없이 듣기)',
-    description: '놀랍게 선명해진 영어를 직접 확인해보세요!',
-  },
-];
-
 /**
- * uiLabels에서 스텝 설명 생성
+ * uiLabels에서 스텝 설명 생성 (없는 값은 시청자 언어 팩에서 채움)
  */
-export function getStepDescriptionsFromLabels(uiLabels?: {
-  step1Title?: string;
-  step2Title?: string;
-  step3Title?: string;
-  step4Title?: string;
-  step1Desc?: string;
-  step2Desc?: string;
-  step3Desc?: string;
-  step4Desc?: string;
-}): StepDescription[] {
-  if (!uiLabels) return DEFAULT_STEP_DESCRIPTIONS;
+export function getStepDescriptionsFromLabels(
+  uiLabels?: UILabels,
+  nativeLanguage = 'Korean',
+  targetLanguage = 'English'
+): StepDescription[] {
+  const labels = resolveUiLabels(nativeLanguage, targetLanguage, uiLabels);
 
   return [
-    {
-      title: uiLabels.step1Title ?? DEFAULT_STEP_DESCRIPTIONS[0].title,
-      description: uiLabels.step1Desc ?? DEFAULT_STEP_DESCRIPTIONS[0].description,
-    },
-    {
-      title: uiLabels.step2Title ?? DEFAULT_STEP_DESCRIPTIONS[1].title,
-      description: uiLabels.step2Desc ?? DEFAULT_STEP_DESCRIPTIONS[1].description,
-    },
-    {
-      title: uiLabels.step3Title ?? DEFAULT_STEP_DESCRIPTIONS[2].title,
-      description: uiLabels.step3Desc ?? DEFAULT_STEP_DESCRIPTIONS[2].description,
-    },
-    {
-      title: uiLabels.step4Title ?? DEFAULT_STEP_DESCRIPTIONS[3].title,
-      description: uiLabels.step4Desc ?? DEFAULT_STEP_DESCRIPTIONS[3].description,
-    },
+    { title: labels.step1Title, description: labels.step1Desc },
+    { title: labels.step2Title, description: labels.step2Desc },
+    { title: labels.step3Title, description: labels.step3Desc },
+    { title: labels.step4Title, description: labels.step4Desc },
   ];
 }
 
@@ -238,10 +203,11 @@ export const Intro: React.FC<IntroProps> = ({
   );
 
   // 가이드 문구 (시청자 언어에 맞게)
-  const guideMessage = getGuideMessage(nativeLanguage);
+  const guideMessage = getLocalePack(nativeLanguage).intro.guide;
 
   // 스텝 설명 데이터 (uiLabels에서 생성)
-  const steps = stepDescriptions ?? getStepDescriptionsFromLabels(uiLabels);
+  const steps =
+    stepDescriptions ?? getStepDescriptionsFromLabels(uiLabels, nativeLanguage, targetLanguage);
 
   // 파일 경로가 비어있지 않은지 체크
   const hasIntroSound = introSoundPath && introSoundPath.length > 0;
@@ -316,97 +282,15 @@ function getViralMessages(
   customLine1?: string,
   customLine2?: string
 ): { line1: string; line2: string } {
-  // 커스텀 문구가 있으면 사용
-  if (customLine1 && customLine2) {
-    const langName = getLanguageName(targetLanguage, nativeLanguage);
-    return {
-      line1: customLine1.replace('{language}', langName),
-      line2: customLine2.replace('{language}', langName),
-    };
-  }
-
-  // 시청자 언어에 따른 기본 문구
-  const langName = getLanguageName(targetLanguage, nativeLanguage);
-
-  const messages: Record<string, { line1: string; line2: string }> = {
-    Korean: {
-      line1: `${langName} 문장을 반복해서 듣고`,
-      line2: `${langName}가 들리는 순간을 느껴보세요.`,
-    },
-    English: {
-      line1: `Listen to ${langName} sentences repeatedly`,
-      line2: `and feel the moment when ${langName} starts to click.`,
-    },
-    Japanese: {
-      line1: `${langName}の文を繰り返し聞いて`,
-      line2: `${langName}が聞こえる瞬間を感じてください。`,
-    },
-    Chinese: {
-      line1: `反复听${langName}句子`,
-      line2: `感受${langName}开始听懂的那一刻。`,
-    },
+  const { intro } = getLocalePack(nativeLanguage);
+  const vars = { language: getLanguageName(targetLanguage, nativeLanguage), targetLanguage };
+
+  // 커스텀 문구가 둘 다 있으면 사용
+  const useCustom = customLine1 && customLine2;
+  return {
+    line1: formatLocaleTemplate(useCustom ? customLine1 : intro.viralLine1, vars),
+    line2: formatLocaleTemplate(useCustom ? customLine2 : intro.viralLine2, vars),
   };
-
-  return messages[nativeLanguage] || messages['English'];
-}
-
-/**
- * 언어명을 시청자 언어로 변환
- */
-function getLanguageName(targetLanguage: string, nativeLanguage: string): string {
-  const languageNames: Record<string, Record<string, string>> = {
-    Korean: {
-      English: '영어',
-      Japanese: '일본어',
-      Chinese: '중국어',
-      Spanish: '스페인어',
-      French: '프랑스어',
-      German: '독일어',
-      Korean: '한국어',
-      Vietnamese: '베트남어',
-    },
-    English: {
-      English: 'English',
-      Japanese: 'Japanese',
-      Chinese: 'Chinese',
-      Spanish: 'Spanish',
-      French: 'French',
-      German: 'German',
-      Korean: 'Korean',
-      Vietnamese: 'Vietnamese',
-    },
-    Japanese: {
-      English: '英語',
-      Korean: '韓国語',
-      Chinese: '中国語',
-    },
-    Chinese: {
-      English: '英语',
-      Korean: '韩语',
-      Japanese: '日语',
-    },
-  };
-
-  const names = languageNames[nativeLanguage] || languageNames['English'];
-  return names[targetLanguage] || targetLanguage;
-}
-
-/**
- * 가이드 문구 (시청자 언어로 표시)
- */
-function getGuideMessage(nativeLanguage: string): {
-  prefix: string;
-  number: string;
-  suffix: string;
-} {
-  const messages: Record<string, { prefix: string; number: string; suffix: string }> = {
-    Korean: { prefix: '이 영상은 다음 ', number: '네', suffix: ' 단계로 진행됩니다.' },
-    English: { prefix: 'This video consists of ', number: 'four', suffix: ' steps.' },
-    Japanese: { prefix: 'この動画は', number: '4', suffix: 'つのステップで進みます。' },
-    Chinese: { prefix: '本视频分为', number: '四', suffix: '个步骤。' },
-  };
-
-  return messages[nativeLanguage] || messages['English'];
 }
 
 // 바이럴 문구 섹션
@@ -22,7 +22,9 @@ import {
 } from 'remotion';
 import type { Sentence } from '../script/types';
 import type { AudioFile } from '../tts/types';
-import type { ChannelConfig } from '../config/types';
+import type { ChannelConfig, Karaoke } from '../config/types';
+import { getLocalePack } from '../i18n';
+import { KaraokeSubtitle } from '../components/KaraokeSubtitle';
 
 // =============================================================================
 // Types
@@ -37,7 +39,7 @@ export interface QuizSentence extends Sentence {
   choices: QuizChoice[];
 }
 
-export interface ListeningQuizShortProps {
+export type ListeningQuizShortProps = {
   sentence: QuizSentence;
   audioFile: AudioFile;
   slowAudioFile?: AudioFile; // 0.8x 속도 오디오
@@ -50,7 +52,7 @@ export interface ListeningQuizShortProps {
   slowAudioDuration?: number;
   // BGM
   bgmPath?: string;
-}
+};
 
 // =============================================================================
 // Layout Constants (1080x1920 for 9:16)
@@ -402,7 +404,14 @@ export const ListeningQuizShort: React.FC<ListeningQuizShortProps> = ({
 
         {/* Phase 3: Reveal */}
         <Sequence from={phase3Start} durationInFrames={phase3Duration}>
-          <Phase3Reveal sentence={sentence} audioFile={slowAudioFile || audioFile} />
+          <Phase3Reveal
+            sentence={sentence}
+            audioFile={slowAudioFile || audioFile}
+            karaoke={config.layout?.karaoke}
+            speakerColor={
+              sentence.speaker === 'M' ? config.colors.maleText : config.colors.femaleText
+            }
+          />
         </Sequence>
 
         {/* Phase 4: CTA */}
@@ -563,12 +572,7 @@ const Phase1Hook: React.FC<{
   // 스피커 아이콘 펄스 애니메이션
   const pulse = 1 + Math.sin(frame * 0.3) * 0.1;
 
-  const listenText =
-    nativeLanguage === 'Korean'
-      ? '잘 들어보세요!'
-      : nativeLanguage === 'Japanese'
-        ? 'よく聞いてください！'
-        : 'Listen carefully!';
+  const listenText = getLocalePack(nativeLanguage).shorts.quizListen;
 
   return (
     <div
@@ -849,8 +853,12 @@ function splitLongSentence(text: string): { line1: string; line2: string } | nul
 const Phase3Reveal: React.FC<{
   sentence: QuizSentence;
   audioFile: AudioFile;
-}> = ({ sentence, audioFile }) => {
+  karaoke?: Karaoke;
+  speakerColor?: string;
+}> = ({ sentence, audioFile, karaoke, speakerColor = '#FFFFFF' }) => {
   const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+  const AUDIO_DELAY = 15;
 
   const revealDelay = 10;
   const showResult = frame >= revealDelay;
@@ -874,11 +882,11 @@ const Phase3Reveal: React.FC<{
       }}
     >
       {/* Audio - 느린 속도로 재생 */}
-      <Sequence from={15}>
+      <Sequence from={AUDIO_DELAY}>
         {audioFile.path && <Audio src={staticFile(audioFile.path)} volume={1} />}
       </Sequence>
 
-      {/* 빈칸 문장 → 정답 문장으로 전환 */}
+      {/* 빈칸 문장 → 정답 문장으로 전환 (karaoke: 발화에 맞춰 단어 색 변경) */}
       <div
         style={{
           fontSize: 40,
@@ -890,9 +898,25 @@ const Phase3Reveal: React.FC<{
           padding: '0 24px',
         }}
       >
-        {answerRevealOpacity < 0.5
-          ? highlightBlank(sentence.targetBlank, sentence.blankAnswer)
-          : highlightBlankAnswer(sentence.target, sentence.blankAnswer)}
+        {answerRevealOpacity < 0.5 ? (
+          highlightBlank(sentence.targetBlank, sentence.blankAnswer)
+        ) : karaoke?.enabled && audioFile.words ? (
+          <KaraokeSubtitle
+            text={sentence.target}
+            words={audioFile.words}
+            currentTime={(frame - AUDIO_DELAY) / fps}
+            color={speakerColor}
+            upcomingColor={karaoke.upcomingColor}
+            mode={karaoke.mode}
+            activeScale={karaoke.activeScale}
+            highlightPhrase={sentence.blankAnswer}
+            highlightColor="#4CAF50"
+            fontSize={40}
+            marginBottom={0}
+          />
+        ) : (
+          highlightBlankAnswer(sentence.target, sentence.blankAnswer)
+        )}
       </div>
 
       {/* Choices - 가로 배치, 정답 하이라이트 */}
@@ -1092,23 +1116,10 @@ const Phase4CTA: React.FC<{
     extrapolateLeft: 'clamp',
   });
 
-  // Use config values if available, otherwise fallback to hardcoded
-  const defaultQuestion =
-    nativeLanguage === 'Korean'
-      ? '맞추셨나요? 🎉'
-      : nativeLanguage === 'Japanese'
-        ? '正解できましたか？🎉'
-        : 'Did you get it? 🎉';
-
-  const defaultCtaText =
-    nativeLanguage === 'Korean'
-      ? '💬 맞추셨다면 댓글 남겨주세요!'
-      : nativeLanguage === 'Japanese'
-        ? '💬 コメントで教えてね！'
-        : '💬 Leave a comment if you got it!';
-
-  const questionText = shortsTheme?.ctaQuestion || defaultQuestion;
-  const ctaText = shortsTheme?.ctaText || defaultCtaText;
+  // Use config values if available, otherwise the viewer's locale pack
+  const { shorts } = getLocalePack(nativeLanguage);
+  const questionText = shortsTheme?.ctaQuestion || shorts.quizQuestion;
+  const ctaText = shortsTheme?.ctaText || shorts.quizCta;
 
   return (
     <div
@@ -1,17 +1,18 @@
 import React from 'react';
 import { AbsoluteFill, Sequence } from 'remotion';
-import type { ChannelConfig } from '../config/types';
+import type { ChannelConfig, Step3Phase } from '../config/types';
 import type { Script, Sentence } from '../script/types';
 import type { AudioFile } from '../tts/types';
-import { Intro, calculateIntroDuration } from './Intro';
-import { Step1, calculateStep1Duration } from './Step1';
-import { Step2, calculateStep2Duration } from './Step2';
-import { Step3, calculateStep3Duration } from './Step3';
-import { Step4, calculateStep4Duration } from './Step4';
-import { StepTransition, STEP_TRANSITION_DURATION } from './StepTransition';
-import { Ending, ENDING_DURATION } from './Ending';
-
-export interface MainProps {
+import { buildVideoTimeline, getTimelineSegment, TIMELINE_STEPS } from '../timeline';
+import { Intro } from './Intro';
+import { Step1 } from './Step1';
+import { Step2 } from './Step2';
+import { Step3 } from './Step3';
+import { Step4 } from './Step4';
+import { StepTransition } from './StepTransition';
+import { Ending } from './Ending';
+
+export type MainProps = {
   config: ChannelConfig;
   script: Script;
   audioFiles: AudioFile[];
@@ -42,7 +43,7 @@ export interface MainProps {
   endingBackgroundPath?: string;
   /** 엔딩 TTS 경로 */
   endingNarrationPath?: string;
-}
+};
 
 export const Main: React.FC<MainProps> = ({
   config,
@@ -66,61 +67,31 @@ export const Main: React.FC<MainProps> = ({
   const { sentences } = script;
   const { colors, content, theme } = config;
 
-  // Calculate intro duration based on TTS lengths
-  const introDuration = calculateIntroDuration(
-    viralNarrationDuration,
-    guideNarrationDuration,
-    stepNarrationDurations,
-    closingNarrationDuration
+  // 모든 구간의 프레임 위치는 타임라인에서 가져옴 (챕터/자막과 동일한 계산)
+  const timeline = buildVideoTimeline({
+    script,
+    audioFiles,
+    content,
+    narration: {
+      viral: viralNarrationDuration,
+      guide: guideNarrationDuration,
+      steps: stepNarrationDurations,
+      closing: closingNarrationDuration,
+    },
+  });
+  const intro = getTimelineSegment(timeline, 'intro');
+  const transitions = TIMELINE_STEPS.map((step) =>
+    getTimelineSegment(timeline, 'transition', step)
   );
-
-  // Calculate durations for each step
-  const step1Duration = calculateStep1Duration(audioFiles);
-  const step2Duration = calculateStep2Duration(sentences, audioFiles);
-  const step3Duration = calculateStep3Duration(sentences, audioFiles, content.repeatCount);
-  const step4Duration = calculateStep4Duration(audioFiles);
-
-  // Calculate cumulative start frames (with transitions)
-  let currentFrame = 0;
-
-  const introStart = currentFrame;
-  currentFrame += introDuration;
-
-  // Transition 1 (before Step 1)
-  const transition1Start = currentFrame;
-  currentFrame += STEP_TRANSITION_DURATION;
-
-  const step1Start = currentFrame;
-  currentFrame += step1Duration;
-
-  // Transition 2 (before Step 2)
-  const transition2Start = currentFrame;
-  currentFrame += STEP_TRANSITION_DURATION;
-
-  const step2Start = currentFrame;
-  currentFrame += step2Duration;
-
-  // Transition 3 (before Step 3)
-  const transition3Start = currentFrame;
-  currentFrame += STEP_TRANSITION_DURATION;
-
-  const step3Start = currentFrame;
-  currentFrame += step3Duration;
-
-  // Transition 4 (before Step 4)
-  const transition4Start = currentFrame;
-  currentFrame += STEP_TRANSITION_DURATION;
-
-  const step4Start = currentFrame;
-  currentFrame += step4Duration;
-
-  // Ending
-  const endingStart = currentFrame;
+  const [step1, step2, step3, step4] = TIMELINE_STEPS.map((step) =>
+    getTimelineSegment(timeline, 'step', step)
+  );
+  const ending = getTimelineSegment(timeline, 'ending');
 
   return (
     <AbsoluteFill style={{ backgroundColor: colors.background }}>
       {/* Intro: Logo + 4 Steps Preview */}
-      <Sequence from={introStart} durationInFrames={introDuration}>
+      <Sequence from={intro.startFrame} durationInFrames={intro.durationInFrames}>
         <Intro
           channelName={config.meta.name}
           logoPath={theme.logo}
@@ -144,7 +115,7 @@ export const Main: React.FC<MainProps> = ({
       </Sequence>
 
       {/* Step 1 Transition */}
-      <Sequence from={transition1Start} durationInFrames={STEP_TRANSITION_DURATION}>
+      <Sequence from={transitions[0].startFrame} durationInFrames={transitions[0].durationInFrames}>
         <StepTransition
           stepNumber={1}
           ttsPath={stepTransitionTtsPaths?.[0]}
@@ -154,7 +125,7 @@ export const Main: React.FC<MainProps> = ({
       </Sequence>
 
       {/* Step 1: 전체 흐름 파악 (자막 없이 듣기) */}
-      <Sequence from={step1Start} durationInFrames={step1Duration}>
+      <Sequence from={step1.startFrame} durationInFrames={step1.durationInFrames}>
         <Step1
           backgroundImage={backgroundImage}
           audioFiles={audioFiles}
@@ -164,7 +135,7 @@ export const Main: React.FC<MainProps> = ({
       </Sequence>
 
       {/* Step 2 Transition */}
-      <Sequence from={transition2Start} durationInFrames={STEP_TRANSITION_DURATION}>
+      <Sequence from={transitions[1].startFrame} durationInFrames={transitions[1].durationInFrames}>
         <StepTransition
           stepNumber={2}
           ttsPath={stepTransitionTtsPaths?.[1]}
@@ -174,7 +145,7 @@ export const Main: React.FC<MainProps> = ({
       </Sequence>
 
       {/* Step 2: 문장별 듣기 */}
-      <Sequence from={step2Start} durationInFrames={step2Duration}>
+      <Sequence from={step2.startFrame} durationInFrames={step2.durationInFrames}>
         <Step2
           backgroundImage={backgroundImage}
           sentences={sentences}
@@ -185,11 +156,12 @@ export const Main: React.FC<MainProps> = ({
             nativeText: colors.nativeText,
           }}
           stepLabel={config.uiLabels?.step2Title}
+          karaoke={config.layout.karaoke}
         />
       </Sequence>
 
       {/* Step 3 Transition */}
-      <Sequence from={transition3Start} durationInFrames={STEP_TRANSITION_DURATION}>
+      <Sequence from={transitions[2].startFrame} durationInFrames={transitions[2].durationInFrames}>
         <StepTransition
           stepNumber={3}
           ttsPath={stepTransitionTtsPaths?.[2]}
@@ -198,21 +170,22 @@ export const Main: React.FC<MainProps> = ({
         />
       </Sequence>
 
-      {/* Step 3: 10번씩 반복 듣기 (Interval Training) */}
-      <Sequence from={step3Start} durationInFrames={step3Duration}>
+      {/* Step 3: 반복 듣기 (content.step3Program, Interval Training) */}
+      <Sequence from={step3.startFrame} durationInFrames={step3.durationInFrames}>
         <Step3
           backgroundImage={backgroundImage}
           sentences={sentences}
           audioFiles={audioFiles}
           colors={colors}
-          repeatCount={content.repeatCount}
           imageRatio={config.layout.step3ImageRatio}
           uiLabels={config.uiLabels}
+          karaoke={config.layout.karaoke}
+          program={content.step3Program}
         />
       </Sequence>
 
       {/* Step 4 Transition */}
-      <Sequence from={transition4Start} durationInFrames={STEP_TRANSITION_DURATION}>
+      <Sequence from={transitions[3].startFrame} durationInFrames={transitions[3].durationInFrames}>
         <StepTransition
           stepNumber={4}
           ttsPath={stepTransitionTtsPaths?.[3]}
@@ -222,7 +195,7 @@ export const Main: React.FC<MainProps> = ({
       </Sequence>
 
       {/* Step 4: 다시 자막 없이 듣기 */}
-      <Sequence from={step4Start} durationInFrames={step4Duration}>
+      <Sequence from={step4.startFrame} durationInFrames={step4.durationInFrames}>
         <Step4
           backgroundImage={backgroundImage}
           audioFiles={audioFiles}
@@ -232,7 +205,7 @@ export const Main: React.FC<MainProps> = ({
       </Sequence>
 
       {/* Ending: 마무리 화면 */}
-      <Sequence from={endingStart} durationInFrames={ENDING_DURATION}>
+      <Sequence from={ending.startFrame} durationInFrames={ending.durationInFrames}>
         <Ending
           backgroundPath={endingBackgroundPath || theme.introBackground}
           targetLanguage={config.meta.targetLanguage}
@@ -248,27 +221,21 @@ export const Main: React.FC<MainProps> = ({
 export function calculateTotalDuration(
   sentences: Sentence[],
   audioFiles: AudioFile[],
-  repeatCount: number,
   viralNarrationDuration?: number,
   guideNarrationDuration?: number,
   stepNarrationDurations?: number[],
-  closingNarrationDuration?: number
+  closingNarrationDuration?: number,
+  step3Program?: Step3Phase[]
 ): number {
-  const introDuration = calculateIntroDuration(
-    viralNarrationDuration,
-    guideNarrationDuration,
-    stepNarrationDurations,
-    closingNarrationDuration
-  );
-  // 4개의 스텝 전환 화면 추가 (각 3초 = 90프레임)
-  const totalTransitionDuration = STEP_TRANSITION_DURATION * 4;
-  return (
-    introDuration +
-    totalTransitionDuration +
-    calculateStep1Duration(audioFiles) +
-    calculateStep2Duration(sentences, audioFiles) +
-    calculateStep3Duration(sentences, audioFiles, repeatCount) +
-    calculateStep4Duration(audioFiles) +
-    ENDING_DURATION
-  );
+  return buildVideoTimeline({
+    script: { sentences },
+    audioFiles,
+    content: { step3Program },
+    narration: {
+      viral: viralNarrationDuration,
+      guide: guideNarrationDuration,
+      steps: stepNarrationDurations,
+      closing: closingNarrationDuration,
+    },
+  }).durationInFrames;
 }
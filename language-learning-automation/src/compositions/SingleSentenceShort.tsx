@@ -22,12 +22,13 @@ import {
 import type { Sentence } from '../script/types';
 import type { AudioFile } from '../tts/types';
 import type { ChannelConfig } from '../config/types';
+import { formatLocaleTemplate, getLanguageName, getLocalePack } from '../i18n';
 
 // =============================================================================
 // Types
 // =============================================================================
 
-export interface SingleSentenceShortProps {
+export type SingleSentenceShortProps = {
   sentence: Sentence;
   audioFile: AudioFile;
   introAudioFile?: AudioFile;
@@ -37,7 +38,7 @@ export interface SingleSentenceShortProps {
   totalSentences?: number;
   episodeTitle?: string;
   channelName?: string; // 채널명 추가
-}
+};
 
 // =============================================================================
 // Layout Constants (1080x1920 for 9:16)
@@ -342,6 +343,7 @@ export const SingleSentenceShort: React.FC<SingleSentenceShortProps> = ({
               introDuration={introDuration}
               sentence={sentence}
               nativeLanguage={config.meta.nativeLanguage}
+              targetLanguage={config.meta.targetLanguage}
               primaryColor={primaryColor}
               channelId={config.channelId}
             />
@@ -619,6 +621,7 @@ const Phase1Listen: React.FC<{
   introDuration: number;
   sentence: Sentence;
   nativeLanguage: string;
+  targetLanguage: string;
   primaryColor: string;
   channelId?: string;
 }> = ({
@@ -627,6 +630,7 @@ const Phase1Listen: React.FC<{
   introDuration,
   sentence,
   nativeLanguage,
+  targetLanguage,
   primaryColor,
   channelId,
 }) => {
@@ -645,12 +649,9 @@ const Phase1Listen: React.FC<{
     extrapolateRight: 'clamp',
   });
 
-  const listenText =
-    nativeLanguage === 'Korean'
-      ? '🎧 이 영어가 들리세요?'
-      : nativeLanguage === 'Japanese'
-        ? '🎧 聞こえますか？'
-        : '🎧 Can you hear this?';
+  const listenText = formatLocaleTemplate(getLocalePack(nativeLanguage).shorts.sentenceListen, {
+    language: getLanguageName(targetLanguage, nativeLanguage),
+  });
 
   const words = sentence.target.split(' ');
   const fontSize = getDynamicFontSize(sentence.target);
@@ -1023,19 +1024,8 @@ const Phase5CTA: React.FC<{
     extrapolateLeft: 'clamp',
   });
 
-  const questionText =
-    nativeLanguage === 'Korean'
-      ? '모두 맞추셨나요?'
-      : nativeLanguage === 'Japanese'
-        ? '全部正解できましたか？'
-        : 'Did you get them all?';
-
-  const ctaText =
-    nativeLanguage === 'Korean'
-      ? '👇 프로필에서 풀버전 확인!'
-      : nativeLanguage === 'Japanese'
-        ? '👇 プロフィールで確認！'
-        : '👇 Full version in profile!';
+  const { sentenceQuestion: questionText, sentenceCta: ctaText } =
+    getLocalePack(nativeLanguage).shorts;
 
   // 채널별 엔딩 오디오, 없으면 common fallback
   const endingAudioPath = channelId
@@ -16,17 +16,7 @@ export const Step1: React.FC<Step1Props> = ({
   title,
   stepLabel = '전체 흐름 파악 (자막 없이 듣기)',
 }) => {
-  // Filter to only 1.0x speed audio files for Step 1
-  const normalSpeedAudios = audioFiles.filter((af) => af.speed === '1.0x');
-
-  // Calculate cumulative start times for each audio
-  let cumulativeFrame = 0;
-  const audioSequences = normalSpeedAudios.map((audio, _index) => {
-    const startFrame = cumulativeFrame;
-    const durationFrames = Math.ceil(audio.duration * 30); // 30fps
-    cumulativeFrame += durationFrames + 60; // Add 2 second gap between sentences
-    return { audio, startFrame, durationFrames };
-  });
+  const audioSequences = getStep1Sequences(audioFiles);
 
   return (
     <AbsoluteFill style={{ backgroundColor: '#000000' }}>
@@ -56,7 +46,8 @@ export const Step1: React.FC<Step1Props> = ({
             fontSize: 72,
             fontWeight: 600,
             color: '#FFFFFF',
-            textShadow: '-2px -2px 0 #000, 2px -2px 0 #000, -2px 2px 0 #000, 2px 2px 0 #000, 0 0 10px rgba(0,0,0,0.8)',
+            textShadow:
+              '-2px -2px 0 #000, 2px -2px 0 #000, -2px 2px 0 #000, 2px 2px 0 #000, 0 0 10px rgba(0,0,0,0.8)',
             fontFamily: 'Pretendard, -apple-system, BlinkMacSystemFont, sans-serif',
           }}
         >
@@ -92,6 +83,23 @@ export const Step1: React.FC<Step1Props> = ({
   );
 };
 
+// Audio sequences for Step 1 (relative to the step start)
+export function getStep1Sequences(
+  audioFiles: AudioFile[]
+): Array<{ audio: AudioFile; startFrame: number; durationFrames: number }> {
+  // Filter to only 1.0x speed audio files for Step 1
+  const normalSpeedAudios = audioFiles.filter((af) => af.speed === '1.0x');
+
+  // Calculate cumulative start times for each audio
+  let cumulativeFrame = 0;
+  return normalSpeedAudios.map((audio) => {
+    const startFrame = cumulativeFrame;
+    const durationFrames = Math.ceil(audio.duration * 30); // 30fps
+    cumulativeFrame += durationFrames + 60; // Add 2 second gap between sentences
+    return { audio, startFrame, durationFrames };
+  });
+}
+
 // Calculate total duration for Step 1
 export function calculateStep1Duration(audioFiles: AudioFile[]): number {
   const normalSpeedAudios = audioFiles.filter((af) => af.speed === '1.0x');
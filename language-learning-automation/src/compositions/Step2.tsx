@@ -1,7 +1,17 @@
 import React from 'react';
-import { AbsoluteFill, Audio, Sequence, Img, staticFile } from 'remotion';
+import {
+  AbsoluteFill,
+  Audio,
+  Sequence,
+  Img,
+  staticFile,
+  useCurrentFrame,
+  useVideoConfig,
+} from 'remotion';
 import type { Sentence } from '../script/types';
 import type { AudioFile } from '../tts/types';
+import type { Karaoke } from '../config/types';
+import { KaraokeSubtitle } from '../components/KaraokeSubtitle';
 
 export interface Step2Props {
   backgroundImage?: string;
@@ -15,6 +25,8 @@ export interface Step2Props {
   dimOpacity?: number;
   /** Step indicator label */
   stepLabel?: string;
+  /** 단어 동기화 자막 설정 (layout.karaoke) */
+  karaoke?: Karaoke;
 }
 
 export const Step2: React.FC<Step2Props> = ({
@@ -24,19 +36,9 @@ export const Step2: React.FC<Step2Props> = ({
   colors,
   dimOpacity = 0.6,
   stepLabel = '자막으로 내용 이해 하기',
+  karaoke,
 }) => {
-  // Filter to only 1.0x speed audio files
-  const normalSpeedAudios = audioFiles.filter((af) => af.speed === '1.0x');
-
-  // Calculate sequences for each sentence
-  let cumulativeFrame = 0;
-  const sentenceSequences = sentences.map((sentence) => {
-    const audio = normalSpeedAudios.find((af) => af.sentenceId === sentence.id);
-    const startFrame = cumulativeFrame;
-    const durationFrames = audio ? Math.ceil(audio.duration * 30) + 90 : 150; // Add 3 second buffer
-    cumulativeFrame += durationFrames;
-    return { sentence, audio, startFrame, durationFrames };
-  });
+  const sentenceSequences = getStep2Sequences(sentences, audioFiles);
 
   return (
     <AbsoluteFill style={{ backgroundColor: '#000000' }}>
@@ -87,7 +89,7 @@ export const Step2: React.FC<Step2Props> = ({
       {/* Sentence Sequences */}
       {sentenceSequences.map(({ sentence, audio, startFrame, durationFrames }, index) => (
         <Sequence key={index} from={startFrame} durationInFrames={durationFrames}>
-          <SentenceDisplay sentence={sentence} audio={audio} colors={colors} />
+          <SentenceDisplay sentence={sentence} audio={audio} colors={colors} karaoke={karaoke} />
         </Sequence>
       ))}
     </AbsoluteFill>
@@ -103,8 +105,24 @@ const SentenceDisplay: React.FC<{
     femaleText: string;
     nativeText: string;
   };
-}> = ({ sentence, audio, colors }) => {
+  karaoke?: Karaoke;
+}> = ({ sentence, audio, colors, karaoke }) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
   const textColor = sentence.speaker === 'M' ? colors.maleText : colors.femaleText;
+  const targetTextStyle: React.CSSProperties = {
+    fontSize: 80,
+    fontWeight: 700,
+    color: textColor,
+    textAlign: 'center',
+    lineHeight: 1.25,
+    fontFamily: 'Pretendard, -apple-system, BlinkMacSystemFont, sans-serif',
+    textShadow: '0 4px 20px rgba(0,0,0,0.6)',
+    maxWidth: '92%',
+    wordBreak: 'keep-all',
+    overflowWrap: 'break-word',
+    marginBottom: 24,
+  };
 
   return (
     <AbsoluteFill
@@ -119,24 +137,24 @@ const SentenceDisplay: React.FC<{
       {/* Audio */}
       {audio && audio.path && <Audio src={staticFile(audio.path)} volume={1} />}
 
-      {/* Target Language Sentence */}
-      <div
-        style={{
-          fontSize: 80,
-          fontWeight: 700,
-          color: textColor,
-          textAlign: 'center',
-          lineHeight: 1.25,
-          fontFamily: 'Pretendard, -apple-system, BlinkMacSystemFont, sans-serif',
-          textShadow: '0 4px 20px rgba(0,0,0,0.6)',
-          maxWidth: '92%',
-          wordBreak: 'keep-all',
-          overflowWrap: 'break-word',
-          marginBottom: 24,
-        }}
-      >
-        {sentence.target}
-      </div>
+      {/* Target Language Sentence (karaoke: 발화에 맞춰 단어 색 변경) */}
+      {karaoke?.enabled && audio?.words ? (
+        <KaraokeSubtitle
+          text={sentence.target}
+          words={audio.words}
+          currentTime={frame / fps}
+          color={textColor}
+          upcomingColor={karaoke.upcomingColor}
+          mode={karaoke.mode}
+          activeScale={karaoke.activeScale}
+          fontSize={80}
+          fontWeight={700}
+          marginBottom={24}
+          style={targetTextStyle}
+        />
+      ) : (
+        <div style={targetTextStyle}>{sentence.target}</div>
+      )}
 
       {/* Pronunciation Guide (발음 표기) */}
       {sentence.targetPronunciation && (
@@ -160,16 +178,26 @@ const SentenceDisplay: React.FC<{
   );
 };
 
-// Calculate total duration for Step 2
-export function calculateStep2Duration(sentences: Sentence[], audioFiles: AudioFile[]): number {
+// Sentence sequences for Step 2 (relative to the step start)
+export function getStep2Sequences(
+  sentences: Sentence[],
+  audioFiles: AudioFile[]
+): Array<{ sentence: Sentence; audio?: AudioFile; startFrame: number; durationFrames: number }> {
+  // Filter to only 1.0x speed audio files
   const normalSpeedAudios = audioFiles.filter((af) => af.speed === '1.0x');
-  let totalFrames = 0;
 
-  sentences.forEach((sentence) => {
+  // Calculate sequences for each sentence
+  let cumulativeFrame = 0;
+  return sentences.map((sentence) => {
     const audio = normalSpeedAudios.find((af) => af.sentenceId === sentence.id);
+    const startFrame = cumulativeFrame;
     const durationFrames = audio ? Math.ceil(audio.duration * 30) + 90 : 150; // Add 3 second buffer
-    totalFrames += durationFrames;
+    cumulativeFrame += durationFrames;
+    return { sentence, audio, startFrame, durationFrames };
   });
+}
 
-  return totalFrames;
+// Calculate total duration for Step 2
+export function calculateStep2Duration(sentences: Sentence[], audioFiles: AudioFile[]): number {
+  return getStep2Sequences(sentences, audioFiles).reduce((sum, seq) => sum + seq.durationFrames, 0);
 }
@@ -1,7 +1,24 @@
 import React from 'react';
-import { AbsoluteFill, Audio, Sequence, Img, staticFile } from 'remotion';
+import {
+  AbsoluteFill,
+  Audio,
+  Sequence,
+  Img,
+  staticFile,
+  useCurrentFrame,
+  useVideoConfig,
+} from 'remotion';
 import type { Sentence } from '../script/types';
-import type { AudioFile, SpeedVariant } from '../tts/types';
+import {
+  type AudioFile,
+  type SpeedVariant,
+  NORMAL_SPEED,
+  isSameSpeed,
+  sortSpeedVariants,
+  speedVariants,
+} from '../tts/types';
+import type { Karaoke, Step3Phase } from '../config/types';
+import { KaraokeSubtitle } from '../components/KaraokeSubtitle';
 
 export interface Step3Props {
   backgroundImage?: string;
@@ -14,7 +31,6 @@ export interface Step3Props {
     wordMeaning: string;
     background: string;
   };
-  repeatCount: number;
   imageRatio?: number;
   uiLabels?: {
     step3PhaseTitle?: string;
@@ -23,31 +39,84 @@ export interface Step3Props {
     phaseChallenge?: string;
     phaseReview?: string;
   };
+  /** 단어 동기화 자막 설정 (layout.karaoke) */
+  karaoke?: Karaoke;
+  /** 반복 프로그램 (content.step3Program) */
+  program?: Step3Phase[];
 }
 
-// Phase configuration for 5 repetitions
-// ① 도입: 0.8x × 1회 (워밍업) - 전체 자막 + 해석
-// ② 훈련: 1.0x × 3회 (퀴즈 & 리듬 체화) - 빈칸 자막
-// ③ 챌린지: 1.2x × 1회 (청각 근육 단련) - 정답 강조 자막
 type Phase = 'intro' | 'training' | 'challenge' | 'review';
 
-interface RepetitionConfig {
+/**
+ * Default repetition program for the available speeds (content.step3Program가 없을 때)
+ * ① 도입: 가장 느린 속도 × 1회 (워밍업) - 전체 자막 + 해석
+ * ② 훈련: 1.0x × 3회 (퀴즈 & 리듬 체화) - 빈칸 자막
+ * ③ 챌린지: 가장 빠른 속도 × 1회 (청각 근육 단련) - 정답 강조 자막
+ */
+export function createDefaultStep3Program(
+  speeds: readonly SpeedVariant[] = speedVariants
+): Step3Phase[] {
+  const sorted = sortSpeedVariants(speeds.length > 0 ? speeds : [NORMAL_SPEED]);
+  const slowest = sorted[0];
+  const fastest = sorted[sorted.length - 1];
+  const training: Step3Phase = {
+    speed: NORMAL_SPEED,
+    subtitle: 'blank',
+    translation: true,
+    thinkTime: 3,
+    phase: 'training',
+  };
+
+  return [
+    { speed: slowest, subtitle: 'full', translation: true, thinkTime: 3, phase: 'intro' },
+    training,
+    { ...training },
+    { ...training },
+    { speed: fastest, subtitle: 'answer', translation: true, thinkTime: 3, phase: 'challenge' },
+  ];
+}
+
+// 0.8x 도입 → 1.0x × 3 훈련 → 1.2x 챌린지
+export const DEFAULT_STEP3_PROGRAM: Step3Phase[] = createDefaultStep3Program();
+
+// Phase badge when the program doesn't name one
+const SUBTITLE_PHASES: Record<Step3Phase['subtitle'], Phase> = {
+  full: 'intro',
+  blank: 'training',
+  answer: 'challenge',
+  none: 'review',
+};
+
+export interface RepetitionConfig {
   speed: SpeedVariant;
   phase: Phase;
-  showBlank: boolean;
-  showAnswer: boolean;
+  subtitle: Step3Phase['subtitle'];
+  translation: boolean;
+  thinkTime: number;
 }
 
-const REPETITION_SEQUENCE: RepetitionConfig[] = [
-  // ① 도입 (0.8x × 1)
-  { speed: '0.8x', phase: 'intro', showBlank: false, showAnswer: false },
-  // ② 훈련 (1.0x × 3)
-  { speed: '1.0x', phase: 'training', showBlank: true, showAnswer: false },
-  { speed: '1.0x', phase: 'training', showBlank: true, showAnswer: false },
-  { speed: '1.0x', phase: 'training', showBlank: true, showAnswer: false },
-  // ③ 챌린지 (1.2x × 1)
-  { speed: '1.2x', phase: 'challenge', showBlank: false, showAnswer: true },
-];
+/**
+ * Resolve the channel's Step3 program
+ * Without one, the default program is built from the speeds present in the audio files
+ */
+function resolveStep3Program(
+  program: Step3Phase[] | undefined,
+  audioFiles: AudioFile[]
+): RepetitionConfig[] {
+  const phases =
+    program && program.length > 0
+      ? program
+      : createDefaultStep3Program(
+          audioFiles.length > 0 ? audioFiles.map((af) => af.speed) : speedVariants
+        );
+  return phases.map((p) => ({
+    speed: p.speed,
+    phase: p.phase ?? SUBTITLE_PHASES[p.subtitle],
+    subtitle: p.subtitle,
+    translation: p.translation,
+    thinkTime: p.thinkTime,
+  }));
+}
 
 export const Step3: React.FC<Step3Props> = ({
   backgroundImage,
@@ -55,7 +124,11 @@ export const Step3: React.FC<Step3Props> = ({
   audioFiles,
   colors,
   uiLabels,
+  karaoke,
+  program,
 }) => {
+  const repetitions = resolveStep3Program(program, audioFiles);
+
   // Default UI labels
   const labels = {
     step3Title: uiLabels?.step3PhaseTitle ?? 'STEP 3 · 반복 훈련',
@@ -65,38 +138,7 @@ export const Step3: React.FC<Step3Props> = ({
     phaseReview: uiLabels?.phaseReview ?? '✨ 마무리',
   };
 
-  // Build sequences for all sentences with all repetitions
-  let cumulativeFrame = 0;
-  const allSequences: Array<{
-    sentence: Sentence;
-    config: RepetitionConfig;
-    audio?: AudioFile;
-    startFrame: number;
-    durationFrames: number;
-    repetition: number;
-  }> = [];
-
-  sentences.forEach((sentence) => {
-    REPETITION_SEQUENCE.forEach((config, repIndex) => {
-      const audio = audioFiles.find(
-        (af) => af.sentenceId === sentence.id && af.speed === config.speed
-      );
-      const startFrame = cumulativeFrame;
-      const baseDuration = audio ? audio.duration : 3;
-      // 오디오 길이 + 3초 여유 (읽고 생각할 시간)
-      const durationFrames = Math.ceil((baseDuration + 3) * 30);
-      cumulativeFrame += durationFrames;
-
-      allSequences.push({
-        sentence,
-        config,
-        audio,
-        startFrame,
-        durationFrames,
-        repetition: repIndex + 1,
-      });
-    });
-  });
+  const allSequences = getStep3Sequences(sentences, audioFiles, program);
 
   return (
     <AbsoluteFill style={{ backgroundColor: colors.background }}>
@@ -153,8 +195,9 @@ export const Step3: React.FC<Step3Props> = ({
             audio={seq.audio}
             colors={colors}
             repetition={seq.repetition}
-            totalRepetitions={REPETITION_SEQUENCE.length}
+            totalRepetitions={repetitions.length}
             labels={labels}
+            karaoke={karaoke}
           />
         </Sequence>
       ))}
@@ -181,9 +224,14 @@ const SentenceDisplay: React.FC<{
     phaseChallenge: string;
     phaseReview: string;
   };
-}> = ({ sentence, config, audio, colors, repetition, totalRepetitions, labels }) => {
+  karaoke?: Karaoke;
+}> = ({ sentence, config, audio, colors, repetition, totalRepetitions, labels, karaoke }) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
   const textColor = sentence.speaker === 'M' ? colors.maleText : colors.femaleText;
-  const { phase, showBlank, showAnswer } = config;
+  const { phase, subtitle, translation } = config;
+  const showBlank = subtitle === 'blank';
+  const showAnswer = subtitle === 'answer';
 
   // Highlight the answer word in challenge phase
   const renderTargetText = () => {
@@ -191,6 +239,25 @@ const SentenceDisplay: React.FC<{
       // 빈칸 모드: _______ 표시
       return sentence.targetBlank;
     }
+    if (karaoke?.enabled && audio?.words) {
+      // 카라오케 모드: 발화에 맞춰 단어 색 변경 (챌린지에서는 정답 강조 유지)
+      return (
+        <KaraokeSubtitle
+          text={sentence.target}
+          words={audio.words}
+          currentTime={frame / fps}
+          color={textColor}
+          upcomingColor={karaoke.upcomingColor}
+          mode={karaoke.mode}
+          activeScale={karaoke.activeScale}
+          highlightPhrase={showAnswer ? sentence.blankAnswer : undefined}
+          fontSize={80}
+          fontWeight={700}
+          marginBottom={0}
+          style={{ lineHeight: 1.25 }}
+        />
+      );
+    }
     if (showAnswer) {
       // 정답 강조 모드: 정답 단어를 노란색으로 강조
       const parts = sentence.target.split(new RegExp(`(${sentence.blankAnswer})`, 'i'));
@@ -233,70 +300,76 @@ const SentenceDisplay: React.FC<{
           padding: '60px 60px 180px 60px', // 하단 여백 180px (유튜브 세이프존)
         }}
       >
-        {/* 영어 문장 - 모바일에서 시원하게 */}
-        <div
-          style={{
-            fontSize: 80, // 72 → 80px (화면 높이 ~12%)
-            fontWeight: 700,
-            color: textColor,
-            textAlign: 'center',
-            lineHeight: 1.25,
-            marginBottom: 48, // 간격 줄임
-            fontFamily: 'Pretendard, -apple-system, BlinkMacSystemFont, sans-serif',
-            textShadow: '0 4px 20px rgba(0,0,0,0.6)',
-            maxWidth: '92%',
-            wordBreak: 'keep-all',
-            overflowWrap: 'break-word',
-          }}
-        >
-          {renderTargetText()}
-        </div>
+        {/* 영어 문장 - 모바일에서 시원하게 (subtitle: none이면 숨김) */}
+        {subtitle !== 'none' && (
+          <div
+            style={{
+              fontSize: 80, // 72 → 80px (화면 높이 ~12%)
+              fontWeight: 700,
+              color: textColor,
+              textAlign: 'center',
+              lineHeight: 1.25,
+              marginBottom: 48, // 간격 줄임
+              fontFamily: 'Pretendard, -apple-system, BlinkMacSystemFont, sans-serif',
+              textShadow: '0 4px 20px rgba(0,0,0,0.6)',
+              maxWidth: '92%',
+              wordBreak: 'keep-all',
+              overflowWrap: 'break-word',
+            }}
+          >
+            {renderTargetText()}
+          </div>
+        )}
 
-        {/* 한글 해석 - 영어 바로 밑에 */}
-        <div
-          style={{
-            fontSize: 50, // 44 → 50px
-            fontWeight: 500,
-            color: colors.nativeText,
-            textAlign: 'center',
-            marginBottom: 48,
-            fontFamily: 'Pretendard, -apple-system, BlinkMacSystemFont, sans-serif',
-            textShadow: '0 2px 12px rgba(0,0,0,0.5)',
-            opacity: 0.95,
-            wordBreak: 'keep-all',
-          }}
-        >
-          {sentence.native}
-        </div>
+        {/* 한글 해석 - 영어 바로 밑에 (translation: false면 숨김) */}
+        {translation && (
+          <div
+            style={{
+              fontSize: 50, // 44 → 50px
+              fontWeight: 500,
+              color: colors.nativeText,
+              textAlign: 'center',
+              marginBottom: 48,
+              fontFamily: 'Pretendard, -apple-system, BlinkMacSystemFont, sans-serif',
+              textShadow: '0 2px 12px rgba(0,0,0,0.5)',
+              opacity: 0.95,
+              wordBreak: 'keep-all',
+            }}
+          >
+            {sentence.native}
+          </div>
+        )}
 
         {/* 단어 풀이 - 2단 그리드, 큰 글씨, 진한 배경 */}
-        <div
-          style={{
-            backgroundColor: 'rgba(0, 0, 0, 0.85)', // 더 진한 배경
-            borderRadius: 20,
-            padding: '24px 48px',
-            maxWidth: '90%',
-          }}
-        >
+        {translation && (
           <div
             style={{
-              display: 'flex',
-              flexWrap: 'wrap', // 자동 줄바꿈 허용
-              justifyContent: 'center',
-              gap: '16px 40px', // 세로 16px, 가로 40px 간격
-              fontSize: 35, // 26 → 35px (대폭 확대)
-              fontFamily: 'Pretendard, -apple-system, BlinkMacSystemFont, sans-serif',
-              lineHeight: 1.6,
+              backgroundColor: 'rgba(0, 0, 0, 0.85)', // 더 진한 배경
+              borderRadius: 20,
+              padding: '24px 48px',
+              maxWidth: '90%',
             }}
           >
-            {sentence.words.map((w, i) => (
-              <span key={i} style={{ whiteSpace: 'nowrap' }}>
-                <span style={{ color: '#FFFFFF', fontWeight: 600 }}>{w.word}</span>
-                <span style={{ color: 'rgba(255,255,255,0.7)' }}> ({w.meaning})</span>
-              </span>
-            ))}
+            <div
+              style={{
+                display: 'flex',
+                flexWrap: 'wrap', // 자동 줄바꿈 허용
+                justifyContent: 'center',
+                gap: '16px 40px', // 세로 16px, 가로 40px 간격
+                fontSize: 35, // 26 → 35px (대폭 확대)
+                fontFamily: 'Pretendard, -apple-system, BlinkMacSystemFont, sans-serif',
+                lineHeight: 1.6,
+              }}
+            >
+              {sentence.words.map((w, i) => (
+                <span key={i} style={{ whiteSpace: 'nowrap' }}>
+                  <span style={{ color: '#FFFFFF', fontWeight: 600 }}>{w.word}</span>
+                  <span style={{ color: 'rgba(255,255,255,0.7)' }}> ({w.meaning})</span>
+                </span>
+              ))}
+            </div>
           </div>
-        </div>
+        )}
       </div>
 
       {/* 하단 컨트롤 바 - 유튜브 세이프존 위 (bottom 50px) */}
@@ -390,24 +463,59 @@ function getPhaseColor(phase: Phase): string {
   }
 }
 
-// Calculate total duration for Step 3
-export function calculateStep3Duration(
+// Step 3 sequence: one sentence × one repetition of the program
+export interface Step3Sequence {
+  sentence: Sentence;
+  config: RepetitionConfig;
+  audio?: AudioFile;
+  startFrame: number;
+  durationFrames: number;
+  repetition: number;
+}
+
+// Build sequences for all sentences with all repetitions (relative to the step start)
+export function getStep3Sequences(
   sentences: Sentence[],
   audioFiles: AudioFile[],
-  _repeatCount: number // ignored, using fixed 10 repetitions
-): number {
-  let totalFrames = 0;
+  program?: Step3Phase[]
+): Step3Sequence[] {
+  const repetitions = resolveStep3Program(program, audioFiles);
+  let cumulativeFrame = 0;
+  const allSequences: Step3Sequence[] = [];
 
   sentences.forEach((sentence) => {
-    REPETITION_SEQUENCE.forEach((config) => {
+    repetitions.forEach((config, repIndex) => {
       const audio = audioFiles.find(
-        (af) => af.sentenceId === sentence.id && af.speed === config.speed
+        (af) => af.sentenceId === sentence.id && isSameSpeed(af.speed, config.speed)
       );
+      const startFrame = cumulativeFrame;
       const baseDuration = audio ? audio.duration : 3;
-      // 오디오 길이 + 3초 여유 (읽고 생각할 시간)
-      totalFrames += Math.ceil((baseDuration + 3) * 30);
+      // 오디오 길이 + thinkTime 여유 (읽고 생각할 시간)
+      const durationFrames = Math.ceil((baseDuration + config.thinkTime) * 30);
+      cumulativeFrame += durationFrames;
+
+      allSequences.push({
+        sentence,
+        config,
+        audio,
+        startFrame,
+        durationFrames,
+        repetition: repIndex + 1,
+      });
     });
   });
 
-  return totalFrames;
+  return allSequences;
+}
+
+// Calculate total duration for Step 3
+export function calculateStep3Duration(
+  sentences: Sentence[],
+  audioFiles: AudioFile[],
+  program?: Step3Phase[]
+): number {
+  return getStep3Sequences(sentences, audioFiles, program).reduce(
+    (sum, seq) => sum + seq.durationFrames,
+    0
+  );
 }
@@ -2,7 +2,8 @@ import { describe, it, expect } from 'vitest';
 import * as fc from 'fast-check';
 import type { Sentence } from '../script/types';
 import type { AudioFile, SpeedVariant } from '../tts/types';
-import { calculateStep3Duration } from './Step3';
+import type { Step3Phase } from '../config/types';
+import { calculateStep3Duration, createDefaultStep3Program, DEFAULT_STEP3_PROGRAM } from './Step3';
 
 // Arbitrary for generating valid sentences
 const sentenceArbitrary: fc.Arbitrary<Sentence> = fc.record({
@@ -141,7 +142,7 @@ describe('Property Tests: Interval Training Sequence', () => {
             });
           });
 
-          const totalDuration = calculateStep3Duration(sentences, audioFiles, 5);
+          const totalDuration = calculateStep3Duration(sentences, audioFiles);
 
           // Each repetition: Math.ceil(baseDuration * 30) + 20 frames
           // Total plays = numSentences × 5 repetitions
@@ -189,3 +190,97 @@ describe('Property Tests: Interval Training Sequence', () => {
     );
   });
 });
+
+describe('Property Tests: Step3 Program', () => {
+  const step3PhaseArbitrary: fc.Arbitrary<Step3Phase> = fc.record({
+    speed: fc.constantFrom('0.8x', '1.0x', '1.2x') as fc.Arbitrary<SpeedVariant>,
+    subtitle: fc.constantFrom('full', 'blank', 'answer', 'none') as fc.Arbitrary<
+      Step3Phase['subtitle']
+    >,
+    translation: fc.boolean(),
+    thinkTime: fc.integer({ min: 0, max: 10 }),
+  });
+
+  const makeSentences = (count: number): Sentence[] =>
+    Array.from({ length: count }, (_, i) => ({
+      id: i + 1,
+      target: `Target ${i}`,
+      native: `Native ${i}`,
+      targetBlank: `Target ___ ${i}`,
+      blankAnswer: 'answer',
+      speaker: (i % 2 === 0 ? 'M' : 'F') as 'M' | 'F',
+      words: [{ word: 'word', meaning: 'meaning' }],
+    }));
+
+  const makeAudioFiles = (sentences: Sentence[], duration: number): AudioFile[] =>
+    sentences.flatMap((sentence) =>
+      (['0.8x', '1.0x', '1.2x'] as SpeedVariant[]).map((speed) => ({
+        sentenceId: sentence.id,
+        speaker: sentence.speaker,
+        speed,
+        path: `/audio/${sentence.id}_${speed}.mp3`,
+        duration,
+      }))
+    );
+
+  it('should sum audio duration plus think time for every phase of the program', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 5 }),
+        fc.array(step3PhaseArbitrary, { minLength: 1, maxLength: 8 }),
+        fc.integer({ min: 1, max: 6 }),
+        (numSentences, program, baseDuration) => {
+          const sentences = makeSentences(numSentences);
+          const audioFiles = makeAudioFiles(sentences, baseDuration);
+
+          const expected =
+            numSentences *
+            program.reduce((sum, p) => sum + Math.ceil((baseDuration + p.thinkTime) * 30), 0);
+
+          expect(calculateStep3Duration(sentences, audioFiles, program)).toBe(expected);
+          return true;
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  it('should fall back to the default program when none is configured', () => {
+    const sentences = makeSentences(2);
+    const audioFiles = makeAudioFiles(sentences, 2);
+
+    expect(calculateStep3Duration(sentences, audioFiles)).toBe(
+      calculateStep3Duration(sentences, audioFiles, DEFAULT_STEP3_PROGRAM)
+    );
+    expect(DEFAULT_STEP3_PROGRAM.map((p) => p.subtitle)).toEqual([
+      'full',
+      'blank',
+      'blank',
+      'blank',
+      'answer',
+    ]);
+  });
+
+  it('should build the default program from the available speeds', () => {
+    expect(createDefaultStep3Program(['1.5x', '0.6x', '1.0x']).map((p) => p.speed)).toEqual([
+      '0.6x',
+      '1.0x',
+      '1.0x',
+      '1.0x',
+      '1.5x',
+    ]);
+
+    const sentences = makeSentences(1);
+    const audioFiles: AudioFile[] = (['0.6x', '1.0x', '1.5x'] as SpeedVariant[]).map(
+      (speed, i) => ({
+        sentenceId: 1,
+        speaker: 'M',
+        speed,
+        path: `/audio/1_${speed}.mp3`,
+        duration: 3 - i,
+      })
+    );
+    // 0.6x(3s) + 1.0x(2s) × 3 + 1.5x(1s), each with 3s think time
+    expect(calculateStep3Duration(sentences, audioFiles)).toBe((6 + 5 * 3 + 4) * 30);
+  });
+});
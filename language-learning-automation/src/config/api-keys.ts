@@ -0,0 +1,305 @@
+/**
+ * 서비스별 API 키 풀
+ * 일일 할당량 창이 지나면 자동으로 리셋되고, 429를 받은 키는 쿨다운 후 다시 사용
+ * 상태는 .api-key-state.json에 저장하여 다음 실행에서 이어서 사용
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  KEY_SERVICE_CONFIGS,
+  classifyRateLimit,
+  getNextKeyAvailableAt,
+  getNextQuotaReset,
+  getQuotaWindowStart,
+  keyFingerprint,
+  keyPoolStateSchema,
+  parseServiceKeys,
+  recordKeyRateLimit,
+  recordKeyRequest,
+  recordKeySuccess,
+  selectKeyIndex,
+  syncServiceKeyState,
+  type ApiKeyService,
+  type KeyPoolState,
+  type RateLimitKind,
+  type ServiceKeyPoolState,
+} from './key-pool';
+
+const KEY_STATE_FILE = path.join(process.cwd(), '.api-key-state.json');
+
+/**
+ * 서비스의 모든 키가 소진/쿨다운 상태 (호출자는 메시지 대신 instanceof 로 구분)
+ */
+export class ApiKeysExhaustedError extends Error {
+  constructor(
+    readonly service: ApiKeyService,
+    readonly nextAvailableAt?: Date | null
+  ) {
+    super(
+      `All ${KEY_SERVICE_CONFIGS[service].label} API keys exhausted or cooling down` +
+        (nextAvailableAt ? ` (next available: ${nextAvailableAt.toISOString()})` : '')
+    );
+    this.name = 'ApiKeysExhaustedError';
+  }
+}
+
+export interface ApiKeyLease {
+  service: ApiKeyService;
+  key: string;
+  index: number;
+}
+
+export interface ApiKeyStatus {
+  fingerprint: string;
+  requests: number;
+  totalRequests: number;
+  available: boolean;
+  exhausted: boolean;
+  cooldownUntil?: string;
+}
+
+class ApiKeyPool {
+  private keys: Partial<Record<ApiKeyService, string[]>> = {};
+  private state: KeyPoolState | null = null;
+
+  /**
+   * 서비스에 설정된 모든 키 (없으면 에러)
+   */
+  getKeys(service: ApiKeyService): string[] {
+    let keys = this.keys[service];
+    if (!keys) {
+      keys = parseServiceKeys(service, process.env);
+      this.keys[service] = keys;
+      if (keys.length > 1) {
+        console.log(
+          `🔑 Loaded ${keys.length} API key(s) for ${KEY_SERVICE_CONFIGS[service].label}`
+        );
+      }
+    }
+    if (keys.length === 0) {
+      throw new Error(`${KEY_SERVICE_CONFIGS[service].envPrefix} environment variable is not set`);
+    }
+    return keys;
+  }
+
+  /**
+   * 지금 사용할 키 (요청 수는 세지 않음)
+   */
+  current(service: ApiKeyService): ApiKeyLease {
+    const serviceState = this.getServiceState(service);
+    const now = new Date();
+    const index = selectKeyIndex(serviceState, now, this.getDailyLimit(service));
+
+    if (index === null) {
+      const { resetTimeZone } = KEY_SERVICE_CONFIGS[service];
+      const nextAt = getNextKeyAvailableAt(
+        serviceState,
+        now,
+        getNextQuotaReset(now, resetTimeZone),
+        this.getDailyLimit(service)
+      );
+      throw new ApiKeysExhaustedError(service, nextAt);
+    }
+
+    if (index !== serviceState.currentIndex) {
+      this.setServiceState(service, { ...serviceState, currentIndex: index });
+    }
+    return { service, key: this.getKeys(service)[index], index };
+  }
+
+  /**
+   * 키를 하나 빌려서 요청 1회로 기록
+   */
+  acquire(service: ApiKeyService): ApiKeyLease {
+    const lease = this.current(service);
+    this.recordRequest(service, lease.index);
+    return lease;
+  }
+
+  /**
+   * 인덱스로 키 반환 (쿨다운/소진 여부와 무관 - 기존 작업 조회용)
+   */
+  getKeyAt(service: ApiKeyService, index: number): string {
+    const keys = this.getKeys(service);
+    const key = keys[index];
+    if (!key) {
+      throw new Error(`No API key at index ${index} (loaded ${keys.length})`);
+    }
+    return key;
+  }
+
+  recordRequest(service: ApiKeyService, index: number): void {
+    this.setServiceState(service, recordKeyRequest(this.getServiceState(service), index));
+  }
+
+  recordSuccess(service: ApiKeyService, index: number): void {
+    const serviceState = this.getServiceState(service);
+    if (serviceState.keys[index]?.rateLimitStreak) {
+      this.setServiceState(service, recordKeySuccess(serviceState, index));
+    }
+  }
+
+  /**
+   * 429 처리 - 쿨다운 또는 다음 리셋까지 소진 표시
+   * @returns 사용 가능한 키가 남아 있는지
+   */
+  markRateLimited(
+    service: ApiKeyService,
+    index: number,
+    kind: RateLimitKind = 'cooldown'
+  ): boolean {
+    const { label, cooldownMs } = KEY_SERVICE_CONFIGS[service];
+    const next = recordKeyRateLimit(this.getServiceState(service), index, kind, cooldownMs);
+    this.setServiceState(service, next);
+
+    const status = kind === 'exhausted' ? 'exhausted until quota reset' : 'cooling down';
+    console.log(`⚠️ ${label} API key ${index + 1} ${status}`);
+    return this.getAvailableKeyCount(service) > 0;
+  }
+
+  /**
+   * 서비스의 모든 키 상태 리셋
+   */
+  reset(service: ApiKeyService): void {
+    const { resetTimeZone } = KEY_SERVICE_CONFIGS[service];
+    const fingerprints = this.getKeys(service).map(keyFingerprint);
+    const windowStart = getQuotaWindowStart(new Date(), resetTimeZone).toISOString();
+    this.setServiceState(service, syncServiceKeyState(undefined, fingerprints, windowStart));
+  }
+
+  getAvailableKeyCount(service: ApiKeyService): number {
+    return this.getStatus(service).filter((key) => key.available).length;
+  }
+
+  /**
+   * 키별 사용량 (로그용)
+   */
+  getStatus(service: ApiKeyService): ApiKeyStatus[] {
+    const now = new Date();
+    const dailyLimit = this.getDailyLimit(service);
+    const serviceState = this.getServiceState(service);
+    return serviceState.keys.map((key, index) => ({
+      fingerprint: key.fingerprint,
+      requests: key.requests,
+      totalRequests: key.totalRequests,
+      available: selectKeyIndex({ currentIndex: index, keys: [key] }, now, dailyLimit) !== null,
+      exhausted: key.exhausted,
+      ...(key.cooldownUntil ? { cooldownUntil: key.cooldownUntil } : {}),
+    }));
+  }
+
+  // API_KEY_DAILY_LIMIT_VEO 처럼 서비스별 일일 요청 한도 지정 가능
+  private getDailyLimit(service: ApiKeyService): number | undefined {
+    const override = Number(process.env[`API_KEY_DAILY_LIMIT_${service.toUpperCase()}`]);
+    return Number.isInteger(override) && override > 0
+      ? override
+      : KEY_SERVICE_CONFIGS[service].dailyLimit;
+  }
+
+  private getServiceState(service: ApiKeyService): ServiceKeyPoolState {
+    const { resetTimeZone } = KEY_SERVICE_CONFIGS[service];
+    const fingerprints = this.getKeys(service).map(keyFingerprint);
+    const windowStart = getQuotaWindowStart(new Date(), resetTimeZone).toISOString();
+    return syncServiceKeyState(this.loadState().services[service], fingerprints, windowStart);
+  }
+
+  private setServiceState(service: ApiKeyService, serviceState: ServiceKeyPoolState): void {
+    const state = this.loadState();
+    this.state = {
+      services: { ...state.services, [service]: serviceState },
+      lastUpdated: new Date().toISOString(),
+    };
+    this.saveState();
+  }
+
+  private loadState(): KeyPoolState {
+    if (this.state) return this.state;
+    this.state = { services: {} };
+
+    try {
+      if (fs.existsSync(KEY_STATE_FILE)) {
+        const result = keyPoolStateSchema.safeParse(
+          JSON.parse(fs.readFileSync(KEY_STATE_FILE, 'utf-8'))
+        );
+        if (result.success) {
+          this.state = result.data;
+        } else {
+          console.warn(`⚠️ Ignoring invalid key state in ${KEY_STATE_FILE}`);
+        }
+      }
+    } catch {
+      // 파일 읽기 실패 시 무시
+    }
+    return this.state;
+  }
+
+  private saveState(): void {
+    try {
+      const tempPath = `${KEY_STATE_FILE}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(this.state, null, 2));
+      fs.renameSync(tempPath, KEY_STATE_FILE);
+    } catch {
+      // 저장 실패 시 무시
+    }
+  }
+}
+
+// 싱글톤 인스턴스
+export const apiKeyPool = new ApiKeyPool();
+
+/**
+ * Whether an error is a 429 / quota error
+ */
+export function isRateLimitError(error: unknown): boolean {
+  return classifyRateLimit(error instanceof Error ? error.message : String(error)) !== null;
+}
+
+/**
+ * Run a call with a pooled key, switching keys on 429 until none are left
+ */
+export async function withApiKey<T>(
+  service: ApiKeyService,
+  run: (apiKey: string) => Promise<T>
+): Promise<T> {
+  for (;;) {
+    const lease = apiKeyPool.acquire(service);
+    try {
+      const result = await run(lease.key);
+      apiKeyPool.recordSuccess(service, lease.index);
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const kind = classifyRateLimit(message);
+      if (!kind || !apiKeyPool.markRateLimited(service, lease.index, kind)) {
+        throw error;
+      }
+      console.log(`🔄 Retrying with another ${KEY_SERVICE_CONFIGS[service].label} API key`);
+    }
+  }
+}
+
+/**
+ * fetch with a pooled key - a 429 response moves on to the next key
+ * (the last response is returned as-is when every key is rate limited)
+ */
+export async function fetchWithApiKey(
+  service: ApiKeyService,
+  request: (apiKey: string) => Promise<Response>
+): Promise<Response> {
+  for (;;) {
+    const lease = apiKeyPool.acquire(service);
+    const response = await request(lease.key);
+    if (response.status !== 429) {
+      apiKeyPool.recordSuccess(service, lease.index);
+      return response;
+    }
+
+    const body = await response.clone().text();
+    const kind = classifyRateLimit(`429 ${body}`) ?? 'cooldown';
+    if (!apiKeyPool.markRateLimited(service, lease.index, kind)) {
+      return response;
+    }
+    console.log(`🔄 Retrying with another ${KEY_SERVICE_CONFIGS[service].label} API key`);
+  }
+}
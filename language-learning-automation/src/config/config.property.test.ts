@@ -64,7 +64,6 @@ const channelConfigArb: fc.Arbitrary<ChannelConfig> = fc.record({
   }),
   content: fc.record({
     sentenceCount: fc.integer({ min: 1, max: 20 }),
-    repeatCount: fc.integer({ min: 1, max: 20 }),
     difficulty: fc.constantFrom('beginner', 'intermediate', 'advanced') as fc.Arbitrary<
       'beginner' | 'intermediate' | 'advanced'
     >,
@@ -107,7 +106,6 @@ describe('Property Tests: Config JSON Round-Trip', () => {
           expect(result.data.meta.nativeLanguage).toBe(config.meta.nativeLanguage);
           expect(result.data.tts.provider).toBe(config.tts.provider);
           expect(result.data.content.sentenceCount).toBe(config.content.sentenceCount);
-          expect(result.data.content.repeatCount).toBe(config.content.repeatCount);
         }
       }),
       { numRuns: 100 }
@@ -133,7 +131,7 @@ describe('Property Tests: Config Validation', () => {
   // logo and introSound are now optional
   const requiredColorsFields = ['maleText', 'femaleText', 'nativeText'] as const;
   const requiredTtsFields = ['provider', 'maleVoice', 'femaleVoice', 'targetLanguageCode'] as const;
-  const requiredContentFields = ['sentenceCount', 'repeatCount'] as const;
+  const requiredContentFields = ['sentenceCount'] as const;
 
   // Base valid config for testing
   const baseValidConfig = {
@@ -159,7 +157,6 @@ describe('Property Tests: Config Validation', () => {
     },
     content: {
       sentenceCount: 10,
-      repeatCount: 5,
     },
   };
 
@@ -2,8 +2,8 @@
  * Gemini API 공통 설정
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
+import { apiKeyPool, fetchWithApiKey } from './api-keys';
+import { trackUsage } from '../usage/tracker';
 
 // 모델 설정
 export const GEMINI_MODELS = {
@@ -12,6 +12,9 @@ export const GEMINI_MODELS = {
 
   // 이미지 생성용
   image: 'gemini-3-pro-image-preview',
+
+  // 임베딩용 (주제 중복 검사)
+  embedding: 'text-embedding-004',
 } as const;
 
 // API URL
@@ -21,145 +24,71 @@ export const GEMINI_API_URLS = {
 } as const;
 
 /**
- * Gemini API 키 가져오기
+ * Gemini 텍스트용 API 키 가져오기 (키 풀의 현재 키)
  */
 export function getGeminiApiKey(): string {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY environment variable is not set');
-  }
-  return apiKey;
+  return apiKeyPool.current('gemini_text').key;
 }
 
 /**
  * Veo API 키 로테이션 관리
  * .env에 GEMINI_API_KEY_1, GEMINI_API_KEY_2, ... 형식으로 여러 키 설정 가능
- * 현재 키 인덱스를 파일에 저장하여 다음 실행 시 이어서 사용
+ * 키 상태(소진/쿨다운/사용량)는 apiKeyPool의 'veo' 풀에서 관리 - 할당량 리셋 시각이 지나면 자동 복구
  */
-const KEY_STATE_FILE = path.join(process.cwd(), '.veo-key-state.json');
-
-interface KeyState {
-  currentIndex: number;
-  exhaustedKeys: number[];
-  lastUpdated: string;
-}
-
 class VeoApiKeyManager {
-  private keys: string[] = [];
-  private currentIndex = 0;
-  private exhaustedKeys: Set<number> = new Set();
-
-  constructor() {
-    this.loadKeys();
-    this.loadState();
-  }
-
-  private loadKeys(): void {
-    // 기본 키
-    if (process.env.GEMINI_API_KEY) {
-      this.keys.push(process.env.GEMINI_API_KEY);
-    }
-
-    // 추가 키들 (GEMINI_API_KEY_1, GEMINI_API_KEY_2, ...)
-    for (let i = 1; i <= 10; i++) {
-      const key = process.env[`GEMINI_API_KEY_${i}`];
-      if (key) {
-        this.keys.push(key);
-      }
-    }
-
-    if (this.keys.length === 0) {
-      throw new Error('No GEMINI_API_KEY found in environment');
-    }
-
-    console.log(`🔑 Loaded ${this.keys.length} API key(s) for Veo`);
+  /**
+   * 현재 사용할 API 키 반환
+   */
+  getCurrentKey(): string {
+    return apiKeyPool.current('veo').key;
   }
 
-  private loadState(): void {
-    try {
-      if (fs.existsSync(KEY_STATE_FILE)) {
-        const data = JSON.parse(fs.readFileSync(KEY_STATE_FILE, 'utf-8')) as KeyState;
-
-        // 키 개수가 바뀌었으면 리셋
-        if (data.currentIndex < this.keys.length) {
-          this.currentIndex = data.currentIndex;
-          this.exhaustedKeys = new Set(data.exhaustedKeys.filter((i) => i < this.keys.length));
-          console.log(
-            `📂 Restored key state: using key ${this.currentIndex + 1}/${this.keys.length}`
-          );
-        }
-      }
-    } catch {
-      // 파일 읽기 실패 시 무시
-    }
+  /**
+   * 현재 키 인덱스 (제출한 작업은 같은 키로 폴링/다운로드해야 함)
+   */
+  getCurrentKeyIndex(): number {
+    return apiKeyPool.current('veo').index;
   }
 
-  private saveState(): void {
-    try {
-      const state: KeyState = {
-        currentIndex: this.currentIndex,
-        exhaustedKeys: Array.from(this.exhaustedKeys),
-        lastUpdated: new Date().toISOString(),
-      };
-      fs.writeFileSync(KEY_STATE_FILE, JSON.stringify(state, null, 2));
-    } catch {
-      // 저장 실패 시 무시
-    }
+  /**
+   * 인덱스로 API 키 반환 (소진 여부와 무관 - 기존 작업 조회용)
+   */
+  getKeyAt(index: number): string {
+    return apiKeyPool.getKeyAt('veo', index);
   }
 
   /**
-   * 현재 사용할 API 키 반환
+   * 현재 키로 영상 생성 요청 1회 기록
    */
-  getCurrentKey(): string {
-    if (this.exhaustedKeys.size >= this.keys.length) {
-      throw new Error('All API keys exhausted. Please wait for quota reset.');
-    }
-
-    // 소진되지 않은 키 찾기
-    while (this.exhaustedKeys.has(this.currentIndex)) {
-      this.currentIndex = (this.currentIndex + 1) % this.keys.length;
-    }
-
-    return this.keys[this.currentIndex];
+  recordSubmission(): void {
+    apiKeyPool.recordRequest('veo', this.getCurrentKeyIndex());
   }
 
   /**
-   * 현재 키를 소진됨으로 표시하고 다음 키로 전환
+   * 현재 키를 다음 리셋까지 소진됨으로 표시하고 다음 키로 전환
    */
   markCurrentKeyExhausted(): boolean {
-    console.log(`⚠️ API key ${this.currentIndex + 1} exhausted, switching...`);
-    this.exhaustedKeys.add(this.currentIndex);
-
-    if (this.exhaustedKeys.size >= this.keys.length) {
+    const hasMoreKeys = apiKeyPool.markRateLimited('veo', this.getCurrentKeyIndex(), 'exhausted');
+    if (hasMoreKeys) {
+      console.log(`🔄 Switched to API key ${this.getCurrentKeyIndex() + 1}`);
+    } else {
       console.log('❌ All API keys exhausted!');
-      this.saveState();
-      return false;
-    }
-
-    this.currentIndex = (this.currentIndex + 1) % this.keys.length;
-    while (this.exhaustedKeys.has(this.currentIndex)) {
-      this.currentIndex = (this.currentIndex + 1) % this.keys.length;
     }
-
-    console.log(`🔄 Switched to API key ${this.currentIndex + 1}`);
-    this.saveState();
-    return true;
+    return hasMoreKeys;
   }
 
   /**
-   * 모든 키 상태 리셋 (새 세션 시작 시)
+   * 모든 키 상태 리셋 (수동 복구용)
    */
   resetAllKeys(): void {
-    this.exhaustedKeys.clear();
-    this.currentIndex = 0;
-    this.saveState();
+    apiKeyPool.reset('veo');
   }
 
   /**
    * 사용 가능한 키 개수
    */
   getAvailableKeyCount(): number {
-    return this.keys.length - this.exhaustedKeys.size;
+    return apiKeyPool.getAvailableKeyCount('veo');
   }
 }
 
@@ -190,22 +119,34 @@ export interface GeminiImageResponse {
   }>;
 }
 
+/**
+ * Gemini 이미지 API 호출 (키 풀 로테이션 + 사용량 기록)
+ */
+export async function fetchGeminiImage(requestBody: unknown): Promise<Response> {
+  return trackUsage(
+    { service: 'gemini_image', model: GEMINI_MODELS.image },
+    () =>
+      fetchWithApiKey('gemini_image', (apiKey) =>
+        fetch(`${GEMINI_API_URLS.image}?key=${apiKey}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(requestBody),
+        })
+      ),
+    (response) => ({ images: response.ok ? 1 : 0 })
+  );
+}
+
 /**
  * Gemini 이미지 생성 요청
  */
 export async function generateImageWithGemini(prompt: string): Promise<Buffer | null> {
-  const apiKey = getGeminiApiKey();
-
-  const response = await fetch(`${GEMINI_API_URLS.image}?key=${apiKey}`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      contents: [{ parts: [{ text: prompt }] }],
-      generationConfig: {
-        responseModalities: ['image', 'text'],
-        responseMimeType: 'text/plain',
-      },
-    }),
+  const response = await fetchGeminiImage({
+    contents: [{ parts: [{ text: prompt }] }],
+    generationConfig: {
+      responseModalities: ['image', 'text'],
+      responseMimeType: 'text/plain',
+    },
   });
 
   if (!response.ok) {
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_COOLDOWN_MS,
+  classifyRateLimit,
+  getNextKeyAvailableAt,
+  getQuotaWindowStart,
+  keyFingerprint,
+  parseServiceKeys,
+  recordKeyRateLimit,
+  recordKeyRequest,
+  recordKeySuccess,
+  selectKeyIndex,
+  syncServiceKeyState,
+} from './key-pool';
+
+const now = new Date('2026-01-15T12:00:00Z');
+const windowStart = '2026-01-15T08:00:00.000Z';
+const fresh = () => syncServiceKeyState(undefined, ['…aaaa', '…bbbb'], windowStart);
+
+describe('API Key Pool', () => {
+  it('should load the base key and numbered keys without duplicates', () => {
+    const env = { OPENAI_API_KEY: 'k0', OPENAI_API_KEY_1: 'k1', OPENAI_API_KEY_3: 'k0' };
+    expect(parseServiceKeys('openai', env)).toEqual(['k0', 'k1']);
+    expect(parseServiceKeys('elevenlabs', env)).toEqual([]);
+    expect(keyFingerprint('sk-123456')).toBe('…3456');
+  });
+
+  it('should start the window at midnight in the provider time zone', () => {
+    expect(getQuotaWindowStart(now, 'America/Los_Angeles').toISOString()).toBe(windowStart);
+    expect(getQuotaWindowStart(now, 'UTC').toISOString()).toBe('2026-01-15T00:00:00.000Z');
+    // 여름 (PDT, UTC-7)
+    expect(
+      getQuotaWindowStart(new Date('2026-07-01T06:00:00Z'), 'America/Los_Angeles').toISOString()
+    ).toBe('2026-06-30T07:00:00.000Z');
+  });
+
+  it('should count requests per key', () => {
+    const state = recordKeyRequest(recordKeyRequest(fresh(), 1, now), 1, now);
+    expect(state.currentIndex).toBe(1);
+    expect(state.keys[1]).toMatchObject({ requests: 2, totalRequests: 2 });
+    expect(state.keys[0].requests).toBe(0);
+  });
+
+  it('should skip keys over the daily limit', () => {
+    const state = recordKeyRequest(fresh(), 0, now);
+    expect(selectKeyIndex(state, now)).toBe(0);
+    expect(selectKeyIndex(state, now, 1)).toBe(1);
+  });
+
+  it('should cool a key down after a 429 and double the delay on repeats', () => {
+    const once = recordKeyRateLimit(fresh(), 0, 'cooldown', 60_000, now);
+    expect(once.currentIndex).toBe(1);
+    expect(once.keys[0].cooldownUntil).toBe('2026-01-15T12:01:00.000Z');
+    expect(selectKeyIndex({ ...once, currentIndex: 0 }, now)).toBe(1);
+    expect(selectKeyIndex({ ...once, currentIndex: 0 }, new Date('2026-01-15T12:01:00Z'))).toBe(0);
+
+    const twice = recordKeyRateLimit(once, 0, 'cooldown', 60_000, now);
+    expect(twice.keys[0].cooldownUntil).toBe('2026-01-15T12:02:00.000Z');
+    expect(recordKeySuccess(twice, 0).keys[0].rateLimitStreak).toBe(0);
+
+    const capped = recordKeyRateLimit(
+      { ...twice, keys: twice.keys.map((k) => ({ ...k, rateLimitStreak: 20 })) },
+      0,
+      'cooldown',
+      60_000,
+      now
+    );
+    expect(new Date(capped.keys[0].cooldownUntil!).getTime() - now.getTime()).toBe(MAX_COOLDOWN_MS);
+  });
+
+  it('should keep exhausted keys out until the quota window rolls over', () => {
+    const exhausted = recordKeyRateLimit(
+      recordKeyRateLimit(fresh(), 0, 'exhausted', 60_000, now),
+      1,
+      'exhausted',
+      60_000,
+      now
+    );
+    const nextReset = new Date('2026-01-16T08:00:00Z');
+    expect(selectKeyIndex(exhausted, now)).toBeNull();
+    expect(getNextKeyAvailableAt(exhausted, now, nextReset)).toEqual(nextReset);
+
+    const rolled = syncServiceKeyState(exhausted, ['…aaaa', '…bbbb'], nextReset.toISOString());
+    expect(selectKeyIndex(rolled, nextReset)).toBe(0);
+    expect(rolled.keys[0].requests).toBe(0);
+  });
+
+  it('should reset state for keys that changed in .env', () => {
+    const used = recordKeyRequest(fresh(), 1, now);
+    const synced = syncServiceKeyState(used, ['…aaaa', '…cccc'], windowStart);
+    expect(synced.keys[1]).toMatchObject({ fingerprint: '…cccc', totalRequests: 0 });
+    expect(syncServiceKeyState(used, ['…aaaa'], windowStart).currentIndex).toBe(0);
+  });
+
+  it('should classify provider errors', () => {
+    expect(classifyRateLimit('429 Too Many Requests')).toBe('cooldown');
+    expect(classifyRateLimit('RESOURCE_EXHAUSTED: GenerateRequestsPerDayPerProject')).toBe(
+      'exhausted'
+    );
+    expect(classifyRateLimit('500 Internal error')).toBeNull();
+  });
+});
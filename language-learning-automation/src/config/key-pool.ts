@@ -0,0 +1,308 @@
+/**
+ * API key pool state
+ * 서비스별(Gemini 텍스트/이미지, Veo, ElevenLabs, OpenAI) 여러 키를 돌려 쓰면서
+ * 일일 할당량 창, 키별 사용량, 429 쿨다운을 추적 (파일 저장은 api-keys.ts)
+ */
+
+import { z } from 'zod';
+
+export const API_KEY_SERVICES = [
+  'gemini_text',
+  'gemini_image',
+  'veo',
+  'elevenlabs',
+  'openai',
+] as const;
+export const apiKeyServiceSchema = z.enum(API_KEY_SERVICES);
+export type ApiKeyService = z.infer<typeof apiKeyServiceSchema>;
+
+export interface KeyServiceConfig {
+  label: string;
+  /** PREFIX, PREFIX_1 … PREFIX_10 환경변수에서 키 로드 */
+  envPrefix: string;
+  /** 할당량이 리셋되는 시간대 (그 시간대 자정 기준) */
+  resetTimeZone: string;
+  /** 첫 429 이후 쿨다운 - 연속으로 받으면 두 배씩 늘어남 */
+  cooldownMs: number;
+  /** 키당 하루 요청 수 제한 (없으면 429가 올 때까지 사용) */
+  dailyLimit?: number;
+}
+
+// Gemini 계열은 태평양 시간 자정에 할당량 리셋
+export const KEY_SERVICE_CONFIGS: Record<ApiKeyService, KeyServiceConfig> = {
+  gemini_text: {
+    label: 'Gemini text',
+    envPrefix: 'GEMINI_API_KEY',
+    resetTimeZone: 'America/Los_Angeles',
+    cooldownMs: 60_000,
+  },
+  gemini_image: {
+    label: 'Gemini image',
+    envPrefix: 'GEMINI_API_KEY',
+    resetTimeZone: 'America/Los_Angeles',
+    cooldownMs: 60_000,
+  },
+  veo: {
+    label: 'Veo',
+    envPrefix: 'GEMINI_API_KEY',
+    resetTimeZone: 'America/Los_Angeles',
+    cooldownMs: 5 * 60_000,
+  },
+  elevenlabs: {
+    label: 'ElevenLabs',
+    envPrefix: 'ELEVENLABS_API_KEY',
+    resetTimeZone: 'UTC',
+    cooldownMs: 30_000,
+  },
+  openai: {
+    label: 'OpenAI',
+    envPrefix: 'OPENAI_API_KEY',
+    resetTimeZone: 'UTC',
+    cooldownMs: 20_000,
+  },
+};
+
+export const MAX_EXTRA_KEYS = 10;
+export const MAX_COOLDOWN_MS = 60 * 60_000;
+
+export const keyUsageStateSchema = z.object({
+  /** 키 끝 4자리 - .env의 키가 바뀌면 상태를 새로 시작 */
+  fingerprint: z.string(),
+  /** 현재 할당량 창 시작 시각 (ISO) */
+  windowStart: z.string(),
+  /** 현재 창에서의 요청 수 */
+  requests: z.number().int().nonnegative().default(0),
+  totalRequests: z.number().int().nonnegative().default(0),
+  /** 일일 할당량 소진 - 다음 리셋까지 사용 안 함 */
+  exhausted: z.boolean().default(false),
+  cooldownUntil: z.string().optional(),
+  /** 연속 429 횟수 (쿨다운 배수) */
+  rateLimitStreak: z.number().int().nonnegative().default(0),
+  lastUsedAt: z.string().optional(),
+});
+
+export type KeyUsageState = z.infer<typeof keyUsageStateSchema>;
+
+export const serviceKeyPoolStateSchema = z.object({
+  currentIndex: z.number().int().nonnegative().default(0),
+  keys: z.array(keyUsageStateSchema).default([]),
+});
+
+export type ServiceKeyPoolState = z.infer<typeof serviceKeyPoolStateSchema>;
+
+export const keyPoolStateSchema = z.object({
+  services: z.record(apiKeyServiceSchema, serviceKeyPoolStateSchema).default({}),
+  lastUpdated: z.string().optional(),
+});
+
+export type KeyPoolState = z.infer<typeof keyPoolStateSchema>;
+
+export type RateLimitKind = 'cooldown' | 'exhausted';
+
+/**
+ * Keys for a service from env (PREFIX, then PREFIX_1 … PREFIX_10)
+ */
+export function parseServiceKeys(
+  service: ApiKeyService,
+  env: Record<string, string | undefined>
+): string[] {
+  const { envPrefix } = KEY_SERVICE_CONFIGS[service];
+  const keys = [env[envPrefix]];
+  for (let i = 1; i <= MAX_EXTRA_KEYS; i++) {
+    keys.push(env[`${envPrefix}_${i}`]);
+  }
+  return [...new Set(keys.filter((key): key is string => Boolean(key)))];
+}
+
+/**
+ * Short, log-safe identifier of a key
+ */
+export function keyFingerprint(key: string): string {
+  return `…${key.slice(-4)}`;
+}
+
+/**
+ * Start of the current quota window (last midnight in the provider's time zone)
+ */
+export function getQuotaWindowStart(now: Date, timeZone: string): Date {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+      .formatToParts(now)
+      .map((p) => [p.type, Number(p.value)])
+  );
+  const localAsUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  const offsetMs = localAsUtc - Math.floor(now.getTime() / 1000) * 1000;
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day) - offsetMs);
+}
+
+/**
+ * Next quota reset after `now`
+ */
+export function getNextQuotaReset(now: Date, timeZone: string): Date {
+  return new Date(getQuotaWindowStart(now, timeZone).getTime() + 24 * 60 * 60_000);
+}
+
+/**
+ * Align stored state with the loaded keys and roll over expired quota windows
+ */
+export function syncServiceKeyState(
+  state: ServiceKeyPoolState | undefined,
+  fingerprints: string[],
+  windowStart: string
+): ServiceKeyPoolState {
+  const keys = fingerprints.map((fingerprint, i): KeyUsageState => {
+    const prev = state?.keys[i];
+    if (!prev || prev.fingerprint !== fingerprint) {
+      return {
+        fingerprint,
+        windowStart,
+        requests: 0,
+        totalRequests: 0,
+        exhausted: false,
+        rateLimitStreak: 0,
+      };
+    }
+    if (prev.windowStart !== windowStart) {
+      return { ...prev, windowStart, requests: 0, exhausted: false, rateLimitStreak: 0 };
+    }
+    return prev;
+  });
+
+  const currentIndex = state && state.currentIndex < keys.length ? state.currentIndex : 0;
+  return { currentIndex, keys };
+}
+
+/**
+ * Whether a key can take another request right now
+ */
+export function isKeyAvailable(key: KeyUsageState, now: Date, dailyLimit?: number): boolean {
+  if (key.exhausted) return false;
+  if (dailyLimit !== undefined && key.requests >= dailyLimit) return false;
+  return !key.cooldownUntil || new Date(key.cooldownUntil).getTime() <= now.getTime();
+}
+
+/**
+ * First available key, starting from the current one (null when all are unavailable)
+ */
+export function selectKeyIndex(
+  state: ServiceKeyPoolState,
+  now: Date,
+  dailyLimit?: number
+): number | null {
+  const count = state.keys.length;
+  for (let offset = 0; offset < count; offset++) {
+    const index = (state.currentIndex + offset) % count;
+    if (isKeyAvailable(state.keys[index], now, dailyLimit)) return index;
+  }
+  return null;
+}
+
+/**
+ * Count one request against a key and make it the current key
+ */
+export function recordKeyRequest(
+  state: ServiceKeyPoolState,
+  index: number,
+  now = new Date()
+): ServiceKeyPoolState {
+  return {
+    currentIndex: index,
+    keys: patchKey(state.keys, index, (key) => ({
+      ...key,
+      requests: key.requests + 1,
+      totalRequests: key.totalRequests + 1,
+      lastUsedAt: now.toISOString(),
+    })),
+  };
+}
+
+/**
+ * Clear the 429 streak after a successful call
+ */
+export function recordKeySuccess(state: ServiceKeyPoolState, index: number): ServiceKeyPoolState {
+  return {
+    ...state,
+    keys: patchKey(state.keys, index, (key) =>
+      key.rateLimitStreak === 0 ? key : { ...key, rateLimitStreak: 0 }
+    ),
+  };
+}
+
+/**
+ * Put a key on cooldown (doubling per consecutive 429) or mark it exhausted until
+ * the next reset, then move the current index past it
+ */
+export function recordKeyRateLimit(
+  state: ServiceKeyPoolState,
+  index: number,
+  kind: RateLimitKind,
+  cooldownMs: number,
+  now = new Date()
+): ServiceKeyPoolState {
+  const keys = patchKey(state.keys, index, (key) => {
+    if (kind === 'exhausted') return { ...key, exhausted: true };
+    const streak = key.rateLimitStreak + 1;
+    const delay = Math.min(cooldownMs * 2 ** (streak - 1), MAX_COOLDOWN_MS);
+    return {
+      ...key,
+      rateLimitStreak: streak,
+      cooldownUntil: new Date(now.getTime() + delay).toISOString(),
+    };
+  });
+  return { currentIndex: (index + 1) % Math.max(keys.length, 1), keys };
+}
+
+/**
+ * Earliest time any key becomes usable again (null when one is usable now)
+ */
+export function getNextKeyAvailableAt(
+  state: ServiceKeyPoolState,
+  now: Date,
+  nextReset: Date,
+  dailyLimit?: number
+): Date | null {
+  if (selectKeyIndex(state, now, dailyLimit) !== null) return null;
+  const times = state.keys.map((key) =>
+    key.exhausted || (dailyLimit !== undefined && key.requests >= dailyLimit) || !key.cooldownUntil
+      ? nextReset.getTime()
+      : new Date(key.cooldownUntil).getTime()
+  );
+  return new Date(Math.min(nextReset.getTime(), ...times));
+}
+
+/**
+ * Classify a provider error: daily quota, short-term rate limit, or neither
+ */
+export function classifyRateLimit(message: string): RateLimitKind | null {
+  if (!/\b429\b|RESOURCE_EXHAUSTED|rate.?limit|quota/i.test(message)) return null;
+  return /PerDay|per day|daily|quota_exceeded|insufficient_quota/i.test(message)
+    ? 'exhausted'
+    : 'cooldown';
+}
+
+function patchKey(
+  keys: KeyUsageState[],
+  index: number,
+  patch: (key: KeyUsageState) => KeyUsageState
+): KeyUsageState[] {
+  if (!keys[index]) {
+    throw new Error(`No API key at index ${index} (loaded ${keys.length})`);
+  }
+  return keys.map((key, i) => (i === index ? patch(key) : key));
+}
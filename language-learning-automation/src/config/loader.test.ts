@@ -30,7 +30,6 @@ describe('Config Loader', () => {
     },
     content: {
       sentenceCount: 10,
-      repeatCount: 5,
     },
   });
 
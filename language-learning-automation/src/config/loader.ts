@@ -1,16 +1,23 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-import { channelConfigSchema, type ChannelConfig } from './types';
+import {
+  anyChannelConfigSchema,
+  channelConfigSchema,
+  type AnyChannelConfig,
+  type ChannelConfig,
+  type VeoChannelConfig,
+} from './types';
+import { withLocaleDefaults } from '../i18n/locale';
 
 const CHANNELS_DIR = path.join(process.cwd(), 'channels');
 
 /**
- * Load and validate a channel configuration file
+ * Load and validate a channel configuration file of any content type
  * @param channelId - The channel ID (filename without .json extension)
- * @returns Validated ChannelConfig object
+ * @returns Validated config, discriminated by contentType
  * @throws Error if file not found, invalid JSON, or schema validation fails
  */
-export async function loadConfig(channelId: string): Promise<ChannelConfig> {
+export async function loadAnyConfig(channelId: string): Promise<AnyChannelConfig> {
   const configPath = path.join(CHANNELS_DIR, `${channelId}.json`);
 
   // Read file
@@ -33,7 +40,7 @@ export async function loadConfig(channelId: string): Promise<ChannelConfig> {
   }
 
   // Validate schema
-  const result = channelConfigSchema.safeParse(rawConfig);
+  const result = anyChannelConfigSchema.safeParse(rawConfig);
   if (!result.success) {
     const errors = result.error.issues
       .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
@@ -41,7 +48,36 @@ export async function loadConfig(channelId: string): Promise<ChannelConfig> {
     throw new Error(`Invalid config schema for ${channelId}: ${errors}`);
   }
 
-  return result.data;
+  // Fill UI labels from the viewer's locale pack
+  return result.data.contentType === 'listening' ? withLocaleDefaults(result.data) : result.data;
+}
+
+/**
+ * Load and validate a listening channel configuration file
+ * @param channelId - The channel ID (filename without .json extension)
+ * @returns Validated ChannelConfig object
+ * @throws Error if the channel is missing, invalid, or not a listening channel
+ */
+export async function loadConfig(channelId: string): Promise<ChannelConfig> {
+  const config = await loadAnyConfig(channelId);
+  if (config.contentType !== 'listening') {
+    throw new Error(
+      `Channel ${channelId} is a ${config.contentType} channel, not a listening channel`
+    );
+  }
+  return config;
+}
+
+/**
+ * Load and validate an interview/dialogue (Veo) channel configuration file
+ * @throws Error if the channel is missing, invalid, or a listening channel
+ */
+export async function loadVeoConfig(channelId: string): Promise<VeoChannelConfig> {
+  const config = await loadAnyConfig(channelId);
+  if (config.contentType === 'listening') {
+    throw new Error(`Channel ${channelId} is a listening channel, not a Veo channel`);
+  }
+  return config;
 }
 
 /**
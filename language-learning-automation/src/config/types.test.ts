@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { channelConfigSchema, type ChannelConfig } from './types';
+import { resolveUiLabels } from '../i18n/locale';
+import { anyChannelConfigSchema, channelConfigSchema, type ChannelConfig } from './types';
 
 describe('ChannelConfig Schema', () => {
   const validConfig: ChannelConfig = {
@@ -37,7 +38,6 @@ describe('ChannelConfig Schema', () => {
     },
     content: {
       sentenceCount: 12,
-      repeatCount: 10,
       difficulty: 'intermediate',
     },
     uiLabels: {
@@ -121,7 +121,6 @@ describe('ChannelConfig Schema', () => {
       },
       content: {
         sentenceCount: 10,
-        repeatCount: 5,
       },
     };
 
@@ -133,9 +132,109 @@ describe('ChannelConfig Schema', () => {
       expect(result.data.layout.step3ImageRatio).toBe(0.4);
       expect(result.data.tts.speed).toBe(1.0);
       expect(result.data.content.difficulty).toBe('intermediate');
-      // uiLabels should have defaults
-      expect(result.data.uiLabels.step3Title).toBe('STEP 3 · 반복 훈련');
-      expect(result.data.uiLabels.phaseIntro).toBe('🎧 천천히 듣기');
+      // uiLabels defaults come from the viewer's locale pack
+      const labels = resolveUiLabels('Korean', 'English', result.data.uiLabels);
+      expect(labels.step3PhaseTitle).toBe('STEP 3 · 반복 훈련');
+      expect(labels.phaseIntro).toBe('🎧 천천히 듣기');
     }
   });
+
+  it('should fill karaoke style defaults when enabled', () => {
+    const result = channelConfigSchema.safeParse({
+      ...validConfig,
+      layout: { ...validConfig.layout, karaoke: { enabled: true } },
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.layout.karaoke?.mode).toBe('word');
+      expect(result.data.layout.karaoke?.activeScale).toBe(1.08);
+    }
+  });
+
+  it('should reject an unknown karaoke mode', () => {
+    const result = channelConfigSchema.safeParse({
+      ...validConfig,
+      layout: { ...validConfig.layout, karaoke: { enabled: true, mode: 'bounce' } },
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should fill step3Program phase defaults', () => {
+    const result = channelConfigSchema.safeParse({
+      ...validConfig,
+      content: { ...validConfig.content, step3Program: [{ speed: '0.8x' }, { speed: '1.2x' }] },
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      const [first] = result.data.content.step3Program ?? [];
+      expect(first.subtitle).toBe('full');
+      expect(first.translation).toBe(true);
+      expect(first.thinkTime).toBe(3);
+    }
+  });
+
+  it('should reject an empty step3Program', () => {
+    const result = channelConfigSchema.safeParse({
+      ...validConfig,
+      content: { ...validConfig.content, step3Program: [] },
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('AnyChannelConfig Schema', () => {
+  const interviewConfig = {
+    channelId: 'cat_interview',
+    channelName: '고양이 인터뷰',
+    contentType: 'interview',
+    character: {
+      id: 'orange_kitten',
+      name: '나비',
+      nameEnglish: 'Nabi',
+      type: 'animal',
+      style: 'baby kitten',
+      voiceStyle: 'sweet voice',
+      personality: 'curious',
+      age: '6 weeks',
+    },
+  };
+
+  it('should treat configs without contentType as listening channels', () => {
+    const result = anyChannelConfigSchema.safeParse({
+      channelId: 'test_channel',
+      meta: { name: 'Test', targetLanguage: 'English', nativeLanguage: 'Korean' },
+      theme: {},
+      colors: { maleText: '#0000FF', femaleText: '#FF00FF', nativeText: '#FFFFFF' },
+      tts: { provider: 'edge', maleVoice: 'a', femaleVoice: 'b', targetLanguageCode: 'en-US' },
+      content: { sentenceCount: 10 },
+    });
+    expect(result.success).toBe(true);
+    expect(result.success && result.data.contentType).toBe('listening');
+  });
+
+  it('should validate interview channels and fill Veo defaults', () => {
+    const result = anyChannelConfigSchema.safeParse(interviewConfig);
+    expect(result.success).toBe(true);
+    if (result.success && result.data.contentType === 'interview') {
+      expect(result.data.veoConfig.aspectRatio).toBe('16:9');
+      expect(result.data.interviewConfig.characterLanguage).toBe('English');
+    }
+  });
+
+  it('should reject clip lengths Veo does not support', () => {
+    const withDuration = (durationSeconds: number) =>
+      anyChannelConfigSchema.safeParse({ ...interviewConfig, veoConfig: { durationSeconds } });
+    expect(withDuration(6).success).toBe(true);
+    expect(withDuration(5).success).toBe(false);
+    expect(withDuration(10).success).toBe(false);
+  });
+
+  it('should reject unknown content types and interview configs without a character', () => {
+    expect(
+      anyChannelConfigSchema.safeParse({ ...interviewConfig, contentType: 'quiz' }).success
+    ).toBe(false);
+    expect(
+      anyChannelConfigSchema.safeParse({ ...interviewConfig, character: undefined }).success
+    ).toBe(false);
+  });
 });
@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { llmProviderNameSchema } from '../llm/types';
+import { embeddingProviderNameSchema } from '../embedding/types';
+import { speedVariantSchema, ttsProviderSchema } from '../tts/types';
 
 // Color hex pattern validation
 const hexColorSchema = z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Invalid hex color format');
@@ -43,51 +46,102 @@ export const colorsSchema = z.object({
   background: hexColorSchema.optional().default('#000000'),
 });
 
+// Karaoke subtitle style (word-synchronized highlighting)
+export const karaokeSchema = z.object({
+  enabled: z.boolean().optional().default(false),
+  /** word: 단어 단위로 색 변경, sweep: 단어 안에서 왼쪽→오른쪽으로 채움 */
+  mode: z.enum(['word', 'sweep']).optional().default('word'),
+  /** 아직 발화되지 않은 단어 색 (발화된 단어는 화자 색) */
+  upcomingColor: z.string().optional().default('rgba(255, 255, 255, 0.45)'),
+  /** 현재 발화 중인 단어 확대 배율 */
+  activeScale: z.number().min(1).max(1.5).optional().default(1.08),
+});
+
 // Layout section schema
 export const layoutSchema = z.object({
   step3ImageRatio: z.number().min(0).max(1).optional().default(0.4),
   subtitlePosition: z.enum(['center', 'bottom']).optional().default('center'),
   speakerIndicator: z.enum(['left', 'none']).optional().default('left'),
+  /** 없으면 정적 자막 */
+  karaoke: karaokeSchema.optional(),
 });
 
 // TTS section schema
 export const ttsSchema = z.object({
-  provider: z.enum(['openai', 'google', 'edge']),
+  provider: ttsProviderSchema,
   maleVoice: z.string().min(1, 'Male voice is required'),
   femaleVoice: z.string().min(1, 'Female voice is required'),
   targetLanguageCode: z.string().min(1, 'Target language code is required'),
   speed: z.number().min(0.5).max(2.0).optional().default(1.0),
+  /** provider별 모델 (openai: tts-1, elevenlabs: eleven_v3 등) */
+  model: z.string().optional(),
+  /** 생성할 속도 변형 (없으면 0.8x/1.0x/1.2x, 1.0x와 step3Program 속도는 항상 포함) */
+  speeds: z.array(speedVariantSchema).min(1).max(6).optional(),
+});
+
+// LLM section schema (text generation provider)
+export const llmSchema = z.object({
+  provider: llmProviderNameSchema.optional().default('gemini'),
+  /** 모델 이름 (없으면 provider 기본값) */
+  model: z.string().optional(),
+  /** local provider용 녹화된 응답 디렉토리 */
+  fixturesDir: z.string().optional(),
+});
+
+// Topic selection section schema (중복 주제 검사)
+export const topicsSchema = z.object({
+  /** 주제 임베딩 provider (없으면 local 문자 n-gram) */
+  embeddingProvider: embeddingProviderNameSchema.optional(),
+  /** 모델 이름 (없으면 provider 기본값) */
+  embeddingModel: z.string().optional(),
+  /** 이 값 이상으로 과거 주제와 비슷한 후보는 제외 (없으면 provider 기본값) */
+  similarityThreshold: z.number().min(0).max(1).optional(),
+});
+
+// Step3 repetition program phase (one playback of each sentence)
+export const step3PhaseSchema = z.object({
+  speed: speedVariantSchema,
+  /** full: 전체 자막, blank: 빈칸 자막, answer: 정답 강조, none: 자막 없음 */
+  subtitle: z.enum(['full', 'blank', 'answer', 'none']).optional().default('full'),
+  /** 해석 + 단어 풀이 표시 */
+  translation: z.boolean().optional().default(true),
+  /** 오디오 후 생각할 시간 (초) */
+  thinkTime: z.number().min(0).max(10).optional().default(3),
+  /** 배지 라벨/색상 (없으면 자막 모드로 결정) */
+  phase: z.enum(['intro', 'training', 'challenge', 'review']).optional(),
 });
 
 // Content section schema
 export const contentSchema = z.object({
   sentenceCount: z.number().int().min(1).max(20),
-  repeatCount: z.number().int().min(1).max(20),
   difficulty: z.enum(['beginner', 'intermediate', 'advanced']).optional().default('intermediate'),
+  /** Step3 반복 프로그램 (없으면 기본: 0.8x → 1.0x 빈칸 ×3 → 1.2x 정답) */
+  step3Program: z.array(step3PhaseSchema).min(1).max(20).optional(),
 });
 
 // UI Labels section schema (for multi-language support)
+// 지정하지 않은 값은 시청자 언어 팩(src/i18n/packs)에서 채움
 export const uiLabelsSchema = z.object({
   // Intro labels
-  introTitle: z.string().optional().default('오늘의 학습'),
+  introTitle: z.string().optional(),
   // Step titles (used in intro and step indicators)
-  step1Title: z.string().optional().default('전체 흐름 파악 (자막 없이 듣기)'),
-  step2Title: z.string().optional().default('자막으로 내용 이해 하기'),
-  step3Title: z.string().optional().default('3단계 반복 듣기'),
-  step4Title: z.string().optional().default('기적의 순간 (다시 자막 없이 듣기)'),
+  step1Title: z.string().optional(),
+  step2Title: z.string().optional(),
+  step3Title: z.string().optional(),
+  step4Title: z.string().optional(),
   // Step descriptions (for intro)
-  step1Desc: z.string().optional().default('자막 없이 소리에만 집중하며, 상황을 상상해보세요.'),
-  step2Desc: z.string().optional().default('자막과 함께 들으며, 안 들렸던 부분을 확인하세요.'),
-  step3Desc: z.string().optional().default('[느리게-빈칸-빠르게] 반복으로 영어가 들리기 시작해요.'),
-  step4Desc: z.string().optional().default('놀랍게 선명해진 영어를 직접 확인해보세요!'),
+  step1Desc: z.string().optional(),
+  step2Desc: z.string().optional(),
+  step3Desc: z.string().optional(),
+  step4Desc: z.string().optional(),
   // Step3 phase labels
-  step3PhaseTitle: z.string().optional().default('STEP 3 · 반복 훈련'),
-  phaseIntro: z.string().optional().default('🎧 천천히 듣기'),
-  phaseTraining: z.string().optional().default('🧩 빈칸 퀴즈'),
-  phaseChallenge: z.string().optional().default('⚡ 빠르게 듣기'),
-  phaseReview: z.string().optional().default('✨ 마무리'),
+  step3PhaseTitle: z.string().optional(),
+  phaseIntro: z.string().optional(),
+  phaseTraining: z.string().optional(),
+  phaseChallenge: z.string().optional(),
+  phaseReview: z.string().optional(),
   // Shorts quiz labels
-  quizHook: z.string().optional().default('맞추면 영어괴물!'),
+  quizHook: z.string().optional(),
 });
 
 // Thumbnail section schema
@@ -112,28 +166,113 @@ export const shortsThemeSchema = z.object({
   ctaText: z.string().optional(),
 });
 
-// Full ChannelConfig schema
+// Channel content types (channels/*.json `contentType`)
+export const channelContentTypes = ['listening', 'interview', 'dialogue'] as const;
+
+const channelIdSchema = z
+  .string()
+  .regex(/^[a-z_]+$/, 'Channel ID must be lowercase with underscores only');
+
+// Full ChannelConfig schema (listening channels; contentType may be omitted)
 export const channelConfigSchema = z.object({
-  channelId: z.string().regex(/^[a-z_]+$/, 'Channel ID must be lowercase with underscores only'),
+  channelId: channelIdSchema,
+  contentType: z.literal('listening').optional().default('listening'),
   meta: metaSchema,
   theme: themeSchema,
   colors: colorsSchema,
   layout: layoutSchema.optional().default({}),
   tts: ttsSchema,
+  llm: llmSchema.optional().default({}),
+  topics: topicsSchema.optional().default({}),
   content: contentSchema,
   uiLabels: uiLabelsSchema.optional().default({}),
   shortsTheme: shortsThemeSchema.optional().default({}),
   thumbnail: thumbnailSchema.optional().default({}),
 });
 
+// Veo character section schema (interview/dialogue channels)
+export const characterSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  nameEnglish: z.string().min(1),
+  type: z.enum(['animal', 'human']),
+  imagePath: z.string().optional(),
+  style: z.string().min(1),
+  voiceStyle: z.string().min(1),
+  personality: z.string().min(1),
+  age: z.string().min(1),
+});
+
+// Veo generation settings of a channel
+export const channelVeoConfigSchema = z.object({
+  useReferenceImages: z.boolean().optional().default(true),
+  aspectRatio: z.enum(['16:9', '9:16']).optional().default('16:9'),
+  /** Veo 가 지원하는 클립 길이만 (veoConfigSchema.durationSeconds) */
+  durationSeconds: z
+    .union([z.literal(4), z.literal(6), z.literal(8)])
+    .optional()
+    .default(8),
+  personGeneration: z.enum(['allow_adult', 'allow_all']).optional().default('allow_adult'),
+  /** single: 한 클립에 모든 대화 / per_dialogue: 대화마다 클립 생성 후 크로스페이드로 연결 */
+  clipMode: z.enum(['single', 'per_dialogue']).optional().default('single'),
+  /** 하루 콘텐츠의 질문-답변 개수 (per_dialogue에서 3~5개면 20~40초) */
+  dialogueCount: z.number().int().min(1).max(6).optional().default(2),
+  crossfadeSeconds: z.number().min(0).max(2).optional().default(0.5),
+});
+
+// Interview section schema
+export const interviewConfigSchema = z.object({
+  reporterLanguage: z.string().optional().default('Korean'),
+  characterLanguage: z.string().optional().default('English'),
+  reporterVisible: z.boolean().optional().default(false),
+});
+
+const veoChannelConfigBaseSchema = z.object({
+  channelId: channelIdSchema,
+  channelName: z.string().min(1, 'Channel name is required'),
+  character: characterSchema,
+  props: z.object({ microphone: z.string().optional() }).optional(),
+  veoConfig: channelVeoConfigSchema.optional().default({}),
+});
+
+// Interview channel schema (reporter question → character answer)
+export const interviewChannelConfigSchema = veoChannelConfigBaseSchema.extend({
+  contentType: z.literal('interview'),
+  interviewConfig: interviewConfigSchema.optional().default({}),
+});
+
+// Dialogue channel schema (e.g. grandma and grandson)
+export const dialogueChannelConfigSchema = veoChannelConfigBaseSchema.extend({
+  contentType: z.literal('dialogue'),
+});
+
+// Any channel config, keyed on contentType
+export const anyChannelConfigSchema = z.discriminatedUnion('contentType', [
+  channelConfigSchema,
+  interviewChannelConfigSchema,
+  dialogueChannelConfigSchema,
+]);
+
 // TypeScript types inferred from Zod schemas
 export type Meta = z.infer<typeof metaSchema>;
 export type Theme = z.infer<typeof themeSchema>;
 export type Colors = z.infer<typeof colorsSchema>;
 export type Layout = z.infer<typeof layoutSchema>;
+export type Karaoke = z.infer<typeof karaokeSchema>;
 export type TTS = z.infer<typeof ttsSchema>;
+export type LLM = z.infer<typeof llmSchema>;
+export type Topics = z.infer<typeof topicsSchema>;
 export type Content = z.infer<typeof contentSchema>;
+export type Step3Phase = z.infer<typeof step3PhaseSchema>;
 export type UILabels = z.infer<typeof uiLabelsSchema>;
 export type ShortsTheme = z.infer<typeof shortsThemeSchema>;
 export type Thumbnail = z.infer<typeof thumbnailSchema>;
 export type ChannelConfig = z.infer<typeof channelConfigSchema>;
+export type ChannelContentType = (typeof channelContentTypes)[number];
+export type Character = z.infer<typeof characterSchema>;
+export type ChannelVeoConfig = z.infer<typeof channelVeoConfigSchema>;
+export type InterviewConfig = z.infer<typeof interviewConfigSchema>;
+export type InterviewChannelConfig = z.infer<typeof interviewChannelConfigSchema>;
+export type DialogueChannelConfig = z.infer<typeof dialogueChannelConfigSchema>;
+export type VeoChannelConfig = InterviewChannelConfig | DialogueChannelConfig;
+export type AnyChannelConfig = z.infer<typeof anyChannelConfigSchema>;
@@ -1,26 +1,23 @@
-import { GEMINI_API_URLS, getGeminiApiKey } from '../config/gemini';
+import { getTextProvider } from '../llm/provider';
+import type { TextProvider } from '../llm/types';
 import type { CharacterDefinition } from '../character/types';
 import { dialogueScriptSchema, type DialogueScript, type DialogueGeneratorConfig } from './types';
 import { DIALOGUE_SYSTEM_PROMPT, buildDialoguePrompt, buildVeoPromptFromScript } from './prompts';
 
-/**
- * Gemini API 응답 타입
- */
-interface GeminiTextResponse {
-  candidates: Array<{
-    content: {
-      parts: Array<{
-        text?: string;
-      }>;
-    };
-  }>;
-}
-
 /**
  * 대화 스크립트 생성기
- * Gemini API를 사용하여 캐릭터 대화 스크립트를 생성
+ * LLM provider를 사용하여 캐릭터 대화 스크립트를 생성
  */
 export class DialogueGenerator {
+  private provider?: TextProvider;
+
+  /**
+   * @param provider - 텍스트 생성 provider (없으면 LLM_PROVIDER 환경변수 또는 Gemini)
+   */
+  constructor(provider?: TextProvider) {
+    this.provider = provider;
+  }
+
   /**
    * 대화 스크립트 생성
    * @param config - 생성 설정 (타겟 표현, 캐릭터 등)
@@ -32,56 +29,27 @@ export class DialogueGenerator {
     foreignCharacter: CharacterDefinition,
     nativeCharacter: CharacterDefinition
   ): Promise<DialogueScript> {
-    const apiKey = getGeminiApiKey();
+    const provider = this.provider ?? getTextProvider();
     const prompt = buildDialoguePrompt(config, foreignCharacter, nativeCharacter);
 
     console.log(`🎬 Generating dialogue script for: "${config.targetExpression}"...`);
 
-    const requestBody = {
-      contents: [
-        {
-          role: 'user',
-          parts: [{ text: DIALOGUE_SYSTEM_PROMPT }],
-        },
+    const { text: responseText } = await provider.generateText({
+      history: [
+        { role: 'user', text: DIALOGUE_SYSTEM_PROMPT },
         {
           role: 'model',
-          parts: [
-            {
-              text: "I understand. I will create dialogue scripts following the language reversal concept where the foreign character speaks the viewer's native language and the native character speaks the target language. Please provide the details.",
-            },
-          ],
-        },
-        {
-          role: 'user',
-          parts: [{ text: prompt }],
+          text: "I understand. I will create dialogue scripts following the language reversal concept where the foreign character speaks the viewer's native language and the native character speaks the target language. Please provide the details.",
         },
       ],
-      generationConfig: {
-        temperature: 0.8,
-        topP: 0.95,
-        maxOutputTokens: 2048,
-      },
-    };
-
-    const response = await fetch(`${GEMINI_API_URLS.text}?key=${apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
+      prompt,
+      temperature: 0.8,
+      topP: 0.95,
+      maxOutputTokens: 2048,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
-    }
-
-    const data = (await response.json()) as GeminiTextResponse;
-
-    // 응답에서 텍스트 추출
-    const responseText = data.candidates?.[0]?.content?.parts?.[0]?.text;
     if (!responseText) {
-      throw new Error('No response text from Gemini API');
+      throw new Error(`No response text from ${provider.name}`);
     }
 
     // JSON 파싱
@@ -95,7 +63,7 @@ export class DialogueGenerator {
   }
 
   /**
-   * Gemini 응답에서 JSON 파싱
+   * LLM 응답에서 JSON 파싱
    */
   private parseScriptResponse(responseText: string): DialogueScript {
     // JSON 블록 추출 (```json ... ``` 또는 { ... })
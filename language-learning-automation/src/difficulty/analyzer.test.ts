@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeScriptDifficulty,
+  filterByDifficulty,
+  getDifficultyDistance,
+  getEnglishLemmaCandidates,
+  getWordBand,
+  tokenizeSentence,
+} from './analyzer';
+import { english } from './vocab/english';
+import { korean } from './vocab/korean';
+import type { ScriptDifficulty } from './types';
+
+const sentences = (...targets: string[]) => targets.map((target) => ({ target }));
+
+describe('Difficulty Analyzer', () => {
+  it('should tokenize words without punctuation or numbers', () => {
+    expect(tokenizeSentence('"Hello," she said — at 7 o’clock!')).toEqual([
+      'Hello',
+      'she',
+      'said',
+      'at',
+      'o’clock',
+    ]);
+  });
+
+  it('should map inflected English words to their lemmas', () => {
+    expect(getEnglishLemmaCandidates('stopped')).toContain('stop');
+    expect(getEnglishLemmaCandidates('making')).toContain('make');
+    expect(getEnglishLemmaCandidates('cities')).toContain('city');
+    expect(getEnglishLemmaCandidates("don't")).toContain('do');
+    expect(getEnglishLemmaCandidates('went')).toContain('go');
+  });
+
+  it('should look words up by frequency band', () => {
+    expect(getWordBand(english, 'Went')).toBe('A1');
+    expect(getWordBand(english, 'neighbors')).toBe('A2');
+    expect(getWordBand(english, 'recommended')).toBe('B1');
+    expect(getWordBand(english, 'ubiquitous')).toBe('rare');
+    expect(getWordBand(korean, '학교에서')).toBe('A1');
+    expect(getWordBand(korean, '갔어요')).toBe('A1');
+    expect(getWordBand(korean, '가나다라')).toBe('rare');
+  });
+
+  it('should rate a simple script as beginner level', () => {
+    const difficulty = analyzeScriptDifficulty(
+      sentences('I went to the park with my friend.', 'We ate bread and drank coffee.'),
+      'English'
+    );
+    expect(difficulty).toMatchObject({ cefr: 'A1', vocabularyCefr: 'A1', rareWordRatio: 0 });
+    expect(difficulty?.wordCount).toBe(14);
+  });
+
+  it('should rate rare words and long sentences higher', () => {
+    const difficulty = analyzeScriptDifficulty(
+      sentences(
+        'The unprecedented proliferation of ubiquitous computational paradigms has fundamentally transformed contemporary epistemological frameworks across numerous disciplines.'
+      ),
+      'English'
+    ) as ScriptDifficulty;
+    expect(difficulty.vocabularyCefr).toBe('C2');
+    expect(difficulty.lengthCefr).toBe('B2');
+    expect(['C1', 'C2']).toContain(difficulty.cefr);
+  });
+
+  it('should ignore proper nouns and skip languages without a list', () => {
+    const difficulty = analyzeScriptDifficulty(sentences('I met Jennifer in Busan.'), 'English');
+    expect(difficulty?.rareWordRatio).toBe(0);
+    expect(analyzeScriptDifficulty(sentences('Hola amigo.'), 'Spanish')).toBeNull();
+  });
+
+  it('should measure the distance to the channel range', () => {
+    expect(getDifficultyDistance({ score: 1.4 }, 'beginner')).toBe(0);
+    expect(getDifficultyDistance({ score: 2.6 }, 'beginner')).toBe(1.1);
+    expect(getDifficultyDistance({ score: 1.2 }, 'intermediate')).toBe(0.3);
+  });
+
+  it('should keep only candidates close to the channel difficulty', () => {
+    const candidate = (score?: number) => ({
+      metadata: {
+        topic: 'Coffee',
+        style: 'casual',
+        title: { target: 'Coffee', native: '커피' },
+        characters: [],
+        ...(score !== undefined
+          ? {
+              difficulty: {
+                cefr: 'A1' as const,
+                score,
+                vocabularyCefr: 'A1' as const,
+                lengthCefr: 'A1' as const,
+                rareWordRatio: 0,
+                avgSentenceLength: 6,
+                wordCount: 12,
+              },
+            }
+          : {}),
+      },
+    });
+
+    const candidates = [candidate(3.2), candidate(1.0), candidate(2.4)];
+    expect(filterByDifficulty(candidates, 'beginner')).toEqual([candidates[1]]);
+    expect(filterByDifficulty(candidates, 'intermediate')).toEqual(candidates);
+    expect(filterByDifficulty([candidate(3.2), candidate()], 'beginner')).toHaveLength(2);
+  });
+});
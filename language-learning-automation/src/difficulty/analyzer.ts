@@ -0,0 +1,313 @@
+/**
+ * Script difficulty analyser
+ * 로컬 빈도 목록으로 단어 희귀도를 재고, 문장 길이와 합쳐 CEFR 구간을 추정
+ */
+
+import type { Content } from '../config/types';
+import type { Script, Sentence } from '../script/types';
+import { VOCABULARY_LISTS } from './vocab';
+import {
+  DIFFICULTY_CEFR_RANGE,
+  cefrLevels,
+  vocabularyBands,
+  type ScriptDifficulty,
+  type VocabularyBand,
+  type VocabularyList,
+} from './types';
+
+export type WordBand = VocabularyBand | 'rare';
+
+// 전체 점수 = 어휘 70% + 문장 길이 30%
+const VOCABULARY_WEIGHT = 0.7;
+// 어휘 등급 = 단어의 95%를 이해하는 데 필요한 구간
+const COVERAGE = 0.95;
+// 목록 밖 단어 비율 → B2 / C1 경계 (그 이상은 C2)
+const RARE_RATIO_LIMITS = [0.1, 0.2];
+// 난이도 거리가 최솟값에서 이 범위 안이면 같은 수준으로 봄
+export const DIFFICULTY_TOLERANCE = 0.5;
+
+const ENGLISH_IRREGULARS: Record<string, string> = {
+  am: 'be',
+  is: 'be',
+  are: 'be',
+  was: 'be',
+  were: 'be',
+  been: 'be',
+  being: 'be',
+  has: 'have',
+  had: 'have',
+  does: 'do',
+  did: 'do',
+  done: 'do',
+  went: 'go',
+  gone: 'go',
+  said: 'say',
+  made: 'make',
+  took: 'take',
+  taken: 'take',
+  came: 'come',
+  saw: 'see',
+  seen: 'see',
+  got: 'get',
+  gotten: 'get',
+  knew: 'know',
+  known: 'know',
+  thought: 'think',
+  told: 'tell',
+  gave: 'give',
+  given: 'give',
+  found: 'find',
+  felt: 'feel',
+  left: 'leave',
+  kept: 'keep',
+  brought: 'bring',
+  bought: 'buy',
+  ate: 'eat',
+  eaten: 'eat',
+  drank: 'drink',
+  wrote: 'write',
+  written: 'write',
+  ran: 'run',
+  sat: 'sit',
+  stood: 'stand',
+  met: 'meet',
+  paid: 'pay',
+  lost: 'lose',
+  heard: 'hear',
+  began: 'begin',
+  begun: 'begin',
+  became: 'become',
+  slept: 'sleep',
+  spoke: 'speak',
+  spoken: 'speak',
+  taught: 'teach',
+  caught: 'catch',
+  chose: 'choose',
+  chosen: 'choose',
+  forgot: 'forget',
+  forgotten: 'forget',
+  understood: 'understand',
+  spent: 'spend',
+  sent: 'send',
+  won: 'win',
+  held: 'hold',
+  broke: 'break',
+  broken: 'break',
+  built: 'build',
+  wore: 'wear',
+  sang: 'sing',
+  swam: 'swim',
+  drove: 'drive',
+  flew: 'fly',
+  men: 'man',
+  women: 'woman',
+  children: 'child',
+  teeth: 'tooth',
+  feet: 'foot',
+  me: 'i',
+  him: 'he',
+  them: 'they',
+  us: 'we',
+  "won't": 'will',
+  "can't": 'can',
+};
+
+const wordSetCache = new WeakMap<VocabularyList, Map<VocabularyBand, Set<string>>>();
+
+/**
+ * Frequency list for a target language (undefined = not measurable)
+ */
+export function getVocabularyList(language: string): VocabularyList | undefined {
+  return VOCABULARY_LISTS[language];
+}
+
+/**
+ * Split a sentence into words (punctuation and numbers removed)
+ */
+export function tokenizeSentence(text: string): string[] {
+  return text
+    .split(/\s+/)
+    .map((token) => token.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''))
+    .filter((token) => /\p{L}/u.test(token));
+}
+
+/**
+ * Frequency band of one word ('rare' when outside the list)
+ */
+export function getWordBand(list: VocabularyList, word: string): WordBand {
+  const sets = getWordSets(list);
+  const forms =
+    list.morphology === 'english' ? getEnglishLemmaCandidates(word.toLowerCase()) : [word];
+
+  for (const band of vocabularyBands) {
+    const set = sets.get(band) as Set<string>;
+    if (
+      list.morphology === 'english' ? forms.some((f) => set.has(f)) : matchesPrefix(list, set, word)
+    ) {
+      return band;
+    }
+  }
+  return 'rare';
+}
+
+/**
+ * Possible lemmas of an English word form (the word itself first)
+ */
+export function getEnglishLemmaCandidates(word: string): string[] {
+  const base = word
+    .replace(/[’]/g, "'")
+    .replace(/'(s|re|m|ll|ve|d)$/, '')
+    .replace(/n't$/, '');
+  const candidates = [word, base];
+  if (ENGLISH_IRREGULARS[word]) candidates.push(ENGLISH_IRREGULARS[word]);
+  if (ENGLISH_IRREGULARS[base]) candidates.push(ENGLISH_IRREGULARS[base]);
+
+  const suffixRules: Array<[RegExp, string[]]> = [
+    [/ies$/, ['y']],
+    [/es$/, ['', 'e']],
+    [/s$/, ['']],
+    [/ied$/, ['y']],
+    [/ed$/, ['', 'e']],
+    [/ing$/, ['', 'e']],
+    [/ily$/, ['y']],
+    [/ly$/, ['']],
+    [/ier$|iest$/, ['y']],
+    [/er$|est$/, ['', 'e']],
+  ];
+  for (const [pattern, replacements] of suffixRules) {
+    if (!pattern.test(base)) continue;
+    const stem = base.replace(pattern, '');
+    for (const replacement of replacements) {
+      candidates.push(stem + replacement);
+    }
+    // stopped → stop, running → run, bigger → big
+    if (/([b-df-hj-np-tv-z])\1$/.test(stem)) candidates.push(stem.slice(0, -1));
+  }
+
+  return [...new Set(candidates.filter(Boolean))];
+}
+
+/**
+ * Measure a script against the frequency list of its target language
+ * @returns null when the language has no list or the script has no words
+ */
+export function analyzeScriptDifficulty(
+  sentences: Array<Pick<Sentence, 'target'>>,
+  language: string
+): ScriptDifficulty | null {
+  const list = getVocabularyList(language);
+  if (!list || sentences.length === 0) return null;
+
+  const counts: Record<WordBand, number> = { A1: 0, A2: 0, B1: 0, rare: 0 };
+  let wordCount = 0;
+
+  for (const sentence of sentences) {
+    const tokens = tokenizeSentence(sentence.target);
+    wordCount += tokens.length;
+    tokens.forEach((token, i) => {
+      // 문장 중간의 대문자 단어는 고유명사로 보고 제외 (영어)
+      if (list.morphology === 'english' && i > 0 && token !== 'I' && /^\p{Lu}/u.test(token)) {
+        return;
+      }
+      counts[getWordBand(list, token)]++;
+    });
+  }
+
+  const measured = counts.A1 + counts.A2 + counts.B1 + counts.rare;
+  if (measured === 0) return null;
+
+  const rareWordRatio = counts.rare / measured;
+  let covered = 0;
+  let vocabularyIndex = 3 + RARE_RATIO_LIMITS.filter((limit) => rareWordRatio > limit).length;
+  for (const [i, band] of vocabularyBands.entries()) {
+    covered += counts[band];
+    if (covered / measured >= COVERAGE) {
+      vocabularyIndex = i;
+      break;
+    }
+  }
+
+  const avgSentenceLength = wordCount / sentences.length;
+  const lengthLimit = list.sentenceLengths.findIndex((max) => avgSentenceLength <= max);
+  const lengthIndex = lengthLimit === -1 ? cefrLevels.length - 1 : lengthLimit;
+
+  const score = round(VOCABULARY_WEIGHT * vocabularyIndex + (1 - VOCABULARY_WEIGHT) * lengthIndex);
+
+  return {
+    cefr: cefrLevels[Math.round(score)],
+    score,
+    vocabularyCefr: cefrLevels[vocabularyIndex],
+    lengthCefr: cefrLevels[lengthIndex],
+    rareWordRatio: round(rareWordRatio, 3),
+    avgSentenceLength: round(avgSentenceLength),
+    wordCount,
+  };
+}
+
+/**
+ * Script with metadata.difficulty measured (unchanged when not measurable)
+ */
+export function withScriptDifficulty(script: Script, language: string): Script {
+  const difficulty = analyzeScriptDifficulty(script.sentences, language);
+  return difficulty ? { ...script, metadata: { ...script.metadata, difficulty } } : script;
+}
+
+/**
+ * How far a score is outside the channel's CEFR range (0 = rounds into the range)
+ */
+export function getDifficultyDistance(
+  difficulty: Pick<ScriptDifficulty, 'score'>,
+  level: Content['difficulty']
+): number {
+  const [min, max] = DIFFICULTY_CEFR_RANGE[level].map((cefr) => cefrLevels.indexOf(cefr));
+  return round(Math.max(0, min - 0.5 - difficulty.score, difficulty.score - (max + 0.5)));
+}
+
+/**
+ * Candidates closest to the channel's difficulty (within DIFFICULTY_TOLERANCE)
+ * 난이도를 잴 수 없는 후보가 있으면 전체를 그대로 반환
+ */
+export function filterByDifficulty<T extends Pick<Script, 'metadata'>>(
+  candidates: T[],
+  level: Content['difficulty']
+): T[] {
+  const distances = candidates.map((c) =>
+    c.metadata.difficulty ? getDifficultyDistance(c.metadata.difficulty, level) : null
+  );
+  if (distances.some((d) => d === null)) return candidates;
+
+  const best = Math.min(...(distances as number[]));
+  return candidates.filter((_, i) => (distances[i] as number) <= best + DIFFICULTY_TOLERANCE);
+}
+
+/**
+ * One-line summary for console output
+ */
+export function formatScriptDifficulty(difficulty: ScriptDifficulty): string {
+  return `${difficulty.cefr} (${difficulty.score.toFixed(1)}) · vocabulary ${difficulty.vocabularyCefr} · length ${difficulty.lengthCefr} · rare ${Math.round(difficulty.rareWordRatio * 100)}% · ${difficulty.avgSentenceLength} words/sentence`;
+}
+
+function getWordSets(list: VocabularyList): Map<VocabularyBand, Set<string>> {
+  let sets = wordSetCache.get(list);
+  if (!sets) {
+    sets = new Map(vocabularyBands.map((band) => [band, new Set(list.bands[band])]));
+    wordSetCache.set(list, sets);
+  }
+  return sets;
+}
+
+// 한국어: 어절이 목록 단어로 시작하면 일치 (한 글자 단어는 뒤가 조사/어미일 때만)
+function matchesPrefix(list: VocabularyList, set: Set<string>, word: string): boolean {
+  if (set.has(word)) return true;
+  for (let length = word.length - 1; length >= 1; length--) {
+    const stem = word.slice(0, length);
+    if (!set.has(stem)) continue;
+    if (length >= 2 || list.suffixes?.includes(word.slice(length))) return true;
+  }
+  return false;
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,3 @@
+export * from './types';
+export * from './analyzer';
+export { VOCABULARY_LISTS } from './vocab';
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import type { Content } from '../config/types';
+
+// CEFR bands, easiest first (index = numeric score 0-5)
+export const cefrLevels = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'] as const;
+export const cefrLevelSchema = z.enum(cefrLevels);
+export type CefrLevel = z.infer<typeof cefrLevelSchema>;
+
+// config.content.difficulty → 허용 CEFR 범위
+export const DIFFICULTY_CEFR_RANGE: Record<Content['difficulty'], [CefrLevel, CefrLevel]> = {
+  beginner: ['A1', 'A2'],
+  intermediate: ['B1', 'B2'],
+  advanced: ['C1', 'C2'],
+};
+
+/**
+ * Measured difficulty of a script (stored in script.metadata.difficulty)
+ */
+export const scriptDifficultySchema = z.object({
+  /** Overall estimate (vocabulary weighted over sentence length) */
+  cefr: cefrLevelSchema,
+  /** 0 (A1) - 5 (C2), one decimal */
+  score: z.number().min(0).max(5),
+  /** Band needed to know 95% of the words */
+  vocabularyCefr: cefrLevelSchema,
+  /** Band suggested by the average sentence length */
+  lengthCefr: cefrLevelSchema,
+  /** Share of words outside the frequency list */
+  rareWordRatio: z.number().min(0).max(1),
+  avgSentenceLength: z.number().min(0),
+  wordCount: z.number().int().min(0),
+});
+
+export type ScriptDifficulty = z.infer<typeof scriptDifficultySchema>;
+
+// 빈도 목록이 다루는 구간
+export const vocabularyBands = ['A1', 'A2', 'B1'] as const;
+export type VocabularyBand = (typeof vocabularyBands)[number];
+
+/**
+ * Local frequency list for a target language (one file per language in ./vocab)
+ */
+export interface VocabularyList {
+  /** config.meta.targetLanguage 값 (예: 'English') */
+  language: string;
+  /** Lemmas grouped by frequency band (목록에 없는 단어 = rare, B2 이상) */
+  bands: Record<VocabularyBand, string[]>;
+  /** Max average words per sentence for A1, A2, B1, B2, C1 (longer = C2) */
+  sentenceLengths: [number, number, number, number, number];
+  /**
+   * How inflected tokens are matched to lemmas
+   * english: 접미사(-s, -ed, -ing...) 제거 / prefix: 어절 앞부분 + 조사/어미 (한국어)
+   */
+  morphology: 'english' | 'prefix';
+  /** prefix 방식에서 한 글자 어간 뒤에 허용되는 조사/어미 */
+  suffixes?: string[];
+}
@@ -0,0 +1,121 @@
+import type { VocabularyList } from '../types';
+
+// General English frequency list (lemmas, most frequent first within each band)
+const A1_WORDS = `
+the be and a of to in i you it have that for do he with on this we not but they say at what
+his from go or by get she my can as know if me your all who about their will so would make just
+up think time there see her out one come people take year him them some want how when which now
+like other could our into here then than look way more these no thing well because also two use
+tell good first man day find give new us any those very need back should even only many really
+work life why right down try let something too call woman may still through mean after never
+last child where feel old great before same little big long own world last leave
+put while keep start house school help talk turn place show hand next home part
+hear play run move live believe bring happen write sit stand lose pay meet include
+family friend mother father name morning night today tomorrow yesterday week month book water
+room door car city country money food eat drink sleep open close buy read learn teach study
+love like sure yes hello please thank sorry nice happy sad small high low young
+boy girl baby brother sister son daughter husband wife kid student teacher doctor job
+word question answer problem story idea game music movie picture phone computer table chair
+bed window street road shop store restaurant office hospital station train bus plane
+ticket bag box cup coffee tea milk bread rice egg apple fish meat chicken water
+dog cat bird tree flower sun rain snow wind weather hot cold warm cool day hour minute
+red blue green white black yellow color one two three four five six seven eight nine ten
+hundred thousand first second third every each another both again always often usually sometimes
+wait walk stop ask answer watch listen speak cook clean wash wear sing dance swim drive fly
+fast slow early late easy hard difficult beautiful pretty ugly clean dirty full empty cheap
+expensive rich poor tired hungry thirsty busy free ready true false different important
+birthday party holiday weekend trip travel visit vacation beach sea river mountain park garden
+an its myself yourself himself herself itself ourselves themselves mr mrs ms ok okay oh yeah hi
+bye dear off over under near far whose must shall might nothing everything anything someone
+anyone everyone nobody everybody somebody much few lot less most best better bad worse worst
+`;
+
+const A2_WORDS = `
+already almost enough probably maybe perhaps quite rather together alone around across
+between behind above below inside outside toward without during until since though although
+however later soon yet ago once twice ever anywhere everywhere somewhere nowhere
+remember forget understand decide choose change follow carry catch throw hold break build
+send spend win plan hope worry wish agree explain describe prepare finish arrive return
+receive order miss save share check fill fix join laugh smile cry shout touch hurt kill die
+idea reason result example fact experience information news message letter email card gift
+present price cost bill market company business meeting interview office worker manager boss
+team member group club class lesson test exam homework grade subject science history art
+language english culture tradition festival concert museum library theater gallery zoo
+airport hotel reservation passport luggage map guide tour view sightseeing souvenir
+kitchen bathroom bedroom living floor wall roof stairs elevator garage yard neighbor
+health body head face eye ear nose mouth tooth hair arm leg foot heart stomach back
+sick ill pain fever cold medicine hospital nurse dentist exercise sport soccer basketball
+breakfast lunch dinner meal dish menu recipe soup salad cake cookie chocolate sugar salt
+fruit vegetable potato tomato onion cheese butter juice water beer wine bottle glass plate
+clothes shirt dress shoe hat coat jacket pants sock glove umbrella uniform
+season spring summer autumn fall winter weather sunny cloudy rainy windy storm temperature
+dream memory feeling mood fun joke surprise trouble mistake accident danger chance luck
+quiet loud bright dark heavy light strong weak safe dangerous careful kind friendly polite
+funny serious strange interesting boring exciting famous popular modern favorite special
+simple perfect terrible wonderful amazing excellent awful lovely comfortable
+healthy clever smart stupid lazy brave honest shy proud worried afraid angry excited bored
+calm nervous lonely surprised glad pleased upset
+`;
+
+const B1_WORDS = `
+achieve admit advise affect afford allow appear apply appreciate argue arrange attend avoid
+borrow lend complain concentrate consider contain continue create deal deliver depend deserve
+develop discover discuss earn encourage enjoy escape exist expect experience fail force
+gain generate guess handle hide identify ignore imagine improve increase influence inform
+intend introduce invent invite involve manage measure mention mind notice obtain offer
+organize own perform persuade prefer pretend prevent produce promise protect prove provide
+publish realize recognize recommend reduce refuse regret relax rely remain remind remove repair
+replace reply report represent request require respect respond retire reveal search seem
+select separate serve settle solve succeed suffer suggest supply support suppose survive
+threaten tend treat trust vote warn
+ability access advantage advice agreement aim amount anniversary announcement appointment
+approach area argument atmosphere attention attitude audience author average background
+balance behavior benefit billion career celebration century challenge character choice
+citizen climate colleague comment community competition condition confidence conflict
+connection contact content contract conversation crowd customer damage data decision
+degree delivery demand department description design detail device difference direction
+discount discussion distance disease district document economy education effect effort
+election emergency employee energy environment equipment event evidence exhibition expert
+explanation facility factor failure fashion feature fee figure finance flight focus
+freedom function goal government guest habit household impact income industry
+insurance interest invitation issue journey knowledge lack leader level lifestyle
+limit local location material method mind mission moment nature neighborhood network
+opinion opportunity option organization passenger patient percent performance period
+permission personality planet policy population position possibility pressure process
+product profit progress project proposal purpose quality quantity range rate reaction
+region relationship research resource response responsibility review risk role routine
+rule safety salary schedule security service situation skill society solution source
+space speech staff standard statement status step strategy stress structure success
+suggestion survey system target task technology term theory traffic training
+transport trend value variety version volunteer wealth
+accurate actual additional afraid ancient annual anxious apparent appropriate available
+aware basic brief capable certain common complete complex confident conscious constant
+convenient creative critical curious current daily delicious direct efficient
+elderly enormous entire essential exact extra extreme fair familiar fashionable financial
+flexible formal fortunate frequent general generous gentle genuine global grateful
+helpful huge ideal illegal immediate independent individual initial innocent intelligent
+international narrow native natural necessary negative normal obvious official ordinary
+original patient personal physical pleasant positive possible potential practical precious
+previous private professional public rare reasonable recent regular relevant reliable
+responsible rough sensible sensitive separate significant similar slight social specific
+spicy steady strict sudden suitable terrific thick thin tiny traditional typical unique
+unusual urgent useful valuable various vast visible vital whole wide willing
+actually apparently certainly clearly completely definitely eventually exactly extremely
+finally fortunately gradually hardly immediately indeed mostly nearly obviously originally
+particularly possibly properly rarely recently simply slightly suddenly totally unfortunately
+`;
+
+export const english: VocabularyList = {
+  language: 'English',
+  bands: {
+    A1: splitWords(A1_WORDS),
+    A2: splitWords(A2_WORDS),
+    B1: splitWords(B1_WORDS),
+  },
+  sentenceLengths: [6, 9, 12, 16, 20],
+  morphology: 'english',
+};
+
+function splitWords(list: string): string[] {
+  return list.trim().split(/\s+/);
+}
@@ -0,0 +1,10 @@
+import type { VocabularyList } from '../types';
+import { english } from './english';
+import { korean } from './korean';
+
+// Registered lists keyed by config.meta.targetLanguage
+// 새 학습 언어는 vocab/ 아래 파일을 추가하고 여기에 등록
+export const VOCABULARY_LISTS: Record<string, VocabularyList> = {
+  English: english,
+  Korean: korean,
+};
@@ -0,0 +1,58 @@
+import type { VocabularyList } from '../types';
+
+// 한국어 빈도 목록 (명사 + 용언 어간, 축약형 어간 포함 - 예: 하/해/했)
+const A1_WORDS = `
+나 너 저 우리 저희 그 이 것 거 여기 거기 저기 지금 오늘 내일 어제 아침 점심 저녁 밤 시간
+사람 친구 가족 엄마 아빠 어머니 아버지 형 누나 오빠 언니 동생 아이 남자 여자 선생님 학생
+집 학교 회사 방 문 물 밥 빵 커피 차 우유 음식 돈 책 전화 이름 나라 한국 한국어 영어
+하 해 했 가 갔 가요 오 와 왔 보 봐 봤 주 줘 줬 먹 마시 자 잤 일어나 앉 서 읽 쓰 썼 듣 들었
+알 몰라 모르 좋 좋아 싫 크 작 많 적 있 없 이에요 예요 입니다 아니 네 예 응 아니요
+안녕 안녕하세요 감사 감사합니다 고맙 미안 죄송 괜찮 어디 언제 누구 무엇 뭐 왜 어떻게 얼마
+하나 둘 셋 넷 한 두 세 네 다섯 여섯 일곱 여덟 아홉 열 일 이 삼 사 오 육 칠 팔 구 십 백 천 만
+년 월 일 주 시 분 날 요일 주말 생일 노래 영화 음악 게임 공부 일 운동 여행 사진
+날씨 비 눈 바람 덥 춥 따뜻 시원 맛있 맛 예쁘 예뻐 좋아하 사랑 행복 기쁘 슬프 아프
+먼저 다음 다시 또 같이 혼자 정말 진짜 아주 너무 조금 많이 잘 못 안 빨리 천천히
+`;
+
+const A2_WORDS = `
+생각 마음 기분 문제 질문 대답 이야기 말 뜻 단어 문장 소리 얼굴 몸 머리 눈 코 입 손 발
+가게 시장 식당 병원 약국 은행 우체국 역 공항 호텔 버스 지하철 택시 기차 비행기 길 거리
+공원 바다 산 강 하늘 꽃 나무 개 고양이 새 옷 신발 모자 가방 우산 시계 컴퓨터 휴대폰
+아침밥 점심밥 저녁밥 과일 사과 김치 라면 고기 생선 야채 물건 값 가격 표 돈
+만나 만났 기다리 기다렸 배우 배웠 가르치 찾 찾았 사 샀 팔 만들 만들었 시작 끝나 끝났
+도와 도와주 돕 부르 불렀 입 입었 벗 씻 타 탔 내리 걷 걸었 달리 놀 놀았 쉬 쉬었 일하
+준비 연습 약속 계획 결혼 주문 예약 청소 요리 숙제 시험 수업 회의 휴가 선물 편지
+피곤 바쁘 바빠 쉽 어렵 재미있 재미없 조용 시끄럽 깨끗 더럽 비싸 싸 가깝 멀 새 오래
+항상 자주 가끔 보통 벌써 아직 곧 이미 방금 나중 전 후 동안 때 처음 마지막 모두 다
+`;
+
+const B1_WORDS = `
+경험 기억 추억 느낌 감정 걱정 관심 목표 꿈 희망 의견 이유 결과 방법 상황 관계 문화 전통
+사회 경제 환경 정보 기술 발표 회의실 직장 직원 사장 손님 고객 이웃 동료 선배 후배
+축제 명절 행사 대회 전시회 공연 박물관 도서관 미술관 관광 여권 짐 지도 안내
+건강 병 감기 열 약 치료 운동장 습관 생활 일상 주변 근처 동네 고향 도시 시골
+발전 변화 노력 성공 실패 선택 결정 설명 소개 초대 참석 참가 준비물 부탁 허락 조언
+늘 점점 갑자기 드디어 결국 아마 혹시 특히 역시 오히려 게다가 그래서 그런데 하지만 그러나
+익숙 특별 중요 필요 가능 불가능 편리 불편 친절 성실 솔직 유명 인기 다양 충분 부족
+`;
+
+export const korean: VocabularyList = {
+  language: 'Korean',
+  bands: {
+    A1: splitWords(A1_WORDS),
+    A2: splitWords(A2_WORDS),
+    B1: splitWords(B1_WORDS),
+  },
+  // 어절 단위라 영어보다 짧음
+  sentenceLengths: [4, 6, 8, 11, 14],
+  morphology: 'prefix',
+  suffixes: splitWords(`
+    은 는 이 가 을 를 에 에서 에게 한테 께 도 만 와 과 랑 이랑 하고 의 로 으로 부터 까지 보다 처럼
+    요 어요 아요 여요 었어요 았어요 였어요 습니다 니다 세요 셨어요 고 서 면 으면 지 죠 네요 는데
+    은데 다 던 기 게 자 까 니까 으니까 겠 겠어요 을게요 ㄹ게요 려고 으려고 어서 아서 었 았
+  `),
+};
+
+function splitWords(list: string): string[] {
+  return list.trim().split(/\s+/);
+}
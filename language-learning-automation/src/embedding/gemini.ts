@@ -0,0 +1,34 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { withApiKey } from '../config/api-keys';
+import { GEMINI_MODELS } from '../config/gemini';
+import { trackUsage } from '../usage/tracker';
+import type { EmbeddingProvider } from './types';
+
+/**
+ * Gemini embedding provider
+ */
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'gemini' as const;
+  readonly model: string;
+  readonly sparse = false;
+
+  constructor(model: string = GEMINI_MODELS.embedding) {
+    this.model = model;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await trackUsage({ service: 'gemini_text', model: this.model }, () =>
+      withApiKey('gemini_text', (apiKey) =>
+        new GoogleGenerativeAI(apiKey)
+          .getGenerativeModel({ model: this.model })
+          .batchEmbedContents({
+            requests: texts.map((text) => ({ content: { role: 'user', parts: [{ text }] } })),
+          })
+      )
+    );
+
+    return response.embeddings.map((e) => e.values);
+  }
+}
@@ -0,0 +1,6 @@
+export * from './types';
+export * from './ngram';
+export * from './local';
+export * from './openai';
+export * from './gemini';
+export * from './provider';
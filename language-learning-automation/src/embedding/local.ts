@@ -0,0 +1,18 @@
+import { NGRAM_DIMENSIONS, NGRAM_SIZES, extractCharNgrams, hashNgramVector } from './ngram';
+import type { EmbeddingProvider } from './types';
+
+// 벡터 구성이 바뀌면 이름도 바꿔서 저장된 벡터가 다시 계산되도록 함
+export const LOCAL_EMBEDDING_MODEL = `char-ngram-${NGRAM_SIZES.join('')}-${NGRAM_DIMENSIONS}`;
+
+/**
+ * Deterministic offline embeddings: hashed character n-gram tf (TF-IDF when compared)
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local' as const;
+  readonly model = LOCAL_EMBEDDING_MODEL;
+  readonly sparse = true;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => hashNgramVector(extractCharNgrams(text)));
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  NGRAM_DIMENSIONS,
+  applyIdf,
+  cosineSimilarity,
+  extractCharNgrams,
+  hashNgramVector,
+  normalizeText,
+} from './ngram';
+
+const embed = (text: string) => hashNgramVector(extractCharNgrams(text));
+
+describe('normalizeText', () => {
+  it('lowercases, strips punctuation and collapses spaces', () => {
+    expect(normalizeText('  Ordering   Coffee!! at a Café? ')).toBe('ordering coffee at a café');
+  });
+
+  it('keeps Hangul', () => {
+    expect(normalizeText('카페에서 주문하기!')).toBe('카페에서 주문하기');
+  });
+});
+
+describe('extractCharNgrams', () => {
+  it('pads word edges and skips whitespace-only grams', () => {
+    expect(extractCharNgrams('ab c', [2])).toEqual([' a', 'ab', 'b ', ' c', 'c ']);
+  });
+});
+
+describe('hashNgramVector', () => {
+  it('is deterministic and L2-normalized', () => {
+    const a = embed('Ordering coffee at a cafe');
+    const b = embed('Ordering coffee at a cafe');
+
+    expect(a).toEqual(b);
+    expect(a).toHaveLength(NGRAM_DIMENSIONS);
+    expect(Math.sqrt(a.reduce((sum, v) => sum + v * v, 0))).toBeCloseTo(1, 10);
+  });
+
+  it('scores paraphrases higher than unrelated topics', () => {
+    const base = embed('Ordering coffee at a cafe');
+
+    expect(cosineSimilarity(base, embed('Ordering a coffee at the cafe'))).toBeGreaterThan(
+      cosineSimilarity(base, embed('Checking in at the airport'))
+    );
+  });
+});
+
+describe('applyIdf', () => {
+  it('down-weights grams shared by every vector', () => {
+    const vectors = [
+      embed('Small talk at the office'),
+      embed('Small talk at a party'),
+      embed('Asking for directions'),
+    ];
+    const weighted = applyIdf(vectors);
+
+    expect(weighted).toHaveLength(3);
+    expect(cosineSimilarity(weighted[0], weighted[1])).toBeLessThan(
+      cosineSimilarity(vectors[0], vectors[1])
+    );
+  });
+
+  it('returns an empty list for no vectors', () => {
+    expect(applyIdf([])).toEqual([]);
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('returns 0 for an empty vector', () => {
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Character n-gram vectors
+ * 공백/문장부호를 정리한 문자 n-gram 을 고정 차원으로 해싱 (한글/영문 모두 형태소 분석 없이 동작)
+ */
+
+export const NGRAM_SIZES = [2] as const;
+export const NGRAM_DIMENSIONS = 1024;
+
+/**
+ * Lowercased text with punctuation removed and spaces collapsed
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Character n-grams of a text (padded with spaces so word edges count)
+ */
+export function extractCharNgrams(text: string, sizes: readonly number[] = NGRAM_SIZES): string[] {
+  const chars = [...` ${normalizeText(text)} `];
+  const ngrams: string[] = [];
+  for (const size of sizes) {
+    for (let i = 0; i + size <= chars.length; i++) {
+      const ngram = chars.slice(i, i + size).join('');
+      // 공백만으로 된 조각은 제외
+      if (ngram.trim()) ngrams.push(ngram);
+    }
+  }
+  return ngrams;
+}
+
+/**
+ * L2-normalized hashed term-frequency vector (sublinear tf: 1 + log(count))
+ */
+export function hashNgramVector(ngrams: string[], dimensions = NGRAM_DIMENSIONS): number[] {
+  const counts = new Array<number>(dimensions).fill(0);
+  for (const ngram of ngrams) {
+    counts[hashString(ngram) % dimensions]++;
+  }
+  return normalize(counts.map((count) => (count > 0 ? 1 + Math.log(count) : 0)));
+}
+
+/**
+ * IDF-weight a set of tf vectors against each other (smoothed idf, re-normalized)
+ */
+export function applyIdf(vectors: number[][]): number[][] {
+  if (vectors.length === 0) return [];
+  const dimensions = vectors[0].length;
+  const documentFrequency = new Array<number>(dimensions).fill(0);
+  for (const vector of vectors) {
+    vector.forEach((value, i) => {
+      if (value > 0) documentFrequency[i]++;
+    });
+  }
+  const idf = documentFrequency.map((df) => Math.log((1 + vectors.length) / (1 + df)) + 1);
+  return vectors.map((vector) => normalize(vector.map((value, i) => value * idf[i])));
+}
+
+/**
+ * Cosine similarity (0 when either vector is empty)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+// FNV-1a (32-bit) - 실행/플랫폼과 무관하게 같은 값
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,35 @@
+import OpenAI from 'openai';
+import { withApiKey } from '../config/api-keys';
+import { trackUsage } from '../usage/tracker';
+import type { EmbeddingProvider } from './types';
+
+// OpenAI embedding model
+export const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+/**
+ * OpenAI embedding provider
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  readonly sparse = false;
+
+  constructor(model: string = OPENAI_EMBEDDING_MODEL) {
+    this.model = model;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await trackUsage(
+      { service: 'openai', model: this.model },
+      () =>
+        withApiKey('openai', (apiKey) =>
+          new OpenAI({ apiKey }).embeddings.create({ model: this.model, input: texts })
+        ),
+      ({ usage }) => ({ inputTokens: usage?.prompt_tokens })
+    );
+
+    return [...response.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+  }
+}
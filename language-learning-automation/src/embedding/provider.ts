@@ -0,0 +1,40 @@
+import type { Topics } from '../config/types';
+import { GeminiEmbeddingProvider } from './gemini';
+import { LocalEmbeddingProvider } from './local';
+import { OpenAIEmbeddingProvider } from './openai';
+import {
+  resolveEmbeddingProviderName,
+  type EmbeddingProvider,
+  type EmbeddingProviderName,
+} from './types';
+
+/**
+ * Create a provider by name
+ */
+export function createEmbeddingProvider(
+  name: EmbeddingProviderName,
+  options: { model?: string } = {}
+): EmbeddingProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider(options.model);
+
+    case 'gemini':
+      return new GeminiEmbeddingProvider(options.model);
+
+    case 'local':
+    default:
+      return new LocalEmbeddingProvider();
+  }
+}
+
+/**
+ * Get the embedding provider for a channel
+ * Selection order: EMBEDDING_PROVIDER env → channel config `topics.embeddingProvider` → local
+ */
+export function getEmbeddingProvider(topicsConfig?: Partial<Topics>): EmbeddingProvider {
+  const name = resolveEmbeddingProviderName(topicsConfig?.embeddingProvider);
+  // A model configured for another provider would not make sense after an env override
+  const model = name === topicsConfig?.embeddingProvider ? topicsConfig?.embeddingModel : undefined;
+  return createEmbeddingProvider(name, { model });
+}
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+// Embedding providers (local = 오프라인 문자 n-gram, API 호출 없음)
+export const embeddingProviderNames = ['local', 'openai', 'gemini'] as const;
+export type EmbeddingProviderName = (typeof embeddingProviderNames)[number];
+
+export const embeddingProviderNameSchema = z.enum(embeddingProviderNames);
+
+// Embedding provider interface shared by every backend
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  /**
+   * Sparse count vectors (local n-grams) are IDF-weighted across the compared set;
+   * dense model embeddings are compared as-is
+   */
+  readonly sparse: boolean;
+  /** One vector per text, in order */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Cache key of a provider's vectors (provider + model)
+ */
+export function getEmbeddingKey(provider: Pick<EmbeddingProvider, 'name' | 'model'>): string {
+  return `${provider.name}:${provider.model}`;
+}
+
+/**
+ * Resolve which provider to use
+ * EMBEDDING_PROVIDER env var wins over the channel config; local when neither is set
+ */
+export function resolveEmbeddingProviderName(
+  configured?: string,
+  envValue: string | undefined = process.env.EMBEDDING_PROVIDER
+): EmbeddingProviderName {
+  const candidate = envValue || configured || 'local';
+  const result = embeddingProviderNameSchema.safeParse(candidate);
+  if (!result.success) {
+    throw new Error(
+      `Unknown embedding provider: ${candidate}. Available providers: ${embeddingProviderNames.join(', ')}`
+    );
+  }
+  return result.data;
+}
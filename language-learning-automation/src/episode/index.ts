@@ -0,0 +1,3 @@
+export * from './types';
+export * from './manifest';
+export * from './store';
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyLegacyFile,
+  createEpisodeManifest,
+  formatEpisodeManifest,
+  getArtifact,
+  getArtifacts,
+  withArtifacts,
+  withEpisodeScript,
+  withMovedArtifact,
+} from './manifest';
+import { episodeManifestSchema, type EpisodeArtifact } from './types';
+
+const NOW = new Date('2026-01-08T10:00:00.000Z');
+const LATER = new Date('2026-01-08T11:00:00.000Z');
+
+const artifact = (kind: EpisodeArtifact['kind'], path: string, sha = 'a'): EpisodeArtifact => ({
+  kind,
+  path,
+  sha256: sha.repeat(64),
+  bytes: 100,
+  generator: 'test',
+  createdAt: NOW.toISOString(),
+});
+
+describe('Episode Manifest', () => {
+  it('should create a valid empty manifest', () => {
+    const manifest = createEpisodeManifest('english', '1.0.0', { useMockTTS: true }, NOW);
+
+    expect(manifest).toMatchObject({
+      manifestVersion: 1,
+      pipelineVersion: '1.0.0',
+      channelId: 'english',
+      createdAt: NOW.toISOString(),
+      options: { useMockTTS: true },
+      artifacts: [],
+    });
+    expect(episodeManifestSchema.safeParse(manifest).success).toBe(true);
+  });
+
+  it('should reject artifacts with an invalid hash or kind', () => {
+    const manifest = createEpisodeManifest('english', '1.0.0', {}, NOW);
+    const invalid = [
+      { ...artifact('video', 'video.mp4'), sha256: 'abc' },
+      { ...artifact('video', 'video.mp4'), kind: 'poster' },
+    ];
+    for (const entry of invalid) {
+      const result = episodeManifestSchema.safeParse({ ...manifest, artifacts: [entry] });
+      expect(result.success).toBe(false);
+    }
+  });
+
+  it('should replace artifacts recorded at the same path', () => {
+    let manifest = createEpisodeManifest('english', '1.0.0', {}, NOW);
+    manifest = withArtifacts(manifest, [artifact('video', 'video.mp4', 'a')], NOW);
+    manifest = withArtifacts(
+      manifest,
+      [artifact('video', 'video.mp4', 'b'), artifact('upload-info', 'upload_info.txt')],
+      LATER
+    );
+
+    expect(manifest.artifacts).toHaveLength(2);
+    expect(getArtifact(manifest, 'video')?.sha256).toBe('b'.repeat(64));
+    expect(manifest.updatedAt).toBe(LATER.toISOString());
+  });
+
+  it('should look up artifacts by kind in path order', () => {
+    const manifest = withArtifacts(createEpisodeManifest('english', '1.0.0', {}, NOW), [
+      artifact('short', 'shorts/quiz_02.mp4'),
+      artifact('short', 'shorts/quiz_01.mp4'),
+      artifact('script', '2026-01-08_story.json'),
+    ]);
+
+    expect(getArtifacts(manifest, 'short').map((a) => a.path)).toEqual([
+      'shorts/quiz_01.mp4',
+      'shorts/quiz_02.mp4',
+    ]);
+    expect(getArtifact(manifest, 'script')?.path).toBe('2026-01-08_story.json');
+    expect(getArtifact(manifest, 'thumbnail')).toBeUndefined();
+  });
+
+  it('should return the most recently created artifact of a kind', () => {
+    const manifest = withArtifacts(createEpisodeManifest('english', '1.0.0', {}, NOW), [
+      { ...artifact('script', '2026-01-08_story.json'), createdAt: LATER.toISOString() },
+      artifact('script', '2026-01-08_story_old.json'),
+    ]);
+
+    expect(getArtifact(manifest, 'script')?.path).toBe('2026-01-08_story.json');
+  });
+
+  it('should move an artifact and keep its hash', () => {
+    const manifest = withMovedArtifact(
+      withArtifacts(createEpisodeManifest('english', '1.0.0', {}, NOW), [
+        artifact('video', 'video.mp4', 'c'),
+      ]),
+      'video.mp4',
+      '2026-01-08_174127_Coffee.mp4',
+      LATER
+    );
+
+    expect(getArtifact(manifest, 'video')).toMatchObject({
+      path: '2026-01-08_174127_Coffee.mp4',
+      sha256: 'c'.repeat(64),
+    });
+  });
+
+  it('should copy episode fields from the script', () => {
+    const manifest = withEpisodeScript(createEpisodeManifest('english', '1.0.0', {}, NOW), {
+      date: '2026-01-08',
+      category: 'story',
+      metadata: {
+        topic: 'Ordering coffee',
+        style: 'casual',
+        title: { target: 'At the Café', native: '카페에서' },
+        characters: [],
+      },
+    });
+
+    expect(manifest).toMatchObject({
+      date: '2026-01-08',
+      category: 'story',
+      topic: 'Ordering coffee',
+      title: 'At the Café',
+    });
+  });
+
+  it('should classify files of runs made before episode.json', () => {
+    expect(classifyLegacyFile('2026-01-08_story.json')).toBe('script');
+    expect(classifyLegacyFile('audio/manifest.json')).toBe('audio-manifest');
+    expect(classifyLegacyFile('audio/sentence_1_0.8x.mp3')).toBe('audio');
+    expect(classifyLegacyFile('episode_thumbnail.png')).toBe('thumbnail');
+    expect(classifyLegacyFile('subtitles/captions.target.srt')).toBe('subtitle');
+    expect(classifyLegacyFile('quiz-shorts/quiz_03.mp4')).toBe('short');
+    expect(classifyLegacyFile('2026-01-08_174127_Coffee.mp4')).toBe('video');
+    expect(classifyLegacyFile('2026-01-08_174127_Coffee_thumb.png')).toBe('thumbnail');
+    expect(classifyLegacyFile('2026-01-08_174127_Coffee_info.json')).toBeNull();
+    expect(classifyLegacyFile('run-state.json')).toBeNull();
+    expect(classifyLegacyFile('backgrounds/ghibli.png')).toBeNull();
+  });
+
+  it('should summarise artifacts by kind', () => {
+    const manifest = withArtifacts(createEpisodeManifest('english', '1.0.0', {}, NOW), [
+      artifact('script', '2026-01-08_story.json'),
+      artifact('audio', 'audio/a.mp3'),
+      artifact('audio', 'audio/b.mp3'),
+    ]);
+
+    expect(formatEpisodeManifest(manifest)).toBe('3 artifacts (script, audio ×2)');
+    expect(formatEpisodeManifest(createEpisodeManifest('english', '1.0.0'))).toBe(
+      '0 artifacts (none)'
+    );
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Episode manifest helpers
+ * 실행 폴더의 모든 산출물(경로/해시/생성기/모델)을 episode.json 하나로 관리
+ */
+
+import type { Script } from '../script/types';
+import {
+  EPISODE_MANIFEST_VERSION,
+  type EpisodeArtifact,
+  type EpisodeArtifactKind,
+  type EpisodeManifest,
+  type EpisodeRunOptions,
+  type EpisodeUploadStatus,
+} from './types';
+
+// episode.json 이 없는 예전 실행 폴더의 파일명 규칙 (마이그레이션 전용)
+const LEGACY_FILE_PATTERNS: Array<[RegExp, EpisodeArtifactKind]> = [
+  // prepare-upload 의 {folder}_{topic}_info.json 은 제외
+  [/^\d{4}-\d{2}-\d{2}_(?![^/]*_info\.json$)[^/]+\.json$/, 'script'],
+  [/^audio\/manifest\.json$/, 'audio-manifest'],
+  [/^audio\/[^/]+\.(mp3|wav)$/, 'audio'],
+  [/^background\.png$/, 'background'],
+  [/^episode-shorts-background\.png$/, 'shorts-background'],
+  [/^(episode_)?thumbnail\.png$/, 'thumbnail'],
+  [/^\d{4}-\d{2}-\d{2}_[^/]+_thumb\.png$/, 'thumbnail'],
+  [/^(video|\d{4}-\d{2}-\d{2}_[^/]+)\.mp4$/, 'video'],
+  [/^upload_info\.txt$/, 'upload-info'],
+  [/^subtitles\/[^/]+\.(srt|vtt)$/, 'subtitle'],
+  [/^(quiz-)?shorts\/quiz_\d+\.mp4$/, 'short'],
+  [/^(quiz-)?shorts\/render-summary\.json$/, 'render-summary'],
+];
+
+/**
+ * Create an empty manifest for a new run
+ */
+export function createEpisodeManifest(
+  channelId: string,
+  pipelineVersion: string,
+  options: EpisodeRunOptions = {},
+  now = new Date()
+): EpisodeManifest {
+  const timestamp = now.toISOString();
+  return {
+    manifestVersion: EPISODE_MANIFEST_VERSION,
+    pipelineVersion,
+    channelId,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    options,
+    artifacts: [],
+  };
+}
+
+/**
+ * Manifest with the episode fields taken from its script
+ */
+export function withEpisodeScript(
+  manifest: EpisodeManifest,
+  script: Pick<Script, 'date' | 'category' | 'metadata'>
+): EpisodeManifest {
+  return {
+    ...manifest,
+    date: script.date,
+    category: script.category,
+    topic: script.metadata.topic,
+    title: script.metadata.title.target,
+  };
+}
+
+/**
+ * Manifest with artifacts added (an artifact at the same path is replaced)
+ */
+export function withArtifacts(
+  manifest: EpisodeManifest,
+  artifacts: EpisodeArtifact[],
+  now = new Date()
+): EpisodeManifest {
+  const paths = new Set(artifacts.map((a) => a.path));
+  return {
+    ...manifest,
+    updatedAt: now.toISOString(),
+    artifacts: [...manifest.artifacts.filter((a) => !paths.has(a.path)), ...artifacts],
+  };
+}
+
+/**
+ * Manifest with one artifact moved to a new path (예: 업로드용 파일명 변경)
+ */
+export function withMovedArtifact(
+  manifest: EpisodeManifest,
+  fromPath: string,
+  toPath: string,
+  now = new Date()
+): EpisodeManifest {
+  return {
+    ...manifest,
+    updatedAt: now.toISOString(),
+    artifacts: manifest.artifacts.map((a) => (a.path === fromPath ? { ...a, path: toPath } : a)),
+  };
+}
+
+/**
+ * Manifest with a new upload status (YouTube ID is kept unless a new one is given)
+ */
+export function withEpisodeUpload(
+  manifest: EpisodeManifest,
+  status: EpisodeUploadStatus,
+  youtubeId?: string,
+  now = new Date()
+): EpisodeManifest {
+  const id = youtubeId ?? manifest.upload?.youtubeId;
+  return {
+    ...manifest,
+    updatedAt: now.toISOString(),
+    upload: { status, ...(id ? { youtubeId: id } : {}), updatedAt: now.toISOString() },
+  };
+}
+
+/**
+ * Latest artifact of a kind by createdAt, path breaking ties (undefined when the run has none)
+ */
+export function getArtifact(
+  manifest: EpisodeManifest,
+  kind: EpisodeArtifactKind
+): EpisodeArtifact | undefined {
+  return getArtifacts(manifest, kind)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.path.localeCompare(b.path))
+    .at(-1);
+}
+
+/**
+ * All artifacts of a kind, sorted by path
+ */
+export function getArtifacts(
+  manifest: EpisodeManifest,
+  kind: EpisodeArtifactKind
+): EpisodeArtifact[] {
+  return manifest.artifacts
+    .filter((a) => a.kind === kind)
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Kind of a run-folder file in a folder written before episode.json existed
+ * @param relativePath - 실행 폴더 기준 경로 (/ 구분)
+ */
+export function classifyLegacyFile(relativePath: string): EpisodeArtifactKind | null {
+  const match = LEGACY_FILE_PATTERNS.find(([pattern]) => pattern.test(relativePath));
+  return match ? match[1] : null;
+}
+
+/**
+ * One-line summary for console output
+ */
+export function formatEpisodeManifest(manifest: EpisodeManifest): string {
+  const counts = new Map<EpisodeArtifactKind, number>();
+  for (const artifact of manifest.artifacts) {
+    counts.set(artifact.kind, (counts.get(artifact.kind) ?? 0) + 1);
+  }
+  const parts = [...counts].map(([kind, count]) => (count > 1 ? `${kind} ×${count}` : kind));
+  return `${manifest.artifacts.length} artifacts (${parts.join(', ') || 'none'})`;
+}
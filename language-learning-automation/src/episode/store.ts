@@ -0,0 +1,251 @@
+import { createHash } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import {
+  classifyLegacyFile,
+  createEpisodeManifest,
+  getArtifact,
+  withArtifacts,
+  withEpisodeScript,
+  withEpisodeUpload,
+  withMovedArtifact,
+} from './manifest';
+import {
+  EPISODE_MANIFEST_FILENAME,
+  episodeManifestSchema,
+  type EpisodeArtifact,
+  type EpisodeArtifactKind,
+  type EpisodeManifest,
+  type EpisodeUploadStatus,
+  type NewEpisodeArtifact,
+} from './types';
+
+let pipelineVersion: string | undefined;
+
+/**
+ * Pipeline version (package.json version)
+ */
+export async function getPipelineVersion(): Promise<string> {
+  if (pipelineVersion) return pipelineVersion;
+  let version = '0.0.0';
+  try {
+    const pkg = JSON.parse(await fs.readFile(path.join(process.cwd(), 'package.json'), 'utf-8'));
+    if (typeof pkg.version === 'string') version = pkg.version;
+  } catch {
+    // package.json 없이 실행된 경우
+  }
+  pipelineVersion = version;
+  return version;
+}
+
+/**
+ * Load episode.json from a run folder
+ * @returns EpisodeManifest, or null if the file is missing
+ * @throws Error if the file exists but is invalid
+ */
+export async function loadEpisodeManifest(outputDir: string): Promise<EpisodeManifest | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(outputDir, EPISODE_MANIFEST_FILENAME), 'utf-8');
+  } catch {
+    return null;
+  }
+
+  const result = episodeManifestSchema.safeParse(JSON.parse(content));
+  if (!result.success) {
+    const errors = result.error.issues
+      .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      .join(', ');
+    throw new Error(`Invalid episode manifest in ${outputDir}: ${errors}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Save episode.json to a run folder
+ */
+export async function saveEpisodeManifest(
+  outputDir: string,
+  manifest: EpisodeManifest
+): Promise<void> {
+  await fs.mkdir(outputDir, { recursive: true });
+  await fs.writeFile(
+    path.join(outputDir, EPISODE_MANIFEST_FILENAME),
+    JSON.stringify(manifest, null, 2),
+    'utf-8'
+  );
+}
+
+/**
+ * Load a run's manifest, building it from the folder contents for runs made before episode.json
+ * @param channelId - 예전 폴더용 (없으면 output/{channelId}/{folder} 구조에서 추론)
+ */
+export async function openEpisodeManifest(
+  outputDir: string,
+  channelId?: string
+): Promise<EpisodeManifest> {
+  const existing = await loadEpisodeManifest(outputDir);
+  if (existing) return existing;
+
+  const manifest = await scanLegacyEpisode(
+    outputDir,
+    channelId ?? path.basename(path.dirname(path.resolve(outputDir)))
+  );
+  await saveEpisodeManifest(outputDir, manifest);
+  console.log(`📒 Created ${EPISODE_MANIFEST_FILENAME} from existing files in ${outputDir}`);
+  return manifest;
+}
+
+/**
+ * Hash the given files and record them in episode.json
+ */
+export async function recordEpisodeArtifacts(
+  outputDir: string,
+  artifacts: NewEpisodeArtifact[],
+  channelId?: string
+): Promise<EpisodeManifest> {
+  const manifest = await openEpisodeManifest(outputDir, channelId);
+  const entries: EpisodeArtifact[] = [];
+  for (const artifact of artifacts) {
+    entries.push(await describeArtifact(outputDir, artifact));
+  }
+  const updated = withArtifacts(manifest, entries);
+  await saveEpisodeManifest(outputDir, updated);
+  return updated;
+}
+
+/**
+ * Record the script artifact and copy its date / category / topic / title into the manifest
+ */
+export async function recordEpisodeScript(
+  outputDir: string,
+  scriptPath: string,
+  artifact: Omit<NewEpisodeArtifact, 'kind' | 'path'>
+): Promise<EpisodeManifest> {
+  const manifest = await recordEpisodeArtifacts(outputDir, [
+    { ...artifact, kind: 'script', path: scriptPath },
+  ]);
+  const script = JSON.parse(await fs.readFile(scriptPath, 'utf-8'));
+  const updated = withEpisodeScript(manifest, script);
+  await saveEpisodeManifest(outputDir, updated);
+  return updated;
+}
+
+/**
+ * Rename an artifact file and keep episode.json pointing at it
+ */
+export async function moveEpisodeArtifact(
+  outputDir: string,
+  fromPath: string,
+  toPath: string
+): Promise<void> {
+  const manifest = await openEpisodeManifest(outputDir);
+  await fs.rename(path.join(outputDir, fromPath), path.join(outputDir, toPath));
+  await saveEpisodeManifest(
+    outputDir,
+    withMovedArtifact(
+      manifest,
+      toArtifactPath(outputDir, fromPath),
+      toArtifactPath(outputDir, toPath)
+    )
+  );
+}
+
+/**
+ * Record the upload status of a run (prepare-upload / YouTube ID)
+ */
+export async function recordEpisodeUpload(
+  outputDir: string,
+  status: EpisodeUploadStatus,
+  youtubeId?: string
+): Promise<EpisodeManifest> {
+  const updated = withEpisodeUpload(await openEpisodeManifest(outputDir), status, youtubeId);
+  await saveEpisodeManifest(outputDir, updated);
+  return updated;
+}
+
+/**
+ * Absolute path of the latest artifact of a kind (undefined when not recorded)
+ */
+export function resolveEpisodeFile(
+  outputDir: string,
+  manifest: EpisodeManifest,
+  kind: EpisodeArtifactKind
+): string | undefined {
+  const artifact = getArtifact(manifest, kind);
+  return artifact ? path.join(outputDir, artifact.path) : undefined;
+}
+
+async function describeArtifact(
+  outputDir: string,
+  artifact: NewEpisodeArtifact
+): Promise<EpisodeArtifact> {
+  const relativePath = toArtifactPath(outputDir, artifact.path);
+  const { sha256, bytes } = await hashFile(path.join(outputDir, relativePath));
+  return {
+    kind: artifact.kind,
+    path: relativePath,
+    sha256,
+    bytes,
+    generator: artifact.generator,
+    ...(artifact.provider ? { provider: artifact.provider } : {}),
+    ...(artifact.model ? { model: artifact.model } : {}),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// 실행 폴더 기준 상대 경로 (/ 구분)
+function toArtifactPath(outputDir: string, filePath: string): string {
+  const relative = path.isAbsolute(filePath)
+    ? path.relative(path.resolve(outputDir), filePath)
+    : filePath;
+  return relative.split(path.sep).join('/');
+}
+
+async function scanLegacyEpisode(outputDir: string, channelId: string): Promise<EpisodeManifest> {
+  let manifest = createEpisodeManifest(channelId, await getPipelineVersion());
+  const artifacts: EpisodeArtifact[] = [];
+
+  for (const file of await listFiles(outputDir)) {
+    const kind = classifyLegacyFile(file);
+    if (!kind) continue;
+    const artifact = await describeArtifact(outputDir, { kind, path: file, generator: 'legacy' });
+    const stats = await fs.stat(path.join(outputDir, file));
+    artifacts.push({ ...artifact, createdAt: stats.mtime.toISOString() });
+  }
+
+  manifest = withArtifacts(manifest, artifacts);
+  const script = getArtifact(manifest, 'script');
+  if (script) {
+    manifest = withEpisodeScript(
+      manifest,
+      JSON.parse(await fs.readFile(path.join(outputDir, script.path), 'utf-8'))
+    );
+  }
+  return manifest;
+}
+
+async function listFiles(dir: string, prefix = ''): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(path.join(dir, prefix), { withFileTypes: true })) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(dir, relative)));
+    } else {
+      files.push(relative);
+    }
+  }
+  return files;
+}
+
+// 영상 등 큰 파일을 메모리에 올리지 않도록 스트림으로 해시
+async function hashFile(filePath: string): Promise<{ sha256: string; bytes: number }> {
+  const hash = createHash('sha256');
+  let bytes = 0;
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+    bytes += (chunk as Buffer).length;
+  }
+  return { sha256: hash.digest('hex'), bytes };
+}
@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { categorySchema } from '../script/types';
+
+export const EPISODE_MANIFEST_FILENAME = 'episode.json';
+export const EPISODE_MANIFEST_VERSION = 1;
+
+// Files a run folder can contain
+export const episodeArtifactKinds = [
+  'script',
+  'audio-manifest',
+  'audio',
+  'background',
+  'shorts-background',
+  'thumbnail',
+  'video',
+  'upload-info',
+  'subtitle',
+  'short',
+  'render-summary',
+] as const;
+
+export const episodeArtifactKindSchema = z.enum(episodeArtifactKinds);
+export type EpisodeArtifactKind = z.infer<typeof episodeArtifactKindSchema>;
+
+// Single artifact of a run
+export const episodeArtifactSchema = z.object({
+  kind: episodeArtifactKindSchema,
+  /** 실행 폴더 기준 상대 경로 (항상 / 구분) */
+  path: z.string().min(1),
+  sha256: z.string().length(64),
+  bytes: z.number().int().nonnegative(),
+  /** 파일을 만든 모듈 / 스크립트 (예: script/generator, render/service) */
+  generator: z.string().min(1),
+  provider: z.string().optional(),
+  model: z.string().optional(),
+  createdAt: z.string().min(1),
+});
+
+export type EpisodeArtifact = z.infer<typeof episodeArtifactSchema>;
+
+// Pipeline options the run was started with
+export const episodeRunOptionsSchema = z.object({
+  category: categorySchema.optional(),
+  topic: z.string().optional(),
+  useMockTTS: z.boolean().optional(),
+  useSampleScript: z.boolean().optional(),
+  skipIntro: z.boolean().optional(),
+  skipImage: z.boolean().optional(),
+  autoRender: z.boolean().optional(),
+  renderShorts: z.boolean().optional(),
+  scriptCandidates: z.number().int().positive().optional(),
+});
+
+export type EpisodeRunOptions = z.infer<typeof episodeRunOptionsSchema>;
+
+// Upload progress: prepared (업로드 묶음 생성) → uploaded (Drive 대기열) → published (YouTube)
+export const episodeUploadStatuses = ['prepared', 'uploaded', 'published'] as const;
+
+export const episodeUploadSchema = z.object({
+  status: z.enum(episodeUploadStatuses),
+  youtubeId: z.string().min(1).optional(),
+  updatedAt: z.string().min(1),
+});
+
+export type EpisodeUpload = z.infer<typeof episodeUploadSchema>;
+export type EpisodeUploadStatus = EpisodeUpload['status'];
+
+// Episode manifest file (episode.json) schema
+export const episodeManifestSchema = z.object({
+  manifestVersion: z.literal(EPISODE_MANIFEST_VERSION),
+  /** package.json version of the pipeline that wrote the run */
+  pipelineVersion: z.string().min(1),
+  channelId: z.string().min(1, 'Channel ID is required'),
+  /** Script date / category / topic / title (스크립트 생성 후 채워짐) */
+  date: z.string().optional(),
+  category: categorySchema.optional(),
+  topic: z.string().optional(),
+  title: z.string().optional(),
+  createdAt: z.string().min(1),
+  updatedAt: z.string().min(1),
+  options: episodeRunOptionsSchema.optional().default({}),
+  upload: episodeUploadSchema.optional(),
+  artifacts: z.array(episodeArtifactSchema).optional().default([]),
+});
+
+export type EpisodeManifest = z.infer<typeof episodeManifestSchema>;
+
+/**
+ * Artifact to record (hash / size / time are filled in when recorded)
+ */
+export interface NewEpisodeArtifact {
+  kind: EpisodeArtifactKind;
+  /** Absolute path or path relative to the run folder */
+  path: string;
+  generator: string;
+  provider?: string;
+  model?: string;
+}
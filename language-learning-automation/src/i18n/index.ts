@@ -0,0 +1,3 @@
+export * from './types';
+export * from './locale';
+export { LOCALE_PACKS } from './packs';
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { LOCALE_PACKS } from './packs';
+import {
+  formatLocaleTemplate,
+  getLanguageName,
+  getLocalePack,
+  listLocales,
+  resolveUiLabels,
+} from './locale';
+
+describe('Locale Packs', () => {
+  const korean = LOCALE_PACKS.Korean;
+
+  it('should define every key of the Korean pack in all packs', () => {
+    for (const locale of listLocales()) {
+      const pack = getLocalePack(locale);
+      expect(pack.nativeLanguage).toBe(locale);
+      for (const section of ['uiLabels', 'timeline', 'narration', 'upload', 'shorts'] as const) {
+        expect(Object.keys(pack[section]).sort()).toEqual(Object.keys(korean[section]).sort());
+      }
+      expect(pack.narration.steps).toHaveLength(4);
+      expect(pack.narration.stepTransitions).toHaveLength(4);
+    }
+  });
+
+  it('should fall back to English for unknown viewer languages', () => {
+    expect(getLocalePack('Klingon')).toBe(LOCALE_PACKS.English);
+    expect(getLanguageName('Spanish', 'Klingon')).toBe('Spanish');
+    expect(getLanguageName('English', 'Korean')).toBe('영어');
+  });
+
+  it('should replace known placeholders and keep unknown ones', () => {
+    expect(formatLocaleTemplate('{language} - {topic} {other}', { language: '영어' })).toBe(
+      '영어 - {topic} {other}'
+    );
+  });
+
+  it('should fill missing labels from the pack and apply overrides', () => {
+    const labels = resolveUiLabels('Korean', 'Japanese', { introTitle: 'Custom' });
+
+    expect(labels.introTitle).toBe('Custom');
+    expect(labels.quizHook).toBe('맞추면 일본어괴물!');
+    expect(resolveUiLabels('Japanese', 'English').step3PhaseTitle).toBe(
+      LOCALE_PACKS.Japanese.uiLabels.step3PhaseTitle
+    );
+  });
+});
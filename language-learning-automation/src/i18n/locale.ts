@@ -0,0 +1,70 @@
+import type { ChannelConfig, UILabels } from '../config/types';
+import { LOCALE_PACKS } from './packs';
+import type { LocalePack, LocaleTemplateVars, LocaleUILabels } from './types';
+
+// Fallback pack for viewer languages without a pack
+export const DEFAULT_LOCALE = 'English';
+
+/**
+ * Get the pack for a viewer language (falls back to English)
+ */
+export function getLocalePack(nativeLanguage: string): LocalePack {
+  return LOCALE_PACKS[nativeLanguage] ?? LOCALE_PACKS[DEFAULT_LOCALE];
+}
+
+/**
+ * List viewer languages that have a pack
+ */
+export function listLocales(): string[] {
+  return Object.keys(LOCALE_PACKS);
+}
+
+/**
+ * Target language name written in the viewer's language ('English' → '영어')
+ */
+export function getLanguageName(targetLanguage: string, nativeLanguage: string): string {
+  return getLocalePack(nativeLanguage).languageNames[targetLanguage] ?? targetLanguage;
+}
+
+/**
+ * Replace {language}, {targetLanguage}, {topic} placeholders
+ */
+export function formatLocaleTemplate(template: string, vars: LocaleTemplateVars): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in vars && vars[key as keyof LocaleTemplateVars] !== undefined
+      ? (vars[key as keyof LocaleTemplateVars] as string)
+      : match
+  );
+}
+
+/**
+ * Fill missing UI labels from the viewer's pack and resolve {language}
+ */
+export function resolveUiLabels(
+  nativeLanguage: string,
+  targetLanguage: string,
+  overrides: UILabels = {}
+): LocaleUILabels {
+  const pack = getLocalePack(nativeLanguage);
+  const vars = { language: getLanguageName(targetLanguage, nativeLanguage), targetLanguage };
+  const labels = { ...pack.uiLabels };
+
+  for (const key of Object.keys(labels) as Array<keyof LocaleUILabels>) {
+    labels[key] = formatLocaleTemplate(overrides[key] ?? pack.uiLabels[key], vars);
+  }
+  return labels;
+}
+
+/**
+ * Channel config with uiLabels resolved from its locale pack
+ */
+export function withLocaleDefaults(config: ChannelConfig): ChannelConfig {
+  return {
+    ...config,
+    uiLabels: resolveUiLabels(
+      config.meta.nativeLanguage,
+      config.meta.targetLanguage,
+      config.uiLabels
+    ),
+  };
+}
@@ -0,0 +1,96 @@
+import type { LocalePack } from '../types';
+
+export const chinese: LocalePack = {
+  nativeLanguage: 'Chinese',
+  languageCode: 'zh',
+  narrationVoice: 'zh-CN-XiaoxiaoNeural',
+  languageNames: {
+    English: '英语',
+    Korean: '韩语',
+    Japanese: '日语',
+    Spanish: '西班牙语',
+    French: '法语',
+    German: '德语',
+    Chinese: '中文',
+    Vietnamese: '越南语',
+  },
+  narration: {
+    viral: '反复听{language}句子，感受{language}开始听懂的那一刻。',
+    guide: '本视频分为四个步骤。',
+    steps: [
+      '第一步。不看字幕，把握整体内容。只专注于声音，想象一下场景。',
+      '第二步。边看字幕边听，理解内容。确认没听懂的部分。',
+      '第三步。按慢速、填空、快速进行反复训练。耳朵将从这里开始打开。',
+      '第四步。再次不看字幕收听。亲自感受声音变得多么清晰。',
+    ],
+    closing: '好，我们开始吧！',
+    stepTransitions: [
+      '第一步。无字幕听力',
+      '第二步。看字幕听力',
+      '第三步。反复训练',
+      '第四步。最终确认',
+    ],
+  },
+  intro: {
+    viralLine1: '反复听{language}句子',
+    viralLine2: '感受{language}开始听懂的那一刻。',
+    guide: { prefix: '本视频分为', number: '四', suffix: '个步骤。' },
+  },
+  uiLabels: {
+    introTitle: '今日学习',
+    step1Title: '把握整体内容（无字幕）',
+    step2Title: '借助字幕理解内容',
+    step3Title: '三阶段反复听',
+    step4Title: '奇迹时刻（再次无字幕）',
+    step1Desc: '不看字幕，只专注于声音，想象一下场景。',
+    step2Desc: '边看字幕边听，确认没听懂的部分。',
+    step3Desc: '通过[慢速-填空-快速]反复练习，{language}开始听得懂了。',
+    step4Desc: '亲自感受变得清晰的{language}！',
+    step3PhaseTitle: 'STEP 3 · 反复训练',
+    phaseIntro: '🎧 慢速听',
+    phaseTraining: '🧩 填空测验',
+    phaseChallenge: '⚡ 快速听',
+    phaseReview: '✨ 总结',
+    quizHook: '听懂了就是{language}高手！',
+  },
+  timeline: {
+    timelineHeader: '时间轴',
+    intro: '开场（必看！）',
+    step1: 'Step 1. 无字幕听力',
+    step2: 'Step 2. 有字幕听力',
+    step3: 'Step 3. 句子重复训练',
+    step4: 'Step 4. 最终复习',
+    ending: '结尾',
+    titleLabel: '标题',
+    topicLabel: '主题',
+    categoryLabel: '类别',
+  },
+  thumbnail: {
+    subtitle: '每天15分钟听力',
+  },
+  shorts: {
+    quizListen: '仔细听！',
+    quizQuestion: '你答对了吗？🎉',
+    quizCta: '💬 答对了就留言告诉我们吧！',
+    sentenceListen: '🎧 你能听出来吗？',
+    sentenceQuestion: '全部答对了吗？',
+    sentenceCta: '👇 完整版请看主页！',
+  },
+  upload: {
+    descriptionHeader: '{language}听力练习 - {topic}',
+    stepsSummary: `🎧 本视频采用4步学习法：
+1️⃣ 无字幕听力 - 把握整体内容
+2️⃣ 看字幕听力 - 理解内容
+3️⃣ 反复训练 - 慢速/填空/快速
+4️⃣ 最终确认 - 再次无字幕`,
+    subscribeMessage: '📺 每天更新新的{language}听力视频！\n订阅并打开通知，每天练习 🔔',
+    hashtags: ['{language}', '听力练习', '语言学习'],
+    tags: [
+      '{targetLanguage} 听力',
+      '{targetLanguage} 会话',
+      '{targetLanguage} 学习',
+      '听力练习',
+      '语言学习',
+    ],
+  },
+};
@@ -0,0 +1,99 @@
+import type { LocalePack } from '../types';
+
+export const english: LocalePack = {
+  nativeLanguage: 'English',
+  languageCode: 'en',
+  narrationVoice: 'en-US-JennyNeural',
+  languageNames: {
+    English: 'English',
+    Japanese: 'Japanese',
+    Chinese: 'Chinese',
+    Spanish: 'Spanish',
+    French: 'French',
+    German: 'German',
+    Korean: 'Korean',
+    Vietnamese: 'Vietnamese',
+  },
+  narration: {
+    viral:
+      'Listen to {language} sentences repeatedly and feel the moment when {language} starts to click.',
+    guide: 'This video consists of four steps.',
+    steps: [
+      'Step one. Get the big picture without subtitles. Focus on the sounds and imagine the situation.',
+      'Step two. Listen with subtitles to understand the content. Check the parts you missed.',
+      'Step three. Practice with slow, fill-in-the-blank, and fast repetition. This is where your ears start to open.',
+      'Step four. Listen again without subtitles. Experience how much clearer it sounds now.',
+    ],
+    closing: "Alright, let's get started!",
+    stepTransitions: [
+      'Step one. Listen without subtitles.',
+      'Step two. Listen with subtitles.',
+      'Step three. Repetition training.',
+      'Step four. Final check.',
+    ],
+  },
+  intro: {
+    viralLine1: 'Listen to {language} sentences repeatedly',
+    viralLine2: 'and feel the moment when {language} starts to click.',
+    guide: { prefix: 'This video consists of ', number: 'four', suffix: ' steps.' },
+  },
+  uiLabels: {
+    introTitle: "Today's Lesson",
+    step1Title: 'Get the Big Picture (No Subtitles)',
+    step2Title: 'Understand with Subtitles',
+    step3Title: '3-Stage Repetition',
+    step4Title: 'The Moment of Truth (No Subtitles Again)',
+    step1Desc: 'Focus only on the sounds and imagine the situation.',
+    step2Desc: 'Listen with subtitles and check the parts you missed.',
+    step3Desc: '[Slow - Blank - Fast] repetition makes {language} start to click.',
+    step4Desc: 'Hear how much clearer {language} sounds now!',
+    step3PhaseTitle: 'STEP 3 · Repetition',
+    phaseIntro: '🎧 Slow listening',
+    phaseTraining: '🧩 Fill in the blank',
+    phaseChallenge: '⚡ Fast listening',
+    phaseReview: '✨ Review',
+    quizHook: 'Can you catch it?',
+  },
+  timeline: {
+    timelineHeader: 'Timeline',
+    intro: 'Intro (Must Watch!)',
+    step1: 'Step 1. Listen Without Subtitles',
+    step2: 'Step 2. Listen With Subtitles',
+    step3: 'Step 3. Sentence Repetition Training',
+    step4: 'Step 4. Final Review',
+    ending: 'Ending',
+    titleLabel: 'Title',
+    topicLabel: 'Topic',
+    categoryLabel: 'Category',
+  },
+  thumbnail: {
+    subtitle: '15 Mins Daily Listening',
+  },
+  shorts: {
+    quizListen: 'Listen carefully!',
+    quizQuestion: 'Did you get it? 🎉',
+    quizCta: '💬 Leave a comment if you got it!',
+    sentenceListen: '🎧 Can you hear this?',
+    sentenceQuestion: 'Did you get them all?',
+    sentenceCta: '👇 Full version in profile!',
+  },
+  upload: {
+    descriptionHeader: '{language} Listening Practice - {topic}',
+    stepsSummary: `🎧 This video uses a 4-step learning method:
+1️⃣ Listen without subtitles - Get the big picture
+2️⃣ Listen with subtitles - Understand the content
+3️⃣ Repetition training - Slow/Fill-in/Fast
+4️⃣ Final check - Listen again without subtitles`,
+    subscribeMessage:
+      '📺 New {language} listening videos uploaded daily!\nSubscribe and turn on notifications to practice every day 🔔',
+    hashtags: ['{language}', 'ListeningPractice', 'LanguageLearning'],
+    tags: [
+      '{targetLanguage} listening',
+      '{targetLanguage} practice',
+      'learn {targetLanguage}',
+      '{targetLanguage} conversation',
+      'listening practice',
+      'language learning',
+    ],
+  },
+};
@@ -0,0 +1,14 @@
+import type { LocalePack } from '../types';
+import { korean } from './korean';
+import { english } from './english';
+import { japanese } from './japanese';
+import { chinese } from './chinese';
+
+// Registered packs keyed by config.meta.nativeLanguage
+// 새 시청자 언어는 packs/ 아래 파일을 추가하고 여기에 등록
+export const LOCALE_PACKS: Record<string, LocalePack> = {
+  Korean: korean,
+  English: english,
+  Japanese: japanese,
+  Chinese: chinese,
+};
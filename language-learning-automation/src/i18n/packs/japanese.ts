@@ -0,0 +1,97 @@
+import type { LocalePack } from '../types';
+
+export const japanese: LocalePack = {
+  nativeLanguage: 'Japanese',
+  languageCode: 'ja',
+  narrationVoice: 'ja-JP-NanamiNeural',
+  languageNames: {
+    English: '英語',
+    Korean: '韓国語',
+    Chinese: '中国語',
+    Spanish: 'スペイン語',
+    French: 'フランス語',
+    German: 'ドイツ語',
+    Japanese: '日本語',
+    Vietnamese: 'ベトナム語',
+  },
+  narration: {
+    viral: '{language}の文を繰り返し聞いて、{language}が聞こえる瞬間を感じてください。',
+    guide: 'この動画は4つのステップで進みます。',
+    steps: [
+      'ステップ1。字幕なしで全体の流れをつかみます。音だけに集中して、場面を想像してみてください。',
+      'ステップ2。字幕を見ながら聞いて内容を理解します。聞き取れなかった部分を確認しましょう。',
+      'ステップ3。ゆっくり、穴埋め、速くの順に繰り返し練習します。ここで耳が開き始めます。',
+      'ステップ4。もう一度字幕なしで聞きます。驚くほどはっきり聞こえる音を確かめてください。',
+    ],
+    closing: 'では、始めましょう！',
+    stepTransitions: [
+      'ステップ1。字幕なしで聞く',
+      'ステップ2。字幕を見ながら聞く',
+      'ステップ3。繰り返しトレーニング',
+      'ステップ4。最終確認',
+    ],
+  },
+  intro: {
+    viralLine1: '{language}の文を繰り返し聞いて',
+    viralLine2: '{language}が聞こえる瞬間を感じてください。',
+    guide: { prefix: 'この動画は', number: '4', suffix: 'つのステップで進みます。' },
+  },
+  uiLabels: {
+    introTitle: '今日の学習',
+    step1Title: '全体の流れをつかむ（字幕なし）',
+    step2Title: '字幕で内容を理解する',
+    step3Title: '3段階リピート',
+    step4Title: '奇跡の瞬間（もう一度字幕なし）',
+    step1Desc: '字幕なしで音だけに集中し、場面を想像してみましょう。',
+    step2Desc: '字幕を見ながら聞き、聞き取れなかった部分を確認しましょう。',
+    step3Desc: '[ゆっくり・穴埋め・速く] の繰り返しで{language}が聞こえ始めます。',
+    step4Desc: '驚くほどはっきりした{language}を確かめてください！',
+    step3PhaseTitle: 'STEP 3 · 繰り返しトレーニング',
+    phaseIntro: '🎧 ゆっくり聞く',
+    phaseTraining: '🧩 穴埋めクイズ',
+    phaseChallenge: '⚡ 速く聞く',
+    phaseReview: '✨ まとめ',
+    quizHook: '聞き取れたら{language}マスター！',
+  },
+  timeline: {
+    timelineHeader: 'タイムライン',
+    intro: 'イントロ（必見！）',
+    step1: 'Step 1. 字幕なしで聞く',
+    step2: 'Step 2. 字幕を見ながら聞く',
+    step3: 'Step 3. 文ごとの3段階トレーニング',
+    step4: 'Step 4. 最終確認',
+    ending: 'エンディング',
+    titleLabel: 'タイトル',
+    topicLabel: 'トピック',
+    categoryLabel: 'カテゴリ',
+  },
+  thumbnail: {
+    subtitle: '毎日15分リスニング',
+  },
+  shorts: {
+    quizListen: 'よく聞いてください！',
+    quizQuestion: '正解できましたか？🎉',
+    quizCta: '💬 コメントで教えてね！',
+    sentenceListen: '🎧 聞こえますか？',
+    sentenceQuestion: '全部正解できましたか？',
+    sentenceCta: '👇 プロフィールで確認！',
+  },
+  upload: {
+    descriptionHeader: '{language}リスニング練習 - {topic}',
+    stepsSummary: `🎧 この動画は4ステップの学習法で構成されています：
+1️⃣ 字幕なしで聞く - 全体の流れをつかむ
+2️⃣ 字幕を見ながら聞く - 内容を理解する
+3️⃣ 繰り返しトレーニング - ゆっくり/穴埋め/速く
+4️⃣ 最終確認 - もう一度字幕なしで`,
+    subscribeMessage:
+      '📺 毎日新しい{language}リスニング動画をアップロードしています！\nチャンネル登録と通知設定で毎日練習しましょう 🔔',
+    hashtags: ['{language}', 'リスニング練習', '語学学習'],
+    tags: [
+      '{targetLanguage} リスニング',
+      '{targetLanguage} 会話',
+      '{targetLanguage} 勉強',
+      'リスニング練習',
+      '語学学習',
+    ],
+  },
+};
@@ -0,0 +1,100 @@
+import type { LocalePack } from '../types';
+
+export const korean: LocalePack = {
+  nativeLanguage: 'Korean',
+  languageCode: 'ko',
+  narrationVoice: 'ko-KR-SunHiNeural', // 밝은 여성 아나운서
+  languageNames: {
+    English: '영어',
+    Japanese: '일본어',
+    Chinese: '중국어',
+    Spanish: '스페인어',
+    French: '프랑스어',
+    German: '독일어',
+    Korean: '한국어',
+    Vietnamese: '베트남어',
+  },
+  narration: {
+    viral: '{language} 문장을 반복해서 듣고, {language}가 들리는 순간을 느껴보세요.',
+    guide: '이 영상은 다음 네 단계로 진행됩니다.',
+    steps: [
+      '첫 번째 단계. 자막 없이 전체 흐름을 파악합니다. 소리에만 집중하며 상황을 상상해보세요.',
+      '두 번째 단계. 자막과 함께 들으며 내용을 이해합니다. 안 들렸던 부분을 확인하세요.',
+      '세 번째 단계. 느리게, 빈칸, 빠르게 반복 훈련을 합니다. 이 단계에서 귀가 열리기 시작합니다.',
+      '네 번째 단계. 다시 자막 없이 들어봅니다. 놀랍게 선명해진 소리를 직접 확인하세요.',
+    ],
+    closing: '자, 그럼 시작해볼까요?',
+    stepTransitions: [
+      '스텝 원. 자막 없이 듣기',
+      '스텝 투. 자막 보며 듣기',
+      '스텝 쓰리. 반복 훈련',
+      '스텝 포. 최종 확인',
+    ],
+  },
+  intro: {
+    viralLine1: '{language} 문장을 반복해서 듣고',
+    viralLine2: '{language}가 들리는 순간을 느껴보세요.',
+    guide: { prefix: '이 영상은 다음 ', number: '네', suffix: ' 단계로 진행됩니다.' },
+  },
+  uiLabels: {
+    introTitle: '오늘의 학습',
+    step1Title: '전체 흐름 파악 (자막 없이 듣기)',
+    step2Title: '자막으로 내용 이해 하기',
+    step3Title: '3단계 반복 듣기',
+    step4Title: '기적의 순간 (다시 자막 없이 듣기)',
+    step1Desc: '자막 없이 소리에만 집중하며, 상황을 상상해보세요.',
+    step2Desc: '자막과 함께 들으며, 안 들렸던 부분을 확인하세요.',
+    step3Desc: '[느리게-빈칸-빠르게] 반복으로 {language}가 들리기 시작해요.',
+    step4Desc: '놀랍게 선명해진 {language}를 직접 확인해보세요!',
+    step3PhaseTitle: 'STEP 3 · 반복 훈련',
+    phaseIntro: '🎧 천천히 듣기',
+    phaseTraining: '🧩 빈칸 퀴즈',
+    phaseChallenge: '⚡ 빠르게 듣기',
+    phaseReview: '✨ 마무리',
+    quizHook: '맞추면 {language}괴물!',
+  },
+  timeline: {
+    timelineHeader: '타임라인',
+    intro: '인트로',
+    step1: 'Step 1. 전체 흐름 파악 (자막 없이 듣기)',
+    step2: 'Step 2. 자막 보며 듣기',
+    step3: 'Step 3. 문장별 3단계 훈련',
+    step4: 'Step 4. 최종 확인',
+    ending: '마무리',
+    titleLabel: '제목',
+    topicLabel: '토픽',
+    categoryLabel: '카테고리',
+  },
+  thumbnail: {
+    subtitle: '인생이 바뀌는 15분',
+  },
+  shorts: {
+    quizListen: '잘 들어보세요!',
+    quizQuestion: '맞추셨나요? 🎉',
+    quizCta: '💬 맞추셨다면 댓글 남겨주세요!',
+    sentenceListen: '🎧 이 {language}가 들리세요?',
+    sentenceQuestion: '모두 맞추셨나요?',
+    sentenceCta: '👇 프로필에서 풀버전 확인!',
+  },
+  upload: {
+    descriptionHeader: '{language} 듣기 연습 - {topic}',
+    stepsSummary: `🎧 이 영상은 4단계 학습법으로 구성되어 있습니다:
+1️⃣ 자막 없이 듣기 - 전체 흐름 파악
+2️⃣ 자막 보며 듣기 - 내용 이해
+3️⃣ 반복 훈련 - 느리게/빈칸/빠르게
+4️⃣ 최종 확인 - 다시 자막 없이`,
+    subscribeMessage:
+      '📺 매일 새로운 {language} 듣기 영상이 업로드됩니다!\n구독과 알림 설정으로 매일 연습하세요 🔔',
+    hashtags: ['{language}', '듣기연습', '언어학습'],
+    tags: [
+      '{targetLanguage} 듣기',
+      '{targetLanguage} 회화',
+      '{targetLanguage} 공부',
+      '{targetLanguage} 학습',
+      '듣기 연습',
+      '언어 학습',
+      '외국어 공부',
+      '리스닝',
+    ],
+  },
+};
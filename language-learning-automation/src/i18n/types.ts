@@ -0,0 +1,73 @@
+import type { UILabels } from '../config/types';
+
+// Localized (non-optional) UI labels
+export type LocaleUILabels = Required<UILabels>;
+
+// YouTube chapter / upload_info.txt labels
+export interface LocaleTimelineLabels {
+  timelineHeader: string;
+  intro: string;
+  step1: string;
+  step2: string;
+  step3: string;
+  step4: string;
+  ending: string;
+  titleLabel: string;
+  topicLabel: string;
+  categoryLabel: string;
+}
+
+/**
+ * Native-language pack (one file per viewer language in ./packs)
+ * 템플릿 변수: {language} = 시청자 언어로 쓴 학습 언어명, {targetLanguage} = 설정값 그대로,
+ * {topic} = 에피소드 토픽
+ */
+export interface LocalePack {
+  /** config.meta.nativeLanguage 값 (예: 'Korean') */
+  nativeLanguage: string;
+  /** ISO 639-1 code (YouTube 기본 언어, 자막 언어) */
+  languageCode: string;
+  /** Edge TTS voice for intro/transition narration */
+  narrationVoice: string;
+  /** Target language names written in this language */
+  languageNames: Record<string, string>;
+  /** Narration scripts (TTS) */
+  narration: {
+    viral: string;
+    guide: string;
+    steps: [string, string, string, string];
+    closing: string;
+    stepTransitions: [string, string, string, string];
+  };
+  /** On-screen intro text */
+  intro: {
+    viralLine1: string;
+    viralLine2: string;
+    guide: { prefix: string; number: string; suffix: string };
+  };
+  /** Defaults for config.uiLabels */
+  uiLabels: LocaleUILabels;
+  timeline: LocaleTimelineLabels;
+  thumbnail: {
+    subtitle: string;
+  };
+  /** On-screen Shorts text (ListeningQuizShort quiz*, SingleSentenceShort sentence*) */
+  shorts: {
+    quizListen: string;
+    quizQuestion: string;
+    quizCta: string;
+    sentenceListen: string;
+    sentenceQuestion: string;
+    sentenceCta: string;
+  };
+  /** Upload metadata templates (prepare-upload) */
+  upload: {
+    descriptionHeader: string;
+    stepsSummary: string;
+    subscribeMessage: string;
+    hashtags: string[];
+    tags: string[];
+  };
+}
+
+export type LocaleTemplateVars = Partial<Record<'language' | 'targetLanguage' | 'topic', string>>;
@@ -1,6 +1,6 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-import { GEMINI_API_URLS, getGeminiApiKey, type GeminiImageResponse } from '../config/gemini';
+import { fetchGeminiImage, type GeminiImageResponse } from '../config/gemini';
 import type { Script, Category, Character } from '../script/types';
 import { getStyleById, getRandomStyle, type ImageStyle } from './art-styles';
 
@@ -15,8 +15,6 @@ export async function generateIllustration(
   outputPath: string,
   styleId?: string
 ): Promise<string> {
-  const apiKey = getGeminiApiKey();
-
   // 스타일 선택 (지정된 ID가 있으면 사용, 없으면 랜덤)
   const style: ImageStyle = styleId ? getStyleById(styleId) || getRandomStyle() : getRandomStyle();
   console.log(`🎨 Using style: ${style.name}`);
@@ -63,13 +61,7 @@ ${technicalFooter}`;
     },
   };
 
-  const response = await fetch(`${GEMINI_API_URLS.image}?key=${apiKey}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(requestBody),
-  });
+  const response = await fetchGeminiImage(requestBody);
 
   if (!response.ok) {
     const errorText = await response.text();
@@ -151,8 +143,6 @@ export interface ThumbnailOptions {
  * Gemini 3 Pro Image Preview 사용 (고품질, 4K 지원)
  */
 export async function generateThumbnail(options: ThumbnailOptions): Promise<string> {
-  const apiKey = getGeminiApiKey();
-
   const {
     channelName,
     episodeTitle,
@@ -256,11 +246,7 @@ Technical requirements:
     },
   };
 
-  const response = await fetch(`${GEMINI_API_URLS.image}?key=${apiKey}`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(requestBody),
-  });
+  const response = await fetchGeminiImage(requestBody);
 
   if (!response.ok) {
     // Gemini 3 Pro Image 실패시 Gemini Flash로 폴백
@@ -349,8 +335,6 @@ function generateUnderstandingPhrase(targetLanguage: string, nativeLanguage: str
  * Gemini Flash를 사용한 썸네일 생성 (폴백용)
  */
 async function generateThumbnailWithGemini(options: ThumbnailOptions): Promise<string> {
-  const apiKey = getGeminiApiKey();
-
   const {
     channelName,
     episodeTitle,
@@ -444,11 +428,7 @@ Technical requirements:
     },
   };
 
-  const response = await fetch(`${GEMINI_API_URLS.image}?key=${apiKey}`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(requestBody),
-  });
+  const response = await fetchGeminiImage(requestBody);
 
   if (!response.ok) {
     const errorText = await response.text();
@@ -527,7 +507,6 @@ const SHORTS_COMMON_STYLE = `comic book illustration style, clean bold line art,
  * 스크립트의 imagePrompt를 재사용하고 스타일만 변경
  */
 export async function generateShortsBackground(script: Script, outputDir: string): Promise<string> {
-  const apiKey = getGeminiApiKey();
   const outputPath = path.join(outputDir, 'episode-shorts-background.png');
 
   console.log(`🎨 Generating shorts background for "${script.metadata.title.native}"...`);
@@ -570,11 +549,7 @@ export async function generateShortsBackground(script: Script, outputDir: string
     },
   };
 
-  const response = await fetch(`${GEMINI_API_URLS.image}?key=${apiKey}`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(requestBody),
-  });
+  const response = await fetchGeminiImage(requestBody);
 
   if (!response.ok) {
     const errorText = await response.text();
@@ -7,46 +7,9 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import type { IntroAssetConfig, IntroAssets, IntroGeneratorOptions, IntroStyle } from './types';
-import { GEMINI_API_URLS, type GeminiImageResponse } from '../config/gemini';
-
-// 언어별 바이럴 문구
-const VIRAL_MESSAGES: Record<string, { line1: string; line2: string }> = {
-  English: {
-    line1: '영어 문장을 반복해서 듣고',
-    line2: '영어가 들리는 순간을 느껴보세요.',
-  },
-  Japanese: {
-    line1: '일본어 문장을 반복해서 듣고',
-    line2: '일본어가 들리는 순간을 느껴보세요.',
-  },
-  Chinese: {
-    line1: '중국어 문장을 반복해서 듣고',
-    line2: '중국어가 들리는 순간을 느껴보세요.',
-  },
-  Spanish: {
-    line1: '스페인어 문장을 반복해서 듣고',
-    line2: '스페인어가 들리는 순간을 느껴보세요.',
-  },
-  French: {
-    line1: '프랑스어 문장을 반복해서 듣고',
-    line2: '프랑스어가 들리는 순간을 느껴보세요.',
-  },
-  German: {
-    line1: '독일어 문장을 반복해서 듣고',
-    line2: '독일어가 들리는 순간을 느껴보세요.',
-  },
-};
-
-// 언어별 가이드 문구
-const GUIDE_MESSAGE = '이 영상은 다음 네 단계로 진행됩니다.';
-
-// 시청자 언어별 TTS 음성
-const TTS_VOICES: Record<string, string> = {
-  Korean: 'ko-KR-SunHiNeural', // 밝은 여성 아나운서
-  Japanese: 'ja-JP-NanamiNeural',
-  Chinese: 'zh-CN-XiaoxiaoNeural',
-  English: 'en-US-JennyNeural',
-};
+import { fetchGeminiImage, getGeminiApiKey, type GeminiImageResponse } from '../config/gemini';
+import { audioCache } from '../tts/cache';
+import { formatLocaleTemplate, getLanguageName, getLocalePack } from '../i18n';
 
 const INTRO_PROMPTS: Record<IntroStyle, string> = {
   modern: `Create a modern, clean intro background for a language learning YouTube channel.
@@ -76,12 +39,6 @@ No text, no logos - just the background design.`,
 };
 
 export class IntroGenerator {
-  private apiKey: string;
-
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
-  }
-
   /**
    * 채널용 인트로 에셋 생성 (이미지 + TTS)
    */
@@ -141,23 +98,23 @@ export class IntroGenerator {
     console.log(`  🎙️ Generating intro TTS narrations...`);
 
     const { EdgeTTS } = await import('@andresaya/edge-tts');
-    const voice = TTS_VOICES[config.nativeLanguage] || TTS_VOICES['Korean'];
+    // 시청자 언어 팩의 나레이션 문구/음성
+    const pack = getLocalePack(config.nativeLanguage);
+    const voice = pack.narrationVoice;
 
     // 바이럴 문구 TTS
-    const viralMsg = VIRAL_MESSAGES[config.targetLanguage] || VIRAL_MESSAGES['English'];
-    const viralText = `${viralMsg.line1}, ${viralMsg.line2}`;
+    const viralText = formatLocaleTemplate(pack.narration.viral, {
+      language: getLanguageName(config.targetLanguage, config.nativeLanguage),
+      targetLanguage: config.targetLanguage,
+    });
     const viralPath = path.join(outputDir, 'viral.mp3');
 
-    const tts1 = new EdgeTTS();
-    await tts1.synthesize(viralText, voice, { rate: '+0%' });
-    await fs.writeFile(viralPath, await tts1.toBuffer());
+    await synthesizeCached(EdgeTTS, viralText, voice, viralPath);
     console.log(`  ✅ Viral TTS saved`);
 
     // 가이드 문구 TTS
     const guidePath = path.join(outputDir, 'guide.mp3');
-    const tts2 = new EdgeTTS();
-    await tts2.synthesize(GUIDE_MESSAGE, voice, { rate: '+0%' });
-    await fs.writeFile(guidePath, await tts2.toBuffer());
+    await synthesizeCached(EdgeTTS, pack.narration.guide, voice, guidePath);
     console.log(`  ✅ Guide TTS saved`);
 
     return {
@@ -189,11 +146,7 @@ export class IntroGenerator {
       },
     };
 
-    const response = await fetch(`${GEMINI_API_URLS.image}?key=${this.apiKey}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(requestBody),
-    });
+    const response = await fetchGeminiImage(requestBody);
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -241,6 +194,30 @@ Requirements:
   }
 }
 
+/**
+ * Edge TTS 합성 (TTS 캐시에 있으면 재사용)
+ */
+async function synthesizeCached(
+  EdgeTTS: typeof import('@andresaya/edge-tts').EdgeTTS,
+  text: string,
+  voice: string,
+  outputPath: string
+): Promise<void> {
+  const cacheInput = {
+    provider: 'edge' as const,
+    voice,
+    speed: '1.0x' as const,
+    languageCode: voice.split('-').slice(0, 2).join('-'),
+    text,
+  };
+
+  await audioCache.getOrCreate(cacheInput, outputPath, async (dest) => {
+    const tts = new EdgeTTS();
+    await tts.synthesize(text, voice, { rate: '+0%' });
+    await fs.writeFile(dest, await tts.toBuffer());
+  });
+}
+
 /**
  * CLI에서 사용할 수 있는 헬퍼 함수
  */
@@ -248,10 +225,7 @@ export async function generateIntroForChannel(
   channelId: string,
   style: IntroStyle = 'modern'
 ): Promise<IntroAssets> {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY environment variable is required');
-  }
+  getGeminiApiKey(); // 키가 없으면 여기서 에러
 
   const configPath = path.join(process.cwd(), 'channels', `${channelId}.json`);
   const configContent = await fs.readFile(configPath, 'utf-8');
@@ -267,7 +241,7 @@ export async function generateIntroForChannel(
     style,
   };
 
-  const generator = new IntroGenerator(apiKey);
+  const generator = new IntroGenerator();
   const outputDir = path.join(process.cwd(), 'assets', channelId);
 
   return generator.generateIntroAssets(introConfig, { outputDir });
@@ -0,0 +1,246 @@
+#!/usr/bin/env node
+
+import path from 'path';
+import { loadEpisodeManifest, recordEpisodeUpload } from '../episode/store';
+import { cefrLevels, type CefrLevel } from '../difficulty/types';
+import { categorySchema } from '../script/types';
+import {
+  diffLibraryEpisodes,
+  filterLibraryEpisodes,
+  findLibraryEpisodes,
+  formatLibraryDiff,
+  formatLibraryEpisode,
+  formatLibraryTable,
+} from './library';
+import {
+  DEFAULT_LIBRARY_DIR,
+  getLibraryIndex,
+  indexLibraryEpisode,
+  refreshLibraryIndex,
+} from './store';
+import type { LibraryEpisode, LibraryFilter } from './types';
+
+function printUsage() {
+  console.log(`
+Episode Library
+
+Usage:
+  npx tsx src/library/cli.ts index
+  npx tsx src/library/cli.ts list [filters] [--json]
+  npx tsx src/library/cli.ts show <episode> [--json]
+  npx tsx src/library/cli.ts diff <episode> <episode>
+  npx tsx src/library/cli.ts set-youtube <episode> <videoId>
+
+Commands:
+  index              Rescan output/ and rebuild library.json
+  list               List episodes, newest first
+  show               Show one episode with its artifacts (episode.json)
+  diff               Compare two episodes field by field
+  set-youtube        Record the YouTube video ID of a published episode
+
+  <episode> is {channelId}/{folder} or just the folder name
+
+Filters (list):
+  --channel <id>     Only this channel
+  --category <cat>   Valid: ${categorySchema.options.join(', ')}
+  --cefr <level>     Measured script level (${cefrLevels.join(', ')})
+  --since <date>     Episodes on or after YYYY-MM-DD
+  --until <date>     Episodes on or before YYYY-MM-DD
+  --search <text>    Match topic, title or folder
+  --rendered / --not-rendered
+  --uploaded / --not-uploaded
+                     Uploaded = sent to Drive or published on YouTube
+
+Options:
+  --refresh          Rescan output/ before listing
+  --json             Print JSON instead of a table
+  --output <dir>     Output root (default: ${DEFAULT_LIBRARY_DIR})
+  --help             Show this help message
+
+Examples:
+  npx tsx src/library/cli.ts list --category conversation --not-uploaded
+  npx tsx src/library/cli.ts list --channel english --since 2026-01-01 --rendered
+  npx tsx src/library/cli.ts show english/2026-01-08_153045
+  npx tsx src/library/cli.ts diff 2026-01-08_153045 2026-01-09_101500
+  npx tsx src/library/cli.ts set-youtube english/2026-01-08_153045 dQw4w9WgXcQ
+`);
+}
+
+// Option value that must be a date (YYYY-MM-DD), exits on invalid input
+function parseDate(option: string, value: string | undefined): string {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    console.error(`Error: ${option} must be a date (YYYY-MM-DD)`);
+    process.exit(1);
+  }
+  return value;
+}
+
+// Single episode for a reference, exits when missing or ambiguous
+function resolveEpisode(episodes: LibraryEpisode[], ref: string | undefined): LibraryEpisode {
+  if (!ref) {
+    console.error('Error: missing <episode>');
+    process.exit(1);
+  }
+  const matches = findLibraryEpisodes(episodes, ref);
+  if (matches.length === 0) {
+    console.error(`Error: no episode "${ref}" (try: library index)`);
+    process.exit(1);
+  }
+  if (matches.length > 1) {
+    console.error(`Error: "${ref}" matches ${matches.map((e) => e.id).join(', ')}`);
+    process.exit(1);
+  }
+  return matches[0];
+}
+
+async function main() {
+  const [command, ...rest] = process.argv.slice(2);
+
+  if (!command || command === '--help' || rest.includes('--help')) {
+    printUsage();
+    process.exit(0);
+  }
+
+  // Parse arguments
+  const filter: LibraryFilter = {};
+  const positional: string[] = [];
+  let rootDir = DEFAULT_LIBRARY_DIR;
+  let refresh = false;
+  let json = false;
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+
+    switch (arg) {
+      case '--channel':
+        filter.channelId = rest[++i];
+        break;
+      case '--category': {
+        const result = categorySchema.safeParse(rest[++i]);
+        if (!result.success) {
+          console.error(`Invalid category: ${rest[i]}`);
+          process.exit(1);
+        }
+        filter.category = result.data;
+        break;
+      }
+      case '--cefr': {
+        const level = rest[++i]?.toUpperCase() as CefrLevel;
+        if (!cefrLevels.includes(level)) {
+          console.error(`Invalid CEFR level: ${rest[i]} (${cefrLevels.join(', ')})`);
+          process.exit(1);
+        }
+        filter.cefr = level;
+        break;
+      }
+      case '--since':
+        filter.since = parseDate(arg, rest[++i]);
+        break;
+      case '--until':
+        filter.until = parseDate(arg, rest[++i]);
+        break;
+      case '--search':
+        filter.search = rest[++i];
+        break;
+      case '--rendered':
+      case '--not-rendered':
+        filter.rendered = arg === '--rendered';
+        break;
+      case '--uploaded':
+      case '--not-uploaded':
+        filter.uploaded = arg === '--uploaded';
+        break;
+      case '--refresh':
+        refresh = true;
+        break;
+      case '--json':
+        json = true;
+        break;
+      case '--output':
+        rootDir = rest[++i];
+        break;
+      default:
+        if (arg.startsWith('--')) {
+          console.error(`Unknown option: ${arg}`);
+          printUsage();
+          process.exit(1);
+        }
+        positional.push(arg);
+    }
+  }
+
+  switch (command) {
+    case 'index':
+      await refreshLibraryIndex(rootDir);
+      break;
+
+    case 'list': {
+      const index = refresh ? await refreshLibraryIndex(rootDir) : await getLibraryIndex(rootDir);
+      const episodes = filterLibraryEpisodes(index.episodes, filter);
+      if (json) {
+        console.log(JSON.stringify(episodes, null, 2));
+      } else if (episodes.length === 0) {
+        console.log(`📚 No matching episodes (${index.episodes.length} in library)`);
+      } else {
+        console.log(`\n📚 ${episodes.length} of ${index.episodes.length} episodes\n`);
+        console.log(formatLibraryTable(episodes));
+      }
+      break;
+    }
+
+    case 'show': {
+      const episode = resolveEpisode((await getLibraryIndex(rootDir)).episodes, positional[0]);
+      const manifest = await loadEpisodeManifest(path.join(rootDir, episode.id));
+      console.log(
+        json
+          ? JSON.stringify({ ...episode, artifacts: manifest?.artifacts ?? [] }, null, 2)
+          : formatLibraryEpisode(episode, manifest ?? undefined)
+      );
+      break;
+    }
+
+    case 'diff': {
+      const { episodes } = await getLibraryIndex(rootDir);
+      const [left, right] = [positional[0], positional[1]].map((ref) => {
+        const episode = resolveEpisode(episodes, ref);
+        return { episode, dir: path.join(rootDir, episode.id) };
+      });
+      const rows = diffLibraryEpisodes(
+        {
+          episode: left.episode,
+          manifest: (await loadEpisodeManifest(left.dir)) ?? undefined,
+        },
+        {
+          episode: right.episode,
+          manifest: (await loadEpisodeManifest(right.dir)) ?? undefined,
+        }
+      );
+      console.log(formatLibraryDiff(left.episode.id, right.episode.id, rows));
+      break;
+    }
+
+    case 'set-youtube': {
+      const episode = resolveEpisode((await getLibraryIndex(rootDir)).episodes, positional[0]);
+      const videoId = positional[1];
+      if (!videoId) {
+        console.error('Error: missing <videoId>');
+        process.exit(1);
+      }
+      const dir = path.join(rootDir, episode.id);
+      await recordEpisodeUpload(dir, 'published', videoId);
+      await indexLibraryEpisode(dir, rootDir);
+      console.log(`✅ ${episode.id} → https://youtu.be/${videoId}`);
+      break;
+    }
+
+    default:
+      console.error(`Unknown command: ${command}`);
+      printUsage();
+      process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffLibraryEpisodes,
+  filterLibraryEpisodes,
+  findLibraryEpisodes,
+  formatLibraryDiff,
+  toLibraryEpisode,
+  withLibraryEpisodes,
+} from './library';
+import { createEpisodeManifest, withArtifacts, withEpisodeUpload } from '../episode/manifest';
+import type { EpisodeArtifact, EpisodeManifest } from '../episode/types';
+import type { LibraryEpisode } from './types';
+
+const NOW = new Date('2026-01-08T10:00:00.000Z');
+
+const artifact = (
+  kind: EpisodeArtifact['kind'],
+  path: string,
+  provider?: string
+): EpisodeArtifact => ({
+  kind,
+  path,
+  sha256: 'a'.repeat(64),
+  bytes: 100,
+  generator: 'test',
+  ...(provider ? { provider } : {}),
+  createdAt: NOW.toISOString(),
+});
+
+const manifestOf = (artifacts: EpisodeArtifact[]): EpisodeManifest => ({
+  ...withArtifacts(createEpisodeManifest('english', '1.0.0', {}, NOW), artifacts, NOW),
+  date: '2026-01-08',
+  category: 'conversation',
+  topic: 'Ordering coffee',
+});
+
+const episode = (overrides: Partial<LibraryEpisode>): LibraryEpisode => ({
+  id: 'english/2026-01-08_100000',
+  channelId: 'english',
+  folder: '2026-01-08_100000',
+  date: '2026-01-08',
+  category: 'conversation',
+  topic: 'Ordering coffee',
+  sentenceCount: 8,
+  rendered: false,
+  shortsCount: 0,
+  uploadStatus: 'none',
+  pipelineVersion: '1.0.0',
+  createdAt: NOW.toISOString(),
+  updatedAt: NOW.toISOString(),
+  ...overrides,
+});
+
+describe('Episode Library', () => {
+  it('should build an entry from the manifest and script', () => {
+    const manifest = withEpisodeUpload(
+      manifestOf([
+        artifact('video', 'video.mp4'),
+        artifact('short', 'shorts/quiz_01.mp4'),
+        artifact('short', 'shorts/quiz_02.mp4'),
+      ]),
+      'published',
+      'abc123',
+      NOW
+    );
+    const entry = toLibraryEpisode(
+      manifest,
+      {
+        metadata: {
+          topic: 'Ordering coffee',
+          style: 'casual',
+          title: { target: 'At the Café', native: '카페에서' },
+          characters: [],
+          difficulty: {
+            cefr: 'A2',
+            score: 1.4,
+            vocabularyCefr: 'A2',
+            lengthCefr: 'A1',
+            rareWordRatio: 0.02,
+            avgSentenceLength: 7,
+            wordCount: 56,
+          },
+        },
+        sentences: new Array(8).fill({}),
+      },
+      'english/2026-01-08_100000'
+    );
+
+    expect(entry).toMatchObject({
+      id: 'english/2026-01-08_100000',
+      folder: '2026-01-08_100000',
+      category: 'conversation',
+      cefr: 'A2',
+      sentenceCount: 8,
+      rendered: true,
+      shortsCount: 2,
+      uploadStatus: 'published',
+      youtubeId: 'abc123',
+    });
+  });
+
+  it('should keep the index sorted and replace entries with the same id', () => {
+    const index = withLibraryEpisodes(
+      withLibraryEpisodes(null, [
+        episode({ id: 'english/a', folder: '2026-01-07_090000', date: '2026-01-07' }),
+        episode({ id: 'english/b', folder: '2026-01-09_090000', date: '2026-01-09' }),
+      ]),
+      [
+        episode({
+          id: 'english/a',
+          folder: '2026-01-07_090000',
+          date: '2026-01-07',
+          rendered: true,
+        }),
+      ]
+    );
+
+    expect(index.episodes.map((e) => e.id)).toEqual(['english/b', 'english/a']);
+    expect(index.episodes[1].rendered).toBe(true);
+  });
+
+  it('should find conversation episodes that are not uploaded yet', () => {
+    const episodes = [
+      episode({ id: 'english/1', uploadStatus: 'none' }),
+      episode({ id: 'english/2', uploadStatus: 'prepared' }),
+      episode({ id: 'english/3', uploadStatus: 'uploaded' }),
+      episode({ id: 'english/4', uploadStatus: 'published', youtubeId: 'x' }),
+      episode({ id: 'english/5', category: 'story' }),
+    ];
+
+    const pending = filterLibraryEpisodes(episodes, {
+      category: 'conversation',
+      uploaded: false,
+    });
+    expect(pending.map((e) => e.id)).toEqual(['english/1', 'english/2']);
+  });
+
+  it('should filter by channel, date range, level and search text', () => {
+    const episodes = [
+      episode({ id: 'english/1', date: '2026-01-05', cefr: 'A2' }),
+      episode({ id: 'english/2', date: '2026-01-10', cefr: 'B1', topic: 'Airport check-in' }),
+      episode({ id: 'japan/3', channelId: 'japan', date: '2026-01-10' }),
+    ];
+
+    const ids = (filter: Parameters<typeof filterLibraryEpisodes>[1]) =>
+      filterLibraryEpisodes(episodes, filter).map((e) => e.id);
+    expect(ids({ channelId: 'english', since: '2026-01-06' })).toEqual(['english/2']);
+    expect(ids({ until: '2026-01-05' })).toEqual(['english/1']);
+    expect(ids({ cefr: 'A2' })).toEqual(['english/1']);
+    expect(ids({ search: 'airport' })).toEqual(['english/2']);
+  });
+
+  it('should resolve episodes by id, output path or folder name', () => {
+    const episodes = [
+      episode({ id: 'english/2026-01-08_100000', folder: '2026-01-08_100000' }),
+      episode({ id: 'japan/2026-01-08_100000', folder: '2026-01-08_100000' }),
+    ];
+
+    expect(findLibraryEpisodes(episodes, 'english/2026-01-08_100000')).toHaveLength(1);
+    expect(findLibraryEpisodes(episodes, 'output/japan/2026-01-08_100000/')).toHaveLength(1);
+    expect(findLibraryEpisodes(episodes, '2026-01-08_100000')).toHaveLength(2);
+    expect(findLibraryEpisodes(episodes, 'missing')).toHaveLength(0);
+  });
+
+  it('should diff fields and artifact providers', () => {
+    const rows = diffLibraryEpisodes(
+      {
+        episode: episode({ id: 'english/1', sentenceCount: 8 }),
+        manifest: manifestOf([artifact('audio', 'audio/a.mp3', 'openai')]),
+      },
+      {
+        episode: episode({ id: 'english/2', sentenceCount: 10, rendered: true }),
+        manifest: manifestOf([
+          artifact('audio', 'audio/a.mp3', 'elevenlabs'),
+          artifact('video', 'video.mp4'),
+        ]),
+      }
+    );
+
+    expect(rows).toEqual([
+      { field: 'sentenceCount', left: '8', right: '10' },
+      { field: 'rendered', left: 'false', right: 'true' },
+      { field: 'artifacts.audio', left: '1× openai', right: '1× elevenlabs' },
+      { field: 'artifacts.video', left: '-', right: '1× test' },
+    ]);
+    expect(formatLibraryDiff('english/1', 'english/1', [])).toContain('no differences');
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Episode library
+ * 채널별 실행 폴더(episode.json)를 한 목록으로 모아 조회 / 필터 / 비교
+ */
+
+import type { EpisodeManifest } from '../episode/types';
+import { getArtifact, getArtifacts } from '../episode/manifest';
+import type { Script } from '../script/types';
+import {
+  LIBRARY_INDEX_VERSION,
+  type LibraryDiffRow,
+  type LibraryEpisode,
+  type LibraryFilter,
+  type LibraryIndex,
+} from './types';
+
+// diff / show 에서 비교하는 필드 (id 는 항상 다르므로 제외)
+const COMPARED_FIELDS: Array<keyof LibraryEpisode> = [
+  'channelId',
+  'date',
+  'category',
+  'topic',
+  'title',
+  'cefr',
+  'sentenceCount',
+  'rendered',
+  'shortsCount',
+  'uploadStatus',
+  'youtubeId',
+  'pipelineVersion',
+];
+
+/**
+ * Library entry of a run folder
+ * @param id - output 기준 {channel}/{folder}
+ * @param script - null when the run has no script yet
+ */
+export function toLibraryEpisode(
+  manifest: EpisodeManifest,
+  script: Pick<Script, 'metadata' | 'sentences'> | null,
+  id: string
+): LibraryEpisode {
+  const cefr = script?.metadata.difficulty?.cefr;
+  return {
+    id,
+    channelId: manifest.channelId,
+    folder: id.split('/').at(-1) ?? id,
+    ...(manifest.date ? { date: manifest.date } : {}),
+    ...(manifest.category ? { category: manifest.category } : {}),
+    ...(manifest.topic ? { topic: manifest.topic } : {}),
+    ...(manifest.title ? { title: manifest.title } : {}),
+    ...(cefr ? { cefr } : {}),
+    sentenceCount: script?.sentences.length ?? 0,
+    rendered: getArtifact(manifest, 'video') !== undefined,
+    shortsCount: getArtifacts(manifest, 'short').length,
+    uploadStatus: manifest.upload?.status ?? 'none',
+    ...(manifest.upload?.youtubeId ? { youtubeId: manifest.upload.youtubeId } : {}),
+    pipelineVersion: manifest.pipelineVersion,
+    createdAt: manifest.createdAt,
+    updatedAt: manifest.updatedAt,
+  };
+}
+
+/**
+ * Index with episodes added or replaced (same id), newest first
+ */
+export function withLibraryEpisodes(
+  index: LibraryIndex | null,
+  episodes: LibraryEpisode[],
+  now = new Date()
+): LibraryIndex {
+  const ids = new Set(episodes.map((e) => e.id));
+  const kept = (index?.episodes ?? []).filter((e) => !ids.has(e.id));
+  return {
+    version: LIBRARY_INDEX_VERSION,
+    indexedAt: now.toISOString(),
+    episodes: sortLibraryEpisodes([...kept, ...episodes]),
+  };
+}
+
+/**
+ * Newest first (date, then folder), channel as tie-breaker
+ */
+export function sortLibraryEpisodes(episodes: LibraryEpisode[]): LibraryEpisode[] {
+  return [...episodes].sort(
+    (a, b) =>
+      (b.date ?? '').localeCompare(a.date ?? '') ||
+      b.folder.localeCompare(a.folder) ||
+      a.channelId.localeCompare(b.channelId)
+  );
+}
+
+/**
+ * Episodes matching every field of the filter
+ */
+export function filterLibraryEpisodes(
+  episodes: LibraryEpisode[],
+  filter: LibraryFilter
+): LibraryEpisode[] {
+  const search = filter.search?.toLowerCase();
+  return episodes.filter((e) => {
+    const date = e.date ?? e.folder.slice(0, 10);
+    return (
+      (!filter.channelId || e.channelId === filter.channelId) &&
+      (!filter.category || e.category === filter.category) &&
+      (!filter.cefr || e.cefr === filter.cefr) &&
+      (!filter.since || date >= filter.since) &&
+      (!filter.until || date <= filter.until) &&
+      (!search ||
+        [e.topic, e.title, e.folder].some((text) => text?.toLowerCase().includes(search))) &&
+      (filter.rendered === undefined || e.rendered === filter.rendered) &&
+      (filter.uploaded === undefined || isUploaded(e) === filter.uploaded)
+    );
+  });
+}
+
+/**
+ * Whether the episode left the machine (Drive 대기열 또는 YouTube 게시)
+ */
+export function isUploaded(episode: LibraryEpisode): boolean {
+  return episode.uploadStatus === 'uploaded' || episode.uploadStatus === 'published';
+}
+
+/**
+ * Episodes referred to by an id ({channel}/{folder}) or a bare folder name
+ */
+export function findLibraryEpisodes(episodes: LibraryEpisode[], ref: string): LibraryEpisode[] {
+  const normalized = ref.replace(/\\/g, '/').replace(/\/+$/, '');
+  const exact = episodes.filter((e) => e.id === normalized || normalized.endsWith(`/${e.id}`));
+  return exact.length > 0 ? exact : episodes.filter((e) => e.folder === normalized);
+}
+
+/**
+ * Fields that differ between two episodes (artifact providers / models per kind included)
+ */
+export function diffLibraryEpisodes(
+  left: { episode: LibraryEpisode; manifest?: EpisodeManifest },
+  right: { episode: LibraryEpisode; manifest?: EpisodeManifest }
+): LibraryDiffRow[] {
+  const rows: LibraryDiffRow[] = [];
+  for (const field of COMPARED_FIELDS) {
+    const a = formatValue(left.episode[field]);
+    const b = formatValue(right.episode[field]);
+    if (a !== b) rows.push({ field, left: a, right: b });
+  }
+
+  const kinds = new Set(
+    [left.manifest, right.manifest].flatMap((m) => m?.artifacts.map((a) => a.kind) ?? [])
+  );
+  for (const kind of kinds) {
+    const a = describeArtifacts(left.manifest, kind);
+    const b = describeArtifacts(right.manifest, kind);
+    if (a !== b) rows.push({ field: `artifacts.${kind}`, left: a, right: b });
+  }
+  return rows;
+}
+
+/**
+ * One line per episode for `library list`
+ */
+export function formatLibraryTable(episodes: LibraryEpisode[]): string {
+  const header = `${'episode'.padEnd(36)} ${'category'.padEnd(16)} ${'cefr'.padEnd(4)} ${'sent'.padStart(4)} ${'video'.padEnd(5)} ${'shorts'.padStart(6)} ${'upload'.padEnd(10)} topic`;
+  const lines = episodes.map(
+    (e) =>
+      `${e.id.padEnd(36)} ${(e.category ?? '-').padEnd(16)} ${(e.cefr ?? '-').padEnd(4)} ${String(e.sentenceCount).padStart(4)} ${(e.rendered ? '✓' : '-').padEnd(5)} ${String(e.shortsCount).padStart(6)} ${(e.youtubeId ?? e.uploadStatus).padEnd(10)} ${e.topic ?? ''}`
+  );
+  return [header, ...lines].join('\n');
+}
+
+/**
+ * Detail view for `library show`
+ */
+export function formatLibraryEpisode(episode: LibraryEpisode, manifest?: EpisodeManifest): string {
+  const lines = [`📚 ${episode.id}`];
+  for (const field of COMPARED_FIELDS) {
+    const value = episode[field];
+    if (value !== undefined) lines.push(`   ${field.padEnd(16)} ${formatValue(value)}`);
+  }
+  lines.push(`   ${'createdAt'.padEnd(16)} ${episode.createdAt}`);
+
+  if (manifest && manifest.artifacts.length > 0) {
+    lines.push('', '   Artifacts:');
+    for (const artifact of [...manifest.artifacts].sort((a, b) => a.path.localeCompare(b.path))) {
+      const source = [artifact.generator, artifact.provider, artifact.model]
+        .filter(Boolean)
+        .join(' · ');
+      lines.push(
+        `   ${artifact.kind.padEnd(18)} ${artifact.path} (${formatBytes(artifact.bytes)}, ${source})`
+      );
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Side-by-side diff for `library diff`
+ */
+export function formatLibraryDiff(left: string, right: string, rows: LibraryDiffRow[]): string {
+  if (rows.length === 0) return `🟰 ${left} and ${right} have no differences`;
+  const width = Math.max(...rows.map((r) => r.left.length), left.length);
+  return [
+    `${'field'.padEnd(24)} ${left.padEnd(width)}   ${right}`,
+    ...rows.map((r) => `${r.field.padEnd(24)} ${r.left.padEnd(width)}   ${r.right}`),
+  ].join('\n');
+}
+
+function describeArtifacts(manifest: EpisodeManifest | undefined, kind: string): string {
+  const artifacts = manifest?.artifacts.filter((a) => a.kind === kind) ?? [];
+  if (artifacts.length === 0) return '-';
+  const sources = [
+    ...new Set(
+      artifacts.map((a) => [a.provider, a.model].filter(Boolean).join('/') || a.generator)
+    ),
+  ];
+  return `${artifacts.length}× ${sources.join(', ')}`;
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? '-' : String(value);
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(2)} MB`
+    : `${(bytes / 1024).toFixed(1)} KB`;
+}
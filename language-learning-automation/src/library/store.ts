@@ -0,0 +1,158 @@
+/**
+ * Library index persistence ({output}/library.json)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { classifyLegacyFile } from '../episode/manifest';
+import { loadEpisodeManifest, openEpisodeManifest, resolveEpisodeFile } from '../episode/store';
+import { EPISODE_MANIFEST_FILENAME, type EpisodeManifest } from '../episode/types';
+import type { Script } from '../script/types';
+import { toLibraryEpisode, withLibraryEpisodes } from './library';
+import {
+  LIBRARY_INDEX_FILENAME,
+  libraryIndexSchema,
+  type LibraryEpisode,
+  type LibraryIndex,
+} from './types';
+
+export const DEFAULT_LIBRARY_DIR = 'output';
+
+/**
+ * Load the library index (null when missing; an invalid index is rebuilt by the caller)
+ */
+export async function loadLibraryIndex(
+  rootDir = DEFAULT_LIBRARY_DIR
+): Promise<LibraryIndex | null> {
+  const indexPath = path.join(rootDir, LIBRARY_INDEX_FILENAME);
+  let content: string;
+  try {
+    content = await fs.readFile(indexPath, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  try {
+    const result = libraryIndexSchema.safeParse(JSON.parse(content));
+    if (result.success) return result.data;
+  } catch {
+    // JSON 파싱 실패 - 아래에서 경고
+  }
+  console.warn(`   ⚠️ Ignoring invalid library index: ${indexPath}`);
+  return null;
+}
+
+/**
+ * Save the library index
+ */
+export async function saveLibraryIndex(rootDir: string, index: LibraryIndex): Promise<void> {
+  await fs.mkdir(rootDir, { recursive: true });
+  await fs.writeFile(
+    path.join(rootDir, LIBRARY_INDEX_FILENAME),
+    JSON.stringify(index, null, 2),
+    'utf-8'
+  );
+}
+
+/**
+ * Run folders under the output root ({channel}/{folder} with episode.json or a script)
+ */
+export async function findEpisodeDirs(rootDir = DEFAULT_LIBRARY_DIR): Promise<string[]> {
+  const dirs: string[] = [];
+  for (const channel of await listDirs(rootDir)) {
+    for (const folder of await listDirs(path.join(rootDir, channel))) {
+      const dir = path.join(rootDir, channel, folder);
+      const files = await fs.readdir(dir);
+      if (
+        files.includes(EPISODE_MANIFEST_FILENAME) ||
+        files.some((f) => classifyLegacyFile(f) === 'script')
+      ) {
+        dirs.push(dir);
+      }
+    }
+  }
+  return dirs;
+}
+
+/**
+ * Library entry of one run folder
+ */
+export async function readLibraryEpisode(
+  outputDir: string
+): Promise<{ episode: LibraryEpisode; manifest: EpisodeManifest }> {
+  const manifest = await openEpisodeManifest(outputDir);
+  const scriptPath = resolveEpisodeFile(outputDir, manifest, 'script');
+  let script: Script | null = null;
+  if (scriptPath) {
+    try {
+      script = JSON.parse(await fs.readFile(scriptPath, 'utf-8'));
+    } catch {
+      console.warn(`   ⚠️ Unreadable script: ${scriptPath}`);
+    }
+  }
+  const id = `${path.basename(path.dirname(path.resolve(outputDir)))}/${path.basename(outputDir)}`;
+  return { episode: toLibraryEpisode(manifest, script, id), manifest };
+}
+
+/**
+ * Rescan the output root (episode.json 이 바뀌지 않은 폴더는 기존 항목 재사용)
+ */
+export async function refreshLibraryIndex(rootDir = DEFAULT_LIBRARY_DIR): Promise<LibraryIndex> {
+  const previous = await loadLibraryIndex(rootDir);
+  const known = new Map(previous?.episodes.map((e) => [e.id, e]));
+  const episodes: LibraryEpisode[] = [];
+  let read = 0;
+
+  for (const dir of await findEpisodeDirs(rootDir)) {
+    try {
+      const manifest = await loadEpisodeManifest(dir);
+      const cached = manifest && known.get(path.relative(rootDir, dir).split(path.sep).join('/'));
+      if (cached && manifest && cached.updatedAt === manifest.updatedAt) {
+        episodes.push(cached);
+        continue;
+      }
+      episodes.push((await readLibraryEpisode(dir)).episode);
+      read++;
+    } catch (error) {
+      console.warn(`   ⚠️ Skipping ${dir}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // 사라진 폴더는 목록에서 제거
+  const index = withLibraryEpisodes(null, episodes);
+  await saveLibraryIndex(rootDir, index);
+  console.log(`📚 Indexed ${episodes.length} episodes (${read} updated) in ${rootDir}`);
+  return index;
+}
+
+/**
+ * Library index, built on first use
+ */
+export async function getLibraryIndex(rootDir = DEFAULT_LIBRARY_DIR): Promise<LibraryIndex> {
+  return (await loadLibraryIndex(rootDir)) ?? refreshLibraryIndex(rootDir);
+}
+
+/**
+ * Update one run folder in the index (pipeline / prepare-upload 이후 호출)
+ * @param rootDir - 기본: output/{channelId}/{folder} 의 output
+ */
+export async function indexLibraryEpisode(
+  outputDir: string,
+  rootDir = path.dirname(path.dirname(path.resolve(outputDir)))
+): Promise<LibraryEpisode> {
+  const { episode } = await readLibraryEpisode(outputDir);
+  await saveLibraryIndex(rootDir, withLibraryEpisodes(await loadLibraryIndex(rootDir), [episode]));
+  return episode;
+}
+
+async function listDirs(dir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries
+      .filter((e) => e.isDirectory() && !e.name.startsWith('.'))
+      .map((e) => e.name)
+      .sort();
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { cefrLevelSchema } from '../difficulty/types';
+import { episodeUploadStatuses } from '../episode/types';
+import { categorySchema } from '../script/types';
+
+export const LIBRARY_INDEX_FILENAME = 'library.json';
+export const LIBRARY_INDEX_VERSION = 1;
+
+// One episode (run folder) in the library
+export const libraryEpisodeSchema = z.object({
+  /** {channel}/{folder} (output 기준 경로) */
+  id: z.string().min(1),
+  channelId: z.string().min(1),
+  folder: z.string().min(1),
+  date: z.string().optional(),
+  category: categorySchema.optional(),
+  topic: z.string().optional(),
+  title: z.string().optional(),
+  /** script.metadata.difficulty 측정값 (없으면 생략) */
+  cefr: cefrLevelSchema.optional(),
+  sentenceCount: z.number().int().nonnegative(),
+  rendered: z.boolean(),
+  shortsCount: z.number().int().nonnegative(),
+  uploadStatus: z.enum(['none', ...episodeUploadStatuses]),
+  youtubeId: z.string().optional(),
+  pipelineVersion: z.string().min(1),
+  createdAt: z.string().min(1),
+  /** episode.json updatedAt (바뀌지 않았으면 다시 읽지 않음) */
+  updatedAt: z.string().min(1),
+});
+
+export type LibraryEpisode = z.infer<typeof libraryEpisodeSchema>;
+
+// Library index file ({output}/library.json) schema
+export const libraryIndexSchema = z.object({
+  version: z.literal(LIBRARY_INDEX_VERSION),
+  indexedAt: z.string().min(1),
+  episodes: z.array(libraryEpisodeSchema),
+});
+
+export type LibraryIndex = z.infer<typeof libraryIndexSchema>;
+
+/**
+ * List filter (every set field must match)
+ */
+export interface LibraryFilter {
+  channelId?: string;
+  category?: LibraryEpisode['category'];
+  cefr?: LibraryEpisode['cefr'];
+  /** YYYY-MM-DD, inclusive */
+  since?: string;
+  until?: string;
+  /** Case-insensitive match on topic / title / folder */
+  search?: string;
+  rendered?: boolean;
+  /** Uploaded = sent to Drive or published */
+  uploaded?: boolean;
+}
+
+/**
+ * One differing field between two episodes
+ */
+export interface LibraryDiffRow {
+  field: string;
+  left: string;
+  right: string;
+}
@@ -0,0 +1,57 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { withApiKey } from '../config/api-keys';
+import { GEMINI_MODELS } from '../config/gemini';
+import { trackUsage } from '../usage/tracker';
+import type { TextGenerationRequest, TextGenerationResult, TextProvider } from './types';
+
+/**
+ * Gemini text provider
+ */
+export class GeminiTextProvider implements TextProvider {
+  readonly name = 'gemini' as const;
+  readonly model: string;
+
+  constructor(model: string = GEMINI_MODELS.text) {
+    this.model = model;
+  }
+
+  async generateText(request: TextGenerationRequest): Promise<TextGenerationResult> {
+    const contents = [
+      ...(request.history ?? []).map((message) => ({
+        role: message.role,
+        parts: [{ text: message.text }],
+      })),
+      { role: 'user', parts: [{ text: request.prompt }] },
+    ];
+
+    const result = await trackUsage(
+      { service: 'gemini_text', model: this.model },
+      () =>
+        withApiKey('gemini_text', (apiKey) =>
+          new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: this.model }).generateContent({
+            contents,
+            generationConfig: {
+              temperature: request.temperature,
+              topP: request.topP,
+              maxOutputTokens: request.maxOutputTokens,
+              responseMimeType: request.responseMimeType,
+            },
+          })
+        ),
+      ({ response }) => ({
+        inputTokens: response.usageMetadata?.promptTokenCount,
+        outputTokens: response.usageMetadata?.candidatesTokenCount,
+      })
+    );
+
+    const usage = result.response.usageMetadata;
+    return {
+      text: result.response.text(),
+      provider: this.name,
+      model: this.model,
+      usage: usage
+        ? { inputTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount }
+        : undefined,
+    };
+  }
+}
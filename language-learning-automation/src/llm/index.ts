@@ -0,0 +1,5 @@
+export * from './types';
+export * from './gemini';
+export * from './openai';
+export * from './local';
+export * from './provider';
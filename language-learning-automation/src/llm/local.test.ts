@@ -0,0 +1,118 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalTextProvider, parseFixtureDate } from './local';
+import { createFixtureKey, type TextGenerationRequest, type TextProvider } from './types';
+import { selectTimlyTopic } from '../script/topic-selector';
+
+// Fake API provider that answers with a fixed text and counts calls
+function createRecordingSource(answer: (request: TextGenerationRequest) => string) {
+  const requests: TextGenerationRequest[] = [];
+  const provider: TextProvider = {
+    name: 'gemini',
+    model: 'fake-model',
+    async generateText(request) {
+      requests.push(request);
+      return { text: answer(request), provider: 'gemini', model: 'fake-model' };
+    },
+  };
+  return { provider, requests };
+}
+
+describe('LocalTextProvider', () => {
+  let fixturesDir: string;
+
+  beforeEach(async () => {
+    fixturesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-fixtures-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  it('should return the recorded response for a request', async () => {
+    const request = { prompt: 'Pick a topic' };
+    await fs.writeFile(
+      path.join(fixturesDir, `${createFixtureKey(request)}.json`),
+      JSON.stringify({ key: createFixtureKey(request), prompt: request.prompt, text: 'Snow day' })
+    );
+
+    const provider = new LocalTextProvider({ fixturesDir });
+    const result = await provider.generateText({ ...request, temperature: 0.9 });
+
+    expect(result).toEqual({ text: 'Snow day', provider: 'local', model: 'fixtures' });
+  });
+
+  it('should fail with the fixture key when a response is missing', async () => {
+    const provider = new LocalTextProvider({ fixturesDir });
+    const key = createFixtureKey({ prompt: 'Unknown prompt' });
+
+    await expect(provider.generateText({ prompt: 'Unknown prompt' })).rejects.toThrow(
+      `No LLM fixture for request ${key}`
+    );
+  });
+
+  it('should record a missing response once and replay it offline', async () => {
+    const source = createRecordingSource(() => 'Recorded answer');
+    const recorder = new LocalTextProvider({ fixturesDir, recordFrom: source.provider });
+
+    const recorded = await recorder.generateText({ prompt: 'Hello' });
+    expect(recorded.text).toBe('Recorded answer');
+    expect(source.requests).toHaveLength(1);
+
+    const fixture = JSON.parse(
+      await fs.readFile(
+        path.join(fixturesDir, `${createFixtureKey({ prompt: 'Hello' })}.json`),
+        'utf-8'
+      )
+    );
+    expect(fixture).toMatchObject({
+      prompt: 'Hello',
+      text: 'Recorded answer',
+      recordedFrom: 'gemini:fake-model',
+    });
+
+    // 녹화된 응답은 API 없이 재생
+    await recorder.generateText({ prompt: 'Hello' });
+    expect(source.requests).toHaveLength(1);
+    const offline = new LocalTextProvider({ fixturesDir });
+    expect((await offline.generateText({ prompt: 'Hello' })).text).toBe('Recorded answer');
+  });
+
+  it('should replay a recorded topic selection on a later run', async () => {
+    const source = createRecordingSource((request) =>
+      request.prompt.includes('# 후보')
+        ? '겨울 바다에서 길을 잃었어요'
+        : '겨울 바다에서 길을 잃었어요\n첫눈 오는 날의 약속'
+    );
+    const today = new Date('2026-01-15T00:00:00');
+
+    const recorder = new LocalTextProvider({ fixturesDir, recordFrom: source.provider, today });
+    const recorded = await selectTimlyTopic('story', 'English', 'Korean', 2, recorder);
+
+    const offline = new LocalTextProvider({ fixturesDir, today });
+    const replayed = await selectTimlyTopic('story', 'English', 'Korean', 2, offline);
+
+    expect(replayed).toBe(recorded);
+    expect(source.requests).toHaveLength(2);
+  });
+});
+
+describe('parseFixtureDate', () => {
+  it('should parse YYYY-MM-DD as a local date', () => {
+    const date = parseFixtureDate('2026-01-15');
+    expect(date?.getFullYear()).toBe(2026);
+    expect(date?.getMonth()).toBe(0);
+    expect(date?.getDate()).toBe(15);
+  });
+
+  it('should leave the date unset without a value', () => {
+    expect(parseFixtureDate(undefined)).toBeUndefined();
+  });
+
+  it('should reject other formats', () => {
+    expect(() => parseFixtureDate('15/01/2026')).toThrow('Invalid LLM_FIXTURE_DATE');
+  });
+});
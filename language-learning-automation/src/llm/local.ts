@@ -0,0 +1,90 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  createFixtureKey,
+  type TextGenerationRequest,
+  type TextGenerationResult,
+  type TextProvider,
+} from './types';
+
+export const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'llm');
+
+/**
+ * Parse LLM_FIXTURE_DATE (YYYY-MM-DD)
+ */
+export function parseFixtureDate(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid LLM_FIXTURE_DATE: ${value} (expected YYYY-MM-DD)`);
+  }
+  return date;
+}
+
+// Recorded response file ({fixturesDir}/{key}.json)
+interface TextFixture {
+  key: string;
+  prompt: string;
+  text: string;
+  recordedFrom?: string;
+  recordedAt?: string;
+}
+
+export interface LocalTextProviderOptions {
+  /** Directory holding recorded responses */
+  fixturesDir?: string;
+  /** Provider to call (and record) when a fixture is missing */
+  recordFrom?: TextProvider;
+  /** Date used by date-dependent prompts, so recorded fixtures keep matching */
+  today?: Date;
+}
+
+/**
+ * Deterministic, fixture-backed text provider for offline runs and tests
+ * The same request always returns the same recorded response
+ */
+export class LocalTextProvider implements TextProvider {
+  readonly name = 'local' as const;
+  readonly model = 'fixtures';
+  readonly today?: Date;
+  private fixturesDir: string;
+  private recordFrom?: TextProvider;
+
+  constructor(options: LocalTextProviderOptions = {}) {
+    this.fixturesDir = options.fixturesDir ?? DEFAULT_FIXTURES_DIR;
+    this.recordFrom = options.recordFrom;
+    this.today = options.today;
+  }
+
+  async generateText(request: TextGenerationRequest): Promise<TextGenerationResult> {
+    const key = createFixtureKey(request);
+    const fixturePath = path.join(this.fixturesDir, `${key}.json`);
+
+    try {
+      const fixture = JSON.parse(await fs.readFile(fixturePath, 'utf-8')) as TextFixture;
+      return { text: fixture.text, provider: this.name, model: this.model };
+    } catch {
+      // Fixture missing - record it if possible
+    }
+
+    if (!this.recordFrom) {
+      throw new Error(
+        `No LLM fixture for request ${key} in ${this.fixturesDir}. ` +
+          'Record it once with LLM_RECORD_FROM=gemini (or openai).'
+      );
+    }
+
+    const result = await this.recordFrom.generateText(request);
+    const fixture: TextFixture = {
+      key,
+      prompt: request.prompt,
+      text: result.text,
+      recordedFrom: `${result.provider}:${result.model}`,
+      recordedAt: new Date().toISOString(),
+    };
+    await fs.mkdir(this.fixturesDir, { recursive: true });
+    await fs.writeFile(fixturePath, JSON.stringify(fixture, null, 2), 'utf-8');
+
+    return result;
+  }
+}
@@ -0,0 +1,58 @@
+import OpenAI from 'openai';
+import { withApiKey } from '../config/api-keys';
+import { trackUsage } from '../usage/tracker';
+import type { TextGenerationRequest, TextGenerationResult, TextProvider } from './types';
+
+// OpenAI text model
+export const OPENAI_TEXT_MODEL = 'gpt-4o';
+
+/**
+ * OpenAI text provider (Chat Completions)
+ */
+export class OpenAITextProvider implements TextProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+
+  constructor(model: string = OPENAI_TEXT_MODEL) {
+    this.model = model;
+  }
+
+  async generateText(request: TextGenerationRequest): Promise<TextGenerationResult> {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      ...(request.history ?? []).map((message) => ({
+        role: message.role === 'model' ? ('assistant' as const) : ('user' as const),
+        content: message.text,
+      })),
+      { role: 'user', content: request.prompt },
+    ];
+
+    const response = await trackUsage(
+      { service: 'openai', model: this.model },
+      () =>
+        withApiKey('openai', (apiKey) =>
+          new OpenAI({ apiKey }).chat.completions.create({
+            model: this.model,
+            messages,
+            temperature: request.temperature,
+            top_p: request.topP,
+            max_tokens: request.maxOutputTokens,
+            response_format:
+              request.responseMimeType === 'application/json' ? { type: 'json_object' } : undefined,
+          })
+        ),
+      ({ usage }) => ({ inputTokens: usage?.prompt_tokens, outputTokens: usage?.completion_tokens })
+    );
+
+    return {
+      text: response.choices[0]?.message?.content ?? '',
+      provider: this.name,
+      model: this.model,
+      usage: response.usage
+        ? {
+            inputTokens: response.usage.prompt_tokens,
+            outputTokens: response.usage.completion_tokens,
+          }
+        : undefined,
+    };
+  }
+}
@@ -0,0 +1,46 @@
+import type { LLM } from '../config/types';
+import { GeminiTextProvider } from './gemini';
+import { OpenAITextProvider } from './openai';
+import { LocalTextProvider, parseFixtureDate } from './local';
+import { resolveLLMProviderName, type LLMProviderName, type TextProvider } from './types';
+
+/**
+ * Create a provider by name
+ */
+export function createTextProvider(
+  name: LLMProviderName,
+  options: { model?: string; fixturesDir?: string } = {}
+): TextProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAITextProvider(options.model);
+
+    case 'local': {
+      const recordFromName = process.env.LLM_RECORD_FROM;
+      const recordFrom =
+        recordFromName && recordFromName !== 'local'
+          ? createTextProvider(resolveLLMProviderName(recordFromName, recordFromName))
+          : undefined;
+      return new LocalTextProvider({
+        fixturesDir: process.env.LLM_FIXTURES_DIR || options.fixturesDir,
+        recordFrom,
+        today: parseFixtureDate(process.env.LLM_FIXTURE_DATE),
+      });
+    }
+
+    case 'gemini':
+    default:
+      return new GeminiTextProvider(options.model);
+  }
+}
+
+/**
+ * Get the text provider for a channel
+ * Selection order: LLM_PROVIDER env → channel config `llm.provider` → gemini
+ */
+export function getTextProvider(llmConfig?: Partial<LLM>): TextProvider {
+  const name = resolveLLMProviderName(llmConfig?.provider);
+  // A model configured for another provider would not make sense after an env override
+  const model = name === llmConfig?.provider ? llmConfig?.model : undefined;
+  return createTextProvider(name, { model, fixturesDir: llmConfig?.fixturesDir });
+}
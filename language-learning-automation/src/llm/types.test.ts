@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { resolveLLMProviderName, createFixtureKey } from './types';
+
+describe('LLM Types', () => {
+  describe('resolveLLMProviderName', () => {
+    it('should default to gemini', () => {
+      expect(resolveLLMProviderName(undefined, undefined)).toBe('gemini');
+    });
+
+    it('should use the channel config provider', () => {
+      expect(resolveLLMProviderName('openai', undefined)).toBe('openai');
+    });
+
+    it('should let the env var override the channel config', () => {
+      expect(resolveLLMProviderName('openai', 'local')).toBe('local');
+    });
+
+    it('should reject unknown providers', () => {
+      expect(() => resolveLLMProviderName('claude', undefined)).toThrow('Unknown LLM provider');
+    });
+  });
+
+  describe('createFixtureKey', () => {
+    it('should be deterministic for the same request', () => {
+      const request = { prompt: 'Pick a topic', temperature: 0.8 };
+      expect(createFixtureKey(request)).toBe(createFixtureKey({ ...request }));
+    });
+
+    it('should ignore sampling parameters', () => {
+      expect(createFixtureKey({ prompt: 'Hello', temperature: 0.2 })).toBe(
+        createFixtureKey({ prompt: 'Hello', temperature: 0.9 })
+      );
+    });
+
+    it('should differ when prompt or history differ', () => {
+      const base = createFixtureKey({ prompt: 'Hello' });
+      expect(createFixtureKey({ prompt: 'Hello!' })).not.toBe(base);
+      expect(
+        createFixtureKey({ prompt: 'Hello', history: [{ role: 'user', text: 'System' }] })
+      ).not.toBe(base);
+    });
+  });
+});
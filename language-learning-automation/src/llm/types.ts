@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { createHash } from 'crypto';
+
+// Text generation providers
+export const llmProviderNames = ['gemini', 'openai', 'local'] as const;
+export type LLMProviderName = (typeof llmProviderNames)[number];
+
+export const llmProviderNameSchema = z.enum(llmProviderNames);
+
+// Previous conversation turn (for multi-turn prompts)
+export interface TextMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// Text generation request
+export interface TextGenerationRequest {
+  prompt: string;
+  /** Conversation turns sent before the prompt */
+  history?: TextMessage[];
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  /** Ask the provider for raw JSON output */
+  responseMimeType?: 'text/plain' | 'application/json';
+}
+
+// Token usage reported by the provider
+export interface TextUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+// Text generation result
+export interface TextGenerationResult {
+  text: string;
+  provider: LLMProviderName;
+  model: string;
+  usage?: TextUsage;
+}
+
+// Text provider interface shared by every LLM backend
+export interface TextProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  /** Fixed "today" for date-dependent prompts (local fixtures replay) */
+  readonly today?: Date;
+  generateText(request: TextGenerationRequest): Promise<TextGenerationResult>;
+}
+
+/**
+ * Resolve which provider to use
+ * LLM_PROVIDER env var wins over the channel config so offline runs can force `local`
+ */
+export function resolveLLMProviderName(
+  configured?: string,
+  envValue: string | undefined = process.env.LLM_PROVIDER
+): LLMProviderName {
+  const candidate = envValue || configured || 'gemini';
+  const result = llmProviderNameSchema.safeParse(candidate);
+  if (!result.success) {
+    throw new Error(
+      `Unknown LLM provider: ${candidate}. Available providers: ${llmProviderNames.join(', ')}`
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Deterministic fixture key for a request (same prompt → same fixture)
+ */
+export function createFixtureKey(request: TextGenerationRequest): string {
+  const payload = JSON.stringify({
+    history: request.history ?? [],
+    prompt: request.prompt,
+    responseMimeType: request.responseMimeType ?? 'text/plain',
+  });
+  return createHash('sha256').update(payload).digest('hex').slice(0, 16);
+}
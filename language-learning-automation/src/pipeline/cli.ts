@@ -1,9 +1,19 @@
 #!/usr/bin/env node
 
 import 'dotenv/config';
-import { runPipeline, runAllPipelines } from './index';
+import {
+  runPipeline,
+  runAllPipelines,
+  resumePipeline,
+  planPipeline,
+  planAllPipelines,
+} from './index';
+import { formatRunPlan } from './plan';
 import { showTopicHistory } from '../script/topic-selector';
+import { audioCache, formatAudioCacheStats } from '../tts/cache';
+import { showUsageReport } from '../usage/report';
 import type { Category } from '../script/types';
+import type { RenderSchedulerOptions } from '../render/types';
 
 const VALID_CATEGORIES: Category[] = [
   'story',
@@ -22,12 +32,29 @@ Language Learning Video Automation Pipeline
 Usage:
   npx tsx src/pipeline/cli.ts --channel <channelId> [options]
   npx tsx src/pipeline/cli.ts --all [options]
-  npx tsx src/pipeline/cli.ts --history
+  npx tsx src/pipeline/cli.ts --resume <folder> [options]
+  npx tsx src/pipeline/cli.ts (--channel <channelId> | --all) --plan [--json] [options]
+  npx tsx src/pipeline/cli.ts --history [--channel <channelId>]
+  npx tsx src/pipeline/cli.ts --cache-stats
+  npx tsx src/pipeline/cli.ts --cache-prune [--max-age <days>] [--max-size <MB>]
+  npx tsx src/pipeline/cli.ts --usage [--since <YYYY-MM-DD>] [--output <dir>]
 
 Options:
   --channel <id>     Run pipeline for a specific channel
   --all              Run pipeline for all available channels
-  --history          Show recent topic history
+  --resume <folder>  Resume a previous run from its output folder
+                     (skips stages whose outputs exist and are valid)
+  --plan             Preview the run (category, missing assets, TTS calls, expected
+                     durations, Shorts) without calling any API or writing files
+  --json             With --plan: print the plan as JSON
+  --history          Show recent topic history (per channel)
+  --cache-stats      Show TTS audio cache statistics
+  --cache-prune      Remove TTS cache entries (least recently used first)
+  --max-age <days>   With --cache-prune: remove entries unused for N days
+  --max-size <MB>    With --cache-prune: shrink the cache below N MB
+  --usage            Report API usage and estimated cost per channel, day and provider
+                     (reads usage.jsonl files under output/ or --output)
+  --since <date>     With --usage: only count calls on or after this date
   --category <cat>   Specify content category (default: based on day of week)
                      Valid: ${VALID_CATEGORIES.join(', ')}
   --topic <topic>    Specify a topic for script generation
@@ -38,18 +65,52 @@ Options:
   --output <dir>     Custom output directory
   --render           Auto-render video after pipeline completes
   --shorts           Render individual Shorts for each sentence
+  --shorts-workers <n>
+                     Shorts rendered in parallel (default: 2)
+  --render-concurrency <n|%>
+                     Remotion frame concurrency per Short (default: CPU cores / workers)
+  --render-retries <n>
+                     Extra attempts for a failed Short (default: 1)
   --help             Show this help message
 
+Environment:
+  LLM_PROVIDER       Text generation provider: gemini, openai, local
+                     (overrides the channel's llm.provider)
+  LLM_FIXTURES_DIR   Recorded responses for the local provider (default: fixtures/llm)
+  LLM_RECORD_FROM    Record missing local fixtures from gemini or openai
+  LLM_FIXTURE_DATE   Fixed date (YYYY-MM-DD) for the local provider's date-based prompts
+                     (day-of-week category, topic month), so recordings replay later
+  EMBEDDING_PROVIDER Topic de-duplication embeddings: local, openai, gemini
+                     (overrides the channel's topics.embeddingProvider; default: local)
+  TTS_CACHE_DIR      TTS audio cache directory (default: output/.tts-cache)
+  TTS_CACHE=off      Disable the TTS audio cache
+  USAGE_PRICES_FILE  Price table overrides for cost estimates (default: usage-prices.json)
+
 Examples:
   npx tsx src/pipeline/cli.ts --channel english
   npx tsx src/pipeline/cli.ts --channel english --render
   npx tsx src/pipeline/cli.ts --channel english --category conversation
   npx tsx src/pipeline/cli.ts --channel english --topic "겨울 코트 쇼핑"
   npx tsx src/pipeline/cli.ts --all --mock-tts
+  npx tsx src/pipeline/cli.ts --resume output/english/2026-01-08_153045 --render
+  npx tsx src/pipeline/cli.ts --all --render --plan
+  npx tsx src/pipeline/cli.ts --resume output/english/2026-01-08_153045 --shorts --shorts-workers 4
   npx tsx src/pipeline/cli.ts --history
+  npx tsx src/pipeline/cli.ts --cache-prune --max-age 30
+  npx tsx src/pipeline/cli.ts --usage --since 2026-01-01
 `);
 }
 
+// Integer option value (≥ min), exits on invalid input
+function parsePositiveInt(option: string, value: string | undefined, min = 1): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    console.error(`Error: ${option} must be an integer >= ${min}`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
 async function main() {
   const args = process.argv.slice(2);
 
@@ -60,13 +121,62 @@ async function main() {
 
   // Check for history command
   if (args.includes('--history')) {
-    await showTopicHistory();
+    const channelIndex = args.indexOf('--channel');
+    await showTopicHistory(channelIndex >= 0 ? args[channelIndex + 1] : undefined);
+    process.exit(0);
+  }
+
+  // TTS cache commands
+  if (args.includes('--cache-stats')) {
+    console.log(`🗄️ TTS cache: ${formatAudioCacheStats(await audioCache.getStats())}`);
+    process.exit(0);
+  }
+
+  if (args.includes('--cache-prune')) {
+    const maxAgeIndex = args.indexOf('--max-age');
+    const maxSizeIndex = args.indexOf('--max-size');
+    const maxAgeDays = maxAgeIndex >= 0 ? Number(args[maxAgeIndex + 1]) : undefined;
+    const maxSizeMB = maxSizeIndex >= 0 ? Number(args[maxSizeIndex + 1]) : undefined;
+
+    if (maxAgeDays === undefined && maxSizeMB === undefined) {
+      console.error('Error: --cache-prune requires --max-age <days> and/or --max-size <MB>');
+      process.exit(1);
+    }
+    if (
+      (maxAgeDays !== undefined && !(maxAgeDays >= 0)) ||
+      (maxSizeMB !== undefined && !(maxSizeMB >= 0))
+    ) {
+      console.error('Error: --max-age and --max-size must be non-negative numbers');
+      process.exit(1);
+    }
+
+    const removed = await audioCache.prune({ maxAgeDays, maxSizeMB });
+    console.log(`🧹 Removed ${removed} TTS cache entries`);
+    console.log(`🗄️ TTS cache: ${formatAudioCacheStats(await audioCache.getStats())}`);
+    process.exit(0);
+  }
+
+  // Usage report
+  if (args.includes('--usage')) {
+    const sinceIndex = args.indexOf('--since');
+    const outputIndex = args.indexOf('--output');
+    const since = sinceIndex >= 0 ? args[sinceIndex + 1] : undefined;
+    if (since !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(since)) {
+      console.error('Error: --since must be a date (YYYY-MM-DD)');
+      process.exit(1);
+    }
+
+    await showUsageReport({
+      rootDir: outputIndex >= 0 ? args[outputIndex + 1] : undefined,
+      since,
+    });
     process.exit(0);
   }
 
   // Parse arguments
   let channelId: string | undefined;
   let runAll = false;
+  let resumeDir: string | undefined;
   let category: Category | undefined;
   let topic: string | undefined;
   let useMockTTS = false;
@@ -75,6 +185,9 @@ async function main() {
   let outputDir: string | undefined;
   let autoRender = false;
   let renderShorts = false;
+  const shortsRender: RenderSchedulerOptions = {};
+  let plan = false;
+  let json = false;
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
@@ -86,6 +199,9 @@ async function main() {
       case '--all':
         runAll = true;
         break;
+      case '--resume':
+        resumeDir = args[++i];
+        break;
       case '--category': {
         const cat = args[++i] as Category;
         if (!VALID_CATEGORIES.includes(cat)) {
@@ -118,6 +234,23 @@ async function main() {
       case '--shorts':
         renderShorts = true;
         break;
+      case '--shorts-workers':
+        shortsRender.workers = parsePositiveInt(arg, args[++i]);
+        break;
+      case '--render-concurrency': {
+        const value = args[++i];
+        shortsRender.concurrency = value?.endsWith('%') ? value : parsePositiveInt(arg, value);
+        break;
+      }
+      case '--render-retries':
+        shortsRender.retries = parsePositiveInt(arg, args[++i], 0);
+        break;
+      case '--plan':
+        plan = true;
+        break;
+      case '--json':
+        json = true;
+        break;
       default:
         if (arg.startsWith('--')) {
           console.error(`Unknown option: ${arg}`);
@@ -128,17 +261,65 @@ async function main() {
   }
 
   // Validate arguments
-  if (!runAll && !channelId) {
-    console.error('Error: Must specify either --channel <id> or --all');
+  if (!runAll && !channelId && !resumeDir) {
+    console.error('Error: Must specify --channel <id>, --all or --resume <folder>');
     printUsage();
     process.exit(1);
   }
 
+  // Dry run: print the plan and exit without side effects
+  if (plan) {
+    if (resumeDir) {
+      console.error('Error: --plan cannot be combined with --resume');
+      process.exit(1);
+    }
+
+    const planOptions = {
+      category,
+      topic,
+      useMockTTS,
+      useSampleScript,
+      skipIntro,
+      autoRender,
+      renderShorts,
+    };
+    try {
+      const plans = channelId
+        ? [await planPipeline({ ...planOptions, channelId })]
+        : await planAllPipelines(planOptions);
+      console.log(
+        json
+          ? JSON.stringify(channelId ? plans[0] : plans, null, 2)
+          : plans.map(formatRunPlan).join('\n\n')
+      );
+    } catch (error) {
+      console.error(`❌ ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+    process.exit(0);
+  }
+
   // Debug: Show parsed arguments
   console.log(`🔍 DEBUG CLI: channel=${channelId}, category=${category}, topic="${topic}"`);
 
   try {
-    if (runAll) {
+    if (resumeDir) {
+      const result = await resumePipeline(resumeDir, {
+        channelId,
+        category,
+        topic,
+        useMockTTS,
+        useSampleScript,
+        skipIntro,
+        autoRender,
+        renderShorts,
+        shortsRender,
+      });
+
+      if (!result.success) {
+        process.exit(1);
+      }
+    } else if (runAll) {
       const results = await runAllPipelines({
         category,
         topic,
@@ -148,6 +329,7 @@ async function main() {
         outputDir,
         autoRender,
         renderShorts,
+        shortsRender,
       });
 
       const failed = results.filter((r) => !r.success);
@@ -165,6 +347,7 @@ async function main() {
         outputDir,
         autoRender,
         renderShorts,
+        shortsRender,
       });
 
       if (!result.success) {
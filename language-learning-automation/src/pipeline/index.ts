@@ -1,16 +1,51 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-import { loadConfig, listChannels } from '../config/loader';
-import { generateScript, saveScript, createSampleScript } from '../script/generator';
-import { generateAllAudio, createMockAudioFiles } from '../tts/generator';
+import { loadAnyConfig, loadConfig, listChannels } from '../config/loader';
+import { generateScript, saveScript, createSampleScript, repairScript } from '../script/generator';
+import { formatScriptDiagnostics } from '../script/lint';
+import { generateAllAudio, createMockAudioFiles, getChannelSpeedVariants } from '../tts/generator';
+import { audioCache, formatAudioCacheStats } from '../tts/cache';
+import { getTTSCapabilities } from '../tts/registry';
 import { IntroGenerator } from '../intro/generator';
 import { generateBackgroundImage, generateThumbnail } from '../image/generator';
-import { getGeminiApiKey, GEMINI_MODELS } from '../config/gemini';
+import { GEMINI_MODELS, getGeminiApiKey } from '../config/gemini';
+import { setUsageRunDir, withUsageContext } from '../usage/tracker';
+import { getTextProvider } from '../llm/provider';
+import { runInterviewPipeline } from '../veo/interview-pipeline';
+import {
+  createEpisodeManifest,
+  getPipelineVersion,
+  openEpisodeManifest,
+  recordEpisodeArtifacts,
+  recordEpisodeScript,
+  saveEpisodeManifest,
+} from '../episode';
+import { indexLibraryEpisode } from '../library/store';
+import {
+  formatShortsRenderSummary,
+  getFailedShorts,
+  loadEpisodeAssets,
+  prepareQuizBgm,
+  renderEpisodeQuizShorts,
+  renderEpisodeVideo,
+  type RenderSchedulerOptions,
+  type ShortRenderResult,
+} from '../render';
+import { formatLocaleTemplate, getLanguageName, getLocalePack } from '../i18n';
 import type { IntroAssetConfig } from '../intro/types';
-import type { ChannelConfig } from '../config/types';
+import type { AnyChannelConfig, ChannelConfig, ChannelContentType } from '../config/types';
 import type { Script } from '../script/types';
 import type { AudioFile } from '../tts/types';
 import type { Category } from '../script/types';
+import {
+  loadRunState,
+  recordStage,
+  loadCheckpointedScript,
+  loadCheckpointedAudio,
+  stageOutputsExist,
+} from './run-state';
+import { createRunState, isStageDone, type PipelineStage, type RunState } from './types';
+import { REQUIRED_CHANNEL_ASSETS, buildListeningPlan, buildVeoPlan, type RunPlan } from './plan';
 
 export interface PipelineOptions {
   channelId: string;
@@ -19,6 +54,8 @@ export interface PipelineOptions {
   useMockTTS?: boolean;
   useSampleScript?: boolean;
   outputDir?: string;
+  /** Resume a previous run from its output folder (skips completed stages) */
+  resumeDir?: string;
   /** Skip intro asset generation */
   skipIntro?: boolean;
   /** Skip background image generation */
@@ -27,6 +64,8 @@ export interface PipelineOptions {
   autoRender?: boolean;
   /** Render individual Shorts for each sentence */
   renderShorts?: boolean;
+  /** Shorts render scheduler (workers / Remotion concurrency / retries) */
+  shortsRender?: RenderSchedulerOptions;
   /** Number of topic candidates to generate (default: 3) */
   topicCandidates?: number;
   /** Number of script candidates to generate (default: 3) */
@@ -42,6 +81,8 @@ export interface PipelineResult {
   outputDir: string;
   /** Generated background image path */
   backgroundImagePath?: string;
+  /** Stage that failed (when success is false) */
+  failedStage?: PipelineStage;
   error?: string;
 }
 
@@ -49,62 +90,181 @@ const DEFAULT_OUTPUT_DIR = path.join(process.cwd(), 'output');
 
 /**
  * Run the full pipeline for a single channel
+ *
+ * Every stage is checkpointed to run-state.json in the output folder.
+ * With `resumeDir`, stages whose outputs still exist and validate are skipped.
  */
 export async function runPipeline(options: PipelineOptions): Promise<PipelineResult> {
+  // Every API call of the run is recorded to {outputDir}/usage.jsonl
+  return withUsageContext({ channelId: options.channelId }, () => runPipelineStages(options));
+}
+
+async function runPipelineStages(options: PipelineOptions): Promise<PipelineResult> {
   const {
     channelId,
     category,
     topic,
+    resumeDir,
     useMockTTS = false,
     useSampleScript = false,
     skipIntro = false,
     skipImage = false,
     autoRender = false,
     renderShorts = false,
+    shortsRender = {},
     scriptCandidates = 3,
   } = options;
 
   console.log(`\n🚀 Starting pipeline for channel: ${channelId}`);
 
+  let outputDir = '';
+  let runState: RunState | undefined;
+  let currentStage: PipelineStage = 'config';
+
   try {
-    // Step 1: Load config
+    // Step 1: Setup output directory (날짜 + 타임스탬프로 고유 폴더 생성)
+    if (resumeDir) {
+      outputDir = path.resolve(resumeDir);
+    } else {
+      const now = new Date();
+      const dateStr = now.toISOString().split('T')[0]; // 2026-01-08
+      const timeStr = now.toTimeString().split(' ')[0].replace(/:/g, ''); // 153045
+      const folderName = `${dateStr}_${timeStr}`; // 2026-01-08_153045
+      outputDir = options.outputDir || path.join(DEFAULT_OUTPUT_DIR, channelId, folderName);
+    }
+    await fs.mkdir(outputDir, { recursive: true });
+    await setUsageRunDir(outputDir);
+    const audioDir = path.join(outputDir, 'audio');
+    await fs.mkdir(audioDir, { recursive: true });
+
+    const previousState = resumeDir ? await loadRunState(outputDir) : null;
+    if (resumeDir && !previousState) {
+      console.log(`   ⚠️ No run state found in ${outputDir}, starting from scratch`);
+    }
+    if (previousState && previousState.channelId !== channelId) {
+      throw new Error(
+        `Run state in ${outputDir} belongs to channel "${previousState.channelId}", not "${channelId}"`
+      );
+    }
+    runState = previousState ?? createRunState(channelId, { category, topic });
+    if (previousState) {
+      console.log(`♻️  Resuming run: ${outputDir}`);
+    }
+
+    // episode.json: 실행 옵션 + 모든 산출물 기록
+    const episode = resumeDir
+      ? await openEpisodeManifest(outputDir, channelId)
+      : createEpisodeManifest(channelId, await getPipelineVersion());
+    await saveEpisodeManifest(outputDir, {
+      ...episode,
+      options: {
+        category: runState.category ?? category,
+        topic: runState.topic ?? topic,
+        useMockTTS,
+        useSampleScript,
+        skipIntro,
+        skipImage,
+        autoRender,
+        renderShorts,
+        scriptCandidates,
+      },
+    });
+
+    // Once the script is regenerated, every later stage has to be regenerated too
+    let resumeState = previousState;
+    const canReuse = (stage: PipelineStage, requiredOutputs: string[] = []): boolean =>
+      resumeState !== null && isStageDone(resumeState, stage, requiredOutputs);
+
+    // Step 2: Load config
     console.log('📋 Loading channel configuration...');
     const config = await loadConfig(channelId);
     console.log(`   ✓ Loaded config for "${config.meta.name}"`);
 
-    // Step 1.5: Check and generate all required assets if needed
+    // Step 2.5: Check and generate all required assets if needed
     if (!skipIntro) {
       await ensureChannelAssets(config);
     }
-
-    // Step 2: Generate or load script
-    console.log('📝 Generating script...');
-    let script: Script;
-    if (useSampleScript) {
-      script = createSampleScript(config, category || 'conversation');
-      console.log('   ✓ Created sample script (mock mode)');
-    } else {
-      script = await generateScript(config, category, topic, scriptCandidates);
-      console.log(`   ✓ Generated script: "${script.metadata.title.target}"`);
+    runState = await recordStage(outputDir, runState, 'config', 'completed');
+
+    // Step 3: Generate or load script
+    currentStage = 'script';
+    let script: Script | null = null;
+    if (resumeState && canReuse('script')) {
+      script = await loadCheckpointedScript(outputDir, resumeState);
+      if (script) {
+        console.log(`📝 Reusing checkpointed script: "${script.metadata.title.target}"`);
+      }
     }
 
-    // Step 3: Setup output directory (날짜 + 타임스탬프로 고유 폴더 생성)
-    const now = new Date();
-    const dateStr = now.toISOString().split('T')[0]; // 2026-01-08
-    const timeStr = now.toTimeString().split(' ')[0].replace(/:/g, ''); // 153045
-    const folderName = `${dateStr}_${timeStr}`; // 2026-01-08_153045
-    const outputDir = options.outputDir || path.join(DEFAULT_OUTPUT_DIR, channelId, folderName);
-    await fs.mkdir(outputDir, { recursive: true });
-    const audioDir = path.join(outputDir, 'audio');
-    await fs.mkdir(audioDir, { recursive: true });
+    if (!script) {
+      resumeState = null;
+      console.log('📝 Generating script...');
+      if (useSampleScript) {
+        script = createSampleScript(config, runState.category || category || 'conversation');
+        console.log('   ✓ Created sample script (mock mode)');
+      } else {
+        script = await generateScript(
+          config,
+          runState.category || category,
+          runState.topic || topic,
+          scriptCandidates
+        );
+        console.log(`   ✓ Generated script: "${script.metadata.title.target}"`);
+
+        // 빈칸/단어/화자/중복 검사 후 문제 있는 문장만 재생성 (TTS 전에)
+        console.log('🔎 Linting script...');
+        const repair = await repairScript(script, config);
+        script = repair.script;
+        if (repair.repairedSentenceIds.length > 0) {
+          console.log(`   ✓ Repaired sentences: ${repair.repairedSentenceIds.join(', ')}`);
+        }
+        if (repair.diagnostics.length === 0) {
+          console.log('   ✓ No issues found');
+        } else {
+          console.log(formatScriptDiagnostics(repair.diagnostics));
+        }
+      }
 
-    // Step 4: Save script
-    const scriptPath = await saveScript(script, outputDir);
-    console.log(`   ✓ Saved script to: ${scriptPath}`);
+      // Save script
+      const scriptPath = await saveScript(script, outputDir);
+      console.log(`   ✓ Saved script to: ${scriptPath}`);
+      const textProvider = getTextProvider(config.llm);
+      await recordEpisodeScript(
+        outputDir,
+        scriptPath,
+        useSampleScript
+          ? { generator: 'script/sample' }
+          : {
+              generator: 'script/generator',
+              provider: textProvider.name,
+              model: textProvider.model,
+            }
+      );
+      runState = await recordStage(outputDir, runState, 'script', 'completed', [
+        path.basename(scriptPath),
+      ]);
+    }
 
-    // Step 5: Generate background image
+    // Step 4: Generate background image
+    // 이미지는 TTS 에 영향이 없으므로 다시 만들어도 렌더만 다시 함
+    currentStage = 'image';
     let backgroundImagePath: string | undefined;
-    if (!skipImage) {
+    let imageChanged = resumeState === null;
+    const imageOutput = resumeState?.stages.image?.outputs[0];
+    const imageDone =
+      resumeState &&
+      canReuse('image') &&
+      imageOutput &&
+      (await stageOutputsExist(outputDir, resumeState, 'image'));
+
+    if (imageDone && imageOutput) {
+      backgroundImagePath = path.join(outputDir, imageOutput);
+      console.log('🎨 Reusing checkpointed background image');
+    } else if (skipImage) {
+      imageChanged ||= resumeState?.stages.image?.status !== 'skipped';
+      runState = await recordStage(outputDir, runState, 'image', 'skipped');
+    } else {
+      imageChanged = true;
       console.log('🎨 Generating background image...');
       try {
         backgroundImagePath = await generateBackgroundImage(
@@ -115,50 +275,118 @@ export async function runPipeline(options: PipelineOptions): Promise<PipelineRes
           config.theme.preferredArtStyle // 채널 설정의 아트 스타일 사용
         );
         console.log(`   ✓ Generated background image: ${backgroundImagePath}`);
+        await recordEpisodeArtifacts(outputDir, [
+          {
+            kind: 'background',
+            path: backgroundImagePath,
+            generator: 'image/generator',
+            provider: 'gemini',
+            model: GEMINI_MODELS.image,
+          },
+        ]);
+        runState = await recordStage(outputDir, runState, 'image', 'completed', [
+          path.relative(outputDir, backgroundImagePath),
+        ]);
       } catch (imageError) {
         console.warn(`   ⚠️ Failed to generate background image: ${imageError}`);
         // Continue without image - not a fatal error
+        runState = await recordStage(
+          outputDir,
+          runState,
+          'image',
+          'failed',
+          [],
+          String(imageError)
+        );
       }
     }
 
-    // Step 6: Generate TTS audio
-    console.log('🔊 Generating TTS audio...');
-    let audioFiles: AudioFile[];
-    if (useMockTTS) {
-      audioFiles = await createMockAudioFiles(script, audioDir);
-      console.log(`   ✓ Created ${audioFiles.length} mock audio files`);
-    } else {
-      audioFiles = await generateAllAudio(script, config, audioDir, (current, total) => {
-        console.log(`   Processing sentence ${current}/${total}...`);
-      });
-      console.log(`   ✓ Generated ${audioFiles.length} audio files`);
+    // Step 5: Generate TTS audio
+    currentStage = 'tts';
+    let audioFiles: AudioFile[] | null = null;
+    if (canReuse('tts')) {
+      audioFiles = await loadCheckpointedAudio(audioDir, script);
+      if (audioFiles) {
+        console.log(`🔊 Reusing ${audioFiles.length} checkpointed audio files`);
+      }
     }
 
-    // Save audio manifest
-    const manifestPath = path.join(audioDir, 'manifest.json');
-    await fs.writeFile(manifestPath, JSON.stringify(audioFiles, null, 2));
-    console.log(`   ✓ Saved audio manifest: ${manifestPath}`);
+    if (!audioFiles) {
+      resumeState = null;
+      console.log('🔊 Generating TTS audio...');
+      if (useMockTTS) {
+        audioFiles = await createMockAudioFiles(script, audioDir, getChannelSpeedVariants(config));
+        console.log(`   ✓ Created ${audioFiles.length} mock audio files`);
+      } else {
+        audioFiles = await generateAllAudio(script, config, audioDir, (current, total) => {
+          console.log(`   Processing sentence ${current}/${total}...`);
+        });
+        console.log(`   ✓ Generated ${audioFiles.length} audio files`);
+        console.log(`   ✓ TTS cache: ${formatAudioCacheStats(await audioCache.getStats())}`);
+      }
+
+      // Save audio manifest
+      const manifestPath = path.join(audioDir, 'manifest.json');
+      await fs.writeFile(manifestPath, JSON.stringify(audioFiles, null, 2));
+      console.log(`   ✓ Saved audio manifest: ${manifestPath}`);
+      const ttsSource = useMockTTS
+        ? { generator: 'tts/mock' }
+        : { generator: 'tts/generator', provider: config.tts.provider, model: config.tts.model };
+      await recordEpisodeArtifacts(outputDir, [
+        { kind: 'audio-manifest', path: manifestPath, ...ttsSource },
+        ...audioFiles.map((af) => ({ kind: 'audio' as const, path: af.path, ...ttsSource })),
+      ]);
+      runState = await recordStage(outputDir, runState, 'tts', 'completed', [
+        path.relative(outputDir, manifestPath),
+      ]);
+    }
 
     // Shared assets are already set up by ensureChannelAssets
     console.log('📦 Shared assets ready');
 
-    console.log(`\n✅ Pipeline completed for ${channelId}`);
-    console.log(`   Output directory: ${outputDir}`);
+    // Step 6: Render (이미 렌더된 결과물은 재사용, 이번 옵션에서 빠진 것만 렌더)
+    currentStage = 'render';
+    const renderReusable =
+      resumeState !== null &&
+      !imageChanged &&
+      canReuse('render') &&
+      (await stageOutputsExist(outputDir, resumeState, 'render'));
+    const renderOutputs = renderReusable ? [...(resumeState?.stages.render?.outputs ?? [])] : [];
+    const needsVideo = autoRender && !renderOutputs.includes('video.mp4');
+    const needsShorts = renderShorts && !renderOutputs.includes('shorts');
+
+    if (renderOutputs.length > 0 && !needsVideo && !needsShorts) {
+      console.log(`🎬 Render already completed (${renderOutputs.join(', ')}), skipping`);
+    } else if (needsVideo || needsShorts) {
+      // Auto-render video if requested
+      if (needsVideo) {
+        console.log(`\n🎬 Auto-rendering video...`);
+        await renderVideo(channelId, outputDir);
+        renderOutputs.push('video.mp4');
+      }
 
-    // Auto-render video if requested
-    if (autoRender) {
-      console.log(`\n🎬 Auto-rendering video...`);
-      const folderName = path.basename(outputDir);
-      await renderVideo(channelId, folderName, outputDir);
-    }
+      // Render Shorts if requested
+      if (needsShorts) {
+        console.log(`\n📱 Rendering Shorts...`);
+        const failed = await renderShortsBatch(channelId, outputDir, shortsRender);
+        // 실패한 Shorts 가 있으면 render 스테이지 실패 → resume 시 실패한 것만 다시 렌더
+        if (failed.length > 0) {
+          throw new Error(
+            `${failed.length} Shorts failed to render: ${failed.map((s) => s.file).join(', ')}`
+          );
+        }
+        renderOutputs.push('shorts');
+      }
 
-    // Render Shorts if requested
-    if (renderShorts) {
-      console.log(`\n📱 Rendering Shorts...`);
-      const folderName = path.basename(outputDir);
-      await renderShortsBatch(channelId, folderName, outputDir);
+      runState = await recordStage(outputDir, runState, 'render', 'completed', renderOutputs);
+    } else {
+      runState = await recordStage(outputDir, runState, 'render', 'skipped');
     }
 
+    console.log(`\n✅ Pipeline completed for ${channelId}`);
+    console.log(`   Output directory: ${outputDir}`);
+    await indexLibraryEpisode(outputDir);
+
     return {
       success: true,
       channelId,
@@ -170,7 +398,18 @@ export async function runPipeline(options: PipelineOptions): Promise<PipelineRes
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error(`\n❌ Pipeline failed for ${channelId}: ${errorMessage}`);
+    console.error(
+      `\n❌ Pipeline failed for ${channelId} at stage "${currentStage}": ${errorMessage}`
+    );
+
+    if (outputDir && runState) {
+      try {
+        await recordStage(outputDir, runState, currentStage, 'failed', [], errorMessage);
+        console.error(`   Resume with: --resume ${outputDir}`);
+      } catch {
+        // Run state could not be saved - nothing more to do
+      }
+    }
 
     return {
       success: false,
@@ -178,19 +417,43 @@ export async function runPipeline(options: PipelineOptions): Promise<PipelineRes
       config: {} as ChannelConfig,
       script: {} as Script,
       audioFiles: [],
-      outputDir: '',
+      outputDir,
+      failedStage: currentStage,
       error: errorMessage,
     };
   }
 }
 
+/**
+ * Resume a previous pipeline run from its output folder
+ * Channel, category and topic are restored from run-state.json
+ */
+export async function resumePipeline(
+  resumeDir: string,
+  options: Omit<PipelineOptions, 'channelId' | 'resumeDir'> & { channelId?: string } = {}
+): Promise<PipelineResult> {
+  const state = await loadRunState(path.resolve(resumeDir));
+  const channelId = options.channelId || state?.channelId;
+
+  if (!channelId) {
+    throw new Error(`No run state found in ${resumeDir}. Specify --channel to resume anyway.`);
+  }
+
+  return runPipeline({
+    ...options,
+    channelId,
+    category: options.category ?? state?.category,
+    topic: options.topic ?? state?.topic,
+    resumeDir,
+  });
+}
+
 /**
  * Ensure all required assets exist for a channel in output/{channelId}/assets/
  * Generate missing assets automatically
  */
 async function ensureChannelAssets(config: ChannelConfig): Promise<void> {
-  const channelOutputDir = path.join(DEFAULT_OUTPUT_DIR, config.channelId);
-  const assetsDir = path.join(channelOutputDir, 'assets');
+  const assetsDir = getChannelAssetsDir(config.channelId);
   const introDir = path.join(assetsDir, 'intro');
 
   await fs.mkdir(assetsDir, { recursive: true });
@@ -198,35 +461,8 @@ async function ensureChannelAssets(config: ChannelConfig): Promise<void> {
 
   console.log('📦 Checking required assets...');
 
-  // Required assets list
-  const requiredAssets = [
-    'intro.mp3', // background music (shared across channels)
-    'intro-viral.mp3',
-    'intro-narration.mp3',
-    'intro-step1.mp3',
-    'intro-step2.mp3',
-    'intro-step3.mp3',
-    'intro-step4.mp3',
-    'intro-closing.mp3',
-    'step-transition-1.mp3',
-    'step-transition-2.mp3',
-    'step-transition-3.mp3',
-    'step-transition-4.mp3',
-    'bell.wav',
-    'intro/background.png',
-    'thumbnail.png',
-  ];
-
   // Check which assets are missing
-  const missingAssets: string[] = [];
-  for (const asset of requiredAssets) {
-    const assetPath = path.join(assetsDir, asset);
-    try {
-      await fs.access(assetPath);
-    } catch {
-      missingAssets.push(asset);
-    }
-  }
+  const missingAssets = await findMissingChannelAssets(assetsDir);
 
   if (missingAssets.length === 0) {
     console.log('   ✓ All required assets exist');
@@ -288,7 +524,7 @@ async function ensureChannelAssets(config: ChannelConfig): Promise<void> {
   // Generate intro background image if missing
   if (missingAssets.includes('intro/background.png')) {
     try {
-      const apiKey = getGeminiApiKey();
+      getGeminiApiKey(); // Check if API key exists
       console.log('   🎨 Generating intro background image...');
       const introConfig: IntroAssetConfig = {
         channelId: config.channelId,
@@ -300,7 +536,7 @@ async function ensureChannelAssets(config: ChannelConfig): Promise<void> {
         style: 'modern',
       };
 
-      const generator = new IntroGenerator(apiKey);
+      const generator = new IntroGenerator();
       await generator.generateIntroAssets(introConfig, { outputDir: assetsDir });
     } catch {
       console.log('   ⚠️ GEMINI_API_KEY not set, skipping intro background');
@@ -326,6 +562,23 @@ async function ensureChannelAssets(config: ChannelConfig): Promise<void> {
   }
 }
 
+function getChannelAssetsDir(channelId: string): string {
+  return path.join(DEFAULT_OUTPUT_DIR, channelId, 'assets');
+}
+
+// Required assets not yet in the channel's assets folder (read-only check)
+async function findMissingChannelAssets(assetsDir: string): Promise<string[]> {
+  const missingAssets: string[] = [];
+  for (const asset of REQUIRED_CHANNEL_ASSETS) {
+    try {
+      await fs.access(path.join(assetsDir, asset));
+    } catch {
+      missingAssets.push(asset);
+    }
+  }
+  return missingAssets;
+}
+
 /**
  * Generate all required TTS assets for a channel
  */
@@ -336,100 +589,69 @@ async function generateAllTTSAssets(
 ): Promise<void> {
   const { EdgeTTS } = await import('@andresaya/edge-tts');
 
-  // Voice mapping based on native language (viewer's language)
-  const voiceMap: Record<string, string> = {
-    Korean: 'ko-KR-SunHiNeural',
-    Japanese: 'ja-JP-NanamiNeural',
-    Chinese: 'zh-CN-XiaoxiaoNeural',
-    English: 'en-US-JennyNeural',
-    Spanish: 'es-ES-ElviraNeural',
-    French: 'fr-FR-DeniseNeural',
-    German: 'de-DE-KatjaNeural',
-  };
-
-  const voice = voiceMap[config.meta.nativeLanguage] || voiceMap['English'];
-
-  // Language name in native language
-  const languageNames: Record<string, Record<string, string>> = {
-    Korean: {
-      English: '영어',
-      Japanese: '일본어',
-      Chinese: '중국어',
-      Spanish: '스페인어',
-      French: '프랑스어',
-      German: '독일어',
-      Korean: '한국어',
-    },
-    English: {
-      English: 'English',
-      Japanese: 'Japanese',
-      Chinese: 'Chinese',
-      Spanish: 'Spanish',
-      French: 'French',
-      German: 'German',
-      Korean: 'Korean',
-    },
+  // Narration scripts and voice from the viewer's locale pack
+  const pack = getLocalePack(config.meta.nativeLanguage);
+  const voice = pack.narrationVoice;
+  const vars = {
+    language: getLanguageName(config.meta.targetLanguage, config.meta.nativeLanguage),
+    targetLanguage: config.meta.targetLanguage,
   };
-
-  const langNames = languageNames[config.meta.nativeLanguage] || languageNames['English'];
-  const targetLangName = langNames[config.meta.targetLanguage] || config.meta.targetLanguage;
-
-  // TTS content based on native language
-  const isKorean = config.meta.nativeLanguage === 'Korean';
+  const { narration } = pack;
 
   const ttsContent: Record<string, string> = {
-    'intro-viral.mp3': isKorean
-      ? `${targetLangName} 문장을 반복해서 듣고, ${targetLangName}가 들리는 순간을 느껴보세요.`
-      : `Listen to ${targetLangName} sentences repeatedly and feel the moment when ${targetLangName} starts to click.`,
-    'intro-narration.mp3': isKorean
-      ? '이 영상은 다음 네 단계로 진행됩니다.'
-      : 'This video consists of four steps.',
-    'intro-step1.mp3': isKorean
-      ? '첫 번째 단계. 자막 없이 전체 흐름을 파악합니다. 소리에만 집중하며 상황을 상상해보세요.'
-      : 'Step one. Get the big picture without subtitles. Focus on the sounds and imagine the situation.',
-    'intro-step2.mp3': isKorean
-      ? '두 번째 단계. 자막과 함께 들으며 내용을 이해합니다. 안 들렸던 부분을 확인하세요.'
-      : 'Step two. Listen with subtitles to understand the content. Check the parts you missed.',
-    'intro-step3.mp3': isKorean
-      ? '세 번째 단계. 느리게, 빈칸, 빠르게 반복 훈련을 합니다. 이 단계에서 귀가 열리기 시작합니다.'
-      : 'Step three. Practice with slow, fill-in-the-blank, and fast repetition. This is where your ears start to open.',
-    'intro-step4.mp3': isKorean
-      ? '네 번째 단계. 다시 자막 없이 들어봅니다. 놀랍게 선명해진 소리를 직접 확인하세요.'
-      : 'Step four. Listen again without subtitles. Experience how much clearer it sounds now.',
-    'intro-closing.mp3': isKorean ? '자, 그럼 시작해볼까요?' : "Alright, let's get started!",
-    'step-transition-1.mp3': isKorean
-      ? '스텝 원. 자막 없이 듣기'
-      : 'Step one. Listen without subtitles.',
-    'step-transition-2.mp3': isKorean
-      ? '스텝 투. 자막 보며 듣기'
-      : 'Step two. Listen with subtitles.',
-    'step-transition-3.mp3': isKorean ? '스텝 쓰리. 반복 훈련' : 'Step three. Repetition training.',
-    'step-transition-4.mp3': isKorean ? '스텝 포. 최종 확인' : 'Step four. Final check.',
+    'intro-viral.mp3': formatLocaleTemplate(narration.viral, vars),
+    'intro-narration.mp3': narration.guide,
+    'intro-closing.mp3': narration.closing,
   };
+  narration.steps.forEach((text, i) => {
+    ttsContent[`intro-step${i + 1}.mp3`] = text;
+  });
+  narration.stepTransitions.forEach((text, i) => {
+    ttsContent[`step-transition-${i + 1}.mp3`] = text;
+  });
 
   for (const asset of missingAssets) {
     const text = ttsContent[asset];
     if (!text) continue;
 
     const assetPath = path.join(outputDir, asset);
+    const cacheInput = {
+      provider: 'edge' as const,
+      voice,
+      speed: '1.0x' as const,
+      languageCode: voice.split('-').slice(0, 2).join('-'),
+      text,
+    };
 
     try {
-      const tts = new EdgeTTS();
-      await tts.synthesize(text, voice, { rate: '+0%' });
-      await fs.writeFile(assetPath, await tts.toBuffer());
-      console.log(`   ✓ Generated ${asset}`);
+      const { cached } = await audioCache.getOrCreate(cacheInput, assetPath, async (dest) => {
+        const tts = new EdgeTTS();
+        await tts.synthesize(text, voice, { rate: '+0%' });
+        await fs.writeFile(dest, await tts.toBuffer());
+      });
+      console.log(`   ✓ ${cached ? 'Restored from cache' : 'Generated'} ${asset}`);
     } catch (error) {
       console.error(`   ❌ Failed to generate ${asset}: ${error}`);
     }
   }
 }
 
+/** Per-channel outcome of runAllPipelines */
+export interface ChannelRunResult {
+  channelId: string;
+  contentType: ChannelContentType;
+  success: boolean;
+  outputDir: string;
+  error?: string;
+}
+
 /**
  * Run pipeline for all available channels
+ * 채널별 contentType에 따라 듣기 파이프라인 / Veo 인터뷰 파이프라인으로 분기
  */
 export async function runAllPipelines(
   options: Omit<PipelineOptions, 'channelId'>
-): Promise<PipelineResult[]> {
+): Promise<ChannelRunResult[]> {
   const channels = await listChannels();
 
   if (channels.length === 0) {
@@ -439,11 +661,10 @@ export async function runAllPipelines(
 
   console.log(`\n📺 Running pipeline for ${channels.length} channel(s): ${channels.join(', ')}`);
 
-  const results: PipelineResult[] = [];
+  const results: ChannelRunResult[] = [];
 
   for (const channelId of channels) {
-    const result = await runPipeline({ ...options, channelId });
-    results.push(result);
+    results.push(await runChannelPipeline(channelId, options));
   }
 
   // Summary
@@ -458,100 +679,83 @@ export async function runAllPipelines(
 }
 
 /**
- * Render video from pipeline output
+ * Preview a run without calling any API or writing files
+ * (config, category, missing assets, TTS calls, expected durations, Shorts)
  */
-async function renderVideo(
-  channelId: string,
-  folderName: string,
-  outputDir: string
-): Promise<void> {
-  const { bundle } = await import('@remotion/bundler');
-  const { renderMedia, selectComposition } = await import('@remotion/renderer');
+export async function planPipeline(options: PipelineOptions): Promise<RunPlan> {
+  const config = await loadAnyConfig(options.channelId);
+  if (config.contentType !== 'listening') {
+    return buildVeoPlan(config, options);
+  }
+
+  return buildListeningPlan(config, options, {
+    missingAssets: options.skipIntro
+      ? undefined
+      : await findMissingChannelAssets(getChannelAssetsDir(config.channelId)),
+    speeds: getChannelSpeedVariants(config),
+    nativeSpeedControl: getTTSCapabilities(config.tts.provider).nativeSpeedControl,
+  });
+}
 
-  // Find script file
-  const files = await fs.readdir(outputDir);
-  const scriptFile = files.find((f) => f.endsWith('.json') && f !== 'manifest.json');
+/**
+ * Preview runs for all available channels
+ */
+export async function planAllPipelines(
+  options: Omit<PipelineOptions, 'channelId'>
+): Promise<RunPlan[]> {
+  const plans: RunPlan[] = [];
+  for (const channelId of await listChannels()) {
+    plans.push(await planPipeline({ ...options, channelId }));
+  }
+  return plans;
+}
 
-  if (!scriptFile) {
-    throw new Error(`No script file found in ${outputDir}`);
+// Dispatch one channel to the pipeline for its content type
+async function runChannelPipeline(
+  channelId: string,
+  options: Omit<PipelineOptions, 'channelId'>
+): Promise<ChannelRunResult> {
+  let config: AnyChannelConfig;
+  try {
+    config = await loadAnyConfig(channelId);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`\n❌ ${message}`);
+    return { channelId, contentType: 'listening', success: false, outputDir: '', error: message };
   }
 
-  // Load script
-  const scriptPath = path.join(outputDir, scriptFile);
-  const scriptContent = await fs.readFile(scriptPath, 'utf-8');
-  const script: Script = JSON.parse(scriptContent);
-
-  // Load channel config
-  const configPath = path.join(process.cwd(), 'channels', `${channelId}.json`);
-  const configContent = await fs.readFile(configPath, 'utf-8');
-  const config: ChannelConfig = JSON.parse(configContent);
-
-  // Load audio manifest
-  const manifestPath = path.join(outputDir, 'audio/manifest.json');
-  const manifestContent = await fs.readFile(manifestPath, 'utf-8');
-  const rawAudioFiles: AudioFile[] = JSON.parse(manifestContent);
-
-  // Convert to staticFile paths (with folderName prefix for dynamic files)
-  const audioFiles: AudioFile[] = rawAudioFiles.map((af) => ({
-    ...af,
-    path: `${folderName}/audio/${path.basename(af.path)}`,
-  }));
-
-  // Dynamic files use folderName prefix, shared assets use assets/ prefix
-  const backgroundImage = `${folderName}/background.png`;
-
-  // Bundle - use channel output folder as publicDir (contains both shared assets and run folders)
-  console.log('📦 Bundling Remotion project...');
-  const channelOutputDir = path.join(DEFAULT_OUTPUT_DIR, channelId);
-  const bundleLocation = await bundle({
-    entryPoint: path.join(process.cwd(), 'src/index.ts'),
-    webpackOverride: (config) => config,
-    publicDir: channelOutputDir,
-  });
+  const { contentType } = config;
+  if (contentType === 'listening') {
+    const result = await runPipeline({ ...options, channelId });
+    const { success, outputDir, error } = result;
+    return { channelId, contentType, success, outputDir, error };
+  }
 
-  // Select composition with all required inputProps
-  // Asset paths use assets/ prefix (shared assets in output/{channelId}/assets/)
-  console.log('🎯 Selecting composition...');
-  const inputProps = {
-    config,
-    script,
-    audioFiles,
-    backgroundImage,
-    // Shared asset paths
-    thumbnailPath: 'assets/thumbnail.png',
-    viralNarrationPath: 'assets/intro-viral.mp3',
-    viralNarrationDuration: 5.256,
-    guideNarrationPath: 'assets/intro-narration.mp3',
-    guideNarrationDuration: 3.936,
-    stepNarrationPaths: [
-      'assets/intro-step1.mp3',
-      'assets/intro-step2.mp3',
-      'assets/intro-step3.mp3',
-      'assets/intro-step4.mp3',
-    ],
-    stepNarrationDurations: [8.52, 8.904, 9.72, 7.464],
-    closingNarrationPath: 'assets/intro-closing.mp3',
-    closingNarrationDuration: 2.952,
-    stepTransitionTtsPaths: [
-      'assets/step-transition-1.mp3',
-      'assets/step-transition-2.mp3',
-      'assets/step-transition-3.mp3',
-      'assets/step-transition-4.mp3',
-    ],
-    stepTransitionBellPath: 'assets/bell.wav',
-    endingBackgroundPath: 'assets/intro/background.png',
-  };
+  try {
+    console.log(`\n🎬 ${channelId}: ${contentType} channel → Veo pipeline`);
+    const result = await runInterviewPipeline(channelId, { theme: options.topic });
+    return { channelId, contentType, success: true, outputDir: result.outputDir };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`\n❌ ${channelId} failed: ${message}`);
+    return { channelId, contentType, success: false, outputDir: '', error: message };
+  }
+}
+
+/**
+ * Render video from pipeline output
+ */
+async function renderVideo(channelId: string, outputDir: string): Promise<void> {
+  const episode = await loadEpisodeAssets(channelId, outputDir);
+  const { script, config } = episode;
 
   // Generate thumbnail with title text
   console.log('\n🖼️ Generating thumbnail...');
   const thumbnailPath = path.join(outputDir, 'episode_thumbnail.png');
   const backgroundPath = path.join(outputDir, 'background.png');
 
-  // Generate subtitle based on target language and native language
-  const subtitleText = generateThumbnailSubtitle(
-    config.meta.targetLanguage,
-    config.meta.nativeLanguage
-  );
+  // Thumbnail hook phrase from the viewer's locale pack
+  const subtitleText = getLocalePack(config.meta.nativeLanguage).thumbnail.subtitle;
   await generateVideoThumbnail(
     backgroundPath,
     script.metadata.title.native,
@@ -559,205 +763,27 @@ async function renderVideo(
     thumbnailPath
   );
   console.log(`✅ Thumbnail created: ${thumbnailPath}`);
-
-  const composition = await selectComposition({
-    serveUrl: bundleLocation,
-    id: 'Main',
-    inputProps,
-  });
-
-  // Render
-  const videoPath = path.join(outputDir, 'video.mp4');
-  console.log(`🎬 Rendering video to: ${videoPath}`);
-  console.log(
-    `   Duration: ${composition.durationInFrames} frames (${(composition.durationInFrames / 30).toFixed(1)}s)`
+  await recordEpisodeArtifacts(
+    outputDir,
+    [{ kind: 'thumbnail', path: thumbnailPath, generator: 'pipeline/thumbnail' }],
+    channelId
   );
 
-  await renderMedia({
-    composition,
-    serveUrl: bundleLocation,
-    codec: 'h264',
-    outputLocation: videoPath,
-    inputProps,
-    onProgress: ({ progress }) => {
-      process.stdout.write(`\r   Progress: ${(progress * 100).toFixed(1)}%`);
-    },
-  });
-
-  const stats = await fs.stat(videoPath);
-  console.log(`\n\n✅ Video rendered successfully!`);
-  console.log(`📁 Output: ${videoPath}`);
-  console.log(`📊 Size: ${(stats.size / 1024 / 1024).toFixed(2)} MB`);
-
-  // Generate YouTube timestamp file
-  console.log('\n📝 Generating upload_info.txt with timeline...');
-  const { calculateIntroDuration } = await import('../compositions/Intro');
-  const { calculateStep1Duration } = await import('../compositions/Step1');
-  const { calculateStep2Duration } = await import('../compositions/Step2');
-  const { calculateStep3Duration } = await import('../compositions/Step3');
-  const { calculateStep4Duration } = await import('../compositions/Step4');
-  const { STEP_TRANSITION_DURATION } = await import('../compositions/StepTransition');
-
-  const FPS = 30;
-  const framesToSeconds = (frames: number) => frames / FPS;
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${String(mins).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
-  };
-
-  // Use actual TTS durations from inputProps
-  const introDuration = calculateIntroDuration(
-    inputProps.viralNarrationDuration,
-    inputProps.guideNarrationDuration,
-    inputProps.stepNarrationDurations,
-    inputProps.closingNarrationDuration
-  );
-  const step1Duration = calculateStep1Duration(audioFiles);
-  const step2Duration = calculateStep2Duration(script.sentences, audioFiles);
-  const step3Duration = calculateStep3Duration(
-    script.sentences,
-    audioFiles,
-    config.content.repeatCount
-  );
-  const step4Duration = calculateStep4Duration(audioFiles);
-
-  let currentFrame = 0;
-  const timeline: Array<{ time: string; label: string }> = [];
-
-  // 언어별 타임라인 라벨
-  const timelineLabels = getTimelineLabels(config.meta.nativeLanguage);
-
-  timeline.push({ time: formatTime(framesToSeconds(currentFrame)), label: timelineLabels.intro });
-  currentFrame += introDuration;
-
-  currentFrame += STEP_TRANSITION_DURATION;
-  timeline.push({
-    time: formatTime(framesToSeconds(currentFrame)),
-    label: timelineLabels.step1,
-  });
-  currentFrame += step1Duration;
+  const result = await renderEpisodeVideo(episode);
+  console.log(`\n✅ Video rendered successfully!`);
+  console.log(`📁 Output: ${result.outputPath}`);
+  console.log(`📊 Size: ${(result.sizeBytes / 1024 / 1024).toFixed(2)} MB`);
 
-  currentFrame += STEP_TRANSITION_DURATION;
-  timeline.push({
-    time: formatTime(framesToSeconds(currentFrame)),
-    label: timelineLabels.step2,
-  });
-  currentFrame += step2Duration;
-
-  currentFrame += STEP_TRANSITION_DURATION;
-  timeline.push({
-    time: formatTime(framesToSeconds(currentFrame)),
-    label: timelineLabels.step3,
-  });
-  currentFrame += step3Duration;
-
-  currentFrame += STEP_TRANSITION_DURATION;
-  timeline.push({ time: formatTime(framesToSeconds(currentFrame)), label: timelineLabels.step4 });
-  currentFrame += step4Duration;
-
-  timeline.push({ time: formatTime(framesToSeconds(currentFrame)), label: timelineLabels.ending });
-
-  const uploadInfoPath = path.join(outputDir, 'upload_info.txt');
-  const timelineText = timeline.map((t) => `${t.time} ${t.label}`).join('\n');
-  const uploadInfo = `${timelineLabels.timelineHeader}:
-${timelineText}
-
-${timelineLabels.titleLabel}: ${script.metadata.title.target}
-${timelineLabels.topicLabel}: ${script.metadata.topic}
-${timelineLabels.categoryLabel}: ${script.category}
-`;
-
-  await fs.writeFile(uploadInfoPath, uploadInfo, 'utf-8');
-  console.log(`✅ Upload info created: ${uploadInfoPath}`);
+  const timelineLabels = getLocalePack(config.meta.nativeLanguage).timeline;
+  console.log(`\n✅ Upload info created: ${result.uploadInfoPath}`);
   console.log(`\n${timelineLabels.timelineHeader}:`);
-  timeline.forEach((t) => console.log(`  ${t.time} ${t.label}`));
-}
-
-/**
- * Get timeline labels based on native language
- */
-export function getTimelineLabels(nativeLanguage: string = 'Korean') {
-  const labels: Record<
-    string,
-    {
-      timelineHeader: string;
-      intro: string;
-      step1: string;
-      step2: string;
-      step3: string;
-      step4: string;
-      ending: string;
-      titleLabel: string;
-      topicLabel: string;
-      categoryLabel: string;
-    }
-  > = {
-    Korean: {
-      timelineHeader: '타임라인',
-      intro: '인트로',
-      step1: 'Step 1. 전체 흐름 파악 (자막 없이 듣기)',
-      step2: 'Step 2. 자막 보며 듣기',
-      step3: 'Step 3. 문장별 3단계 훈련',
-      step4: 'Step 4. 최종 확인',
-      ending: '마무리',
-      titleLabel: '제목',
-      topicLabel: '토픽',
-      categoryLabel: '카테고리',
-    },
-    English: {
-      timelineHeader: 'Timeline',
-      intro: 'Intro (Must Watch!)',
-      step1: 'Step 1. Listen Without Subtitles',
-      step2: 'Step 2. Listen With Subtitles',
-      step3: 'Step 3. Sentence Repetition Training',
-      step4: 'Step 4. Final Review',
-      ending: 'Ending',
-      titleLabel: 'Title',
-      topicLabel: 'Topic',
-      categoryLabel: 'Category',
-    },
-    Japanese: {
-      timelineHeader: 'タイムライン',
-      intro: 'イントロ（必見！）',
-      step1: 'Step 1. 字幕なしで聞く',
-      step2: 'Step 2. 字幕を見ながら聞く',
-      step3: 'Step 3. 文ごとの3段階トレーニング',
-      step4: 'Step 4. 最終確認',
-      ending: 'エンディング',
-      titleLabel: 'タイトル',
-      topicLabel: 'トピック',
-      categoryLabel: 'カテゴリ',
-    },
-    Chinese: {
-      timelineHeader: '时间轴',
-      intro: '开场（必看！）',
-      step1: 'Step 1. 无字幕听力',
-      step2: 'Step 2. 有字幕听力',
-      step3: 'Step 3. 句子重复训练',
-      step4: 'Step 4. 最终复习',
-      ending: '结尾',
-      titleLabel: '标题',
-      topicLabel: '主题',
-      categoryLabel: '类别',
-    },
-  };
-
-  return labels[nativeLanguage] || labels['English'];
-}
+  result.chapters.forEach((t) => console.log(`  ${t.time} ${t.label}`));
 
-/**
- * Generate thumbnail subtitle text based on languages
- */
-function generateThumbnailSubtitle(_targetLanguage: string, nativeLanguage: string): string {
-  // 언어별 후킹 문구 (간단하게)
-  if (nativeLanguage === 'Korean') {
-    return `인생이 바뀌는 15분`;
-  } else if (nativeLanguage === 'Japanese') {
-    return `毎日15分リスニング`;
-  } else {
-    return `15 Mins Daily Listening`;
-  }
+  // Caption tracks (same timeline as the rendered video)
+  console.log('\n💬 Subtitle files:');
+  result.subtitleFiles.forEach((f) =>
+    console.log(`   ✓ ${path.relative(outputDir, f.path)} (${f.cueCount} cues)`)
+  );
 }
 
 /**
@@ -865,187 +891,53 @@ async function generateVideoThumbnail(
 
 /**
  * Render individual Shorts for each sentence
+ * @returns Shorts that failed to render
  */
 async function renderShortsBatch(
   channelId: string,
-  folderName: string,
-  outputDir: string
-): Promise<void> {
-  const { bundle } = await import('@remotion/bundler');
-  const { renderMedia, selectComposition } = await import('@remotion/renderer');
-  const { generateQuizChoices } = await import('../compositions/ListeningQuizShort');
-
-  // Create shorts output directory
-  const shortsDir = path.join(outputDir, 'shorts');
-  await fs.mkdir(shortsDir, { recursive: true });
-
-  // Find script file
-  const files = await fs.readdir(outputDir);
-  const scriptFile = files.find((f) => f.endsWith('.json') && f !== 'manifest.json');
-
-  if (!scriptFile) {
-    throw new Error(`No script file found in ${outputDir}`);
-  }
-
-  // Load script
-  const scriptPath = path.join(outputDir, scriptFile);
-  const scriptContent = await fs.readFile(scriptPath, 'utf-8');
-  let script: Script = JSON.parse(scriptContent);
-
-  // Load channel config
-  const configPath = path.join(process.cwd(), 'channels', `${channelId}.json`);
-  const configContent = await fs.readFile(configPath, 'utf-8');
-  const config: ChannelConfig = JSON.parse(configContent);
+  outputDir: string,
+  scheduler: RenderSchedulerOptions
+): Promise<ShortRenderResult[]> {
+  const episode = await loadEpisodeAssets(channelId, outputDir);
 
   // Check if any sentence is missing wrongWordChoices
-  const needsWrongWords = script.sentences.some(
+  const needsWrongWords = episode.script.sentences.some(
     (s) => !s.wrongWordChoices || s.wrongWordChoices.length < 2
   );
 
   if (needsWrongWords) {
     console.log('🤖 Generating missing wrongWordChoices with GPT...');
-    script = await generateMissingWrongAnswers(script, config);
+    episode.script = await generateMissingWrongAnswers(episode.script, episode.config);
     // Save updated script
-    await fs.writeFile(scriptPath, JSON.stringify(script, null, 2));
+    await fs.writeFile(episode.scriptPath, JSON.stringify(episode.script, null, 2));
+    const textProvider = getTextProvider(episode.config.llm);
+    await recordEpisodeScript(outputDir, episode.scriptPath, {
+      generator: 'pipeline/wrong-answers',
+      provider: textProvider.name,
+      model: textProvider.model,
+    });
     console.log('   ✅ Updated script with wrongWordChoices');
   }
 
-  // Load audio manifest
-  const manifestPath = path.join(outputDir, 'audio/manifest.json');
-  const manifestContent = await fs.readFile(manifestPath, 'utf-8');
-  const rawAudioFiles: AudioFile[] = JSON.parse(manifestContent);
-
-  // Convert to staticFile paths
-  const audioFiles: AudioFile[] = rawAudioFiles.map((af) => ({
-    ...af,
-    path: `${folderName}/audio/${path.basename(af.path)}`,
-  }));
-
-  // Background image path
-  const backgroundImage = `${folderName}/background.png`;
-
-  // Bundle Remotion project
-  console.log('� Bundling Remotion project for Shorts...');
-  const channelOutputDir = path.join(DEFAULT_OUTPUT_DIR, channelId);
-  const bundleLocation = await bundle({
-    entryPoint: path.join(process.cwd(), 'src/index.ts'),
-    webpackOverride: (cfg) => cfg,
-    publicDir: channelOutputDir,
-  });
-
-  // Render each sentence as a Quiz Short
-  const totalSentences = script.sentences.length;
-  console.log(`📱 Rendering ${totalSentences} Quiz Shorts...`);
-
-  for (let i = 0; i < script.sentences.length; i++) {
-    const sentence = script.sentences[i];
-    const audioFile = audioFiles.find((af) => af.sentenceId === sentence.id && af.speed === '1.0x');
-    const slowAudioFile = audioFiles.find(
-      (af) => af.sentenceId === sentence.id && af.speed === '0.8x'
-    );
-
-    if (!audioFile) {
-      console.warn(`   ⚠️ No audio for sentence ${sentence.id}, skipping`);
-      continue;
-    }
-
-    // Generate quiz choices from wrongWordChoices or fallback
-    const quizSentence = {
-      ...sentence,
-      choices:
-        sentence.wrongWordChoices && sentence.wrongWordChoices.length >= 2
-          ? createChoicesFromWrongAnswers(
-              sentence.blankAnswer,
-              sentence.wrongWordChoices,
-              sentence.id
-            )
-          : generateQuizChoices(sentence),
-    };
-
-    // Use ListeningQuizShort composition
-    const compositionId = 'ListeningQuizShort';
+  const bgmPath = await prepareQuizBgm(channelId);
+  const summary = await renderEpisodeQuizShorts(episode, { ...scheduler, bgmPath });
+  const failed = getFailedShorts(summary);
 
-    const inputProps = {
-      sentence: quizSentence,
-      audioFile,
-      slowAudioFile,
-      config,
-      backgroundImage,
-      sentenceIndex: i + 1,
-      episodeTitle: script.metadata.title.native,
-    };
-
-    console.log(`   [${i + 1}/${totalSentences}] "${sentence.target.substring(0, 35)}..."`);
-
-    try {
-      const composition = await selectComposition({
-        serveUrl: bundleLocation,
-        id: compositionId,
-        inputProps,
-      });
-
-      const outputPath = path.join(shortsDir, `quiz_${String(i + 1).padStart(2, '0')}.mp4`);
-
-      await renderMedia({
-        composition,
-        serveUrl: bundleLocation,
-        codec: 'h264',
-        outputLocation: outputPath,
-        inputProps,
-        onProgress: ({ progress }) => {
-          process.stdout.write(
-            `\r   [${i + 1}/${totalSentences}] Progress: ${(progress * 100).toFixed(1)}%`
-          );
-        },
-      });
-
-      const stats = await fs.stat(outputPath);
-      console.log(
-        `\n   ✅ quiz_${String(i + 1).padStart(2, '0')}.mp4 (${(stats.size / 1024 / 1024).toFixed(2)} MB)`
-      );
-    } catch (error) {
-      console.error(`\n   ❌ Failed to render Short ${i + 1}: ${error}`);
-    }
-  }
-
-  console.log(`\n✅ Quiz Shorts batch rendering completed!`);
-  console.log(`📁 Output: ${shortsDir}`);
-}
-
-/**
- * Create quiz choices from wrongWordChoices array (단어 기반)
- */
-function createChoicesFromWrongAnswers(
-  blankAnswer: string,
-  wrongWordChoices: string[],
-  sentenceId: number
-): Array<{ text: string; isCorrect: boolean }> {
-  const correctIndex = sentenceId % 3;
-  const choices: Array<{ text: string; isCorrect: boolean }> = [];
-  let wrongIdx = 0;
-
-  for (let i = 0; i < 3; i++) {
-    if (i === correctIndex) {
-      choices.push({ text: blankAnswer, isCorrect: true });
-    } else {
-      choices.push({ text: wrongWordChoices[wrongIdx++] || blankAnswer, isCorrect: false });
-    }
-  }
-
-  return choices;
+  console.log(
+    failed.length === 0
+      ? `\n✅ Quiz Shorts batch rendering completed!`
+      : `\n❌ Quiz Shorts batch finished with ${failed.length} failed`
+  );
+  console.log(formatShortsRenderSummary(summary));
+  console.log(`📁 Output: ${path.join(outputDir, 'shorts')}`);
+  return failed;
 }
 
 /**
  * Generate missing wrongWordChoices using GPT (단어 기반 오답)
  */
-async function generateMissingWrongAnswers(
-  script: Script,
-  _config: ChannelConfig
-): Promise<Script> {
-  const { GoogleGenerativeAI } = await import('@google/generative-ai');
-  const apiKey = getGeminiApiKey();
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: GEMINI_MODELS.text });
+async function generateMissingWrongAnswers(script: Script, config: ChannelConfig): Promise<Script> {
+  const provider = getTextProvider(config.llm);
 
   // wrongWordChoices가 없는 문장 필터링
   const sentencesNeedingWrongWords = script.sentences.filter(
@@ -1091,8 +983,7 @@ Example Output:
 Generate ONLY the JSON output.`;
 
   try {
-    const result = await model.generateContent(prompt);
-    const responseText = result.response.text();
+    const { text: responseText } = await provider.generateText({ prompt });
 
     // Extract JSON from response
     const jsonMatch = responseText.match(/\{[\s\S]*\}/);
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { channelConfigSchema, interviewChannelConfigSchema } from '../config/types';
+import type { SpeedVariant } from '../tts/types';
+import {
+  buildListeningPlan,
+  buildVeoPlan,
+  formatRunPlan,
+  planChannelAssets,
+  planTTSCalls,
+  resolvePlanCategory,
+} from './plan';
+
+const config = channelConfigSchema.parse({
+  channelId: 'english',
+  meta: { name: 'English', targetLanguage: 'English', nativeLanguage: 'Korean' },
+  theme: { logo: 'logo.png', introSound: 'intro.mp3' },
+  colors: { maleText: '#0000FF', femaleText: '#FF00FF', nativeText: '#FFFFFF' },
+  tts: {
+    provider: 'openai',
+    maleVoice: 'onyx',
+    femaleVoice: 'nova',
+    targetLanguageCode: 'en-US',
+  },
+  content: { sentenceCount: 4 },
+});
+
+const speeds: SpeedVariant[] = ['0.8x', '1.0x', '1.2x'];
+const monday = new Date(2026, 9, 19);
+
+describe('Run Plan', () => {
+  it('should resolve the category from the weekday unless given', () => {
+    expect(resolvePlanCategory(undefined, monday)).toEqual({
+      value: 'story',
+      source: 'day-of-week',
+    });
+    expect(resolvePlanCategory('news', monday)).toEqual({ value: 'news', source: 'option' });
+  });
+
+  it('should classify missing assets like ensureChannelAssets', () => {
+    expect(
+      planChannelAssets(['intro.mp3', 'intro-step1.mp3', 'bell.wav', 'thumbnail.png'])
+    ).toEqual([
+      { asset: 'intro.mp3', action: 'copy' },
+      { asset: 'intro-step1.mp3', action: 'tts' },
+      { asset: 'bell.wav', action: 'copy' },
+      { asset: 'thumbnail.png', action: 'image' },
+    ]);
+  });
+
+  it('should count one call per speed only with native speed control', () => {
+    expect(planTTSCalls({ speeds, nativeSpeedControl: true }, 4)).toEqual({
+      apiCalls: 12,
+      stretchedLocally: 0,
+    });
+    expect(planTTSCalls({ speeds, nativeSpeedControl: false }, 4)).toEqual({
+      apiCalls: 4,
+      stretchedLocally: 8,
+    });
+  });
+
+  it('should plan a listening run without touching any API', () => {
+    const plan = buildListeningPlan(
+      config,
+      { renderShorts: true, scriptCandidates: 3 },
+      { missingAssets: ['thumbnail.png'], speeds, nativeSpeedControl: false, date: monday }
+    );
+
+    expect(plan.category.value).toBe('story');
+    expect(plan.script).toEqual({ mode: 'generate', sentenceCount: 4, llmCalls: 6 });
+    expect(plan.assets).toEqual([{ asset: 'thumbnail.png', action: 'image' }]);
+    expect(plan.tts).toMatchObject({ provider: 'openai', apiCalls: 4, stretchedLocally: 8 });
+    expect(plan.video.estimatedSeconds).toBeGreaterThan(0);
+    expect(plan.shorts.map((s) => s.file)).toEqual([
+      'shorts/quiz_01.mp4',
+      'shorts/quiz_02.mp4',
+      'shorts/quiz_03.mp4',
+      'shorts/quiz_04.mp4',
+    ]);
+  });
+
+  it('should skip LLM and TTS calls for sample scripts and mock TTS', () => {
+    const plan = buildListeningPlan(
+      config,
+      { useSampleScript: true, useMockTTS: true, topic: 'Coffee' },
+      { speeds, nativeSpeedControl: true }
+    );
+
+    expect(plan.script.llmCalls).toBe(0);
+    expect(plan.tts.apiCalls).toBe(0);
+    expect(plan.assets).toBeUndefined();
+    expect(plan.shorts).toEqual([]);
+    expect(formatRunPlan(plan)).toContain('Assets: skipped');
+  });
+
+  it('should plan one Veo clip per dialogue when stitching', () => {
+    const interview = interviewChannelConfigSchema.parse({
+      channelId: 'puppy_interview',
+      channelName: '강아지 인터뷰',
+      contentType: 'interview',
+      character: {
+        id: 'baekgu',
+        name: '백구',
+        nameEnglish: 'Baekgu',
+        type: 'animal',
+        style: 'white Samoyed puppy',
+        voiceStyle: 'cheerful voice',
+        personality: 'playful',
+        age: '3 months',
+      },
+      veoConfig: { durationSeconds: 8, clipMode: 'per_dialogue', dialogueCount: 3 },
+    });
+
+    const plan = buildVeoPlan(interview, {});
+    expect(plan.veo.clips).toBe(3);
+    expect(plan.veo.estimatedSeconds).toBeLessThan(24);
+    expect(formatRunPlan(plan)).toContain('3 clip(s) × 8s');
+  });
+});
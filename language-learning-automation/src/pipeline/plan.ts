@@ -0,0 +1,302 @@
+/**
+ * Dry-run planner
+ * API 호출 없이 설정/카테고리/에셋/TTS 호출 수/예상 길이/쇼츠 목록을 미리 계산
+ */
+
+import type { ChannelConfig, VeoChannelConfig } from '../config/types';
+import { categoryDayMap, type Category, type Script } from '../script/types';
+import {
+  findSlowestAudioFile,
+  getSpeedMultiplier,
+  type AudioFile,
+  type SpeedVariant,
+} from '../tts/types';
+import { buildVideoTimeline } from '../timeline/builder';
+import { calculateListeningQuizShortDuration } from '../compositions/ListeningQuizShort';
+import { getInterviewVideoDuration } from '../veo/shorts';
+
+// 스크립트가 없으므로 1.0x 문장 오디오 길이를 mock TTS와 같은 값으로 가정
+export const PLAN_SENTENCE_SECONDS = 3.0;
+
+// ensureChannelAssets가 확인하는 공용 에셋 (output/{channelId}/assets/ 기준)
+export const REQUIRED_CHANNEL_ASSETS = [
+  'intro.mp3', // background music (shared across channels)
+  'intro-viral.mp3',
+  'intro-narration.mp3',
+  'intro-step1.mp3',
+  'intro-step2.mp3',
+  'intro-step3.mp3',
+  'intro-step4.mp3',
+  'intro-closing.mp3',
+  'step-transition-1.mp3',
+  'step-transition-2.mp3',
+  'step-transition-3.mp3',
+  'step-transition-4.mp3',
+  'bell.wav',
+  'intro/background.png',
+  'thumbnail.png',
+] as const;
+
+export type ChannelAssetAction = 'tts' | 'copy' | 'image';
+
+export interface PlannedAsset {
+  asset: string;
+  action: ChannelAssetAction;
+}
+
+export interface PlanOptions {
+  category?: Category;
+  topic?: string;
+  useMockTTS?: boolean;
+  useSampleScript?: boolean;
+  skipIntro?: boolean;
+  skipImage?: boolean;
+  autoRender?: boolean;
+  renderShorts?: boolean;
+  scriptCandidates?: number;
+}
+
+export interface ListeningRunPlan {
+  channelId: string;
+  contentType: 'listening';
+  channelName: string;
+  languages: { target: string; native: string };
+  category: { value: Category; source: 'option' | 'day-of-week' };
+  topic: { value?: string; source: 'option' | 'ai' };
+  script: { mode: 'sample' | 'generate'; sentenceCount: number; llmCalls: number };
+  /** undefined when --skip-intro */
+  assets?: PlannedAsset[];
+  backgroundImage: boolean;
+  tts: {
+    provider: string;
+    mock: boolean;
+    speeds: SpeedVariant[];
+    /** 제공자 호출 수 (캐시 적중 시 줄어듦) */
+    apiCalls: number;
+    /** 1.0x에서 로컬로 변환되는 변형 수 */
+    stretchedLocally: number;
+  };
+  video: { render: boolean; estimatedSeconds: number };
+  shorts: Array<{ file: string; sentenceId: number; estimatedSeconds: number }>;
+}
+
+export interface VeoRunPlan {
+  channelId: string;
+  contentType: 'interview' | 'dialogue';
+  channelName: string;
+  theme?: string;
+  llmCalls: number;
+  veo: { clips: number; secondsPerClip: number; estimatedSeconds: number };
+  short: { file: string; estimatedSeconds: number };
+}
+
+export type RunPlan = ListeningRunPlan | VeoRunPlan;
+
+/**
+ * Facts about the channel resolved by the caller (filesystem / TTS registry)
+ */
+export interface PlanContext {
+  /** Missing channel assets (undefined when intro assets are skipped) */
+  missingAssets?: string[];
+  /** getChannelSpeedVariants(config) */
+  speeds: SpeedVariant[];
+  /** Provider synthesizes every speed itself (otherwise 1.0x is time-stretched) */
+  nativeSpeedControl: boolean;
+  date?: Date;
+}
+
+/**
+ * Category the run would use (explicit option, otherwise the weekday mapping)
+ */
+export function resolvePlanCategory(
+  category: Category | undefined,
+  date: Date
+): ListeningRunPlan['category'] {
+  return category
+    ? { value: category, source: 'option' }
+    : { value: categoryDayMap[date.getDay()], source: 'day-of-week' };
+}
+
+/**
+ * What ensureChannelAssets would do for each missing asset
+ */
+export function planChannelAssets(missingAssets: string[]): PlannedAsset[] {
+  return missingAssets.map((asset) => ({
+    asset,
+    action: asset.endsWith('.png')
+      ? 'image'
+      : asset.endsWith('.mp3') && asset !== 'intro.mp3'
+        ? 'tts'
+        : 'copy',
+  }));
+}
+
+/**
+ * Provider calls generateAllAudio would make for N sentences
+ */
+export function planTTSCalls(
+  context: PlanContext,
+  sentenceCount: number
+): Pick<ListeningRunPlan['tts'], 'apiCalls' | 'stretchedLocally'> {
+  const perSentence = context.nativeSpeedControl ? context.speeds.length : 1;
+  return {
+    apiCalls: sentenceCount * perSentence,
+    stretchedLocally: sentenceCount * (context.speeds.length - perSentence),
+  };
+}
+
+/**
+ * Placeholder script + audio manifest with PLAN_SENTENCE_SECONDS per sentence
+ */
+export function createPlaceholderRun(
+  sentenceCount: number,
+  speeds: SpeedVariant[]
+): { script: Pick<Script, 'sentences'>; audioFiles: AudioFile[] } {
+  const sentences = Array.from({ length: sentenceCount }, (_, i) => ({
+    id: i + 1,
+    speaker: i % 2 === 0 ? ('M' as const) : ('F' as const),
+    target: '',
+    targetBlank: '',
+    blankAnswer: '',
+    native: '',
+    words: [],
+  }));
+  const audioFiles = sentences.flatMap((s) =>
+    speeds.map((speed) => ({
+      sentenceId: s.id,
+      speaker: s.speaker,
+      speed,
+      path: '',
+      duration: PLAN_SENTENCE_SECONDS / getSpeedMultiplier(speed),
+    }))
+  );
+  return { script: { sentences }, audioFiles };
+}
+
+/**
+ * Plan for a listening channel
+ */
+export function buildListeningPlan(
+  config: ChannelConfig,
+  options: PlanOptions,
+  context: PlanContext
+): ListeningRunPlan {
+  const { missingAssets, speeds } = context;
+  const sentenceCount = config.content.sentenceCount;
+  const candidates = options.scriptCandidates ?? 3;
+  const placeholder = createPlaceholderRun(sentenceCount, speeds);
+  const timeline = buildVideoTimeline({ ...placeholder, content: config.content });
+
+  // renderShorts와 같이 문장별 1.0x + 가장 느린 속도 오디오 기준
+  const slowAudio = findSlowestAudioFile(placeholder.audioFiles, 1);
+  const shortSeconds =
+    calculateListeningQuizShortDuration(PLAN_SENTENCE_SECONDS, slowAudio?.duration) / timeline.fps;
+
+  return {
+    channelId: config.channelId,
+    contentType: 'listening',
+    channelName: config.meta.name,
+    languages: { target: config.meta.targetLanguage, native: config.meta.nativeLanguage },
+    category: resolvePlanCategory(options.category, context.date ?? new Date()),
+    topic: options.topic ? { value: options.topic, source: 'option' } : { source: 'ai' },
+    script: options.useSampleScript
+      ? { mode: 'sample', sentenceCount, llmCalls: 0 }
+      : {
+          mode: 'generate',
+          sentenceCount,
+          // 주제 후보 생성/선정 2회 + 스크립트 후보 N개 + 최종 선택
+          llmCalls: (options.topic ? 0 : 2) + candidates + (candidates > 1 ? 1 : 0),
+        },
+    ...(missingAssets ? { assets: planChannelAssets(missingAssets) } : {}),
+    backgroundImage: !options.skipImage,
+    tts: {
+      provider: config.tts.provider,
+      mock: Boolean(options.useMockTTS),
+      speeds,
+      ...(options.useMockTTS
+        ? { apiCalls: 0, stretchedLocally: 0 }
+        : planTTSCalls(context, sentenceCount)),
+    },
+    video: {
+      render: Boolean(options.autoRender),
+      estimatedSeconds: round(timeline.durationInFrames / timeline.fps),
+    },
+    shorts: options.renderShorts
+      ? placeholder.script.sentences.map((s, i) => ({
+          file: `shorts/quiz_${String(i + 1).padStart(2, '0')}.mp4`,
+          sentenceId: s.id,
+          estimatedSeconds: round(shortSeconds),
+        }))
+      : [],
+  };
+}
+
+/**
+ * Plan for an interview/dialogue channel
+ */
+export function buildVeoPlan(config: VeoChannelConfig, options: PlanOptions): VeoRunPlan {
+  const { veoConfig } = config;
+  const clips = veoConfig.clipMode === 'per_dialogue' ? veoConfig.dialogueCount : 1;
+  const estimatedSeconds = getInterviewVideoDuration(config, veoConfig.dialogueCount);
+
+  return {
+    channelId: config.channelId,
+    contentType: config.contentType,
+    channelName: config.channelName,
+    ...(options.topic ? { theme: options.topic } : {}),
+    llmCalls: 1,
+    veo: { clips, secondsPerClip: veoConfig.durationSeconds, estimatedSeconds },
+    short: { file: `{date}_${config.channelId}_short.mp4`, estimatedSeconds },
+  };
+}
+
+/**
+ * Human-readable plan
+ */
+export function formatRunPlan(plan: RunPlan): string {
+  const lines = [`📋 Plan: ${plan.channelId} (${plan.contentType}) - ${plan.channelName}`];
+
+  if (plan.contentType !== 'listening') {
+    lines.push(
+      `   Theme: ${plan.theme ?? '(AI selected)'}`,
+      `   LLM calls: ${plan.llmCalls}`,
+      `   Veo: ${plan.veo.clips} clip(s) × ${plan.veo.secondsPerClip}s → ~${plan.veo.estimatedSeconds}s`,
+      `   Short: ${plan.short.file} (~${plan.short.estimatedSeconds}s)`
+    );
+    return lines.join('\n');
+  }
+
+  const { category, topic, script, assets, tts, video, shorts } = plan;
+  lines.push(
+    `   Languages: ${plan.languages.target} for ${plan.languages.native} speakers`,
+    `   Category: ${category.value} (${category.source})`,
+    `   Topic: ${topic.value ?? '(AI selected)'}`,
+    `   Script: ${script.mode}, ${script.sentenceCount} sentences, ${script.llmCalls} LLM call(s)`
+  );
+
+  if (!assets) {
+    lines.push('   Assets: skipped (--skip-intro)');
+  } else if (assets.length === 0) {
+    lines.push('   Assets: all present');
+  } else {
+    lines.push(`   Assets: ${assets.length} missing`);
+    assets.forEach((a) => lines.push(`     - ${a.asset} (${a.action})`));
+  }
+
+  const stretched = tts.stretchedLocally ? `, ${tts.stretchedLocally} time-stretched` : '';
+  lines.push(
+    `   Background image: ${plan.backgroundImage ? '1 image call' : 'skipped'}`,
+    `   TTS: ${tts.mock ? 'mock' : tts.provider}, speeds ${tts.speeds.join('/')}, ${tts.apiCalls} call(s)${stretched}`,
+    `   Video: ~${formatPlanSeconds(video.estimatedSeconds)}${video.render ? ' (render)' : ' (not rendered)'}`,
+    `   Shorts: ${shorts.length === 0 ? 'none' : `${shorts.length} × ~${shorts[0].estimatedSeconds}s`}`
+  );
+  return lines.join('\n');
+}
+
+function formatPlanSeconds(seconds: number): string {
+  return `${Math.floor(seconds / 60)}m ${String(Math.round(seconds % 60)).padStart(2, '0')}s`;
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 10) / 10;
+}
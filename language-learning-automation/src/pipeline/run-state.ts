@@ -0,0 +1,147 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { loadScript } from '../script/generator';
+import { audioFileSchema, type AudioFile } from '../tts/types';
+import type { Script } from '../script/types';
+import {
+  RUN_STATE_FILENAME,
+  runStateSchema,
+  withStageRecord,
+  type PipelineStage,
+  type RunState,
+  type StageStatus,
+} from './types';
+
+/**
+ * Load run-state.json from an output folder
+ * @returns RunState, or null if the file is missing
+ * @throws Error if the file exists but is invalid
+ */
+export async function loadRunState(outputDir: string): Promise<RunState | null> {
+  const statePath = path.join(outputDir, RUN_STATE_FILENAME);
+
+  let content: string;
+  try {
+    content = await fs.readFile(statePath, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  const result = runStateSchema.safeParse(JSON.parse(content));
+  if (!result.success) {
+    const errors = result.error.issues
+      .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      .join(', ');
+    throw new Error(`Invalid run state in ${outputDir}: ${errors}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Save run-state.json to an output folder
+ */
+export async function saveRunState(outputDir: string, state: RunState): Promise<void> {
+  await fs.mkdir(outputDir, { recursive: true });
+  await fs.writeFile(
+    path.join(outputDir, RUN_STATE_FILENAME),
+    JSON.stringify(state, null, 2),
+    'utf-8'
+  );
+}
+
+/**
+ * Record a stage result and persist the run state immediately
+ */
+export async function recordStage(
+  outputDir: string,
+  state: RunState,
+  stage: PipelineStage,
+  status: StageStatus,
+  outputs: string[] = [],
+  error?: string
+): Promise<RunState> {
+  const next = withStageRecord(state, stage, status, outputs, error);
+  await saveRunState(outputDir, next);
+  return next;
+}
+
+/**
+ * Load the checkpointed script of a previous run
+ * @returns Script if the recorded file exists and passes scriptSchema, otherwise null
+ */
+export async function loadCheckpointedScript(
+  outputDir: string,
+  state: RunState
+): Promise<Script | null> {
+  const scriptFile = state.stages.script?.outputs[0];
+  if (!scriptFile) return null;
+
+  try {
+    return await loadScript(path.join(outputDir, scriptFile));
+  } catch (error) {
+    console.warn(`   ⚠️ Checkpointed script is invalid: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Load the checkpointed audio manifest of a previous run
+ * @returns AudioFile[] if the manifest passes audioFileSchema, covers every sentence
+ *          and all audio files exist, otherwise null
+ */
+export async function loadCheckpointedAudio(
+  audioDir: string,
+  script: Script
+): Promise<AudioFile[] | null> {
+  let rawManifest: unknown;
+  try {
+    rawManifest = JSON.parse(await fs.readFile(path.join(audioDir, 'manifest.json'), 'utf-8'));
+  } catch {
+    return null;
+  }
+
+  const result = z.array(audioFileSchema).safeParse(rawManifest);
+  if (!result.success) {
+    console.warn('   ⚠️ Checkpointed audio manifest failed validation');
+    return null;
+  }
+
+  const audioFiles = result.data;
+  const coversAllSentences = script.sentences.every((s) =>
+    audioFiles.some((af) => af.sentenceId === s.id)
+  );
+  if (!coversAllSentences) return null;
+
+  for (const audioFile of audioFiles) {
+    if (!(await fileExists(audioFile.path))) return null;
+  }
+
+  return audioFiles;
+}
+
+/**
+ * Check that a stage recorded outputs and every one still exists on disk
+ */
+export async function stageOutputsExist(
+  outputDir: string,
+  state: RunState,
+  stage: PipelineStage
+): Promise<boolean> {
+  const outputs = state.stages[stage]?.outputs ?? [];
+  if (outputs.length === 0) return false;
+  for (const output of outputs) {
+    if (!(await fileExists(path.join(outputDir, output)))) return false;
+  }
+  return true;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { runStateSchema, createRunState, withStageRecord, isStageDone } from './types';
+
+describe('Pipeline Run State', () => {
+  describe('createRunState', () => {
+    it('should create a valid empty run state', () => {
+      const state = createRunState('english', { category: 'story', topic: '겨울 여행' });
+
+      expect(runStateSchema.safeParse(state).success).toBe(true);
+      expect(state.channelId).toBe('english');
+      expect(state.stages).toEqual({});
+    });
+  });
+
+  describe('withStageRecord', () => {
+    it('should record a stage without mutating the previous state', () => {
+      const state = createRunState('english');
+      const next = withStageRecord(state, 'script', 'completed', ['2026-01-08_story.json']);
+
+      expect(state.stages.script).toBeUndefined();
+      expect(next.stages.script?.status).toBe('completed');
+      expect(next.stages.script?.outputs).toEqual(['2026-01-08_story.json']);
+    });
+
+    it('should keep the error message for failed stages', () => {
+      const state = withStageRecord(createRunState('english'), 'tts', 'failed', [], 'quota');
+
+      expect(state.stages.tts?.error).toBe('quota');
+      expect(runStateSchema.safeParse(state).success).toBe(true);
+    });
+  });
+
+  describe('isStageDone', () => {
+    it('should only treat completed stages as done', () => {
+      let state = createRunState('english');
+      state = withStageRecord(state, 'script', 'completed', ['script.json']);
+      state = withStageRecord(state, 'image', 'skipped');
+      state = withStageRecord(state, 'tts', 'failed', [], 'network');
+
+      expect(isStageDone(state, 'script')).toBe(true);
+      expect(isStageDone(state, 'image')).toBe(false);
+      expect(isStageDone(state, 'tts')).toBe(false);
+      expect(isStageDone(state, 'render')).toBe(false);
+    });
+
+    it('should require the outputs the current run asks for', () => {
+      const state = withStageRecord(createRunState('english'), 'render', 'completed', [
+        'video.mp4',
+      ]);
+
+      expect(isStageDone(state, 'render', ['video.mp4'])).toBe(true);
+      expect(isStageDone(state, 'render', ['video.mp4', 'shorts'])).toBe(false);
+    });
+  });
+
+  describe('runStateSchema', () => {
+    it('should reject unknown stage names', () => {
+      const state = {
+        ...createRunState('english'),
+        stages: { upload: { status: 'completed', updatedAt: '2026-01-08T00:00:00.000Z' } },
+      };
+
+      expect(runStateSchema.safeParse(state).success).toBe(false);
+    });
+  });
+});
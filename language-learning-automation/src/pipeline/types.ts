@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { categorySchema } from '../script/types';
+
+// Pipeline stages in execution order
+export const pipelineStages = ['config', 'script', 'image', 'tts', 'render'] as const;
+export type PipelineStage = (typeof pipelineStages)[number];
+
+export const pipelineStageSchema = z.enum(pipelineStages);
+
+// Stage status
+export const stageStatusSchema = z.enum(['completed', 'skipped', 'failed']);
+export type StageStatus = z.infer<typeof stageStatusSchema>;
+
+// Single stage checkpoint
+export const stageRecordSchema = z.object({
+  status: stageStatusSchema,
+  updatedAt: z.string().min(1),
+  /** 스테이지 산출물 경로 (outputDir 기준 상대 경로) */
+  outputs: z.array(z.string()).optional().default([]),
+  error: z.string().optional(),
+});
+
+export type StageRecord = z.infer<typeof stageRecordSchema>;
+
+// Run state file (run-state.json) schema
+export const runStateSchema = z.object({
+  channelId: z.string().min(1, 'Channel ID is required'),
+  category: categorySchema.optional(),
+  topic: z.string().optional(),
+  createdAt: z.string().min(1),
+  updatedAt: z.string().min(1),
+  stages: z.record(pipelineStageSchema, stageRecordSchema).optional().default({}),
+});
+
+export type RunState = z.infer<typeof runStateSchema>;
+
+export const RUN_STATE_FILENAME = 'run-state.json';
+
+/**
+ * Create an empty run state for a new pipeline run
+ */
+export function createRunState(
+  channelId: string,
+  options: { category?: RunState['category']; topic?: string } = {}
+): RunState {
+  const now = new Date().toISOString();
+  return {
+    channelId,
+    category: options.category,
+    topic: options.topic,
+    createdAt: now,
+    updatedAt: now,
+    stages: {},
+  };
+}
+
+/**
+ * Return a new run state with the given stage recorded
+ */
+export function withStageRecord(
+  state: RunState,
+  stage: PipelineStage,
+  status: StageStatus,
+  outputs: string[] = [],
+  error?: string
+): RunState {
+  const now = new Date().toISOString();
+  return {
+    ...state,
+    updatedAt: now,
+    stages: {
+      ...state.stages,
+      [stage]: { status, updatedAt: now, outputs, ...(error ? { error } : {}) },
+    },
+  };
+}
+
+/**
+ * Check whether a stage completed in a previous run
+ * 'skipped' 은 완료가 아님 (이번 실행 옵션으로 다시 판단)
+ * @param requiredOutputs - Outputs the current run needs from the stage
+ */
+export function isStageDone(
+  state: RunState,
+  stage: PipelineStage,
+  requiredOutputs: string[] = []
+): boolean {
+  const record = state.stages[stage];
+  return (
+    record?.status === 'completed' &&
+    requiredOutputs.every((output) => record.outputs.includes(output))
+  );
+}
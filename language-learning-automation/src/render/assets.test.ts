@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import {
+  DEFAULT_NARRATION_DURATIONS,
+  buildMainInputProps,
+  buildQuizShortProps,
+  findEpisodeScriptFile,
+  getQuizShortFileName,
+  isEpisodeScriptFile,
+  toStaticAudioFiles,
+  toStaticPath,
+} from './assets';
+import type { ChannelConfig } from '../config/types';
+import type { Script } from '../script/types';
+import type { AudioFile } from '../tts/types';
+
+const config = { channelId: 'english' } as ChannelConfig;
+
+const script = {
+  channelId: 'english',
+  date: '2026-01-08',
+  category: 'conversation',
+  metadata: {
+    topic: 'Coffee',
+    style: 'casual',
+    title: { target: 'Coffee', native: '커피' },
+    characters: [],
+  },
+  sentences: [
+    {
+      id: 1,
+      speaker: 'M',
+      target: 'I need coffee.',
+      targetBlank: 'I need _______.',
+      blankAnswer: 'coffee',
+      native: '커피가 필요해요.',
+      words: [],
+      wrongWordChoices: ['copy', 'toffee'],
+    },
+    {
+      id: 2,
+      speaker: 'F',
+      target: 'Me too.',
+      targetBlank: '_______ too.',
+      blankAnswer: 'Me',
+      native: '저도요.',
+      words: [],
+    },
+  ],
+} as Script;
+
+const audioFiles: AudioFile[] = [
+  {
+    sentenceId: 1,
+    speaker: 'M',
+    speed: '1.0x',
+    path: '2026-01-08_1/audio/1_1.0x.mp3',
+    duration: 2,
+  },
+  {
+    sentenceId: 1,
+    speaker: 'M',
+    speed: '0.8x',
+    path: '2026-01-08_1/audio/1_0.8x.mp3',
+    duration: 2.5,
+  },
+];
+
+describe('Render Assets', () => {
+  it('should only treat dated JSON files as the episode script', () => {
+    expect(isEpisodeScriptFile('2026-01-08_conversation.json')).toBe(true);
+    expect(isEpisodeScriptFile('manifest.json')).toBe(false);
+    expect(isEpisodeScriptFile('run-state.json')).toBe(false);
+    expect(isEpisodeScriptFile('2026-01-08_conversation.json.bak')).toBe(false);
+    expect(
+      findEpisodeScriptFile(['run-state.json', 'background.png', '2026-01-08_story.json'])
+    ).toBe('2026-01-08_story.json');
+    expect(findEpisodeScriptFile(['run-state.json'])).toBeUndefined();
+  });
+
+  it('should build staticFile paths relative to the channel folder', () => {
+    const publicDir = path.join('output', 'english');
+    expect(toStaticPath(publicDir, path.join(publicDir, '2026-01-08_1', 'clip.mp4'))).toBe(
+      '2026-01-08_1/clip.mp4'
+    );
+    expect(
+      toStaticAudioFiles([{ ...audioFiles[0], path: '/abs/out/audio/1_1.0x.mp3' }], 'run')[0].path
+    ).toBe('run/audio/1_1.0x.mp3');
+  });
+
+  it('should build Main props with shared narration assets', () => {
+    const props = buildMainInputProps({
+      config,
+      script,
+      audioFiles,
+      backgroundImage: 'run/bg.png',
+      narration: { ...DEFAULT_NARRATION_DURATIONS, viral: 3.5, steps: [6, 7, 8, 9] },
+    });
+    expect(props.backgroundImage).toBe('run/bg.png');
+    expect(props.stepNarrationPaths).toEqual([
+      'assets/intro-step1.mp3',
+      'assets/intro-step2.mp3',
+      'assets/intro-step3.mp3',
+      'assets/intro-step4.mp3',
+    ]);
+    expect(props.viralNarrationDuration).toBe(3.5);
+    expect(props.stepNarrationDurations).toEqual([6, 7, 8, 9]);
+    expect(props.closingNarrationDuration).toBe(DEFAULT_NARRATION_DURATIONS.closing);
+  });
+
+  it('should build quiz Short props with durations and word choices', () => {
+    const episode = { config, script, audioFiles, shortsBackgroundImage: 'run/bg.png' };
+    const props = buildQuizShortProps(episode, 0, 'assets/quiz_bgm.mp3');
+
+    expect(props).toMatchObject({
+      sentenceIndex: 1,
+      episodeTitle: '커피',
+      audioDuration: 2,
+      slowAudioDuration: 2.5,
+      backgroundImage: 'run/bg.png',
+      bgmPath: 'assets/quiz_bgm.mp3',
+    });
+    expect(props?.sentence.choices.map((c) => c.text).sort()).toEqual(['coffee', 'copy', 'toffee']);
+    expect(props?.sentence.choices.filter((c) => c.isCorrect)).toEqual([
+      { text: 'coffee', isCorrect: true },
+    ]);
+    // 정상 속도 오디오가 없는 문장은 렌더링 불가
+    expect(buildQuizShortProps(episode, 1)).toBeNull();
+  });
+
+  it('should number quiz Short files from 01', () => {
+    expect(getQuizShortFileName(0)).toBe('quiz_01.mp4');
+    expect(getQuizShortFileName(11)).toBe('quiz_12.mp4');
+  });
+});
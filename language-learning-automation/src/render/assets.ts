@@ -0,0 +1,140 @@
+/**
+ * Episode asset resolution for rendering
+ * 스크립트 파일 탐색 + staticFile 경로 변환 + 컴포지션 props 구성
+ */
+
+import path from 'path';
+import type { MainProps } from '../compositions/Main';
+import {
+  generateQuizChoices,
+  type ListeningQuizShortProps,
+} from '../compositions/ListeningQuizShort';
+import type { ChannelConfig } from '../config/types';
+import { classifyLegacyFile } from '../episode/manifest';
+import type { Script } from '../script/types';
+import { type AudioFile, NORMAL_SPEED, findSlowestAudioFile, isSameSpeed } from '../tts/types';
+import type { MainNarrationDurations } from './types';
+
+export const EPISODE_BACKGROUND_FILE = 'background.png';
+export const EPISODE_SHORTS_BACKGROUND_FILE = 'episode-shorts-background.png';
+
+// 인트로/스텝 나레이션 TTS 파일 (assets/ 기준, 채널 언어 팩으로 생성)
+export const MAIN_NARRATION_FILES = {
+  viral: 'intro-viral.mp3',
+  guide: 'intro-narration.mp3',
+  steps: [1, 2, 3, 4].map((step) => `intro-step${step}.mp3`),
+  closing: 'intro-closing.mp3',
+};
+
+// 나레이션 파일을 측정할 수 없을 때의 길이 (Korean 나레이션에서 측정한 값)
+export const DEFAULT_NARRATION_DURATIONS: MainNarrationDurations = {
+  viral: 5.256,
+  guide: 3.936,
+  steps: [8.52, 8.904, 9.72, 7.464],
+  closing: 2.952,
+};
+
+/**
+ * Whether a run-folder file is the episode script
+ */
+export function isEpisodeScriptFile(fileName: string): boolean {
+  // saveScript 파일명: {date}_{category}.json (manifest.json, run-state.json 등은 제외)
+  return classifyLegacyFile(fileName) === 'script';
+}
+
+/**
+ * Episode script among the run-folder files (undefined when missing)
+ */
+export function findEpisodeScriptFile(fileNames: string[]): string | undefined {
+  return fileNames.filter(isEpisodeScriptFile).sort()[0];
+}
+
+/**
+ * staticFile() path of a file under publicDir (always forward slashes)
+ */
+export function toStaticPath(publicDir: string, filePath: string): string {
+  return path.relative(publicDir, filePath).split(path.sep).join('/');
+}
+
+/**
+ * Audio manifest entries rewritten to {folderName}/audio/{file}
+ */
+export function toStaticAudioFiles(audioFiles: AudioFile[], folderName: string): AudioFile[] {
+  return audioFiles.map((af) => ({
+    ...af,
+    path: `${folderName}/audio/${path.basename(af.path)}`,
+  }));
+}
+
+/**
+ * Main composition props (shared narration assets live in assets/)
+ */
+export function buildMainInputProps(episode: {
+  config: ChannelConfig;
+  script: Script;
+  audioFiles: AudioFile[];
+  backgroundImage: string;
+  narration: MainNarrationDurations;
+}): MainProps {
+  return {
+    config: episode.config,
+    script: episode.script,
+    audioFiles: episode.audioFiles,
+    backgroundImage: episode.backgroundImage,
+    thumbnailPath: 'assets/thumbnail.png',
+    viralNarrationPath: `assets/${MAIN_NARRATION_FILES.viral}`,
+    viralNarrationDuration: episode.narration.viral,
+    guideNarrationPath: `assets/${MAIN_NARRATION_FILES.guide}`,
+    guideNarrationDuration: episode.narration.guide,
+    stepNarrationPaths: MAIN_NARRATION_FILES.steps.map((file) => `assets/${file}`),
+    stepNarrationDurations: episode.narration.steps,
+    closingNarrationPath: `assets/${MAIN_NARRATION_FILES.closing}`,
+    closingNarrationDuration: episode.narration.closing,
+    stepTransitionTtsPaths: [1, 2, 3, 4].map((step) => `assets/step-transition-${step}.mp3`),
+    stepTransitionBellPath: 'assets/bell.wav',
+    endingBackgroundPath: 'assets/intro/background.png',
+  };
+}
+
+/**
+ * ListeningQuizShort props for one sentence (null when its normal-speed audio is missing)
+ */
+export function buildQuizShortProps(
+  episode: {
+    config: ChannelConfig;
+    script: Script;
+    audioFiles: AudioFile[];
+    shortsBackgroundImage: string;
+  },
+  index: number,
+  bgmPath?: string
+): ListeningQuizShortProps | null {
+  const sentence = episode.script.sentences[index];
+  const audioFile = episode.audioFiles.find(
+    (af) => af.sentenceId === sentence.id && isSameSpeed(af.speed, NORMAL_SPEED)
+  );
+  if (!audioFile) return null;
+
+  const slowAudioFile = findSlowestAudioFile(episode.audioFiles, sentence.id);
+  return {
+    // wrongWordChoices 가 있으면 단어 기반 선택지, 없으면 폴백 생성
+    sentence: { ...sentence, choices: generateQuizChoices(sentence) },
+    audioFile,
+    slowAudioFile,
+    config: episode.config,
+    backgroundImage: episode.shortsBackgroundImage,
+    sentenceIndex: index + 1,
+    episodeTitle: episode.script.metadata.title.native,
+    // 동적 타이밍용 duration
+    audioDuration: audioFile.duration,
+    slowAudioDuration: slowAudioFile?.duration,
+    bgmPath,
+  };
+}
+
+/**
+ * Quiz Short file name (quiz_01.mp4 ...)
+ */
+export function getQuizShortFileName(index: number): string {
+  return `quiz_${String(index + 1).padStart(2, '0')}.mp4`;
+}
@@ -0,0 +1,4 @@
+export * from './types';
+export * from './assets';
+export * from './scheduler';
+export * from './service';
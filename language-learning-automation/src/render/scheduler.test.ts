@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canReuseRender,
+  createRenderPropsHash,
+  formatShortsRenderSummary,
+  getFailedShorts,
+  resolveSchedulerOptions,
+  runRenderQueue,
+} from './scheduler';
+import type { CatInterviewShortProps } from '../compositions/CatInterviewShort';
+import type { ShortRenderResult } from './types';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const interviewProps = (theme: string): CatInterviewShortProps => ({
+  dialogues: [{ question: '추워요?', answer: "It's cold!" }],
+  videoPath: 'clip.mp4',
+  theme,
+});
+
+describe('Render Scheduler', () => {
+  it('should split CPU cores between workers', () => {
+    expect(resolveSchedulerOptions({}, 8)).toEqual({ workers: 2, retries: 1, concurrency: 4 });
+    expect(resolveSchedulerOptions({ workers: 3 }, 2)).toMatchObject({ concurrency: 1 });
+    expect(resolveSchedulerOptions({ workers: 0, retries: -1, concurrency: '50%' }, 8)).toEqual({
+      workers: 1,
+      retries: 0,
+      concurrency: '50%',
+    });
+  });
+
+  it('should keep at most `workers` renders in flight and return results in order', async () => {
+    let active = 0;
+    let peak = 0;
+    const outcomes = await runRenderQueue(
+      [30, 10, 20, 5, 15],
+      async (ms) => {
+        active++;
+        peak = Math.max(peak, active);
+        await sleep(ms);
+        active--;
+        return ms * 2;
+      },
+      { workers: 2, retries: 0 }
+    );
+
+    expect(peak).toBe(2);
+    expect(outcomes.map((o) => o.value)).toEqual([60, 20, 40, 10, 30]);
+  });
+
+  it('should retry failed renders and report the final error', async () => {
+    const calls: Record<string, number> = {};
+    const retried: string[] = [];
+    const outcomes = await runRenderQueue(
+      ['flaky', 'broken'],
+      async (item, attempt) => {
+        calls[item] = attempt;
+        if (item === 'broken' || attempt === 1) throw new Error(`${item} failed`);
+        return item;
+      },
+      { workers: 2, retries: 2, onRetry: (item) => retried.push(item) }
+    );
+
+    expect(outcomes[0]).toEqual({ item: 'flaky', attempts: 2, value: 'flaky' });
+    expect(outcomes[1]).toEqual({ item: 'broken', attempts: 3, error: 'broken failed' });
+    expect(retried).toEqual(['flaky', 'broken', 'broken']);
+  });
+
+  it('should hash props deterministically and reuse only matching renders', () => {
+    const hash = createRenderPropsHash('CatInterviewShort', interviewProps('Snow'));
+    expect(createRenderPropsHash('CatInterviewShort', interviewProps('Snow'))).toBe(hash);
+    expect(createRenderPropsHash('CatInterviewShort', interviewProps('Rain'))).not.toBe(hash);
+
+    const previous: ShortRenderResult = {
+      sentenceId: 1,
+      file: 'quiz_01.mp4',
+      status: 'rendered',
+      propsHash: hash,
+      attempts: 1,
+    };
+    expect(canReuseRender(previous, hash, true)).toBe(true);
+    expect(canReuseRender(previous, hash, false)).toBe(false);
+    expect(canReuseRender(previous, 'other', true)).toBe(false);
+    expect(canReuseRender({ ...previous, status: 'failed' }, hash, true)).toBe(false);
+    expect(canReuseRender(undefined, hash, true)).toBe(false);
+  });
+
+  it('should summarise a batch per Short', () => {
+    const summary: Parameters<typeof formatShortsRenderSummary>[0] = {
+      compositionId: 'ListeningQuizShort',
+      workers: 2,
+      concurrency: 2,
+      startedAt: '2026-01-08T10:00:00.000Z',
+      finishedAt: '2026-01-08T10:01:30.000Z',
+      shorts: [
+        {
+          sentenceId: 1,
+          file: 'quiz_01.mp4',
+          status: 'rendered',
+          propsHash: 'a',
+          attempts: 1,
+          sizeBytes: 2 * 1024 * 1024,
+          durationSeconds: 12.5,
+        },
+        { sentenceId: 2, file: 'quiz_02.mp4', status: 'skipped', propsHash: 'b', attempts: 0 },
+        {
+          sentenceId: 3,
+          file: 'quiz_03.mp4',
+          status: 'failed',
+          propsHash: 'c',
+          attempts: 2,
+          error: 'timeout',
+        },
+      ],
+    };
+    const text = formatShortsRenderSummary(summary);
+
+    expect(getFailedShorts(summary).map((s) => s.file)).toEqual(['quiz_03.mp4']);
+    expect(text).toContain('1 rendered · 1 skipped · 1 failed (90.0s, 2 workers)');
+    expect(text).toContain('quiz_01.mp4 (2.00 MB, 12.5s)');
+    expect(text).toContain('❌ quiz_03.mp4 (timeout)');
+  });
+});
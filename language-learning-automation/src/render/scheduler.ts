@@ -0,0 +1,141 @@
+/**
+ * Render scheduler
+ * 여러 렌더 작업을 워커 수만큼 동시에 실행하고, 실패한 작업은 재시도
+ */
+
+import { createHash } from 'crypto';
+import type {
+  CompositionId,
+  CompositionPropsMap,
+  RenderSchedulerOptions,
+  ShortRenderResult,
+  ShortsRenderSummary,
+} from './types';
+
+export const DEFAULT_RENDER_WORKERS = 2;
+export const DEFAULT_RENDER_RETRIES = 1;
+
+export interface QueueOutcome<T, R> {
+  item: T;
+  attempts: number;
+  value?: R;
+  error?: string;
+}
+
+/**
+ * Resolved scheduler settings (workers ≥ 1, retries ≥ 0)
+ */
+export function resolveSchedulerOptions(
+  options: RenderSchedulerOptions,
+  cpuCount: number
+): { workers: number; retries: number; concurrency: number | string | null } {
+  const workers = Math.max(1, Math.floor(options.workers ?? DEFAULT_RENDER_WORKERS));
+  const retries = Math.max(0, Math.floor(options.retries ?? DEFAULT_RENDER_RETRIES));
+  // 워커끼리 CPU 코어를 나눠 씀
+  const concurrency =
+    options.concurrency !== undefined
+      ? options.concurrency
+      : Math.max(1, Math.floor(cpuCount / workers));
+  return { workers, retries, concurrency };
+}
+
+/**
+ * Run items through `task` with at most `workers` in flight
+ * @returns Outcomes in item order (error set when every attempt failed)
+ */
+export async function runRenderQueue<T, R>(
+  items: T[],
+  task: (item: T, attempt: number) => Promise<R>,
+  options: { workers: number; retries: number; onRetry?: (item: T, error: string) => void }
+): Promise<Array<QueueOutcome<T, R>>> {
+  const outcomes: Array<QueueOutcome<T, R>> = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      const item = items[index];
+      let attempts = 0;
+      let error: string | undefined;
+
+      while (attempts <= options.retries) {
+        attempts++;
+        try {
+          outcomes[index] = { item, attempts, value: await task(item, attempts) };
+          error = undefined;
+          break;
+        } catch (e) {
+          error = e instanceof Error ? e.message : String(e);
+          if (attempts <= options.retries) options.onRetry?.(item, error);
+        }
+      }
+      if (error !== undefined) outcomes[index] = { item, attempts, error };
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(options.workers, items.length) }, () => worker())
+  );
+  return outcomes;
+}
+
+/**
+ * Deterministic hash of a render input (same props → same output)
+ */
+export function createRenderPropsHash<Id extends CompositionId>(
+  compositionId: Id,
+  inputProps: CompositionPropsMap[Id]
+): string {
+  const payload = JSON.stringify([compositionId, inputProps]);
+  return createHash('sha256').update(payload).digest('hex').slice(0, 16);
+}
+
+/**
+ * Whether a previous render can be kept (file still there and rendered from the same props)
+ */
+export function canReuseRender(
+  previous: ShortRenderResult | undefined,
+  propsHash: string,
+  outputExists: boolean
+): boolean {
+  return (
+    outputExists &&
+    previous !== undefined &&
+    previous.status !== 'failed' &&
+    previous.propsHash === propsHash
+  );
+}
+
+/**
+ * Shorts that failed in a batch (the batch only counts as done when empty)
+ */
+export function getFailedShorts(summary: ShortsRenderSummary): ShortRenderResult[] {
+  return summary.shorts.filter((s) => s.status === 'failed');
+}
+
+/**
+ * Console summary of a Shorts batch
+ */
+export function formatShortsRenderSummary(summary: ShortsRenderSummary): string {
+  const count = (status: ShortRenderResult['status']) =>
+    summary.shorts.filter((s) => s.status === status).length;
+  const elapsed = (Date.parse(summary.finishedAt) - Date.parse(summary.startedAt)) / 1000;
+
+  const lines = [
+    `📊 Shorts: ${count('rendered')} rendered · ${count('skipped')} skipped · ${count('failed')} failed (${elapsed.toFixed(1)}s, ${summary.workers} workers)`,
+  ];
+  for (const short of summary.shorts) {
+    const icon = { rendered: '✅', skipped: '⏭️', failed: '❌' }[short.status];
+    const detail =
+      short.status === 'failed'
+        ? short.error
+        : [
+            short.sizeBytes !== undefined ? `${(short.sizeBytes / 1024 / 1024).toFixed(2)} MB` : '',
+            short.durationSeconds !== undefined ? `${short.durationSeconds.toFixed(1)}s` : '',
+          ]
+            .filter(Boolean)
+            .join(', ');
+    lines.push(`   ${icon} ${short.file}${detail ? ` (${detail})` : ''}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,473 @@
+/**
+ * Render service
+ * 채널별 Remotion 번들을 한 번만 만들고 등록된 컴포지션을 ID로 렌더링
+ * (publicDir = output/{channelId} → 공용 assets/ 와 실행 폴더를 함께 서빙)
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfig } from '../config/loader';
+import type { Script } from '../script/types';
+import type { AudioFile } from '../tts/types';
+import { buildVideoTimeline, getTimelineChapters, type TimelineChapter } from '../timeline';
+import { writeSubtitleFiles, type SubtitleFile } from '../subtitles';
+import { getLocalePack } from '../i18n';
+import { removeVideoMetadata } from '../video/utils';
+import { getAudioDuration } from '../tts/duration';
+import type { ListeningQuizShortProps } from '../compositions/ListeningQuizShort';
+import { openEpisodeManifest, recordEpisodeArtifacts, resolveEpisodeFile } from '../episode';
+import {
+  DEFAULT_NARRATION_DURATIONS,
+  EPISODE_BACKGROUND_FILE,
+  MAIN_NARRATION_FILES,
+  buildMainInputProps,
+  buildQuizShortProps,
+  getQuizShortFileName,
+  toStaticAudioFiles,
+  toStaticPath,
+} from './assets';
+import {
+  canReuseRender,
+  createRenderPropsHash,
+  resolveSchedulerOptions,
+  runRenderQueue,
+} from './scheduler';
+import {
+  SHORTS_SUMMARY_FILENAME,
+  shortsRenderSummarySchema,
+  type CompositionId,
+  type EpisodeAssets,
+  type MainNarrationDurations,
+  type RenderProgressHandler,
+  type RenderRequest,
+  type RenderResult,
+  type RenderSchedulerOptions,
+  type ShortRenderResult,
+  type ShortsRenderSummary,
+} from './types';
+
+const OUTPUT_DIR = path.join(process.cwd(), 'output');
+const ENTRY_POINT = path.join(process.cwd(), 'src/index.ts');
+
+// channelId → bundle location (같은 프로세스에서 재사용)
+const bundleCache = new Map<string, Promise<string>>();
+
+/**
+ * publicDir of a channel (output/{channelId})
+ */
+export function getChannelPublicDir(channelId: string): string {
+  return path.join(OUTPUT_DIR, channelId);
+}
+
+/**
+ * Remotion bundle for a channel (bundled once per process)
+ */
+export function getRenderBundle(channelId: string): Promise<string> {
+  let bundleLocation = bundleCache.get(channelId);
+  if (!bundleLocation) {
+    bundleLocation = createBundle(channelId);
+    bundleCache.set(channelId, bundleLocation);
+    // 실패한 번들은 다음 호출에서 다시 시도
+    bundleLocation.catch(() => bundleCache.delete(channelId));
+  }
+  return bundleLocation;
+}
+
+async function createBundle(channelId: string): Promise<string> {
+  const { bundle } = await import('@remotion/bundler');
+  console.log(`📦 Bundling Remotion project (${channelId})...`);
+  return bundle({
+    entryPoint: ENTRY_POINT,
+    webpackOverride: (cfg) => cfg,
+    publicDir: getChannelPublicDir(channelId),
+  });
+}
+
+/**
+ * Render a registered composition with typed input props
+ */
+export async function renderComposition<Id extends CompositionId>(
+  request: RenderRequest<Id>
+): Promise<RenderResult> {
+  const { renderMedia, selectComposition } = await import('@remotion/renderer');
+  const serveUrl = await getRenderBundle(request.channelId);
+  const inputProps: Record<string, unknown> = request.inputProps;
+
+  const composition = await selectComposition({
+    serveUrl,
+    id: request.compositionId,
+    inputProps,
+    timeoutInMilliseconds: request.timeoutInMilliseconds,
+    puppeteerInstance: request.browser,
+  });
+
+  await fs.mkdir(path.dirname(request.outputPath), { recursive: true });
+  await renderMedia({
+    composition,
+    serveUrl,
+    codec: 'h264',
+    outputLocation: request.outputPath,
+    inputProps,
+    timeoutInMilliseconds: request.timeoutInMilliseconds,
+    concurrency: request.concurrency,
+    puppeteerInstance: request.browser,
+    onProgress: ({ progress }) => request.onProgress?.(progress),
+  });
+
+  if (request.removeMetadata !== false) {
+    await removeVideoMetadata(request.outputPath, true);
+  }
+
+  const stats = await fs.stat(request.outputPath);
+  return {
+    outputPath: request.outputPath,
+    durationInFrames: composition.durationInFrames,
+    fps: composition.fps,
+    sizeBytes: stats.size,
+  };
+}
+
+/**
+ * Progress handler that rewrites one stdout line
+ */
+export function createProgressLogger(label = 'Progress'): RenderProgressHandler {
+  return (progress) => {
+    process.stdout.write(`\r   ${label}: ${(progress * 100).toFixed(1)}%`);
+  };
+}
+
+/**
+ * Resolve script, config, audio and backgrounds of a run folder
+ * @param outputDir - Run folder (기본: output/{channelId}/{folderName})
+ */
+export async function loadEpisodeAssets(
+  channelId: string,
+  outputDir: string
+): Promise<EpisodeAssets> {
+  const publicDir = getChannelPublicDir(channelId);
+  const folderName = toStaticPath(publicDir, outputDir);
+  const manifest = await openEpisodeManifest(outputDir, channelId);
+
+  const scriptPath = resolveEpisodeFile(outputDir, manifest, 'script');
+  if (!scriptPath) {
+    throw new Error(`No script file found in ${outputDir}`);
+  }
+  const script: Script = JSON.parse(await fs.readFile(scriptPath, 'utf-8'));
+  const config = await loadConfig(channelId);
+
+  const audioManifestPath = resolveEpisodeFile(outputDir, manifest, 'audio-manifest');
+  if (!audioManifestPath) {
+    throw new Error(`No audio manifest found in ${outputDir}`);
+  }
+  const rawAudioFiles: AudioFile[] = JSON.parse(await fs.readFile(audioManifestPath, 'utf-8'));
+
+  // 배경 이미지는 --skip-image 실행에서 기록되지 않을 수 있음 → 기본 파일명
+  const backgroundImage = toStaticPath(
+    publicDir,
+    resolveEpisodeFile(outputDir, manifest, 'background') ??
+      path.join(outputDir, EPISODE_BACKGROUND_FILE)
+  );
+  const shortsBackground = resolveEpisodeFile(outputDir, manifest, 'shorts-background');
+
+  return {
+    channelId,
+    outputDir,
+    folderName,
+    scriptPath,
+    script,
+    config,
+    audioFiles: toStaticAudioFiles(rawAudioFiles, folderName),
+    backgroundImage,
+    shortsBackgroundImage: shortsBackground
+      ? toStaticPath(publicDir, shortsBackground)
+      : backgroundImage,
+    narration: await measureNarrationDurations(path.join(publicDir, 'assets')),
+  };
+}
+
+/**
+ * Narration lengths measured from the channel's TTS assets
+ * (언어 팩마다 길이가 다름 - 파일이 없으면 기본값)
+ */
+export async function measureNarrationDurations(
+  assetsDir: string
+): Promise<MainNarrationDurations> {
+  const measure = async (file: string, fallback: number): Promise<number> => {
+    try {
+      return await getAudioDuration(path.join(assetsDir, file));
+    } catch {
+      console.warn(`   ⚠️ Could not measure ${file}, using default: ${fallback}s`);
+      return fallback;
+    }
+  };
+
+  return {
+    viral: await measure(MAIN_NARRATION_FILES.viral, DEFAULT_NARRATION_DURATIONS.viral),
+    guide: await measure(MAIN_NARRATION_FILES.guide, DEFAULT_NARRATION_DURATIONS.guide),
+    steps: await Promise.all(
+      MAIN_NARRATION_FILES.steps.map((file, i) =>
+        measure(file, DEFAULT_NARRATION_DURATIONS.steps[i])
+      )
+    ),
+    closing: await measure(MAIN_NARRATION_FILES.closing, DEFAULT_NARRATION_DURATIONS.closing),
+  };
+}
+
+export interface EpisodeVideoResult extends RenderResult {
+  chapters: TimelineChapter[];
+  uploadInfoPath: string;
+  subtitleFiles: SubtitleFile[];
+}
+
+/**
+ * Render the full episode video (Main) with upload_info.txt and subtitles
+ */
+export async function renderEpisodeVideo(
+  episode: EpisodeAssets,
+  onProgress: RenderProgressHandler = createProgressLogger()
+): Promise<EpisodeVideoResult> {
+  const { script, config, outputDir } = episode;
+  const videoPath = path.join(outputDir, 'video.mp4');
+  console.log(`🎬 Rendering video to: ${videoPath}`);
+  const result = await renderComposition({
+    channelId: episode.channelId,
+    compositionId: 'Main',
+    inputProps: buildMainInputProps(episode),
+    outputPath: videoPath,
+    onProgress,
+  });
+  console.log('');
+
+  // Main 과 같은 타임라인으로 챕터 / 자막 생성
+  const timelineLabels = getLocalePack(config.meta.nativeLanguage).timeline;
+  const videoTimeline = buildVideoTimeline({
+    script,
+    audioFiles: episode.audioFiles,
+    content: config.content,
+    narration: episode.narration,
+  });
+  const chapters = getTimelineChapters(videoTimeline, timelineLabels);
+
+  const uploadInfoPath = path.join(outputDir, 'upload_info.txt');
+  const timelineText = chapters.map((t) => `${t.time} ${t.label}`).join('\n');
+  const uploadInfo = `${timelineLabels.timelineHeader}:
+${timelineText}
+
+${timelineLabels.titleLabel}: ${script.metadata.title.target}
+${timelineLabels.topicLabel}: ${script.metadata.topic}
+${timelineLabels.categoryLabel}: ${script.category}
+`;
+  await fs.writeFile(uploadInfoPath, uploadInfo, 'utf-8');
+
+  const subtitleFiles = await writeSubtitleFiles(outputDir, videoTimeline, script);
+
+  await recordEpisodeArtifacts(
+    outputDir,
+    [
+      { kind: 'video', path: videoPath, generator: 'render/Main' },
+      { kind: 'upload-info', path: uploadInfoPath, generator: 'render/service' },
+      ...subtitleFiles.map((f) => ({
+        kind: 'subtitle' as const,
+        path: f.path,
+        generator: 'subtitles',
+      })),
+    ],
+    episode.channelId
+  );
+
+  return { ...result, chapters, uploadInfoPath, subtitleFiles };
+}
+
+export interface QuizShortsOptions extends RenderSchedulerOptions {
+  /** Folder inside the run folder (default: shorts) */
+  dirName?: string;
+  /** staticFile path of the quiz BGM */
+  bgmPath?: string;
+}
+
+interface QuizShortJob {
+  sentenceId: number;
+  file: string;
+  label: string;
+  inputProps: ListeningQuizShortProps;
+  propsHash: string;
+}
+
+/**
+ * Render one ListeningQuizShort per sentence with the render scheduler
+ * 같은 props 로 이미 렌더링된 Shorts 는 건너뛰고, 결과를 render-summary.json 에 기록
+ */
+export async function renderEpisodeQuizShorts(
+  episode: EpisodeAssets,
+  options: QuizShortsOptions = {}
+): Promise<ShortsRenderSummary> {
+  const compositionId = 'ListeningQuizShort';
+  const shortsDir = path.join(episode.outputDir, options.dirName ?? 'shorts');
+  await fs.mkdir(shortsDir, { recursive: true });
+
+  const { workers, retries, concurrency } = resolveSchedulerOptions(options, os.cpus().length);
+  const previous = await loadShortsRenderSummary(shortsDir);
+  const startedAt = new Date().toISOString();
+
+  const results: ShortRenderResult[] = [];
+  const jobs: QuizShortJob[] = [];
+  const total = episode.script.sentences.length;
+
+  for (let i = 0; i < total; i++) {
+    const sentence = episode.script.sentences[i];
+    const inputProps = buildQuizShortProps(episode, i, options.bgmPath);
+    if (!inputProps) {
+      console.warn(`   ⚠️ No audio for sentence ${sentence.id}, skipping`);
+      continue;
+    }
+
+    const file = getQuizShortFileName(i);
+    const propsHash = createRenderPropsHash(compositionId, inputProps);
+    const last = previous?.shorts.find((s) => s.file === file);
+    if (canReuseRender(last, propsHash, await fileExists(path.join(shortsDir, file)))) {
+      results.push({ ...(last as ShortRenderResult), status: 'skipped', attempts: 0 });
+      continue;
+    }
+    jobs.push({
+      sentenceId: sentence.id,
+      file,
+      label: `[${i + 1}/${total}]`,
+      inputProps,
+      propsHash,
+    });
+  }
+
+  console.log(
+    `📱 Rendering ${jobs.length} Quiz Shorts (${results.length} up to date, ${workers} workers, concurrency ${concurrency ?? 'auto'})...`
+  );
+
+  if (jobs.length > 0) {
+    const { openBrowser } = await import('@remotion/renderer');
+    // 번들 / 브라우저는 모든 Shorts 가 공유
+    await getRenderBundle(episode.channelId);
+    const browser = await openBrowser('chrome');
+
+    try {
+      const outcomes = await runRenderQueue(
+        jobs,
+        async (job) => {
+          const start = Date.now();
+          const result = await renderComposition({
+            channelId: episode.channelId,
+            compositionId,
+            inputProps: job.inputProps,
+            outputPath: path.join(shortsDir, job.file),
+            timeoutInMilliseconds: 120000,
+            concurrency,
+            browser,
+          });
+          console.log(
+            `   ✅ ${job.label} ${job.file} (${(result.sizeBytes / 1024 / 1024).toFixed(2)} MB)`
+          );
+          return { result, renderSeconds: (Date.now() - start) / 1000 };
+        },
+        {
+          workers,
+          retries,
+          onRetry: (job, error) => console.warn(`   🔁 ${job.label} ${job.file} retry: ${error}`),
+        }
+      );
+
+      for (const { item, attempts, value, error } of outcomes) {
+        const base = { sentenceId: item.sentenceId, file: item.file, propsHash: item.propsHash };
+        if (value) {
+          results.push({
+            ...base,
+            status: 'rendered',
+            attempts,
+            sizeBytes: value.result.sizeBytes,
+            durationSeconds: round(value.result.durationInFrames / value.result.fps),
+            renderSeconds: round(value.renderSeconds),
+          });
+        } else {
+          console.error(`   ❌ ${item.label} ${item.file} failed: ${error}`);
+          results.push({ ...base, status: 'failed', attempts, error });
+        }
+      }
+    } finally {
+      await browser.close({ silent: true });
+    }
+  }
+
+  const summary: ShortsRenderSummary = {
+    compositionId,
+    workers,
+    concurrency,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    shorts: results.sort((a, b) => a.file.localeCompare(b.file)),
+  };
+  const summaryPath = path.join(shortsDir, SHORTS_SUMMARY_FILENAME);
+  await fs.writeFile(summaryPath, JSON.stringify(summary, null, 2), 'utf-8');
+
+  await recordEpisodeArtifacts(
+    episode.outputDir,
+    [
+      ...results
+        .filter((s) => s.status === 'rendered')
+        .map((s) => ({
+          kind: 'short' as const,
+          path: path.join(shortsDir, s.file),
+          generator: `render/${compositionId}`,
+        })),
+      { kind: 'render-summary', path: summaryPath, generator: 'render/scheduler' },
+    ],
+    episode.channelId
+  );
+  return summary;
+}
+
+/**
+ * Previous batch summary of a Shorts folder (null when missing or invalid)
+ */
+export async function loadShortsRenderSummary(
+  shortsDir: string
+): Promise<ShortsRenderSummary | null> {
+  try {
+    const raw = JSON.parse(
+      await fs.readFile(path.join(shortsDir, SHORTS_SUMMARY_FILENAME), 'utf-8')
+    );
+    const result = shortsRenderSummarySchema.safeParse(raw);
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Copy the quiz BGM into the channel assets (채널 BGM → english 폴백)
+ * @returns staticFile path, or undefined when no BGM exists
+ */
+export async function prepareQuizBgm(channelId: string): Promise<string | undefined> {
+  const candidates = [channelId, 'english'].map((id) =>
+    path.join(process.cwd(), 'assets', id, 'quiz_bgm.mp3')
+  );
+  const targetPath = path.join(getChannelPublicDir(channelId), 'assets', 'quiz_bgm.mp3');
+
+  for (const source of candidates) {
+    if (!(await fileExists(source))) continue;
+    await fs.mkdir(path.dirname(targetPath), { recursive: true });
+    await fs.copyFile(source, targetPath);
+    return toStaticPath(getChannelPublicDir(channelId), targetPath);
+  }
+  return undefined;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,132 @@
+import { z } from 'zod';
+import type { HeadlessBrowser } from '@remotion/renderer';
+import type { MainProps } from '../compositions/Main';
+import type { ListeningQuizShortProps } from '../compositions/ListeningQuizShort';
+import type { SingleSentenceShortProps } from '../compositions/SingleSentenceShort';
+import type { CatInterviewShortProps } from '../compositions/CatInterviewShort';
+import type { ChannelConfig } from '../config/types';
+import type { Script } from '../script/types';
+import type { AudioFile } from '../tts/types';
+
+// Every props type must be passable as Remotion inputProps (interface 는 index signature 가 없어 불가)
+type InputPropsMap<T extends { [Id in keyof T]: Record<string, unknown> }> = T;
+
+/**
+ * Input props of each composition registered in Root.tsx (렌더 가능한 컴포지션 ID → props)
+ */
+export type CompositionPropsMap = InputPropsMap<{
+  Main: MainProps;
+  ListeningQuizShort: ListeningQuizShortProps;
+  SingleSentenceShort: SingleSentenceShortProps;
+  CatInterviewShort: CatInterviewShortProps;
+}>;
+
+export type CompositionId = keyof CompositionPropsMap;
+
+/** Render progress (0-1) */
+export type RenderProgressHandler = (progress: number) => void;
+
+/**
+ * Single composition render request
+ */
+export interface RenderRequest<Id extends CompositionId> {
+  /** Bundle / publicDir owner (output/{channelId}) */
+  channelId: string;
+  compositionId: Id;
+  inputProps: CompositionPropsMap[Id];
+  outputPath: string;
+  onProgress?: RenderProgressHandler;
+  /** selectComposition / renderMedia timeout */
+  timeoutInMilliseconds?: number;
+  /** Strip Remotion metadata with ffmpeg afterwards (default: true) */
+  removeMetadata?: boolean;
+  /** Frames rendered in parallel by Remotion (number or '50%', default: Remotion's) */
+  concurrency?: number | string | null;
+  /** Shared headless browser (여러 렌더에서 재사용) */
+  browser?: HeadlessBrowser;
+}
+
+export interface RenderResult {
+  outputPath: string;
+  durationInFrames: number;
+  fps: number;
+  sizeBytes: number;
+}
+
+/**
+ * Intro/step narration lengths in seconds (Main timeline)
+ */
+export interface MainNarrationDurations {
+  viral: number;
+  guide: number;
+  steps: number[];
+  closing: number;
+}
+
+/**
+ * Episode run folder resolved for rendering
+ * 모든 경로는 staticFile() 기준 (publicDir = output/{channelId})
+ */
+export interface EpisodeAssets {
+  channelId: string;
+  /** Absolute run folder (output/{channelId}/{folderName}) */
+  outputDir: string;
+  /** Run folder relative to publicDir */
+  folderName: string;
+  scriptPath: string;
+  script: Script;
+  config: ChannelConfig;
+  audioFiles: AudioFile[];
+  backgroundImage: string;
+  /** 9:16 background when generated, otherwise the 16:9 one */
+  shortsBackgroundImage: string;
+  /** Measured from the channel's narration TTS (assets/) */
+  narration: MainNarrationDurations;
+}
+
+/**
+ * Shorts render scheduler settings
+ */
+export interface RenderSchedulerOptions {
+  /** Shorts rendered at the same time (default: 2) */
+  workers?: number;
+  /** Remotion frame concurrency per render (default: CPU cores / workers) */
+  concurrency?: number | string | null;
+  /** Extra attempts for a failed render (default: 1) */
+  retries?: number;
+}
+
+export const SHORTS_SUMMARY_FILENAME = 'render-summary.json';
+
+// rendered: 새로 렌더링 / skipped: 같은 props 로 이미 렌더링됨 / failed: 재시도 후에도 실패
+export const shortRenderStatusSchema = z.enum(['rendered', 'skipped', 'failed']);
+export type ShortRenderStatus = z.infer<typeof shortRenderStatusSchema>;
+
+export const shortRenderResultSchema = z.object({
+  sentenceId: z.number().int(),
+  file: z.string().min(1),
+  status: shortRenderStatusSchema,
+  /** sha256 of compositionId + inputProps (같으면 재렌더링 생략) */
+  propsHash: z.string().min(1),
+  attempts: z.number().int().nonnegative(),
+  sizeBytes: z.number().int().nonnegative().optional(),
+  /** Video length in seconds */
+  durationSeconds: z.number().nonnegative().optional(),
+  /** Wall time spent rendering (seconds) */
+  renderSeconds: z.number().nonnegative().optional(),
+  error: z.string().optional(),
+});
+
+export type ShortRenderResult = z.infer<typeof shortRenderResultSchema>;
+
+// Per-Short results of one batch (shorts/render-summary.json)
+export const shortsRenderSummarySchema = z.object({
+  compositionId: z.string().min(1),
+  workers: z.number().int().positive(),
+  concurrency: z.union([z.number(), z.string()]).nullable(),
+  startedAt: z.string().min(1),
+  finishedAt: z.string().min(1),
+  shorts: z.array(shortRenderResultSchema).default([]),
+});
+
+export type ShortsRenderSummary = z.infer<typeof shortsRenderSummarySchema>;
@@ -283,12 +283,15 @@ export const CULTURAL_INTERESTS: Record<string, CulturalCategory[]> = {
 };
 
 /**
- * 랜덤으로 문화 카테고리 선택
+ * 랜덤으로 문화 카테고리 선택 (random 을 주입하면 재현 가능)
  */
-export function getRandomCulturalCategory(targetLanguage: string): CulturalCategory | null {
+export function getRandomCulturalCategory(
+  targetLanguage: string,
+  random: () => number = Math.random
+): CulturalCategory | null {
   const interests = CULTURAL_INTERESTS[targetLanguage];
   if (!interests || interests.length === 0) return null;
-  return interests[Math.floor(Math.random() * interests.length)];
+  return interests[Math.floor(random() * interests.length)];
 }
 
 /**
@@ -311,10 +314,13 @@ export function getRandomSituation(targetLanguage: string, categoryName?: string
 }
 
 /**
- * 문화적 컨텍스트 프롬프트 생성
+ * 문화적 컨텍스트 프롬프트 생성 (카테고리를 주지 않으면 랜덤)
  */
-export function buildCulturalContextPrompt(targetLanguage: string, nativeLanguage: string): string {
-  const category = getRandomCulturalCategory(targetLanguage);
+export function buildCulturalContextPrompt(
+  targetLanguage: string,
+  nativeLanguage: string,
+  category: CulturalCategory | null = getRandomCulturalCategory(targetLanguage)
+): string {
   if (!category) {
     return '';
   }
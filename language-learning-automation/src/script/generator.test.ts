@@ -43,7 +43,6 @@ describe('Script Generator', () => {
     },
     content: {
       sentenceCount: 5,
-      repeatCount: 10,
       difficulty: 'intermediate',
     },
     uiLabels: {
@@ -1,32 +1,39 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { promises as fs } from 'fs';
 import path from 'path';
-import { scriptSchema, type Script, type Category } from './types';
+import { scriptSchema, sentenceSchema, type Script, type Category, type Sentence } from './types';
 import type { ChannelConfig } from '../config/types';
-import { generateScriptPrompt, getCategoryForDay } from './prompts';
+import { generateScriptPrompt, generateSentencePrompt, getCategoryForDay } from './prompts';
+import { CATEGORY_SCRIPT_FORMAT } from './category-tones';
+import {
+  SCRIPT_BLANK,
+  cleanWrongWordChoices,
+  getSentencesToRepair,
+  lintScript,
+  type ScriptDiagnostic,
+} from './lint';
 import { selectTimlyTopic } from './topic-selector';
-import { GEMINI_MODELS, getGeminiApiKey } from '../config/gemini';
-
-// Initialize Gemini client
-function getGeminiClient() {
-  const apiKey = getGeminiApiKey();
-  return new GoogleGenerativeAI(apiKey);
-}
+import { getEmbeddingProvider } from '../embedding/provider';
+import { getTextProvider } from '../llm/provider';
+import type { TextProvider } from '../llm/types';
+import {
+  filterByDifficulty,
+  formatScriptDifficulty,
+  withScriptDifficulty,
+} from '../difficulty/analyzer';
 
 /**
- * Generate a script using Gemini API with candidate selection
+ * Generate a script using the channel's LLM provider with candidate selection
  */
 export async function generateScript(
   config: ChannelConfig,
   category?: Category,
   topic?: string,
-  candidateCount: number = 3
+  candidateCount: number = 3,
+  provider: TextProvider = getTextProvider(config.llm)
 ): Promise<Script> {
-  const genAI = getGeminiClient();
-  const model = genAI.getGenerativeModel({ model: GEMINI_MODELS.text });
-
   // Use provided category or get from current day
-  const scriptCategory = category || getCategoryForDay(new Date());
+  // (local provider 는 LLM_FIXTURE_DATE 로 날짜 고정 가능)
+  const scriptCategory = category || getCategoryForDay(provider.today ?? new Date());
 
   // If no topic provided, let AI select a timely topic
   let selectedTopic = topic;
@@ -36,7 +43,13 @@ export async function generateScript(
       scriptCategory,
       config.meta.targetLanguage,
       config.meta.nativeLanguage,
-      3 // Generate 3 topic candidates
+      3, // Generate 3 topic candidates
+      provider,
+      {
+        channelId: config.channelId,
+        embeddingProvider: getEmbeddingProvider(config.topics),
+        similarityThreshold: config.topics?.similarityThreshold,
+      }
     );
     console.log(`   ✓ 선정된 주제: "${selectedTopic}"`);
   }
@@ -50,7 +63,7 @@ export async function generateScript(
 
   for (let i = 0; i < candidateCount; i++) {
     try {
-      const script = await generateSingleScript(model, config, scriptCategory, selectedTopic);
+      const script = await generateSingleScript(provider, config, scriptCategory, selectedTopic);
       candidates.push(script);
       console.log(`   ✓ 후보 ${i + 1}/${candidateCount} 생성 완료`);
     } catch (error) {
@@ -62,13 +75,27 @@ export async function generateScript(
     throw new Error('Failed to generate any valid script candidates');
   }
 
-  if (candidates.length === 1) {
-    return candidates[0];
+  // 난이도 측정 후 채널 난이도(config.content.difficulty)에 가까운 후보만 남김
+  const scored = candidates.map((script) =>
+    withScriptDifficulty(script, config.meta.targetLanguage)
+  );
+  scored.forEach((script, i) => {
+    if (script.metadata.difficulty) {
+      console.log(`   📊 후보 ${i + 1}: ${formatScriptDifficulty(script.metadata.difficulty)}`);
+    }
+  });
+  const matching = filterByDifficulty(scored, config.content.difficulty);
+  if (matching.length < scored.length) {
+    console.log(`   ✓ 난이도(${config.content.difficulty})에 맞는 후보 ${matching.length}개`);
+  }
+
+  if (matching.length === 1) {
+    return matching[0];
   }
 
   // LLM selects the best script
   console.log(`   🤖 최적 스크립트 선정 중...`);
-  const bestScript = await selectBestScript(model, candidates, config.meta.nativeLanguage);
+  const bestScript = await selectBestScript(provider, matching, config.meta.nativeLanguage);
 
   return bestScript;
 }
@@ -77,7 +104,7 @@ export async function generateScript(
  * Generate a single script (internal helper)
  */
 async function generateSingleScript(
-  model: ReturnType<GoogleGenerativeAI['getGenerativeModel']>,
+  provider: TextProvider,
   config: ChannelConfig,
   category: Category,
   topic: string
@@ -85,22 +112,20 @@ async function generateSingleScript(
   // Generate prompt
   const prompt = generateScriptPrompt(config, category, topic);
 
-  // Call Gemini API
-  const result = await model.generateContent(prompt);
-  const response = result.response;
-  const text = response.text();
+  // Call LLM provider
+  const { text } = await provider.generateText({ prompt });
 
   // Parse JSON from response
   const jsonMatch = text.match(/\{[\s\S]*\}/);
   if (!jsonMatch) {
-    throw new Error('Failed to extract JSON from Gemini response');
+    throw new Error(`Failed to extract JSON from ${provider.name} response`);
   }
 
   let parsedResponse: unknown;
   try {
     parsedResponse = JSON.parse(jsonMatch[0]);
   } catch {
-    throw new Error('Failed to parse JSON from Gemini response');
+    throw new Error(`Failed to parse JSON from ${provider.name} response`);
   }
 
   // Build full script object
@@ -128,7 +153,7 @@ async function generateSingleScript(
  * LLM selects the best script from candidates
  */
 async function selectBestScript(
-  model: ReturnType<GoogleGenerativeAI['getGenerativeModel']>,
+  provider: TextProvider,
   candidates: Script[],
   nativeLanguage: string
 ): Promise<Script> {
@@ -181,9 +206,8 @@ ${summaries.join('\n\n')}
 # Output
 Output only the selected candidate number (e.g., 1, 2, or 3)`;
 
-  const result = await model.generateContent(prompt);
-  const response = result.response;
-  const selected = response.text().trim();
+  const { text } = await provider.generateText({ prompt });
+  const selected = text.trim();
 
   // Parse the selected number
   const match = selected.match(/(\d+)/);
@@ -200,6 +224,114 @@ Output only the selected candidate number (e.g., 1, 2, or 3)`;
   return candidates[0];
 }
 
+// 문장 재생성 반복 횟수 (이후에도 남은 문제는 경고로만 보고)
+const MAX_REPAIR_ROUNDS = 2;
+
+export interface ScriptRepairResult {
+  script: Script;
+  /** Diagnostics still present after the repair pass */
+  diagnostics: ScriptDiagnostic[];
+  repairedSentenceIds: number[];
+}
+
+/**
+ * Lint a script and regenerate only the offending sentences
+ * Wrong choices equal to the answer are dropped locally (no LLM call)
+ */
+export async function repairScript(
+  script: Script,
+  config: ChannelConfig,
+  provider: TextProvider = getTextProvider(config.llm)
+): Promise<ScriptRepairResult> {
+  let current: Script = { ...script, sentences: script.sentences.map(cleanWrongWordChoices) };
+  let diagnostics = lintScript(current);
+  const repaired = new Set<number>();
+
+  for (let round = 0; round < MAX_REPAIR_ROUNDS; round++) {
+    const ids = getSentencesToRepair(diagnostics);
+    if (ids.length === 0) break;
+
+    for (const id of ids) {
+      const problems = diagnostics.filter((d) => d.sentenceId === id);
+      try {
+        const sentence = await regenerateSentence(provider, config, current, id, problems);
+        current = {
+          ...current,
+          sentences: current.sentences.map((s) => (s.id === id ? sentence : s)),
+        };
+        repaired.add(id);
+      } catch (error) {
+        console.warn(`   ⚠️ 문장 ${id} 수정 실패: ${error}`);
+      }
+    }
+    diagnostics = lintScript(current);
+  }
+
+  // 문장이 바뀌었으면 난이도 재측정
+  if (repaired.size > 0) {
+    current = withScriptDifficulty(current, config.meta.targetLanguage);
+  }
+
+  return { script: current, diagnostics, repairedSentenceIds: [...repaired] };
+}
+
+/**
+ * Regenerate one sentence with its neighbours and lint problems as context
+ */
+async function regenerateSentence(
+  provider: TextProvider,
+  config: ChannelConfig,
+  script: Script,
+  sentenceId: number,
+  problems: ScriptDiagnostic[]
+): Promise<Sentence> {
+  const index = script.sentences.findIndex((s) => s.id === sentenceId);
+  const sentence = script.sentences[index];
+  const { speakers } = CATEGORY_SCRIPT_FORMAT[script.category];
+  const speaker = speakers.includes(sentence.speaker) ? sentence.speaker : speakers[0];
+  const previous = script.sentences[index - 1];
+  const next = script.sentences[index + 1];
+
+  const context = [
+    `Topic: ${script.metadata.topic}`,
+    previous ? `Previous sentence: "${previous.target}"` : 'This is the first sentence.',
+    next ? `Next sentence: "${next.target}"` : 'This is the last sentence.',
+    `Current sentence (rewrite it, keeping its meaning in the story): ${JSON.stringify(sentence)}`,
+    `Problems to fix:\n${problems.map((p) => `- ${p.message}`).join('\n')}`,
+    'It must not repeat any other sentence of the script.',
+    `blankAnswer must appear exactly in target, targetBlank must be target with blankAnswer replaced by "${SCRIPT_BLANK}", and every word in "words" must appear in target.`,
+  ].join('\n');
+
+  const prompt = generateSentencePrompt(config, sentenceId, speaker, context);
+  const { text } = await provider.generateText({ prompt });
+
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error(`Failed to extract JSON from ${provider.name} response`);
+  }
+
+  let parsedResponse: unknown;
+  try {
+    parsedResponse = JSON.parse(jsonMatch[0]);
+  } catch {
+    throw new Error(`Failed to parse JSON from ${provider.name} response`);
+  }
+
+  const result = sentenceSchema.safeParse({
+    ...(parsedResponse as object),
+    id: sentenceId,
+    speaker,
+  });
+  if (!result.success) {
+    const errors = result.error.issues
+      .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      .join(', ');
+    throw new Error(`Regenerated sentence failed validation: ${errors}`);
+  }
+
+  return result.data;
+}
+
 /**
  * Save a script to a JSON file
  */
@@ -1,3 +1,4 @@
 export * from './types';
 export * from './generator';
 export * from './prompts';
+export * from './lint';
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import type { Sentence } from './types';
+import {
+  cleanWrongWordChoices,
+  formatScriptDiagnostics,
+  getSentencesToRepair,
+  lintScript,
+  lintSentence,
+} from './lint';
+
+const sentence = (overrides: Partial<Sentence> = {}): Sentence => ({
+  id: 1,
+  speaker: 'F',
+  target: 'The address seemed familiar.',
+  targetBlank: 'The address seemed _______.',
+  blankAnswer: 'familiar',
+  native: '주소가 익숙해 보였어요.',
+  words: [
+    { word: 'familiar', meaning: '익숙한' },
+    { word: 'address', meaning: '주소' },
+  ],
+  wrongWordChoices: ['similar', 'family'],
+  ...overrides,
+});
+
+describe('Script Linter', () => {
+  it('should pass a consistent sentence', () => {
+    expect(lintSentence(sentence())).toEqual([]);
+    expect(lintSentence(sentence({ targetBlank: 'The  address seemed _______. ' }))).toEqual([]);
+  });
+
+  it('should flag a blank answer that is not in the target', () => {
+    const rules = lintSentence(sentence({ blankAnswer: 'strange' })).map((d) => d.rule);
+    expect(rules).toEqual(['blank-answer-missing']);
+  });
+
+  it('should flag a targetBlank that does not match the target', () => {
+    const [diagnostic] = lintSentence(sentence({ targetBlank: 'The _______ seemed familiar.' }));
+    expect(diagnostic).toMatchObject({ rule: 'blank-mismatch', sentenceId: 1, fixable: true });
+    expect(
+      lintSentence(sentence({ targetBlank: 'The address seemed familiar.' }))[0]
+    ).toMatchObject({ rule: 'blank-mismatch' });
+  });
+
+  it('should accept an answer that also appears inside an earlier word', () => {
+    const inside = sentence({
+      target: "I'm going in.",
+      targetBlank: "I'm going _______.",
+      blankAnswer: 'in',
+      words: [{ word: 'going', meaning: '가는' }],
+      wrongWordChoices: ['on', 'at'],
+    });
+    expect(lintSentence(inside)).toEqual([]);
+  });
+
+  it('should flag words missing from the sentence and wrong choices equal to the answer', () => {
+    const diagnostics = lintSentence(
+      sentence({
+        words: [{ word: 'house', meaning: '집' }],
+        wrongWordChoices: ['Familiar', 'family'],
+      })
+    );
+    expect(diagnostics.map((d) => d.rule)).toEqual([
+      'word-not-in-sentence',
+      'wrong-choice-equals-answer',
+    ]);
+    expect(diagnostics[0].message).toContain('"house"');
+  });
+
+  it('should check speakers and duplicates against the category format', () => {
+    const diagnostics = lintScript({
+      category: 'story',
+      sentences: [sentence(), sentence({ id: 2, speaker: 'M' }), sentence({ id: 3 })],
+    });
+    expect(diagnostics.map((d) => [d.rule, d.sentenceId])).toEqual([
+      ['speaker-format', 2],
+      ['duplicate-sentence', 2],
+      ['duplicate-sentence', 3],
+    ]);
+  });
+
+  it('should warn when a dialogue has only one speaker', () => {
+    const diagnostics = lintScript({
+      category: 'conversation',
+      sentences: [
+        sentence(),
+        sentence({
+          id: 2,
+          target: 'I know this place.',
+          targetBlank: 'I _______ this place.',
+          blankAnswer: 'know',
+          words: [{ word: 'place', meaning: '장소' }],
+        }),
+      ],
+    });
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ rule: 'single-speaker-dialogue', severity: 'warning' }),
+    ]);
+    expect(getSentencesToRepair(diagnostics)).toEqual([]);
+  });
+
+  it('should list each sentence to regenerate once', () => {
+    const diagnostics = [
+      ...lintSentence(sentence({ id: 4, blankAnswer: 'odd', wrongWordChoices: ['odd', 'add'] })),
+      ...lintSentence(sentence({ id: 5, wrongWordChoices: ['familiar', 'similar'] })),
+    ];
+    expect(getSentencesToRepair(diagnostics)).toEqual([4]);
+    expect(formatScriptDiagnostics(diagnostics)).toContain('#5 [wrong-choice-equals-answer]');
+  });
+
+  it('should drop wrong choices equal to the answer', () => {
+    expect(cleanWrongWordChoices(sentence()).wrongWordChoices).toEqual(['similar', 'family']);
+    expect(
+      cleanWrongWordChoices(sentence({ wrongWordChoices: ['familiar', 'similar', 'family'] }))
+        .wrongWordChoices
+    ).toEqual(['similar', 'family']);
+    expect(
+      cleanWrongWordChoices(sentence({ wrongWordChoices: ['familiar', 'similar'] }))
+    ).not.toHaveProperty('wrongWordChoices');
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Rule-based script linter
+ * scriptSchema는 형태만 검사하므로 문장 내용의 일관성(빈칸/단어/화자/중복/오답)을 별도로 검사
+ */
+
+import { CATEGORY_SCRIPT_FORMAT } from './category-tones';
+import type { Script, Sentence } from './types';
+
+// 프롬프트가 요구하는 빈칸 표기 (밑줄 7개)
+export const SCRIPT_BLANK = '_______';
+
+export type ScriptLintRule =
+  | 'blank-answer-missing'
+  | 'blank-mismatch'
+  | 'word-not-in-sentence'
+  | 'speaker-format'
+  | 'single-speaker-dialogue'
+  | 'duplicate-sentence'
+  | 'wrong-choice-equals-answer';
+
+export interface ScriptDiagnostic {
+  rule: ScriptLintRule;
+  severity: 'error' | 'warning';
+  /** undefined for script-level issues */
+  sentenceId?: number;
+  message: string;
+  /** Can be repaired by regenerating / cleaning the sentence */
+  fixable: boolean;
+}
+
+/**
+ * Lint every sentence of a script (empty array = clean)
+ */
+export function lintScript(script: Pick<Script, 'category' | 'sentences'>): ScriptDiagnostic[] {
+  const diagnostics: ScriptDiagnostic[] = [];
+  const format = CATEGORY_SCRIPT_FORMAT[script.category];
+  const seen = new Map<string, number>();
+
+  for (const sentence of script.sentences) {
+    diagnostics.push(...lintSentence(sentence));
+
+    if (!format.speakers.includes(sentence.speaker)) {
+      diagnostics.push(
+        sentenceError(
+          'speaker-format',
+          sentence,
+          `speaker ${sentence.speaker} is not allowed in ${format.format} (${format.speakers.join('/')})`
+        )
+      );
+    }
+
+    const key = normalizeText(sentence.target).toLowerCase();
+    const firstId = seen.get(key);
+    if (firstId !== undefined) {
+      diagnostics.push(
+        sentenceError('duplicate-sentence', sentence, `duplicates sentence ${firstId}`)
+      );
+    } else {
+      seen.set(key, sentence.id);
+    }
+  }
+
+  const speakers = new Set(script.sentences.map((s) => s.speaker));
+  if (format.format === 'dialogue' && script.sentences.length > 1 && speakers.size < 2) {
+    diagnostics.push({
+      rule: 'single-speaker-dialogue',
+      severity: 'warning',
+      message: `dialogue uses only speaker ${[...speakers][0]}`,
+      fixable: false,
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Sentence-level rules (blank, words, wrong choices)
+ */
+export function lintSentence(sentence: Sentence): ScriptDiagnostic[] {
+  const diagnostics: ScriptDiagnostic[] = [];
+  const { target, targetBlank, blankAnswer } = sentence;
+
+  if (!target.includes(blankAnswer)) {
+    diagnostics.push(
+      sentenceError('blank-answer-missing', sentence, `blankAnswer "${blankAnswer}" not in target`)
+    );
+  } else if (
+    // 빈칸을 정답으로 채워 비교 (target.replace 는 "going" 안의 "in" 같은 부분 문자열을 지움)
+    !targetBlank.includes(SCRIPT_BLANK) ||
+    normalizeText(targetBlank.replace(SCRIPT_BLANK, blankAnswer)) !== normalizeText(target)
+  ) {
+    diagnostics.push(
+      sentenceError(
+        'blank-mismatch',
+        sentence,
+        `targetBlank "${targetBlank}" is not target with "${blankAnswer}" blanked`
+      )
+    );
+  }
+
+  const missingWords = sentence.words
+    .map((w) => w.word)
+    .filter((word) => !target.toLowerCase().includes(word.toLowerCase()));
+  if (missingWords.length > 0) {
+    diagnostics.push(
+      sentenceError(
+        'word-not-in-sentence',
+        sentence,
+        `words not in target: ${missingWords.map((w) => `"${w}"`).join(', ')}`
+      )
+    );
+  }
+
+  if (sentence.wrongWordChoices?.some((choice) => isSameWord(choice, blankAnswer))) {
+    diagnostics.push(
+      sentenceError('wrong-choice-equals-answer', sentence, 'wrongWordChoices contain the answer')
+    );
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Sentence ids with fixable errors (need regeneration)
+ * wrong-choice-equals-answer만 있는 문장은 cleanWrongWordChoices로 처리되므로 제외
+ */
+export function getSentencesToRepair(diagnostics: ScriptDiagnostic[]): number[] {
+  const ids = diagnostics
+    .filter(
+      (d) =>
+        d.fixable &&
+        d.severity === 'error' &&
+        d.sentenceId !== undefined &&
+        d.rule !== 'wrong-choice-equals-answer'
+    )
+    .map((d) => d.sentenceId as number);
+  return [...new Set(ids)];
+}
+
+/**
+ * Drop wrong choices equal to the answer
+ * (2개 미만이 되면 필드를 지워서 Shorts 렌더링 전에 다시 생성되도록 함)
+ */
+export function cleanWrongWordChoices(sentence: Sentence): Sentence {
+  if (!sentence.wrongWordChoices) return sentence;
+  const choices = sentence.wrongWordChoices.filter(
+    (choice) => !isSameWord(choice, sentence.blankAnswer)
+  );
+  if (choices.length === sentence.wrongWordChoices.length) return sentence;
+
+  const cleaned: Sentence = { ...sentence, wrongWordChoices: choices };
+  if (choices.length < 2) delete cleaned.wrongWordChoices;
+  return cleaned;
+}
+
+/**
+ * One line per diagnostic for console output
+ */
+export function formatScriptDiagnostics(diagnostics: ScriptDiagnostic[]): string {
+  return diagnostics
+    .map((d) => {
+      const icon = d.severity === 'error' ? '❌' : '⚠️';
+      const where = d.sentenceId !== undefined ? `#${d.sentenceId}` : 'script';
+      return `   ${icon} ${where} [${d.rule}] ${d.message}`;
+    })
+    .join('\n');
+}
+
+function sentenceError(
+  rule: ScriptLintRule,
+  sentence: Sentence,
+  message: string
+): ScriptDiagnostic {
+  return { rule, severity: 'error', sentenceId: sentence.id, message, fixable: true };
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function isSameWord(a: string, b: string): boolean {
+  return normalizeText(a).toLowerCase() === normalizeText(b).toLowerCase();
+}
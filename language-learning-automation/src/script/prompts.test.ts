@@ -38,7 +38,6 @@ describe('Script Prompts', () => {
     },
     content: {
       sentenceCount: 12,
-      repeatCount: 10,
       difficulty: 'intermediate',
     },
     uiLabels: {
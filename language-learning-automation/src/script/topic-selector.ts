@@ -1,99 +1,175 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { promises as fs } from 'fs';
-import path from 'path';
+import { createHash } from 'crypto';
 import type { Category } from './types';
-import { GEMINI_MODELS, getGeminiApiKey } from '../config/gemini';
+import { getTextProvider } from '../llm/provider';
+import type { TextProvider } from '../llm/types';
+import { getEmbeddingProvider } from '../embedding/provider';
+import { LocalEmbeddingProvider } from '../embedding/local';
+import { getEmbeddingKey, type EmbeddingProvider } from '../embedding/types';
+import {
+  embedTopicHistory,
+  formatDuplicateTopic,
+  listTopicHistoryChannels,
+  loadTopicHistory,
+  pickLeastSimilar,
+  resolveSimilarityThreshold,
+  roundVector,
+  saveTopicHistory,
+  scoreTopicCandidates,
+  type TopicCandidateScore,
+  type TopicHistory,
+} from '../topics';
 import { buildCulturalContextPrompt, getRandomCulturalCategory } from './cultural-interests';
 
-interface TopicHistory {
-  date: string;
-  topic: string;
-  category: Category;
-}
-
-const HISTORY_FILE = path.join(process.cwd(), 'output', 'topic-history.json');
-
-/**
- * Load topic history to avoid duplicates
- */
-async function loadTopicHistory(): Promise<TopicHistory[]> {
-  try {
-    const content = await fs.readFile(HISTORY_FILE, 'utf-8');
-    return JSON.parse(content);
-  } catch {
-    return [];
-  }
-}
-
-/**
- * Save topic to history
- */
-async function saveTopicToHistory(topic: string, category: Category): Promise<void> {
-  const history = await loadTopicHistory();
-  const today = new Date().toISOString().split('T')[0];
-
-  history.push({ date: today, topic, category });
-
-  // Keep only last 100 entries
-  const recentHistory = history.slice(-100);
-
-  await fs.mkdir(path.dirname(HISTORY_FILE), { recursive: true });
-  await fs.writeFile(HISTORY_FILE, JSON.stringify(recentHistory, null, 2), 'utf-8');
+// 모든 후보가 중복일 때 후보를 다시 생성하는 최대 횟수
+const MAX_TOPIC_ROUNDS = 3;
+
+export interface TopicSelectionOptions {
+  /** 채널별 주제 히스토리 (없으면 중복 검사 / 기록 생략) */
+  channelId?: string;
+  embeddingProvider?: EmbeddingProvider;
+  /** 없으면 provider 기본값 */
+  similarityThreshold?: number;
+  /** 주제 프롬프트의 기준 날짜 (없으면 provider.today → 오늘) */
+  date?: Date;
+  /** 문화 카테고리 선택용 (없으면 local provider 는 연-월 시드, 그 외 Math.random) */
+  random?: () => number;
 }
 
 /**
  * Generate multiple topic candidates and select the best one
+ * 과거 주제와 임베딩 유사도가 임계값 이상인 후보는 제외
  */
 export async function selectTimlyTopic(
   category: Category,
   targetLanguage: string = 'English',
   nativeLanguage: string = 'Korean',
-  candidateCount: number = 3
+  candidateCount: number = 3,
+  provider: TextProvider = getTextProvider(),
+  options: TopicSelectionOptions = {}
 ): Promise<string> {
-  const apiKey = getGeminiApiKey();
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: GEMINI_MODELS.text });
-
   // Get recent topic history
-  const history = await loadTopicHistory();
-  const recentTopics = history.slice(-30).map((h) => h.topic);
+  let history = options.channelId ? await loadTopicHistory(options.channelId) : undefined;
+  const recentTopics = history?.entries.slice(-30).map((h) => h.topic) ?? [];
+  let embedder = options.embeddingProvider ?? getEmbeddingProvider();
+  // local fixture 는 프롬프트 해시로 찾으므로 월 / 문화 카테고리가 실행마다 바뀌면 안 됨
+  const date = options.date ?? provider.today ?? new Date();
+  const random =
+    options.random ??
+    (provider.name === 'local'
+      ? createSeededRandom(`${date.getFullYear()}-${date.getMonth() + 1}`)
+      : Math.random);
+
+  const rejected: TopicCandidateScore[] = [];
+  let accepted: TopicCandidateScore[] = [];
+
+  for (let round = 1; round <= MAX_TOPIC_ROUNDS && accepted.length === 0; round++) {
+    // Step 1: Generate multiple candidates (앞 라운드에서 제외된 후보도 피하도록 전달)
+    console.log(`   📝 주제 후보 ${candidateCount}개 생성 중...`);
+    const candidates = await generateTopicCandidates(
+      provider,
+      category,
+      targetLanguage,
+      nativeLanguage,
+      [...recentTopics, ...rejected.map((r) => r.topic)],
+      candidateCount,
+      date,
+      random
+    );
+    console.log(`   ✓ 후보: ${candidates.map((c, i) => `${i + 1}. ${c}`).join(' | ')}`);
+
+    if (!history) {
+      accepted = candidates.map((topic) => ({ topic, vector: [], duplicate: false }));
+      break;
+    }
+
+    // Step 2: Reject candidates too close to past topics
+    const checked = await checkTopicCandidates(history, candidates, embedder, options);
+    history = checked.history;
+    embedder = checked.embedder;
+    for (const score of checked.scores.filter((s) => s.duplicate)) {
+      console.log(`   🔁 중복 주제 제외: ${formatDuplicateTopic(score)}`);
+      rejected.push(score);
+    }
+    accepted = checked.scores.filter((s) => !s.duplicate);
+  }
 
-  // Step 1: Generate multiple candidates
-  console.log(`   📝 주제 후보 ${candidateCount}개 생성 중...`);
-  const candidates = await generateTopicCandidates(
-    model,
-    category,
-    targetLanguage,
-    nativeLanguage,
-    recentTopics,
-    candidateCount
-  );
-  console.log(`   ✓ 후보: ${candidates.map((c, i) => `${i + 1}. ${c}`).join(' | ')}`);
+  if (accepted.length === 0) {
+    const fallback = pickLeastSimilar(rejected);
+    if (!fallback) throw new Error('Failed to generate any topic candidates');
+    console.warn(`   ⚠️ 모든 후보가 기존 주제와 비슷함 → 가장 덜 비슷한 후보 사용`);
+    accepted = [fallback];
+  }
 
-  // Step 2: LLM selects the best one
+  // Step 3: LLM selects the best one
   console.log(`   🤖 최적 주제 선정 중...`);
-  const bestTopic = await selectBestTopic(model, candidates, category, nativeLanguage);
+  const bestTopic = await selectBestTopic(
+    provider,
+    accepted.map((a) => a.topic),
+    category,
+    nativeLanguage
+  );
 
-  // Save to history
-  await saveTopicToHistory(bestTopic, category);
+  // Save to history (API 임베딩은 함께 저장, local 은 다음에 다시 계산)
+  if (history) {
+    const vector = embedder.sparse
+      ? undefined
+      : accepted.find((a) => a.topic === bestTopic)?.vector;
+    history.entries.push({
+      date: new Date().toISOString().split('T')[0],
+      topic: bestTopic,
+      category,
+      embeddings: vector?.length ? { [getEmbeddingKey(embedder)]: roundVector(vector) } : {},
+    });
+    await saveTopicHistory(history);
+  }
 
   return bestTopic;
 }
 
+/**
+ * Score candidates against the channel history
+ * 임베딩 API 실패 시 local provider 로 대체
+ */
+async function checkTopicCandidates(
+  history: TopicHistory,
+  candidates: string[],
+  embedder: EmbeddingProvider,
+  options: TopicSelectionOptions
+): Promise<{ history: TopicHistory; scores: TopicCandidateScore[]; embedder: EmbeddingProvider }> {
+  try {
+    const embedded = await embedTopicHistory(history, embedder);
+    const vectors = await embedder.embed(candidates);
+    const scores = scoreTopicCandidates(
+      candidates.map((topic, i) => ({ topic, vector: vectors[i] })),
+      embedded.history.entries.map((entry, i) => ({ entry, vector: embedded.vectors[i] })),
+      {
+        threshold: resolveSimilarityThreshold(embedder.name, options.similarityThreshold),
+        sparse: embedder.sparse,
+      }
+    );
+    return { history: embedded.history, scores, embedder };
+  } catch (error) {
+    if (embedder.name === 'local') throw error;
+    console.warn(`   ⚠️ ${embedder.name} 임베딩 실패 → local n-gram 사용: ${error}`);
+    // 설정된 임계값은 원래 provider 기준이므로 local 기본값 사용
+    return checkTopicCandidates(history, candidates, new LocalEmbeddingProvider(), {});
+  }
+}
+
 /**
  * Generate multiple topic candidates
  */
 async function generateTopicCandidates(
-  model: ReturnType<GoogleGenerativeAI['getGenerativeModel']>,
+  provider: TextProvider,
   category: Category,
   targetLanguage: string,
   nativeLanguage: string,
   recentTopics: string[],
-  count: number
+  count: number,
+  date: Date,
+  random: () => number
 ): Promise<string[]> {
-  // Get current date info
-  const now = new Date();
-  const month = now.getMonth() + 1;
+  const month = date.getMonth() + 1;
 
   // Language display names
   const langDisplayNames: Record<string, Record<string, string>> = {
@@ -117,8 +193,12 @@ async function generateTopicCandidates(
   const nativeLangName = langDisplayNames[nativeLanguage]?.[nativeLanguage] || nativeLanguage;
 
   // 문화적 관심사 컨텍스트 생성
-  const culturalContext = buildCulturalContextPrompt(targetLanguage, nativeLangName);
-  const culturalCategory = getRandomCulturalCategory(targetLanguage);
+  const culturalCategory = getRandomCulturalCategory(targetLanguage, random);
+  const culturalContext = buildCulturalContextPrompt(
+    targetLanguage,
+    nativeLangName,
+    culturalCategory
+  );
 
   const prompt = `# Role
 너는 유튜브 ${targetLangName} 학습 채널의 '스토리텔러'야.
@@ -222,9 +302,8 @@ ${getOutputStyleGuidance(category)}
 **정확히 ${count}개**의 주제를 줄바꿈으로 구분해서 출력.
 부가 설명 없이 주제만 출력.`;
 
-  const result = await model.generateContent(prompt);
-  const response = result.response;
-  const text = response.text().trim();
+  const result = await provider.generateText({ prompt });
+  const text = result.text.trim();
 
   // Parse multiple topics (one per line)
   const topics = text
@@ -240,7 +319,7 @@ ${getOutputStyleGuidance(category)}
  * LLM selects the best topic from candidates
  */
 async function selectBestTopic(
-  model: ReturnType<GoogleGenerativeAI['getGenerativeModel']>,
+  provider: TextProvider,
   candidates: string[],
   category: Category,
   nativeLanguage: string
@@ -281,9 +360,8 @@ ${candidates.map((c, i) => `${i + 1}. ${c}`).join('\n')}
 # Output
 Output only the selected topic (no number or explanation)`;
 
-  const result = await model.generateContent(prompt);
-  const response = result.response;
-  const selected = response.text().trim();
+  const result = await provider.generateText({ prompt });
+  const selected = result.text.trim();
 
   // Find the closest match from candidates (in case LLM slightly modifies it)
   const exactMatch = candidates.find((c) => c === selected);
@@ -356,21 +434,40 @@ function getOutputStyleGuidance(category: Category): string {
 
 /**
  * Show recent topic history
+ * @param channelId - 없으면 히스토리가 있는 모든 채널
  */
-export async function showTopicHistory(): Promise<void> {
-  const history = await loadTopicHistory();
+export async function showTopicHistory(channelId?: string): Promise<void> {
+  const channels = channelId ? [channelId] : await listTopicHistoryChannels();
+  const histories = await Promise.all(channels.map((id) => loadTopicHistory(id)));
 
-  if (history.length === 0) {
+  if (histories.every((history) => history.entries.length === 0)) {
     console.log('📋 주제 히스토리가 없습니다.');
     return;
   }
 
-  console.log('\n📋 최근 생성된 주제 (최근 30개):\n');
+  for (const history of histories) {
+    console.log(`\n📋 ${history.channelId} - 최근 생성된 주제 (최근 30개):\n`);
 
-  const recent = history.slice(-30).reverse();
-  recent.forEach((entry, index) => {
-    console.log(`${index + 1}. [${entry.date}] ${entry.category}: ${entry.topic}`);
-  });
+    const recent = history.entries.slice(-30).reverse();
+    recent.forEach((entry, index) => {
+      console.log(`${index + 1}. [${entry.date}] ${entry.category}: ${entry.topic}`);
+    });
 
-  console.log(`\n총 ${history.length}개의 주제가 기록되어 있습니다.`);
+    console.log(`\n총 ${history.entries.length}개의 주제가 기록되어 있습니다.`);
+  }
+}
+
+/**
+ * Deterministic random numbers in [0, 1) from a seed string
+ */
+function createSeededRandom(seed: string): () => number {
+  let state = createHash('sha256').update(seed).digest().readUInt32LE(0);
+  return () => {
+    // mulberry32
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
 }
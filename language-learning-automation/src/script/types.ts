@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { scriptDifficultySchema } from '../difficulty/types';
 
 // Word with meaning schema
 export const wordSchema = z.object({
@@ -52,6 +53,7 @@ export const metadataSchema = z.object({
     native: z.string().min(1, 'Native title is required'),
   }),
   characters: z.array(characterSchema).min(1).max(2), // 나레이션은 1명, 대화는 2명
+  difficulty: scriptDifficultySchema.optional(), // 빈도 목록 기반 측정값 (목록 없는 언어는 생략)
 });
 
 // Full Script schema
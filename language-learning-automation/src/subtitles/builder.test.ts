@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import type { Sentence } from '../script/types';
+import type { VideoTimeline } from '../timeline/types';
+import { buildSubtitleCues, formatSrt, formatSubtitleTimestamp, formatWebVtt } from './builder';
+
+const sentences: Sentence[] = [
+  {
+    id: 1,
+    speaker: 'M',
+    target: 'Good morning.',
+    targetBlank: 'Good ___.',
+    blankAnswer: 'morning',
+    native: '좋은 아침.',
+    targetPronunciation: '굿 모닝',
+    words: [],
+  },
+];
+
+const entry = { sentenceId: 1, speaker: 'M' as const, speed: '1.0x' as const, repetition: 1 };
+
+const timeline: VideoTimeline = {
+  fps: 30,
+  durationInFrames: 900,
+  segments: [
+    { kind: 'intro', startFrame: 0, endFrame: 300, durationInFrames: 300, entries: [] },
+    {
+      kind: 'step',
+      step: 2,
+      startFrame: 300,
+      endFrame: 450,
+      durationInFrames: 150,
+      entries: [{ ...entry, startFrame: 300, endFrame: 450 }],
+    },
+    {
+      kind: 'step',
+      step: 3,
+      startFrame: 450,
+      endFrame: 900,
+      durationInFrames: 450,
+      entries: [
+        { ...entry, subtitle: 'blank', translation: true, startFrame: 450, endFrame: 600 },
+        { ...entry, subtitle: 'none', translation: false, startFrame: 600, endFrame: 750 },
+        { ...entry, subtitle: 'answer', translation: true, startFrame: 750, endFrame: 900 },
+      ],
+    },
+  ],
+};
+
+describe('Subtitle Export', () => {
+  it('should follow the on-screen Step3 subtitle modes for the target track', () => {
+    const cues = buildSubtitleCues(timeline, { sentences }, 'target');
+
+    expect(cues.map((c) => c.text)).toEqual(['Good morning.', 'Good ___.', 'Good morning.']);
+    expect(cues[0]).toMatchObject({ start: 10, end: 15 });
+  });
+
+  it('should skip native cues where the translation is hidden', () => {
+    expect(buildSubtitleCues(timeline, { sentences }, 'native')).toHaveLength(3);
+  });
+
+  it('should produce no pronunciation cues without targetPronunciation', () => {
+    const plain = [{ ...sentences[0], targetPronunciation: undefined }];
+    expect(buildSubtitleCues(timeline, { sentences }, 'pronunciation')).toHaveLength(4);
+    expect(buildSubtitleCues(timeline, { sentences: plain }, 'pronunciation')).toEqual([]);
+  });
+
+  it('should format timestamps for SRT and WebVTT', () => {
+    expect(formatSubtitleTimestamp(3723.4567, 'srt')).toBe('01:02:03,457');
+    expect(formatSubtitleTimestamp(0.5, 'vtt')).toBe('00:00:00.500');
+  });
+
+  it('should serialize numbered SRT blocks', () => {
+    expect(formatSrt([{ start: 1, end: 2.5, text: 'Hi' }])).toBe(
+      '1\n00:00:01,000 --> 00:00:02,500\nHi\n'
+    );
+  });
+
+  it('should start WebVTT files with the header', () => {
+    const vtt = formatWebVtt([{ start: 1, end: 2, text: 'Hi' }]);
+    expect(vtt.startsWith('WEBVTT\n\n')).toBe(true);
+    expect(vtt).toContain('00:00:01.000 --> 00:00:02.000\nHi');
+  });
+});
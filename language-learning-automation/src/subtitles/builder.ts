@@ -0,0 +1,99 @@
+/**
+ * Caption cues from the video timeline
+ * 화면에 보이는 자막과 같은 구간/문구를 사용 (Step3 빈칸/숨김 모드 포함)
+ */
+
+import type { Script, Sentence } from '../script/types';
+import type { TimelineSentenceEntry, VideoTimeline } from '../timeline/types';
+import type { SubtitleCue, SubtitleFormat, SubtitleTrack } from './types';
+
+/**
+ * Build the cues of one caption track
+ * Step1/Step4 are audio-only on screen, but captions cover every spoken sentence
+ */
+export function buildSubtitleCues(
+  timeline: VideoTimeline,
+  script: Pick<Script, 'sentences'>,
+  track: SubtitleTrack
+): SubtitleCue[] {
+  const sentences = new Map(script.sentences.map((s) => [s.id, s]));
+  const cues: SubtitleCue[] = [];
+
+  for (const segment of timeline.segments) {
+    for (const entry of segment.entries) {
+      const sentence = sentences.get(entry.sentenceId);
+      const text = sentence && getCueText(sentence, entry, track);
+      if (!text) continue;
+
+      cues.push({
+        start: entry.startFrame / timeline.fps,
+        end: entry.endFrame / timeline.fps,
+        text,
+      });
+    }
+  }
+
+  return cues;
+}
+
+function getCueText(
+  sentence: Sentence,
+  entry: TimelineSentenceEntry,
+  track: SubtitleTrack
+): string | undefined {
+  switch (track) {
+    case 'target':
+      if (entry.subtitle === 'none') return undefined;
+      return entry.subtitle === 'blank' ? sentence.targetBlank : sentence.target;
+    case 'native':
+      return entry.translation === false ? undefined : sentence.native;
+    case 'pronunciation':
+      return sentence.targetPronunciation;
+  }
+}
+
+/**
+ * Format seconds as a caption timestamp (SRT: 00:01:02,345 / WebVTT: 00:01:02.345)
+ */
+export function formatSubtitleTimestamp(seconds: number, format: SubtitleFormat): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const mins = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const separator = format === 'srt' ? ',' : '.';
+  return `${pad(hours)}:${pad(mins)}:${pad(secs)}${separator}${String(ms).padStart(3, '0')}`;
+}
+
+/**
+ * Serialize cues as SubRip (.srt)
+ */
+export function formatSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map(
+      (cue, i) =>
+        `${i + 1}\n${formatSubtitleTimestamp(cue.start, 'srt')} --> ${formatSubtitleTimestamp(cue.end, 'srt')}\n${cue.text}\n`
+    )
+    .join('\n');
+}
+
+/**
+ * Serialize cues as WebVTT (.vtt)
+ */
+export function formatWebVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map(
+      (cue) =>
+        `${formatSubtitleTimestamp(cue.start, 'vtt')} --> ${formatSubtitleTimestamp(cue.end, 'vtt')}\n${cue.text}\n`
+    )
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+export function formatSubtitles(cues: SubtitleCue[], format: SubtitleFormat): string {
+  return format === 'srt' ? formatSrt(cues) : formatWebVtt(cues);
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
@@ -0,0 +1,28 @@
+// Caption tracks exported for the long-form video
+export const subtitleTracks = ['target', 'native', 'pronunciation'] as const;
+export type SubtitleTrack = (typeof subtitleTracks)[number];
+
+export const subtitleFormats = ['srt', 'vtt'] as const;
+export type SubtitleFormat = (typeof subtitleFormats)[number];
+
+// Single caption cue (seconds)
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Written caption file
+export interface SubtitleFile {
+  track: SubtitleTrack;
+  format: SubtitleFormat;
+  path: string;
+  cueCount: number;
+}
+
+export const SUBTITLES_DIRNAME = 'subtitles';
+
+// e.g. subtitles/captions.target.srt
+export function getSubtitleFilename(track: SubtitleTrack, format: SubtitleFormat): string {
+  return `captions.${track}.${format}`;
+}
@@ -0,0 +1,40 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Script } from '../script/types';
+import type { VideoTimeline } from '../timeline/types';
+import { buildSubtitleCues, formatSubtitles } from './builder';
+import {
+  SUBTITLES_DIRNAME,
+  getSubtitleFilename,
+  subtitleFormats,
+  subtitleTracks,
+  type SubtitleFile,
+} from './types';
+
+/**
+ * Write SRT and WebVTT caption files for every non-empty track
+ * → {outputDir}/subtitles/captions.{track}.{srt|vtt}
+ */
+export async function writeSubtitleFiles(
+  outputDir: string,
+  timeline: VideoTimeline,
+  script: Pick<Script, 'sentences'>
+): Promise<SubtitleFile[]> {
+  const subtitlesDir = path.join(outputDir, SUBTITLES_DIRNAME);
+  await fs.mkdir(subtitlesDir, { recursive: true });
+
+  const files: SubtitleFile[] = [];
+  for (const track of subtitleTracks) {
+    const cues = buildSubtitleCues(timeline, script, track);
+    // 발음 표기가 없는 스크립트 등 빈 트랙은 건너뜀
+    if (cues.length === 0) continue;
+
+    for (const format of subtitleFormats) {
+      const filePath = path.join(subtitlesDir, getSubtitleFilename(track, format));
+      await fs.writeFile(filePath, formatSubtitles(cues, format), 'utf-8');
+      files.push({ track, format, path: filePath, cueCount: cues.length });
+    }
+  }
+
+  return files;
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import type { Sentence } from '../script/types';
+import type { AudioFile, SpeedVariant } from '../tts/types';
+import { calculateTotalDuration } from '../compositions/Main';
+import { STEP_TRANSITION_DURATION } from '../compositions/StepTransition';
+import {
+  buildVideoTimeline,
+  formatChapterTime,
+  getTimelineChapters,
+  getTimelineSegment,
+} from './builder';
+
+const sentences: Sentence[] = [1, 2].map((id) => ({
+  id,
+  speaker: id % 2 === 1 ? 'M' : 'F',
+  target: `Sentence ${id}`,
+  targetBlank: `___ ${id}`,
+  blankAnswer: 'Sentence',
+  native: `문장 ${id}`,
+  words: [{ word: 'Sentence', meaning: '문장' }],
+}));
+
+const audioFiles: AudioFile[] = sentences.flatMap((s) =>
+  (['0.8x', '1.0x', '1.2x'] as SpeedVariant[]).map((speed) => ({
+    sentenceId: s.id,
+    speaker: s.speaker,
+    speed,
+    path: `audio/${s.id}_${speed}.mp3`,
+    duration: 2,
+  }))
+);
+
+const labels = {
+  intro: 'Intro',
+  step1: 'Step 1',
+  step2: 'Step 2',
+  step3: 'Step 3',
+  step4: 'Step 4',
+  ending: 'Ending',
+};
+
+describe('Video Timeline', () => {
+  const timeline = buildVideoTimeline({ script: { sentences }, audioFiles });
+
+  it('should lay out intro, four transition/step pairs and ending back to back', () => {
+    expect(timeline.segments.map((s) => (s.step ? `${s.kind}${s.step}` : s.kind))).toEqual([
+      'intro',
+      'transition1',
+      'step1',
+      'transition2',
+      'step2',
+      'transition3',
+      'step3',
+      'transition4',
+      'step4',
+      'ending',
+    ]);
+    timeline.segments.forEach((segment, i) => {
+      if (i > 0) expect(segment.startFrame).toBe(timeline.segments[i - 1].endFrame);
+    });
+    expect(timeline.durationInFrames).toBe(timeline.segments.at(-1)!.endFrame);
+    expect(getTimelineSegment(timeline, 'transition', 2).durationInFrames).toBe(
+      STEP_TRANSITION_DURATION
+    );
+  });
+
+  it('should match calculateTotalDuration', () => {
+    expect(timeline.durationInFrames).toBe(calculateTotalDuration(sentences, audioFiles));
+  });
+
+  it('should place sentence entries inside their step', () => {
+    for (const step of [1, 2, 3, 4] as const) {
+      const segment = getTimelineSegment(timeline, 'step', step);
+      expect(segment.entries.length).toBeGreaterThan(0);
+      for (const entry of segment.entries) {
+        expect(entry.startFrame).toBeGreaterThanOrEqual(segment.startFrame);
+        expect(entry.endFrame).toBeLessThanOrEqual(segment.endFrame);
+      }
+    }
+  });
+
+  it('should expand Step3 entries by the repetition program', () => {
+    const step3 = getTimelineSegment(timeline, 'step', 3);
+    expect(step3.entries).toHaveLength(sentences.length * 5);
+    expect(step3.entries.slice(0, 5).map((e) => e.speed)).toEqual([
+      '0.8x',
+      '1.0x',
+      '1.0x',
+      '1.0x',
+      '1.2x',
+    ]);
+    expect(step3.entries[4]).toMatchObject({ repetition: 5, subtitle: 'answer' });
+  });
+
+  it('should start chapters at each step after its transition', () => {
+    const chapters = getTimelineChapters(timeline, labels);
+
+    expect(chapters.map((c) => c.label)).toEqual(Object.values(labels));
+    expect(chapters[0].time).toBe('00:00');
+    expect(chapters[1].startFrame).toBe(getTimelineSegment(timeline, 'step', 1).startFrame);
+  });
+
+  it('should format chapter times as MM:SS', () => {
+    expect(formatChapterTime(0)).toBe('00:00');
+    expect(formatChapterTime(75.9)).toBe('01:15');
+  });
+});
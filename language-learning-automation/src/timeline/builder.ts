@@ -0,0 +1,185 @@
+/**
+ * Declarative video timeline
+ * Main 렌더링, 총 길이 계산, 업로드 챕터, 자막 내보내기가 모두 같은 프레임 정보를 사용하도록
+ * 인트로 → (전환 → 스텝) × 4 → 엔딩 구간을 한 번만 계산
+ */
+
+import type { ChannelConfig } from '../config/types';
+import type { Script } from '../script/types';
+import { type AudioFile, NORMAL_SPEED } from '../tts/types';
+import { calculateIntroDuration } from '../compositions/Intro';
+import { calculateStep1Duration, getStep1Sequences } from '../compositions/Step1';
+import { calculateStep2Duration, getStep2Sequences } from '../compositions/Step2';
+import { getStep3Sequences } from '../compositions/Step3';
+import { calculateStep4Duration, getStep4Sequences } from '../compositions/Step4';
+import { STEP_TRANSITION_DURATION } from '../compositions/StepTransition';
+import { ENDING_DURATION } from '../compositions/Ending';
+import {
+  TIMELINE_STEPS,
+  type IntroNarrationDurations,
+  type TimelineChapter,
+  type TimelineChapterLabels,
+  type TimelineSegment,
+  type TimelineSegmentKind,
+  type TimelineSentenceEntry,
+  type TimelineStep,
+  type VideoTimeline,
+} from './types';
+
+export const TIMELINE_FPS = 30;
+
+export interface TimelineInput {
+  script: Pick<Script, 'sentences'>;
+  /** Audio manifest (audio/manifest.json) */
+  audioFiles: AudioFile[];
+  content?: Pick<ChannelConfig['content'], 'step3Program'>;
+  narration?: IntroNarrationDurations;
+}
+
+/**
+ * Build the full-video timeline from the script, audio manifest and channel config
+ */
+export function buildVideoTimeline(input: TimelineInput): VideoTimeline {
+  const { narration } = input;
+  const segments: TimelineSegment[] = [];
+  let cursor = 0;
+
+  const push = (
+    kind: TimelineSegmentKind,
+    durationInFrames: number,
+    step?: TimelineStep,
+    entries: TimelineSentenceEntry[] = []
+  ) => {
+    segments.push({
+      kind,
+      ...(step ? { step } : {}),
+      startFrame: cursor,
+      endFrame: cursor + durationInFrames,
+      durationInFrames,
+      entries,
+    });
+    cursor += durationInFrames;
+  };
+
+  push(
+    'intro',
+    calculateIntroDuration(narration?.viral, narration?.guide, narration?.steps, narration?.closing)
+  );
+
+  for (const step of TIMELINE_STEPS) {
+    push('transition', STEP_TRANSITION_DURATION, step);
+    const { durationInFrames, entries } = buildStepEntries(step, input, cursor);
+    push('step', durationInFrames, step, entries);
+  }
+
+  push('ending', ENDING_DURATION);
+
+  return { fps: TIMELINE_FPS, durationInFrames: cursor, segments };
+}
+
+// Sentence entries of one step, shifted to the step's start frame
+function buildStepEntries(
+  step: TimelineStep,
+  { script: { sentences }, audioFiles, content }: TimelineInput,
+  offset: number
+): { durationInFrames: number; entries: TimelineSentenceEntry[] } {
+  switch (step) {
+    case 1:
+    case 4: {
+      const sequences = step === 1 ? getStep1Sequences(audioFiles) : getStep4Sequences(audioFiles);
+      return {
+        durationInFrames:
+          step === 1 ? calculateStep1Duration(audioFiles) : calculateStep4Duration(audioFiles),
+        entries: sequences.map(({ audio, startFrame, durationFrames }) => ({
+          sentenceId: audio.sentenceId,
+          speaker: audio.speaker,
+          speed: audio.speed,
+          repetition: 1,
+          audio,
+          startFrame: offset + startFrame,
+          endFrame: offset + startFrame + durationFrames,
+        })),
+      };
+    }
+    case 2:
+      return {
+        durationInFrames: calculateStep2Duration(sentences, audioFiles),
+        entries: getStep2Sequences(sentences, audioFiles).map(
+          ({ sentence, audio, startFrame, durationFrames }) => ({
+            sentenceId: sentence.id,
+            speaker: sentence.speaker,
+            speed: audio?.speed ?? NORMAL_SPEED,
+            repetition: 1,
+            audio,
+            startFrame: offset + startFrame,
+            endFrame: offset + startFrame + durationFrames,
+          })
+        ),
+      };
+    case 3: {
+      const sequences = getStep3Sequences(sentences, audioFiles, content?.step3Program);
+      return {
+        durationInFrames: sequences.reduce((sum, seq) => sum + seq.durationFrames, 0),
+        entries: sequences.map((seq) => ({
+          sentenceId: seq.sentence.id,
+          speaker: seq.sentence.speaker,
+          speed: seq.config.speed,
+          repetition: seq.repetition,
+          subtitle: seq.config.subtitle,
+          translation: seq.config.translation,
+          audio: seq.audio,
+          startFrame: offset + seq.startFrame,
+          endFrame: offset + seq.startFrame + seq.durationFrames,
+        })),
+      };
+    }
+  }
+}
+
+/**
+ * Find a segment by kind (and step number for transitions/steps)
+ */
+export function getTimelineSegment(
+  timeline: VideoTimeline,
+  kind: TimelineSegmentKind,
+  step?: TimelineStep
+): TimelineSegment {
+  const segment = timeline.segments.find(
+    (s) => s.kind === kind && (step === undefined || s.step === step)
+  );
+  if (!segment) {
+    throw new Error(`Timeline segment not found: ${kind}${step ? ` ${step}` : ''}`);
+  }
+  return segment;
+}
+
+/**
+ * Format seconds as a YouTube chapter timestamp (MM:SS)
+ */
+export function formatChapterTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${String(mins).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+}
+
+/**
+ * YouTube chapters: intro, each step (after its transition) and ending
+ */
+export function getTimelineChapters(
+  timeline: VideoTimeline,
+  labels: TimelineChapterLabels
+): TimelineChapter[] {
+  return timeline.segments
+    .filter((s) => s.kind !== 'transition')
+    .map((s) => {
+      const label =
+        s.kind === 'step'
+          ? labels[`step${s.step}` as keyof TimelineChapterLabels]
+          : labels[s.kind as 'intro' | 'ending'];
+      return {
+        startFrame: s.startFrame,
+        time: formatChapterTime(s.startFrame / timeline.fps),
+        label,
+      };
+    });
+}
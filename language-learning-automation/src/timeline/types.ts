@@ -0,0 +1,66 @@
+import type { Step3Phase } from '../config/types';
+import type { AudioFile, SpeedVariant } from '../tts/types';
+
+// Timeline segment kinds in render order
+export type TimelineSegmentKind = 'intro' | 'transition' | 'step' | 'ending';
+
+export type TimelineStep = 1 | 2 | 3 | 4;
+
+export const TIMELINE_STEPS: readonly TimelineStep[] = [1, 2, 3, 4];
+
+// One sentence sequence inside a step (absolute frames)
+export interface TimelineSentenceEntry {
+  sentenceId: number;
+  speaker: 'M' | 'F';
+  speed: SpeedVariant;
+  /** 반복 회차 (Step3 외에는 항상 1) */
+  repetition: number;
+  /** Step3 자막 모드 (Step3 외에는 없음) */
+  subtitle?: Step3Phase['subtitle'];
+  /** Step3 해석 표시 여부 (Step3 외에는 없음) */
+  translation?: boolean;
+  audio?: AudioFile;
+  startFrame: number;
+  endFrame: number;
+}
+
+export interface TimelineSegment {
+  kind: TimelineSegmentKind;
+  /** transition/step 세그먼트의 스텝 번호 */
+  step?: TimelineStep;
+  startFrame: number;
+  endFrame: number;
+  durationInFrames: number;
+  entries: TimelineSentenceEntry[];
+}
+
+export interface VideoTimeline {
+  fps: number;
+  durationInFrames: number;
+  segments: TimelineSegment[];
+}
+
+// Intro TTS durations (seconds) - 인트로 길이를 결정
+export interface IntroNarrationDurations {
+  viral?: number;
+  guide?: number;
+  steps?: number[];
+  closing?: number;
+}
+
+// Chapter labels (LocalePack['timeline']의 부분집합)
+export interface TimelineChapterLabels {
+  intro: string;
+  step1: string;
+  step2: string;
+  step3: string;
+  step4: string;
+  ending: string;
+}
+
+export interface TimelineChapter {
+  startFrame: number;
+  /** "MM:SS" (YouTube 챕터 형식) */
+  time: string;
+  label: string;
+}
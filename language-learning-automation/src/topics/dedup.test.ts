@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  pickLeastSimilar,
+  resolveSimilarityThreshold,
+  roundVector,
+  scoreTopicCandidates,
+} from './dedup';
+import { DEFAULT_SIMILARITY_THRESHOLDS, type TopicHistoryEntry } from './types';
+import { extractCharNgrams, hashNgramVector } from '../embedding/ngram';
+
+const embed = (text: string) => hashNgramVector(extractCharNgrams(text));
+
+const past = (topic: string, date = '2026-01-01') => ({
+  entry: { date, topic, category: 'conversation', embeddings: {} } as TopicHistoryEntry,
+  vector: embed(topic),
+});
+
+const candidate = (topic: string) => ({ topic, vector: embed(topic) });
+
+describe('resolveSimilarityThreshold', () => {
+  it('prefers the configured threshold', () => {
+    expect(resolveSimilarityThreshold('openai', 0.7)).toBe(0.7);
+  });
+
+  it('falls back to the provider default', () => {
+    expect(resolveSimilarityThreshold('local')).toBe(DEFAULT_SIMILARITY_THRESHOLDS.local);
+  });
+});
+
+describe('scoreTopicCandidates', () => {
+  const history = [
+    past('Ordering coffee at a cafe', '2026-01-05'),
+    past('Checking in at the airport'),
+    past('Returning an item at the store'),
+  ];
+
+  it('flags candidates too close to a past topic', () => {
+    const [dup, fresh] = scoreTopicCandidates(
+      [candidate('Ordering a coffee at the cafe'), candidate('Talking about the weekend')],
+      history,
+      { threshold: 0.5, sparse: true }
+    );
+
+    expect(dup.duplicate).toBe(true);
+    expect(dup.nearest).toMatchObject({ topic: 'Ordering coffee at a cafe', date: '2026-01-05' });
+    expect(fresh.duplicate).toBe(false);
+    expect(fresh.nearest!.similarity).toBeLessThan(0.5);
+  });
+
+  it('keeps the unweighted candidate vector for storage', () => {
+    const input = candidate('Ordering a coffee at the cafe');
+    const [score] = scoreTopicCandidates([input], history, { threshold: 0.5, sparse: true });
+
+    expect(score.vector).toBe(input.vector);
+  });
+
+  it('never flags candidates without history', () => {
+    const [score] = scoreTopicCandidates([candidate('Anything')], [], {
+      threshold: 0,
+      sparse: false,
+    });
+
+    expect(score).toMatchObject({ duplicate: false, nearest: undefined });
+  });
+});
+
+describe('pickLeastSimilar', () => {
+  it('returns the candidate farthest from history', () => {
+    const match = (similarity: number) => ({ topic: 'x', date: '2026-01-01', similarity });
+    const picked = pickLeastSimilar([
+      { topic: 'a', vector: [], nearest: match(0.9), duplicate: true },
+      { topic: 'b', vector: [], nearest: match(0.6), duplicate: true },
+    ]);
+
+    expect(picked?.topic).toBe('b');
+  });
+
+  it('returns undefined for no candidates', () => {
+    expect(pickLeastSimilar([])).toBeUndefined();
+  });
+});
+
+describe('roundVector', () => {
+  it('rounds to four digits by default', () => {
+    expect(roundVector([0.123456, -0.987654])).toEqual([0.1235, -0.9877]);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Topic de-duplication
+ * 주제 후보를 과거 주제 임베딩과 비교해서 너무 비슷한 후보를 제외
+ */
+
+import { applyIdf, cosineSimilarity } from '../embedding/ngram';
+import type { EmbeddingProviderName } from '../embedding/types';
+import {
+  DEFAULT_SIMILARITY_THRESHOLDS,
+  type TopicCandidateScore,
+  type TopicHistoryEntry,
+} from './types';
+
+/**
+ * Similarity threshold (channel config → provider default)
+ */
+export function resolveSimilarityThreshold(
+  provider: EmbeddingProviderName,
+  configured?: number
+): number {
+  return configured ?? DEFAULT_SIMILARITY_THRESHOLDS[provider];
+}
+
+/**
+ * Score candidates against past topics
+ * @param history - Past entries with their vectors (same provider / model as the candidates)
+ * @param options.sparse - local n-gram 벡터는 비교 집합 전체 기준으로 IDF 가중치 적용
+ */
+export function scoreTopicCandidates(
+  candidates: Array<{ topic: string; vector: number[] }>,
+  history: Array<{ entry: TopicHistoryEntry; vector: number[] }>,
+  options: { threshold: number; sparse: boolean }
+): TopicCandidateScore[] {
+  const vectors = [...history.map((h) => h.vector), ...candidates.map((c) => c.vector)];
+  const weighted = options.sparse ? applyIdf(vectors) : vectors;
+  const pastVectors = weighted.slice(0, history.length);
+
+  return candidates.map((candidate, i) => {
+    const vector = weighted[history.length + i];
+    let nearest: TopicCandidateScore['nearest'];
+    pastVectors.forEach((past, j) => {
+      const similarity = cosineSimilarity(vector, past);
+      if (!nearest || similarity > nearest.similarity) {
+        nearest = { topic: history[j].entry.topic, date: history[j].entry.date, similarity };
+      }
+    });
+    return {
+      topic: candidate.topic,
+      vector: candidate.vector,
+      nearest,
+      duplicate: nearest !== undefined && nearest.similarity >= options.threshold,
+    };
+  });
+}
+
+/**
+ * Candidate to fall back on when every candidate is a duplicate (least similar first)
+ */
+export function pickLeastSimilar(scores: TopicCandidateScore[]): TopicCandidateScore | undefined {
+  return [...scores].sort((a, b) => (a.nearest?.similarity ?? 0) - (b.nearest?.similarity ?? 0))[0];
+}
+
+/**
+ * Vector rounded for storage (history file size)
+ */
+export function roundVector(vector: number[], digits = 4): number[] {
+  const factor = 10 ** digits;
+  return vector.map((value) => Math.round(value * factor) / factor);
+}
+
+/**
+ * One-line description of a rejected candidate
+ */
+export function formatDuplicateTopic(score: TopicCandidateScore): string {
+  return score.nearest
+    ? `"${score.topic}" ≈ "${score.nearest.topic}" (${score.nearest.date}, ${score.nearest.similarity.toFixed(2)})`
+    : `"${score.topic}"`;
+}
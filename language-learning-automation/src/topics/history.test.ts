@@ -0,0 +1,45 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { getTopicHistoryPath, loadTopicHistory, saveTopicHistory } from './history';
+import { TOPIC_HISTORY_FILENAME } from './types';
+
+describe('Topic History', () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'topic-history-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it.each([
+    ['unparsable', '{ "version": 2, "entries": ['],
+    ['schema-invalid', JSON.stringify({ version: 2, channelId: 'english', entries: 'none' })],
+  ])('should keep an %s history file aside instead of overwriting it', async (_, content) => {
+    const historyPath = getTopicHistoryPath('english', rootDir);
+    await fs.mkdir(path.dirname(historyPath), { recursive: true });
+    await fs.writeFile(historyPath, content);
+
+    const history = await loadTopicHistory('english', rootDir);
+    expect(history.entries).toEqual([]);
+
+    history.entries.push({
+      date: '2026-01-15',
+      topic: '첫눈 오는 날',
+      category: 'story',
+      embeddings: {},
+    });
+    await saveTopicHistory(history, rootDir);
+
+    const files = await fs.readdir(path.dirname(historyPath));
+    const backup = files.find((file) => file.startsWith(`${TOPIC_HISTORY_FILENAME}.bak-`));
+    expect(backup).toBeDefined();
+    expect(await fs.readFile(path.join(path.dirname(historyPath), backup!), 'utf-8')).toBe(content);
+    expect((await loadTopicHistory('english', rootDir)).entries).toHaveLength(1);
+  });
+});
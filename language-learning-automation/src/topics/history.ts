@@ -0,0 +1,157 @@
+/**
+ * Topic history persistence (output/{channelId}/topic-history.json)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getEmbeddingKey, type EmbeddingProvider } from '../embedding/types';
+import { roundVector } from './dedup';
+import {
+  TOPIC_HISTORY_FILENAME,
+  TOPIC_HISTORY_VERSION,
+  topicHistoryEntrySchema,
+  topicHistorySchema,
+  type TopicHistory,
+  type TopicHistoryEntry,
+} from './types';
+
+const OUTPUT_DIR = path.join(process.cwd(), 'output');
+
+/**
+ * History file of a channel
+ */
+export function getTopicHistoryPath(channelId: string, rootDir = OUTPUT_DIR): string {
+  return path.join(rootDir, channelId, TOPIC_HISTORY_FILENAME);
+}
+
+/**
+ * Load a channel's topic history
+ * 채널 히스토리가 아직 없으면 예전 공용 히스토리로 시작,
+ * 파일이 깨졌으면 .bak 으로 옮겨 두고 빈 히스토리 (주제 선정을 멈추지 않고, 저장 시 덮어쓰지 않음)
+ */
+export async function loadTopicHistory(
+  channelId: string,
+  rootDir = OUTPUT_DIR
+): Promise<TopicHistory> {
+  const historyPath = getTopicHistoryPath(channelId, rootDir);
+  let content: string;
+  try {
+    content = await fs.readFile(historyPath, 'utf-8');
+  } catch {
+    return {
+      version: TOPIC_HISTORY_VERSION,
+      channelId,
+      // 채널 구분 없이 쓰던 예전 히스토리 (output/topic-history.json, 임베딩 없음)
+      entries: await loadLegacyEntries(path.join(rootDir, TOPIC_HISTORY_FILENAME)),
+    };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    const backupPath = await moveAside(historyPath);
+    console.warn(`   ⚠️ Unreadable topic history moved to ${backupPath}, starting empty: ${error}`);
+    return { version: TOPIC_HISTORY_VERSION, channelId, entries: [] };
+  }
+
+  const result = topicHistorySchema.safeParse(raw);
+  if (!result.success) {
+    const errors = result.error.issues
+      .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      .join(', ');
+    const backupPath = await moveAside(historyPath);
+    console.warn(`   ⚠️ Invalid topic history moved to ${backupPath}, starting empty: ${errors}`);
+    return { version: TOPIC_HISTORY_VERSION, channelId, entries: [] };
+  }
+  return result.data;
+}
+
+/**
+ * Rename a broken history file ({file}.bak-{timestamp}) so the next save cannot overwrite it
+ * @returns Backup path
+ */
+async function moveAside(historyPath: string): Promise<string> {
+  const backupPath = `${historyPath}.bak-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+  await fs.rename(historyPath, backupPath);
+  return backupPath;
+}
+
+/**
+ * Save a channel's topic history
+ */
+export async function saveTopicHistory(history: TopicHistory, rootDir = OUTPUT_DIR): Promise<void> {
+  const historyPath = getTopicHistoryPath(history.channelId, rootDir);
+  await fs.mkdir(path.dirname(historyPath), { recursive: true });
+  await fs.writeFile(historyPath, JSON.stringify(history, null, 2), 'utf-8');
+}
+
+/**
+ * Vectors of every history entry for a provider (missing ones are embedded in one batch)
+ * local n-gram 벡터는 대부분 0 이라 저장하지 않고 매번 다시 계산 (API 호출 없음)
+ * @returns History with the new vectors cached, and vectors in entry order
+ */
+export async function embedTopicHistory(
+  history: TopicHistory,
+  provider: EmbeddingProvider
+): Promise<{ history: TopicHistory; vectors: number[][] }> {
+  if (provider.sparse) {
+    return { history, vectors: await provider.embed(history.entries.map((e) => e.topic)) };
+  }
+
+  const key = getEmbeddingKey(provider);
+  const missing = history.entries.filter((entry) => !entry.embeddings[key]);
+  if (missing.length === 0) {
+    return { history, vectors: history.entries.map((entry) => entry.embeddings[key]) };
+  }
+
+  const embedded = await provider.embed(missing.map((entry) => entry.topic));
+  const vectors = new Map(missing.map((entry, i) => [entry, roundVector(embedded[i])]));
+  const entries = history.entries.map((entry) => {
+    const vector = vectors.get(entry);
+    return vector ? { ...entry, embeddings: { ...entry.embeddings, [key]: vector } } : entry;
+  });
+  return { history: { ...history, entries }, vectors: entries.map((e) => e.embeddings[key]) };
+}
+
+/**
+ * Every channel with a topic history under the output root
+ */
+export async function listTopicHistoryChannels(rootDir = OUTPUT_DIR): Promise<string[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(rootDir);
+  } catch {
+    return [];
+  }
+
+  const channels: string[] = [];
+  for (const entry of entries.sort()) {
+    try {
+      await fs.access(getTopicHistoryPath(entry, rootDir));
+      channels.push(entry);
+    } catch {
+      // 히스토리 없는 폴더
+    }
+  }
+  return channels;
+}
+
+async function loadLegacyEntries(legacyPath: string): Promise<TopicHistoryEntry[]> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(legacyPath, 'utf-8'));
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(raw)) return [];
+
+  const entries = raw.flatMap((item) => {
+    const result = topicHistoryEntrySchema.safeParse(item);
+    return result.success ? [result.data] : [];
+  });
+  if (entries.length > 0) {
+    console.log(`   📋 Starting channel topic history from ${entries.length} shared topics`);
+  }
+  return entries;
+}
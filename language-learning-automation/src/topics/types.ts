@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import type { EmbeddingProviderName } from '../embedding/types';
+import { categorySchema } from '../script/types';
+
+export const TOPIC_HISTORY_FILENAME = 'topic-history.json';
+export const TOPIC_HISTORY_VERSION = 1;
+
+// 이 값 이상으로 과거 주제와 비슷하면 중복 (채널 config topics.similarityThreshold 로 변경 가능)
+export const DEFAULT_SIMILARITY_THRESHOLDS: Record<EmbeddingProviderName, number> = {
+  local: 0.5,
+  openai: 0.85,
+  gemini: 0.9,
+};
+
+// One selected topic
+export const topicHistoryEntrySchema = z.object({
+  date: z.string().min(1),
+  topic: z.string().min(1),
+  category: categorySchema,
+  /** {provider}:{model} → vector (provider 를 바꾸면 필요할 때 다시 계산) */
+  embeddings: z.record(z.array(z.number())).optional().default({}),
+});
+
+export type TopicHistoryEntry = z.infer<typeof topicHistoryEntrySchema>;
+
+// Topic history file (output/{channelId}/topic-history.json) schema
+export const topicHistorySchema = z.object({
+  version: z.literal(TOPIC_HISTORY_VERSION),
+  channelId: z.string().min(1),
+  entries: z.array(topicHistoryEntrySchema),
+});
+
+export type TopicHistory = z.infer<typeof topicHistorySchema>;
+
+/**
+ * Closest past topic of a candidate
+ */
+export interface TopicMatch {
+  topic: string;
+  date: string;
+  similarity: number;
+}
+
+/**
+ * Candidate checked against the history
+ */
+export interface TopicCandidateScore {
+  topic: string;
+  vector: number[];
+  /** undefined when the history is empty */
+  nearest?: TopicMatch;
+  duplicate: boolean;
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+  edgeBoundariesToWordTimings,
+  elevenLabsAlignmentToWordTimings,
+  estimateWordTimings,
+  scaleWordTimings,
+  findPhraseTiming,
+  getActiveWordIndex,
+  mapTextToWordTimings,
+} from './alignment';
+import { audioFileSchema } from './types';
+
+describe('Word Timing Alignment', () => {
+  describe('edgeBoundariesToWordTimings', () => {
+    it('should convert 100ns ticks to seconds', () => {
+      const words = edgeBoundariesToWordTimings([
+        { offset: 1_000_000, duration: 3_000_000, text: 'Hello' },
+        { offset: 4_500_000, duration: 4_000_000, text: 'world' },
+      ]);
+
+      expect(words).toEqual([
+        { word: 'Hello', start: 0.1, end: 0.4 },
+        { word: 'world', start: 0.45, end: 0.85 },
+      ]);
+    });
+
+    it('should drop empty boundary events', () => {
+      expect(edgeBoundariesToWordTimings([{ offset: 0, duration: 10, text: ' ' }])).toEqual([]);
+    });
+  });
+
+  describe('elevenLabsAlignmentToWordTimings', () => {
+    it('should group characters into words', () => {
+      const words = elevenLabsAlignmentToWordTimings({
+        characters: ['H', 'i', ' ', 'y', 'o', 'u'],
+        character_start_times_seconds: [0, 0.1, 0.2, 0.3, 0.4, 0.5],
+        character_end_times_seconds: [0.1, 0.2, 0.3, 0.4, 0.5, 0.6],
+      });
+
+      expect(words).toEqual([
+        { word: 'Hi', start: 0, end: 0.2 },
+        { word: 'you', start: 0.3, end: 0.6 },
+      ]);
+    });
+  });
+
+  describe('estimateWordTimings', () => {
+    it('should produce ordered, non-overlapping timings within the duration', () => {
+      const words = estimateWordTimings('I would like a large coffee, please.', 3);
+
+      expect(words).toHaveLength(7);
+      for (let i = 0; i < words.length; i++) {
+        expect(words[i].start).toBeLessThan(words[i].end);
+        if (i > 0) expect(words[i].start).toBeGreaterThanOrEqual(words[i - 1].end);
+      }
+      expect(words[0].start).toBeGreaterThan(0);
+      expect(words.at(-1)!.end).toBeLessThanOrEqual(3);
+    });
+
+    it('should give longer words more time', () => {
+      const [short, long] = estimateWordTimings('a wonderful', 2);
+      expect(long.end - long.start).toBeGreaterThan(short.end - short.start);
+    });
+
+    it('should return nothing for empty text or zero duration', () => {
+      expect(estimateWordTimings('   ', 2)).toEqual([]);
+      expect(estimateWordTimings('Hello', 0)).toEqual([]);
+    });
+  });
+
+  describe('scaleWordTimings', () => {
+    it('should compress timings for faster audio', () => {
+      expect(scaleWordTimings([{ word: 'go', start: 1.2, end: 2.4 }], 1.2)).toEqual([
+        { word: 'go', start: 1, end: 2 },
+      ]);
+    });
+  });
+
+  describe('findPhraseTiming', () => {
+    const words = [
+      { word: 'I', start: 0.1, end: 0.2 },
+      { word: 'need', start: 0.25, end: 0.5 },
+      { word: 'a', start: 0.55, end: 0.6 },
+      { word: 'Receipt,', start: 0.65, end: 1.1 },
+      { word: 'please.', start: 1.3, end: 1.7 },
+    ];
+
+    it('should match a single word ignoring case and punctuation', () => {
+      expect(findPhraseTiming(words, 'receipt')).toEqual({ start: 0.65, end: 1.1 });
+    });
+
+    it('should match a multi-word phrase', () => {
+      expect(findPhraseTiming(words, 'a receipt')).toEqual({ start: 0.55, end: 1.1 });
+    });
+
+    it('should return null when the phrase is not spoken', () => {
+      expect(findPhraseTiming(words, 'ticket')).toBeNull();
+    });
+  });
+
+  describe('getActiveWordIndex', () => {
+    const words = [
+      { word: 'Good', start: 0.2, end: 0.5 },
+      { word: 'morning', start: 0.6, end: 1.0 },
+    ];
+
+    it('should return the last word that has started', () => {
+      expect(getActiveWordIndex(words, 0.1)).toBe(-1);
+      expect(getActiveWordIndex(words, 0.3)).toBe(0);
+      expect(getActiveWordIndex(words, 0.55)).toBe(0);
+      expect(getActiveWordIndex(words, 2)).toBe(1);
+    });
+  });
+
+  describe('mapTextToWordTimings', () => {
+    it('should match display tokens with punctuation to timed words', () => {
+      const words = [
+        { word: 'Hi', start: 0.1, end: 0.3 },
+        { word: 'there', start: 0.4, end: 0.7 },
+      ];
+      const mapped = mapTextToWordTimings('Hi, there!', words);
+
+      expect(mapped.map((m) => m.token)).toEqual(['Hi,', 'there!']);
+      expect(mapped.map((m) => m.timing)).toEqual(words);
+    });
+
+    it('should let unmatched tokens follow the previous word', () => {
+      const words = [
+        { word: 'Wait', start: 0.1, end: 0.3 },
+        { word: 'here', start: 0.5, end: 0.8 },
+      ];
+      const mapped = mapTextToWordTimings('Wait — here', words);
+
+      expect(mapped[1].timing).toEqual(words[0]);
+      expect(mapped[2].timing).toEqual(words[1]);
+    });
+  });
+
+  describe('audioFileSchema with word timings', () => {
+    it('should accept audio files with and without words', () => {
+      const base = { sentenceId: 1, speaker: 'M', speed: '1.0x', path: '/a.mp3', duration: 2 };
+
+      expect(audioFileSchema.safeParse(base).success).toBe(true);
+      expect(
+        audioFileSchema.safeParse({
+          ...base,
+          words: [{ word: 'Hi', start: 0, end: 0.3 }],
+          wordTimingSource: 'provider',
+        }).success
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Word-level timing alignment
+ * TTS 제공자별 타이밍 데이터를 WordTiming[]으로 변환하고,
+ * 타이밍을 주지 않는 제공자는 로컬 추정 정렬로 대체
+ */
+
+import type { WordTiming } from './types';
+
+// Edge TTS word boundary offsets/durations are in 100-nanosecond ticks
+const EDGE_TICKS_PER_SECOND = 10_000_000;
+
+// Edge TTS WordBoundary event (@andresaya/edge-tts)
+export interface EdgeWordBoundary {
+  offset: number;
+  duration: number;
+  text: string;
+}
+
+// ElevenLabs /with-timestamps character alignment
+export interface ElevenLabsAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+/**
+ * Convert Edge TTS word boundary events to word timings
+ */
+export function edgeBoundariesToWordTimings(boundaries: EdgeWordBoundary[]): WordTiming[] {
+  return boundaries
+    .filter((b) => b.text && b.text.trim().length > 0)
+    .map((b) => ({
+      word: b.text.trim(),
+      start: roundTime(b.offset / EDGE_TICKS_PER_SECOND),
+      end: roundTime((b.offset + b.duration) / EDGE_TICKS_PER_SECOND),
+    }));
+}
+
+/**
+ * Group ElevenLabs character alignment into word timings (split on whitespace)
+ */
+export function elevenLabsAlignmentToWordTimings(alignment: ElevenLabsAlignment): WordTiming[] {
+  const words: WordTiming[] = [];
+  let current: WordTiming | null = null;
+
+  alignment.characters.forEach((char, i) => {
+    if (/\s/.test(char)) {
+      if (current) words.push(current);
+      current = null;
+      return;
+    }
+
+    const start = alignment.character_start_times_seconds[i] ?? 0;
+    const end = alignment.character_end_times_seconds[i] ?? start;
+    if (current) {
+      current.word += char;
+      current.end = roundTime(end);
+    } else {
+      current = { word: char, start: roundTime(start), end: roundTime(end) };
+    }
+  });
+
+  if (current) words.push(current);
+  return words;
+}
+
+/**
+ * Local alignment fallback for providers without timing data
+ * 문장 앞뒤 무음을 제외한 구간을 단어 길이(글자 수 + 문장부호 쉼) 비율로 분배
+ */
+export function estimateWordTimings(
+  text: string,
+  duration: number,
+  options: { leadingSilence?: number; trailingSilence?: number } = {}
+): WordTiming[] {
+  const tokens = text.trim().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0 || duration <= 0) return [];
+
+  const leading = Math.min(options.leadingSilence ?? 0.1, duration * 0.1);
+  const trailing = Math.min(options.trailingSilence ?? 0.2, duration * 0.1);
+  const speechDuration = duration - leading - trailing;
+
+  // 단어 무게: 글자 수 + 쉼표/마침표 뒤의 짧은 쉼
+  const weights = tokens.map((token) => {
+    const letters = token.replace(/[^\p{L}\p{N}]/gu, '').length || 1;
+    const pause = /[,;:]$/.test(token) ? 2 : /[.!?]$/.test(token) ? 3 : 0;
+    return { letters, pause };
+  });
+  const totalWeight = weights.reduce((sum, w) => sum + w.letters + w.pause, 0);
+  const secondsPerWeight = speechDuration / totalWeight;
+
+  const words: WordTiming[] = [];
+  let cursor = leading;
+  tokens.forEach((token, i) => {
+    const start = cursor;
+    const end = start + weights[i].letters * secondsPerWeight;
+    words.push({ word: token, start: roundTime(start), end: roundTime(end) });
+    cursor = end + weights[i].pause * secondsPerWeight;
+  });
+
+  return words;
+}
+
+/**
+ * Rescale word timings for audio whose tempo was changed afterwards (e.g. ffmpeg atempo)
+ * @param speedMultiplier - 1.2 means the audio plays 1.2x faster
+ */
+export function scaleWordTimings(words: WordTiming[], speedMultiplier: number): WordTiming[] {
+  return words.map((w) => ({
+    word: w.word,
+    start: roundTime(w.start / speedMultiplier),
+    end: roundTime(w.end / speedMultiplier),
+  }));
+}
+
+/**
+ * Find when a word or phrase is spoken (case/punctuation insensitive)
+ * @returns Time range of the first match, or null
+ */
+export function findPhraseTiming(
+  words: WordTiming[],
+  phrase: string
+): { start: number; end: number } | null {
+  const target = phrase.split(/\s+/).map(normalizeWord).filter(Boolean);
+  if (target.length === 0) return null;
+
+  const normalized = words.map((w) => normalizeWord(w.word));
+  for (let i = 0; i + target.length <= normalized.length; i++) {
+    if (target.every((t, j) => normalized[i + j] === t)) {
+      return { start: words[i].start, end: words[i + target.length - 1].end };
+    }
+  }
+  return null;
+}
+
+/**
+ * Index of the word being spoken at the given time (-1 before the first word)
+ */
+export function getActiveWordIndex(words: WordTiming[], time: number): number {
+  let active = -1;
+  for (let i = 0; i < words.length; i++) {
+    if (words[i].start <= time) active = i;
+    else break;
+  }
+  return active;
+}
+
+/**
+ * Attach word timings to the display tokens of a sentence (whitespace split)
+ * 문장부호/표기 차이로 매칭되지 않은 토큰은 앞(없으면 뒤) 단어의 타이밍을 따름
+ */
+export function mapTextToWordTimings(
+  text: string,
+  words: WordTiming[]
+): Array<{ token: string; timing: WordTiming | null }> {
+  const tokens = text.trim().split(/\s+/).filter(Boolean);
+  const normalizedWords = words.map((w) => normalizeWord(w.word));
+  const MAX_LOOKAHEAD = 3;
+
+  let cursor = 0;
+  const mapped = tokens.map((token) => {
+    const normalized = normalizeWord(token);
+    if (!normalized) return { token, timing: null as WordTiming | null };
+
+    for (let j = cursor; j < Math.min(words.length, cursor + MAX_LOOKAHEAD); j++) {
+      if (normalizedWords[j] === normalized) {
+        cursor = j + 1;
+        return { token, timing: words[j] };
+      }
+    }
+    return { token, timing: null as WordTiming | null };
+  });
+
+  // 토큰 수와 단어 수가 같고 매칭이 전혀 안 되면 (예: 다른 표기) 순서대로 대응
+  if (tokens.length === words.length && mapped.every((m) => m.timing === null)) {
+    return tokens.map((token, i) => ({ token, timing: words[i] }));
+  }
+
+  let previous: WordTiming | null = null;
+  for (const m of mapped) {
+    if (m.timing) previous = m.timing;
+    else m.timing = previous;
+  }
+  let next: WordTiming | null = null;
+  for (let i = mapped.length - 1; i >= 0; i--) {
+    if (mapped[i].timing) next = mapped[i].timing;
+    else mapped[i].timing = next;
+  }
+
+  return mapped;
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
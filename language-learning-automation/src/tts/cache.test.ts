@@ -0,0 +1,135 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AudioCache } from './cache';
+import { createAudioCacheKey, type AudioCacheKeyInput } from './types';
+
+const input = (text: string): AudioCacheKeyInput => ({
+  provider: 'edge',
+  voice: 'en-US-GuyNeural',
+  speed: '1.0x',
+  languageCode: 'en-US',
+  text,
+});
+
+describe('AudioCache', () => {
+  let tmpDir: string;
+  let cacheDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tts-cache-'));
+    cacheDir = path.join(tmpDir, 'cache');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  // Write a fake audio file of `size` bytes
+  async function createAudio(name: string, size = 10): Promise<string> {
+    const filePath = path.join(tmpDir, name);
+    await fs.writeFile(filePath, Buffer.alloc(size, 1));
+    return filePath;
+  }
+
+  // Move an entry's last use back by `days`
+  async function ageEntry(text: string, days: number): Promise<void> {
+    const entryPath = path.join(cacheDir, `${createAudioCacheKey(input(text))}.json`);
+    const entry = JSON.parse(await fs.readFile(entryPath, 'utf-8'));
+    entry.lastUsedAt = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    await fs.writeFile(entryPath, JSON.stringify(entry));
+  }
+
+  describe('restore', () => {
+    it('should miss when nothing was stored', async () => {
+      const cache = new AudioCache(cacheDir);
+      const destPath = path.join(tmpDir, 'out', 'a.mp3');
+
+      expect(await cache.restore(input('Hello'), destPath)).toBeNull();
+      await expect(fs.access(destPath)).rejects.toThrow();
+      expect(await cache.getStats()).toMatchObject({ entries: 0, hits: 0, misses: 1 });
+    });
+
+    it('should copy the stored audio and return its metadata on a hit', async () => {
+      const cache = new AudioCache(cacheDir);
+      const words = [{ word: 'Hello', start: 0, end: 0.5 }];
+      await cache.store(input('Hello'), await createAudio('hello.mp3', 32), {
+        duration: 1.25,
+        words,
+        wordTimingSource: 'estimated',
+      });
+
+      const destPath = path.join(tmpDir, 'out', 'a.mp3');
+      const metadata = await cache.restore(input('Hello'), destPath);
+
+      expect(metadata).toEqual({ duration: 1.25, words, wordTimingSource: 'estimated' });
+      expect((await fs.stat(destPath)).size).toBe(32);
+      expect(await cache.getStats()).toMatchObject({
+        entries: 1,
+        totalBytes: 32,
+        hits: 1,
+        misses: 0,
+      });
+    });
+
+    it('should miss for a different text or when disabled', async () => {
+      const cache = new AudioCache(cacheDir);
+      await cache.store(input('Hello'), await createAudio('hello.mp3'));
+
+      expect(await cache.restore(input('Goodbye'), path.join(tmpDir, 'b.mp3'))).toBeNull();
+      const disabled = new AudioCache(cacheDir, false);
+      expect(await disabled.restore(input('Hello'), path.join(tmpDir, 'c.mp3'))).toBeNull();
+    });
+  });
+
+  describe('getOrCreate', () => {
+    it('should create once and restore afterwards', async () => {
+      const cache = new AudioCache(cacheDir);
+      let created = 0;
+      const create = async (destPath: string) => {
+        created++;
+        await fs.writeFile(destPath, 'audio');
+      };
+
+      expect(await cache.getOrCreate(input('Hi'), path.join(tmpDir, 'a.mp3'), create)).toEqual({
+        cached: false,
+      });
+      expect(await cache.getOrCreate(input('Hi'), path.join(tmpDir, 'b.mp3'), create)).toEqual({
+        cached: true,
+      });
+      expect(created).toBe(1);
+      expect(await fs.readFile(path.join(tmpDir, 'b.mp3'), 'utf-8')).toBe('audio');
+    });
+  });
+
+  describe('prune', () => {
+    it('should remove entries unused for maxAgeDays', async () => {
+      const cache = new AudioCache(cacheDir);
+      await cache.store(input('old'), await createAudio('old.mp3'));
+      await cache.store(input('new'), await createAudio('new.mp3'));
+      await ageEntry('old', 40);
+
+      expect(await cache.prune({ maxAgeDays: 30 })).toBe(1);
+      expect(await cache.restore(input('old'), path.join(tmpDir, 'a.mp3'))).toBeNull();
+      expect(await cache.restore(input('new'), path.join(tmpDir, 'b.mp3'))).not.toBeNull();
+    });
+
+    it('should remove least recently used entries until under maxSizeMB', async () => {
+      const cache = new AudioCache(cacheDir);
+      const halfMB = 512 * 1024;
+      await cache.store(input('first'), await createAudio('first.mp3', halfMB));
+      await cache.store(input('second'), await createAudio('second.mp3', halfMB));
+      await cache.store(input('third'), await createAudio('third.mp3', halfMB));
+      await ageEntry('first', 2);
+      await ageEntry('second', 3);
+      await ageEntry('third', 1);
+
+      expect(await cache.prune({ maxSizeMB: 1 })).toBe(1);
+      expect(await cache.getStats()).toMatchObject({ entries: 2, totalBytes: 2 * halfMB });
+      expect(await cache.restore(input('second'), path.join(tmpDir, 'a.mp3'))).toBeNull();
+      expect(await cache.restore(input('first'), path.join(tmpDir, 'b.mp3'))).not.toBeNull();
+    });
+  });
+});
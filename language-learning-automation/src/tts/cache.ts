@@ -0,0 +1,237 @@
+/**
+ * Content-addressed TTS audio cache
+ * 동일한 provider/voice/speed/언어/텍스트 조합은 실행 간에 재사용
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  createAudioCacheKey,
+  type AudioCacheKeyInput,
+  type WordTiming,
+  type WordTimingSource,
+} from './types';
+
+const DEFAULT_CACHE_DIR = path.join(process.cwd(), 'output', '.tts-cache');
+
+// Cache entry metadata ({key}.json next to {key}.mp3)
+interface AudioCacheEntry {
+  key: string;
+  input: AudioCacheKeyInput;
+  duration?: number;
+  words?: WordTiming[];
+  wordTimingSource?: WordTimingSource;
+  size: number;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+export interface AudioCacheStats {
+  entries: number;
+  totalBytes: number;
+  /** Hits/misses since this process started */
+  hits: number;
+  misses: number;
+}
+
+// Metadata restored together with the cached audio
+export interface AudioCacheMetadata {
+  duration?: number;
+  words?: WordTiming[];
+  wordTimingSource?: WordTimingSource;
+}
+
+export interface AudioCachePruneOptions {
+  /** Remove entries not used for this many days */
+  maxAgeDays?: number;
+  /** Remove least recently used entries until the cache fits this size */
+  maxSizeMB?: number;
+}
+
+export class AudioCache {
+  private cacheDir: string;
+  private enabled: boolean;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(cacheDir: string = DEFAULT_CACHE_DIR, enabled = true) {
+    this.cacheDir = cacheDir;
+    this.enabled = enabled;
+  }
+
+  /**
+   * Copy a cached audio file to destPath
+   * @returns Entry metadata on a hit, null on a miss
+   */
+  async restore(input: AudioCacheKeyInput, destPath: string): Promise<AudioCacheMetadata | null> {
+    if (!this.enabled) return null;
+
+    const key = createAudioCacheKey(input);
+    const entry = await this.readEntry(key);
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
+
+    try {
+      await fs.mkdir(path.dirname(destPath), { recursive: true });
+      await fs.copyFile(this.audioPath(key), destPath);
+    } catch {
+      this.misses++;
+      return null;
+    }
+
+    this.hits++;
+    entry.lastUsedAt = new Date().toISOString();
+    await this.writeEntry(entry);
+    return {
+      duration: entry.duration,
+      words: entry.words,
+      wordTimingSource: entry.wordTimingSource,
+    };
+  }
+
+  /**
+   * Store a generated audio file in the cache
+   */
+  async store(
+    input: AudioCacheKeyInput,
+    sourcePath: string,
+    metadata: AudioCacheMetadata = {}
+  ): Promise<void> {
+    if (!this.enabled) return;
+
+    const key = createAudioCacheKey(input);
+    try {
+      await fs.mkdir(this.cacheDir, { recursive: true });
+      await fs.copyFile(sourcePath, this.audioPath(key));
+      const stats = await fs.stat(sourcePath);
+      const now = new Date().toISOString();
+      await this.writeEntry({
+        key,
+        input,
+        ...metadata,
+        size: stats.size,
+        createdAt: now,
+        lastUsedAt: now,
+      });
+    } catch (error) {
+      console.warn(`   ⚠️ Failed to cache audio ${path.basename(sourcePath)}: ${error}`);
+    }
+  }
+
+  /**
+   * Restore from cache or create the file and cache it
+   * @param create - writes the audio to destPath on a miss
+   */
+  async getOrCreate(
+    input: AudioCacheKeyInput,
+    destPath: string,
+    create: (destPath: string) => Promise<void>
+  ): Promise<{ cached: boolean }> {
+    if (await this.restore(input, destPath)) {
+      return { cached: true };
+    }
+    await create(destPath);
+    await this.store(input, destPath);
+    return { cached: false };
+  }
+
+  async getStats(): Promise<AudioCacheStats> {
+    const entries = await this.listEntries();
+    return {
+      entries: entries.length,
+      totalBytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  /**
+   * Remove old or least recently used entries
+   * @returns Number of removed entries
+   */
+  async prune(options: AudioCachePruneOptions = {}): Promise<number> {
+    const entries = (await this.listEntries()).sort((a, b) =>
+      a.lastUsedAt.localeCompare(b.lastUsedAt)
+    );
+    const toRemove = new Set<string>();
+
+    if (options.maxAgeDays !== undefined) {
+      const cutoff = Date.now() - options.maxAgeDays * 24 * 60 * 60 * 1000;
+      for (const entry of entries) {
+        if (new Date(entry.lastUsedAt).getTime() < cutoff) toRemove.add(entry.key);
+      }
+    }
+
+    if (options.maxSizeMB !== undefined) {
+      const maxBytes = options.maxSizeMB * 1024 * 1024;
+      let totalBytes = entries
+        .filter((entry) => !toRemove.has(entry.key))
+        .reduce((sum, entry) => sum + entry.size, 0);
+      for (const entry of entries) {
+        if (totalBytes <= maxBytes) break;
+        if (toRemove.has(entry.key)) continue;
+        toRemove.add(entry.key);
+        totalBytes -= entry.size;
+      }
+    }
+
+    for (const key of toRemove) {
+      await fs.rm(this.audioPath(key), { force: true });
+      await fs.rm(this.entryPath(key), { force: true });
+    }
+
+    return toRemove.size;
+  }
+
+  private audioPath(key: string): string {
+    return path.join(this.cacheDir, `${key}.mp3`);
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.cacheDir, `${key}.json`);
+  }
+
+  private async readEntry(key: string): Promise<AudioCacheEntry | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.entryPath(key), 'utf-8')) as AudioCacheEntry;
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeEntry(entry: AudioCacheEntry): Promise<void> {
+    await fs.writeFile(this.entryPath(entry.key), JSON.stringify(entry, null, 2), 'utf-8');
+  }
+
+  private async listEntries(): Promise<AudioCacheEntry[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.cacheDir);
+    } catch {
+      return [];
+    }
+
+    const entries: AudioCacheEntry[] = [];
+    for (const file of files.filter((f) => f.endsWith('.json'))) {
+      const entry = await this.readEntry(file.replace('.json', ''));
+      if (entry) entries.push(entry);
+    }
+    return entries;
+  }
+}
+
+// 싱글톤 인스턴스 (TTS_CACHE_DIR로 위치 변경, TTS_CACHE=off로 비활성화)
+export const audioCache = new AudioCache(
+  process.env.TTS_CACHE_DIR || DEFAULT_CACHE_DIR,
+  process.env.TTS_CACHE !== 'off'
+);
+
+/**
+ * Format cache stats for CLI output
+ */
+export function formatAudioCacheStats(stats: AudioCacheStats): string {
+  const sizeMB = (stats.totalBytes / 1024 / 1024).toFixed(2);
+  return `${stats.entries} entries, ${sizeMB} MB (this run: ${stats.hits} hits, ${stats.misses} misses)`;
+}
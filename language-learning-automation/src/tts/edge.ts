@@ -1,7 +1,8 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import type { AudioFile, AudioGenerationResult, SpeedVariant } from './types';
-import { speedMultipliers, generateAudioFilename } from './types';
+import { getSpeedMultiplier, generateAudioFilename, speedVariants } from './types';
+import { edgeBoundariesToWordTimings } from './alignment';
 
 // Edge TTS voices for English
 export type EdgeVoice =
@@ -28,14 +29,8 @@ export type EdgeVoice =
  * Convert speed variant to Edge TTS rate string
  */
 function speedToRate(speed: SpeedVariant): string {
-  switch (speed) {
-    case '0.8x':
-      return '-20%';
-    case '1.0x':
-      return '+0%';
-    case '1.2x':
-      return '+20%';
-  }
+  const percent = Math.round((getSpeedMultiplier(speed) - 1) * 100);
+  return `${percent >= 0 ? '+' : ''}${percent}%`;
 }
 
 /**
@@ -75,10 +70,13 @@ export async function generateWithEdge(
     const audioBuffer = await tts.toBuffer();
     await fs.writeFile(filePath, audioBuffer);
 
+    // Word boundary events (offsets already reflect the rate)
+    const words = edgeBoundariesToWordTimings(tts.getWordBoundaries());
+
     // Estimate duration based on text length and speed
     const wordCount = text.split(/\s+/).length;
     const baseDuration = (wordCount / 150) * 60; // ~150 words per minute
-    const speedMultiplier = speedMultipliers[speed];
+    const speedMultiplier = getSpeedMultiplier(speed);
     const adjustedDuration = baseDuration / speedMultiplier;
 
     const audioFile: AudioFile = {
@@ -86,7 +84,8 @@ export async function generateWithEdge(
       speaker,
       speed,
       path: filePath,
-      duration: Math.max(adjustedDuration, 1.5), // Minimum 1.5 seconds
+      duration: Math.max(adjustedDuration, words.at(-1)?.end ?? 0, 1.5), // Minimum 1.5 seconds
+      ...(words.length > 0 ? { words, wordTimingSource: 'provider' as const } : {}),
     };
 
     return { success: true, audioFile };
@@ -107,9 +106,9 @@ export async function generateAllSpeedsWithEdge(
   voice: EdgeVoice,
   outputDir: string,
   sentenceId: number,
-  speaker: 'M' | 'F'
+  speaker: 'M' | 'F',
+  speeds: readonly SpeedVariant[] = speedVariants
 ): Promise<AudioGenerationResult[]> {
-  const speeds: SpeedVariant[] = ['0.8x', '1.0x', '1.2x'];
   const results: AudioGenerationResult[] = [];
 
   for (const speed of speeds) {
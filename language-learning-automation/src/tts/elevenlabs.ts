@@ -1,7 +1,15 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import type { AudioFile, SpeedVariant, AudioGenerationResult } from './types';
-import { generateAudioFilename } from './types';
+import { generateAudioFilename, getSpeedMultiplier, speedVariants } from './types';
+import { timeStretchAudio } from './time-stretch';
+import { fetchWithApiKey } from '../config/api-keys';
+import { trackUsage } from '../usage/tracker';
+import {
+  elevenLabsAlignmentToWordTimings,
+  scaleWordTimings,
+  type ElevenLabsAlignment,
+} from './alignment';
 
 // ElevenLabs models
 export const ELEVENLABS_MODELS = {
@@ -72,14 +80,24 @@ interface ElevenLabsRequest {
 }
 
 /**
- * Get ElevenLabs API key from environment
+ * POST a synthesis request with a pooled key (usage recorded per character)
  */
-function getApiKey(): string {
-  const apiKey = process.env.ELEVENLABS_API_KEY;
-  if (!apiKey) {
-    throw new Error('ELEVENLABS_API_KEY environment variable is not set');
-  }
-  return apiKey;
+function postSpeechRequest(url: string, request: ElevenLabsRequest): Promise<Response> {
+  return trackUsage(
+    { service: 'elevenlabs', model: request.model_id },
+    () =>
+      fetchWithApiKey('elevenlabs', (apiKey) =>
+        fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'xi-api-key': apiKey,
+          },
+          body: JSON.stringify(request),
+        })
+      ),
+    (response) => ({ characters: response.ok ? request.text.length : 0 })
+  );
 }
 
 /**
@@ -90,8 +108,6 @@ export async function synthesizeWithElevenLabs(
   voiceId: string,
   modelId: string = 'eleven_v3'
 ): Promise<Buffer> {
-  const apiKey = getApiKey();
-
   const request: ElevenLabsRequest = {
     text,
     model_id: modelId,
@@ -103,14 +119,7 @@ export async function synthesizeWithElevenLabs(
     },
   };
 
-  const response = await fetch(`${ELEVENLABS_API_URL}/${voiceId}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'xi-api-key': apiKey,
-    },
-    body: JSON.stringify(request),
-  });
+  const response = await postSpeechRequest(`${ELEVENLABS_API_URL}/${voiceId}`, request);
 
   if (!response.ok) {
     const errorText = await response.text();
@@ -121,6 +130,42 @@ export async function synthesizeWithElevenLabs(
   return Buffer.from(arrayBuffer);
 }
 
+/**
+ * Synthesize speech with character-level timestamps (/with-timestamps endpoint)
+ */
+export async function synthesizeWithElevenLabsTimestamps(
+  text: string,
+  voiceId: string,
+  modelId: string = 'eleven_v3'
+): Promise<{ audio: Buffer; alignment: ElevenLabsAlignment | null }> {
+  const request: ElevenLabsRequest = {
+    text,
+    model_id: modelId,
+    voice_settings: {
+      stability: 0.5,
+      similarity_boost: 0.75,
+      style: 0.0,
+      use_speaker_boost: true,
+    },
+  };
+
+  const response = await postSpeechRequest(
+    `${ELEVENLABS_API_URL}/${voiceId}/with-timestamps`,
+    request
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`ElevenLabs API error: ${response.status} - ${errorText}`);
+  }
+
+  const data = (await response.json()) as {
+    audio_base64: string;
+    alignment?: ElevenLabsAlignment | null;
+  };
+  return { audio: Buffer.from(data.audio_base64, 'base64'), alignment: data.alignment ?? null };
+}
+
 /**
  * Generate audio at a specific speed using ElevenLabs
  * Note: ElevenLabs doesn't have native speed control, so we use ffmpeg for speed adjustment
@@ -135,8 +180,12 @@ export async function generateWithElevenLabsAtSpeed(
   modelId: string = 'eleven_v3'
 ): Promise<AudioGenerationResult> {
   try {
-    // Generate at normal speed first
-    const audioBuffer = await synthesizeWithElevenLabs(text, voiceId, modelId);
+    // Generate at normal speed first (with character alignment)
+    const { audio: audioBuffer, alignment } = await synthesizeWithElevenLabsTimestamps(
+      text,
+      voiceId,
+      modelId
+    );
 
     // Ensure output directory exists
     await fs.mkdir(outputDir, { recursive: true });
@@ -145,23 +194,16 @@ export async function generateWithElevenLabsAtSpeed(
     const filename = generateAudioFilename(sentenceId, speaker, speed);
     const filePath = path.join(outputDir, filename);
 
+    const speedMultiplier = getSpeedMultiplier(speed);
+
     // If speed is 1.0x, save directly
-    if (speed === '1.0x') {
+    if (speedMultiplier === 1) {
       await fs.writeFile(filePath, audioBuffer);
     } else {
       // Use ffmpeg to adjust speed
       const tempPath = path.join(outputDir, `temp_${filename}`);
       await fs.writeFile(tempPath, audioBuffer);
-
-      const speedMultiplier = speed === '0.8x' ? 0.8 : 1.2;
-      const { exec } = await import('child_process');
-      const { promisify } = await import('util');
-      const execAsync = promisify(exec);
-
-      // atempo filter for speed adjustment (0.5 to 2.0 range)
-      await execAsync(
-        `ffmpeg -y -i "${tempPath}" -filter:a "atempo=${speedMultiplier}" "${filePath}"`
-      );
+      await timeStretchAudio(tempPath, filePath, speedMultiplier);
 
       // Clean up temp file
       await fs.unlink(tempPath);
@@ -178,16 +220,21 @@ export async function generateWithElevenLabsAtSpeed(
       // Fallback: estimate based on character count
       const charCount = text.length;
       const baseDuration = charCount * 0.08; // ~0.08 seconds per character for ElevenLabs
-      const speedMultiplier = speed === '0.8x' ? 0.8 : speed === '1.0x' ? 1.0 : 1.2;
       duration = baseDuration / speedMultiplier;
     }
 
+    // Alignment is for the 1.0x audio; atempo scales time linearly
+    const words = alignment
+      ? scaleWordTimings(elevenLabsAlignmentToWordTimings(alignment), speedMultiplier)
+      : [];
+
     const audioFile: AudioFile = {
       sentenceId: typeof sentenceId === 'string' ? parseInt(sentenceId) || 0 : sentenceId,
       speaker,
       speed,
       path: filePath,
       duration,
+      ...(words.length > 0 ? { words, wordTimingSource: 'provider' as const } : {}),
     };
 
     return { success: true, audioFile };
@@ -208,9 +255,9 @@ export async function generateAllSpeedsWithElevenLabs(
   outputDir: string,
   sentenceId: number | string,
   speaker: 'M' | 'F',
-  modelId: string = 'eleven_v3'
+  modelId: string = 'eleven_v3',
+  speeds: readonly SpeedVariant[] = speedVariants
 ): Promise<AudioGenerationResult[]> {
-  const speeds: SpeedVariant[] = ['0.8x', '1.0x', '1.2x'];
   const results: AudioGenerationResult[] = [];
 
   // Generate 1.0x first (base), then derive others
@@ -236,13 +283,13 @@ export async function generateAllSpeedsWithElevenLabs(
 export async function getAvailableVoices(): Promise<
   Array<{ voice_id: string; name: string; labels: Record<string, string> }>
 > {
-  const apiKey = getApiKey();
-
-  const response = await fetch('https://api.elevenlabs.io/v1/voices', {
-    headers: {
-      'xi-api-key': apiKey,
-    },
-  });
+  const response = await fetchWithApiKey('elevenlabs', (apiKey) =>
+    fetch('https://api.elevenlabs.io/v1/voices', {
+      headers: {
+        'xi-api-key': apiKey,
+      },
+    })
+  );
 
   if (!response.ok) {
     throw new Error(`Failed to fetch voices: ${response.status}`);
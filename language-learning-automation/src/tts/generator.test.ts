@@ -43,7 +43,6 @@ describe('TTS Generator', () => {
     },
     content: {
       sentenceCount: 3,
-      repeatCount: 10,
       difficulty: 'intermediate',
     },
     uiLabels: {
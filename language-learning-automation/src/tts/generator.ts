@@ -9,49 +9,133 @@ import {
   selectVoice,
   generateAudioFilename,
   speedVariants,
+  NORMAL_SPEED,
+  isSameSpeed,
+  resolveSpeedVariants,
 } from './types';
-import { generateAllSpeedsWithEdge, type EdgeVoice } from './edge';
-import { generateAllSpeedsWithGoogle } from './google';
+import { getTTSGenerator, validateChannelVoices } from './registry';
+import { audioCache, type AudioCache } from './cache';
+import { estimateWordTimings } from './alignment';
+import { createTimeStretchedVariant } from './time-stretch';
+import { getAudioDuration } from './duration';
 
 // Maximum retry attempts for TTS generation
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 1000;
 
+/**
+ * Speed variants a channel needs: config.tts.speeds (or the defaults),
+ * 1.0x, and every speed referenced by the Step3 program
+ */
+export function getChannelSpeedVariants(config: ChannelConfig): SpeedVariant[] {
+  return resolveSpeedVariants(
+    config.tts.speeds,
+    config.content.step3Program?.map((phase) => phase.speed)
+  );
+}
+
 /**
  * Generate TTS audio for a single sentence with all speed variants
+ * The provider is resolved from the TTS registry (config.tts.provider)
+ * and identical audio from previous runs is restored from the cache
+ * Providers without native speed control synthesize 1.0x once and the
+ * other speeds are time-stretched locally
  */
 export async function generateSentenceAudio(
   sentence: Sentence,
   config: ChannelConfig,
-  outputDir: string
+  outputDir: string,
+  cache: AudioCache = audioCache
 ): Promise<AudioGenerationResult[]> {
+  const generator = getTTSGenerator(config.tts.provider);
   const voice = selectVoice(sentence.speaker, config.tts.maleVoice, config.tts.femaleVoice);
-  const gender = sentence.speaker === 'M' ? 'MALE' : 'FEMALE';
-
-  // Switch based on provider
-  switch (config.tts.provider) {
-    case 'google':
-      return generateAllSpeedsWithGoogle(
-        sentence.target,
-        config.tts.targetLanguageCode,
-        voice,
-        gender as 'MALE' | 'FEMALE',
-        outputDir,
-        sentence.id,
-        sentence.speaker
-      );
-
-    case 'edge':
-    default:
-      // Use Edge TTS (free, high quality)
-      return generateAllSpeedsWithEdge(
-        sentence.target,
-        voice as EdgeVoice,
-        outputDir,
-        sentence.id,
-        sentence.speaker
-      );
+  const results: AudioGenerationResult[] = [];
+  const speeds = getChannelSpeedVariants(config);
+  const stretchLocally = !generator.capabilities.nativeSpeedControl;
+  // 로컬 변환 시 1.0x를 먼저 만들어 기준 오디오로 사용
+  const orderedSpeeds = stretchLocally
+    ? [NORMAL_SPEED, ...speeds.filter((s) => !isSameSpeed(s, NORMAL_SPEED))]
+    : speeds;
+  let baseAudio: AudioFile | undefined;
+
+  for (const speed of orderedSpeeds) {
+    const cacheInput = {
+      provider: config.tts.provider,
+      voice,
+      speed,
+      languageCode: config.tts.targetLanguageCode,
+      text: sentence.target,
+      model: config.tts.model,
+    };
+    const filePath = path.join(
+      outputDir,
+      generateAudioFilename(sentence.id, sentence.speaker, speed)
+    );
+
+    const cached = await cache.restore(cacheInput, filePath);
+    if (cached) {
+      results.push({
+        success: true,
+        audioFile: {
+          sentenceId: sentence.id,
+          speaker: sentence.speaker,
+          speed,
+          path: filePath,
+          // 예전 항목은 duration 이 없으므로 복원된 파일을 직접 측정
+          duration: cached.duration ?? (await getAudioDuration(filePath)),
+          ...(cached.words ? { words: cached.words } : {}),
+          ...(cached.wordTimingSource ? { wordTimingSource: cached.wordTimingSource } : {}),
+        },
+      });
+      if (isSameSpeed(speed, NORMAL_SPEED)) baseAudio = results[results.length - 1].audioFile;
+      continue;
+    }
+
+    if (stretchLocally && baseAudio) {
+      const stretched = await createTimeStretchedVariant(baseAudio, speed, outputDir);
+      if (stretched.success && stretched.audioFile) {
+        await cache.store(cacheInput, stretched.audioFile.path, {
+          duration: stretched.audioFile.duration,
+          words: stretched.audioFile.words,
+          wordTimingSource: stretched.audioFile.wordTimingSource,
+        });
+      }
+      results.push(stretched);
+      continue;
+    }
+
+    const result = await generator.generate({
+      text: sentence.target,
+      voice,
+      speed,
+      languageCode: config.tts.targetLanguageCode,
+      outputDir,
+      sentenceId: sentence.id,
+      speaker: sentence.speaker,
+      model: config.tts.model,
+    });
+    if (result.success && result.audioFile) {
+      // 타이밍을 주지 않는 제공자는 로컬 추정 정렬로 대체
+      if (!result.audioFile.words?.length) {
+        result.audioFile.words = estimateWordTimings(sentence.target, result.audioFile.duration);
+        result.audioFile.wordTimingSource = 'estimated';
+      }
+      await cache.store(cacheInput, result.audioFile.path, {
+        duration: result.audioFile.duration,
+        words: result.audioFile.words,
+        wordTimingSource: result.audioFile.wordTimingSource,
+      });
+      if (isSameSpeed(speed, NORMAL_SPEED)) baseAudio = result.audioFile;
+    }
+    results.push(result);
+
+    // Small delay between requests
+    if (generator.requestDelayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, generator.requestDelayMs));
+    }
   }
+
+  return results;
 }
 
 /**
@@ -63,6 +147,12 @@ export async function generateAllAudio(
   outputDir: string,
   onProgress?: (current: number, total: number) => void
 ): Promise<AudioFile[]> {
+  // Fail fast on voices the provider cannot synthesize
+  const voiceCheck = validateChannelVoices(config.tts);
+  if (!voiceCheck.valid) {
+    throw new Error(`Invalid TTS voice config for ${config.tts.provider}: ${voiceCheck.error}`);
+  }
+
   const audioFiles: AudioFile[] = [];
   const totalSentences = script.sentences.length;
 
@@ -121,7 +211,8 @@ export async function generateAllAudio(
  */
 export async function createMockAudioFiles(
   script: Script,
-  outputDir: string
+  outputDir: string,
+  speeds: readonly SpeedVariant[] = speedVariants
 ): Promise<AudioFile[]> {
   const audioFiles: AudioFile[] = [];
 
@@ -129,7 +220,7 @@ export async function createMockAudioFiles(
   await fs.mkdir(outputDir, { recursive: true });
 
   for (const sentence of script.sentences) {
-    for (const speed of speedVariants) {
+    for (const speed of speeds) {
       const filename = generateAudioFilename(sentence.id, sentence.speaker, speed);
       const filePath = path.join(outputDir, filename);
 
@@ -142,6 +233,8 @@ export async function createMockAudioFiles(
         speed,
         path: filePath,
         duration: 3.0, // Mock duration
+        words: estimateWordTimings(sentence.target, 3.0),
+        wordTimingSource: 'estimated',
       });
     }
   }
@@ -164,5 +257,5 @@ export function getAudioFile(
   sentenceId: number,
   speed: SpeedVariant
 ): AudioFile | undefined {
-  return audioFiles.find((af) => af.sentenceId === sentenceId && af.speed === speed);
+  return audioFiles.find((af) => af.sentenceId === sentenceId && isSameSpeed(af.speed, speed));
 }
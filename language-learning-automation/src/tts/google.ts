@@ -1,7 +1,8 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import type { AudioFile, SpeedVariant, AudioGenerationResult } from './types';
-import { generateAudioFilename } from './types';
+import { generateAudioFilename, getSpeedMultiplier, speedVariants } from './types';
+import { trackUsage } from '../usage/tracker';
 
 const GOOGLE_TTS_API_URL = 'https://texttospeech.googleapis.com/v1/text:synthesize';
 
@@ -78,15 +79,21 @@ export async function synthesizeWithGoogle(
     },
   };
 
-  const response = await fetch(GOOGLE_TTS_API_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${accessToken}`,
-      'X-Goog-User-Project': process.env.GOOGLE_CLOUD_PROJECT || 'project-7041221e-8ba7-4667-971',
-    },
-    body: JSON.stringify(request),
-  });
+  const response = await trackUsage(
+    { service: 'google_tts', model: voiceName },
+    () =>
+      fetch(GOOGLE_TTS_API_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+          'X-Goog-User-Project':
+            process.env.GOOGLE_CLOUD_PROJECT || 'project-7041221e-8ba7-4667-971',
+        },
+        body: JSON.stringify(request),
+      }),
+    (res) => ({ characters: res.ok ? text.length : 0 })
+  );
 
   if (!response.ok) {
     const errorText = await response.text();
@@ -112,7 +119,7 @@ export async function generateWithGoogleAtSpeed(
 ): Promise<AudioGenerationResult> {
   try {
     // Convert speed variant to speaking rate
-    const speakingRate = speed === '0.8x' ? 0.8 : speed === '1.0x' ? 1.0 : 1.2;
+    const speakingRate = getSpeedMultiplier(speed);
 
     const audioBuffer = await synthesizeWithGoogle(
       text,
@@ -170,9 +177,9 @@ export async function generateAllSpeedsWithGoogle(
   gender: 'MALE' | 'FEMALE',
   outputDir: string,
   sentenceId: number | string,
-  speaker: 'M' | 'F'
+  speaker: 'M' | 'F',
+  speeds: readonly SpeedVariant[] = speedVariants
 ): Promise<AudioGenerationResult[]> {
-  const speeds: SpeedVariant[] = ['0.8x', '1.0x', '1.2x'];
   const results: AudioGenerationResult[] = [];
 
   for (const speed of speeds) {
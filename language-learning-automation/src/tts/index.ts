@@ -1,3 +1,8 @@
 export * from './types';
 export * from './generator';
 export * from './openai';
+export * from './registry';
+export * from './voices';
+export * from './cache';
+export * from './alignment';
+export * from './time-stretch';
@@ -5,21 +5,16 @@ import {
   type SpeedVariant,
   type AudioFile,
   type AudioGenerationResult,
-  speedMultipliers,
+  getSpeedMultiplier,
   generateAudioFilename,
+  speedVariants,
 } from './types';
-
-// Initialize OpenAI client
-function getOpenAIClient(): OpenAI {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY environment variable is not set');
-  }
-  return new OpenAI({ apiKey });
-}
+import { OPENAI_VOICES } from './voices';
+import { withApiKey } from '../config/api-keys';
+import { trackUsage } from '../usage/tracker';
 
 // OpenAI TTS voices
-export type OpenAIVoice = 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer';
+export type OpenAIVoice = (typeof OPENAI_VOICES)[number];
 
 /**
  * Generate audio using OpenAI TTS API
@@ -30,20 +25,27 @@ export async function generateWithOpenAI(
   speed: SpeedVariant,
   outputDir: string,
   sentenceId: number,
-  speaker: 'M' | 'F'
+  speaker: 'M' | 'F',
+  model: string = 'tts-1'
 ): Promise<AudioGenerationResult> {
   try {
-    const client = getOpenAIClient();
-    const speedMultiplier = speedMultipliers[speed];
+    const speedMultiplier = getSpeedMultiplier(speed);
 
-    // Generate audio
-    const response = await client.audio.speech.create({
-      model: 'tts-1',
-      voice,
-      input: text,
-      speed: speedMultiplier,
-      response_format: 'mp3',
-    });
+    // Generate audio (키 풀에서 키를 받아 429 시 다음 키로)
+    const response = await trackUsage(
+      { service: 'openai', model },
+      () =>
+        withApiKey('openai', (apiKey) =>
+          new OpenAI({ apiKey }).audio.speech.create({
+            model,
+            voice,
+            input: text,
+            speed: speedMultiplier,
+            response_format: 'mp3',
+          })
+        ),
+      () => ({ characters: text.length })
+    );
 
     // Ensure output directory exists
     await fs.mkdir(outputDir, { recursive: true });
@@ -84,9 +86,9 @@ export async function generateAllSpeedsWithOpenAI(
   voice: OpenAIVoice,
   outputDir: string,
   sentenceId: number,
-  speaker: 'M' | 'F'
+  speaker: 'M' | 'F',
+  speeds: readonly SpeedVariant[] = speedVariants
 ): Promise<AudioGenerationResult[]> {
-  const speeds: SpeedVariant[] = ['0.8x', '1.0x', '1.2x'];
   const results: AudioGenerationResult[] = [];
 
   for (const speed of speeds) {
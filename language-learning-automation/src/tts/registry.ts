@@ -0,0 +1,126 @@
+import type { TTS } from '../config/types';
+import type {
+  TTSGeneratorInterface,
+  TTSProvider,
+  TTSProviderCapabilities,
+  VoiceValidationResult,
+} from './types';
+import { generateWithEdge } from './edge';
+import { generateWithGoogleAtSpeed } from './google';
+import { generateWithOpenAI, type OpenAIVoice } from './openai';
+import { generateWithElevenLabsAtSpeed, ELEVENLABS_MODELS, ELEVENLABS_VOICES } from './elevenlabs';
+import {
+  validateEdgeVoice,
+  validateGoogleVoice,
+  validateOpenAIVoice,
+  validateElevenLabsVoice,
+} from './voices';
+
+const edgeGenerator: TTSGeneratorInterface = {
+  provider: 'edge',
+  capabilities: { nativeSpeedControl: true, ssml: false, wordTimings: true },
+  requestDelayMs: 300,
+  validateVoice: validateEdgeVoice,
+  generate: (req) =>
+    generateWithEdge(req.text, req.voice, req.speed, req.outputDir, req.sentenceId, req.speaker),
+};
+
+const googleGenerator: TTSGeneratorInterface = {
+  provider: 'google',
+  capabilities: { nativeSpeedControl: true, ssml: true, wordTimings: false },
+  requestDelayMs: 0,
+  validateVoice: validateGoogleVoice,
+  generate: (req) =>
+    generateWithGoogleAtSpeed(
+      req.text,
+      req.languageCode,
+      req.voice,
+      req.speaker === 'M' ? 'MALE' : 'FEMALE',
+      req.speed,
+      req.outputDir,
+      req.sentenceId,
+      req.speaker
+    ),
+};
+
+const openaiGenerator: TTSGeneratorInterface = {
+  provider: 'openai',
+  capabilities: { nativeSpeedControl: true, ssml: false, wordTimings: false },
+  requestDelayMs: 100,
+  validateVoice: (voice) => validateOpenAIVoice(voice),
+  generate: (req) =>
+    generateWithOpenAI(
+      req.text,
+      req.voice as OpenAIVoice,
+      req.speed,
+      req.outputDir,
+      req.sentenceId,
+      req.speaker,
+      req.model
+    ),
+};
+
+const elevenLabsGenerator: TTSGeneratorInterface = {
+  provider: 'elevenlabs',
+  capabilities: { nativeSpeedControl: false, ssml: false, wordTimings: true },
+  requestDelayMs: 0,
+  validateVoice: (voice) => validateElevenLabsVoice(voice, Object.keys(ELEVENLABS_VOICES)),
+  generate: (req) =>
+    generateWithElevenLabsAtSpeed(
+      req.text,
+      resolveElevenLabsVoiceId(req.voice),
+      req.speed,
+      req.outputDir,
+      req.sentenceId,
+      req.speaker,
+      req.model ?? ELEVENLABS_MODELS.v3_alpha
+    ),
+};
+
+// Provider registry
+const TTS_REGISTRY: Record<TTSProvider, TTSGeneratorInterface> = {
+  edge: edgeGenerator,
+  google: googleGenerator,
+  openai: openaiGenerator,
+  elevenlabs: elevenLabsGenerator,
+};
+
+/**
+ * Get the generator registered for a provider
+ */
+export function getTTSGenerator(provider: TTSProvider): TTSGeneratorInterface {
+  const generator = TTS_REGISTRY[provider];
+  if (!generator) {
+    throw new Error(
+      `Unknown TTS provider: ${provider}. Available providers: ${Object.keys(TTS_REGISTRY).join(', ')}`
+    );
+  }
+  return generator;
+}
+
+/**
+ * Get capability flags for a provider
+ */
+export function getTTSCapabilities(provider: TTSProvider): TTSProviderCapabilities {
+  return getTTSGenerator(provider).capabilities;
+}
+
+/**
+ * Validate both channel voices against the configured provider
+ */
+export function validateChannelVoices(tts: TTS): VoiceValidationResult {
+  const generator = getTTSGenerator(tts.provider);
+  const errors = [tts.maleVoice, tts.femaleVoice]
+    .map((voice) => generator.validateVoice(voice, tts.targetLanguageCode))
+    .filter((result) => !result.valid)
+    .map((result) => result.error);
+
+  return errors.length === 0 ? { valid: true } : { valid: false, error: errors.join('; ') };
+}
+
+/**
+ * Resolve an ElevenLabs voice name (e.g. rachel) to its voice ID
+ */
+function resolveElevenLabsVoiceId(voice: string): string {
+  return ELEVENLABS_VOICES[voice as keyof typeof ELEVENLABS_VOICES] ?? voice;
+}
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { buildAtempoFilter } from './time-stretch';
+
+describe('buildAtempoFilter', () => {
+  it('should use a single atempo filter within 0.5x ~ 2.0x', () => {
+    expect(buildAtempoFilter(0.8)).toBe('atempo=0.8');
+    expect(buildAtempoFilter(1.5)).toBe('atempo=1.5');
+  });
+
+  it('should chain filters outside the atempo range', () => {
+    expect(buildAtempoFilter(3)).toBe('atempo=2,atempo=1.5');
+    expect(buildAtempoFilter(0.4)).toBe('atempo=0.5,atempo=0.8');
+  });
+
+  it('should reject non-positive multipliers', () => {
+    expect(() => buildAtempoFilter(0)).toThrow();
+  });
+});
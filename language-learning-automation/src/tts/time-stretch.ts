@@ -0,0 +1,92 @@
+/**
+ * Local time-stretching for speed variants
+ * API에서 속도 조절을 지원하지 않는 provider는 1.0x 오디오를 ffmpeg atempo로 변환
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import path from 'path';
+import {
+  type AudioFile,
+  type AudioGenerationResult,
+  type SpeedVariant,
+  generateAudioFilename,
+  getSpeedMultiplier,
+} from './types';
+import { scaleWordTimings } from './alignment';
+
+const execAsync = promisify(exec);
+
+// ffmpeg atempo accepts 0.5 ~ 2.0 per filter, so chain filters outside that range
+const ATEMPO_MIN = 0.5;
+const ATEMPO_MAX = 2.0;
+
+/**
+ * Build an ffmpeg atempo filter chain for a speed multiplier
+ */
+export function buildAtempoFilter(multiplier: number): string {
+  if (multiplier <= 0) {
+    throw new Error(`Invalid speed multiplier: ${multiplier}`);
+  }
+
+  const filters: string[] = [];
+  let remaining = multiplier;
+  while (remaining > ATEMPO_MAX) {
+    filters.push(`atempo=${ATEMPO_MAX}`);
+    remaining /= ATEMPO_MAX;
+  }
+  while (remaining < ATEMPO_MIN) {
+    filters.push(`atempo=${ATEMPO_MIN}`);
+    remaining /= ATEMPO_MIN;
+  }
+  filters.push(`atempo=${Number(remaining.toFixed(4))}`);
+  return filters.join(',');
+}
+
+/**
+ * Time-stretch an audio file without changing pitch
+ */
+export async function timeStretchAudio(
+  inputPath: string,
+  outputPath: string,
+  multiplier: number
+): Promise<void> {
+  await execAsync(
+    `ffmpeg -y -i "${inputPath}" -filter:a "${buildAtempoFilter(multiplier)}" "${outputPath}"`
+  );
+}
+
+/**
+ * Create a speed variant from the 1.0x audio of a sentence
+ * Duration and word timings are scaled with the tempo
+ */
+export async function createTimeStretchedVariant(
+  baseAudio: AudioFile,
+  speed: SpeedVariant,
+  outputDir: string
+): Promise<AudioGenerationResult> {
+  const multiplier = getSpeedMultiplier(speed);
+  const filePath = path.join(
+    outputDir,
+    generateAudioFilename(baseAudio.sentenceId, baseAudio.speaker, speed)
+  );
+
+  try {
+    await timeStretchAudio(baseAudio.path, filePath, multiplier);
+    return {
+      success: true,
+      audioFile: {
+        ...baseAudio,
+        speed,
+        path: filePath,
+        duration: baseAudio.duration / multiplier,
+        ...(baseAudio.words ? { words: scaleWordTimings(baseAudio.words, multiplier) } : {}),
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
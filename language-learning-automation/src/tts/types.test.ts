@@ -7,6 +7,12 @@ import {
   calculateExpectedAudioCount,
   speedVariants,
   speedMultipliers,
+  createAudioCacheKey,
+  formatSpeedVariant,
+  sortSpeedVariants,
+  resolveSpeedVariants,
+  speedVariantSchema,
+  findSlowestAudioFile,
 } from './types';
 
 describe('TTS Types', () => {
@@ -35,6 +41,19 @@ describe('TTS Types', () => {
       expect(result.success).toBe(false);
     });
 
+    it('should accept every registered provider', () => {
+      for (const provider of ['openai', 'google', 'edge', 'elevenlabs']) {
+        const options = {
+          text: 'Hello',
+          voice: 'onyx',
+          speed: 1.0,
+          provider,
+          languageCode: 'en-US',
+        };
+        expect(ttsOptionsSchema.safeParse(options).success).toBe(true);
+      }
+    });
+
     it('should reject invalid provider', () => {
       const invalid = {
         text: 'Hello',
@@ -84,7 +103,7 @@ describe('TTS Types', () => {
       const invalid = {
         sentenceId: 1,
         speaker: 'M',
-        speed: '0.5x',
+        speed: '0.3x',
         path: '/path/to/audio.mp3',
         duration: 3.5,
       };
@@ -135,6 +154,58 @@ describe('TTS Types', () => {
       expect(calculateExpectedAudioCount(5)).toBe(15);
       expect(calculateExpectedAudioCount(12)).toBe(36);
     });
+
+    it('should use the configured speed set', () => {
+      expect(calculateExpectedAudioCount(4, ['0.6x', '1.0x'])).toBe(8);
+    });
+  });
+
+  describe('configurable speed variants', () => {
+    it('should accept speeds between 0.5x and 2.0x', () => {
+      expect(speedVariantSchema.safeParse('0.6x').success).toBe(true);
+      expect(speedVariantSchema.safeParse('1.5x').success).toBe(true);
+      expect(speedVariantSchema.safeParse('0.75x').success).toBe(true);
+    });
+
+    it('should reject out-of-range or malformed speeds', () => {
+      expect(speedVariantSchema.safeParse('0.3x').success).toBe(false);
+      expect(speedVariantSchema.safeParse('2.5x').success).toBe(false);
+      expect(speedVariantSchema.safeParse('fast').success).toBe(false);
+      expect(speedVariantSchema.safeParse(1.2).success).toBe(false);
+    });
+
+    it('should format multipliers as speed labels', () => {
+      expect(formatSpeedVariant(0.6)).toBe('0.6x');
+      expect(formatSpeedVariant(1)).toBe('1.0x');
+      expect(formatSpeedVariant(0.75)).toBe('0.75x');
+    });
+
+    it('should sort and deduplicate speeds by multiplier', () => {
+      expect(sortSpeedVariants(['1.5x', '0.60x', '1.0x', '0.6x'])).toEqual([
+        '0.6x',
+        '1.0x',
+        '1.5x',
+      ]);
+    });
+
+    it('should always include 1.0x and required speeds', () => {
+      expect(resolveSpeedVariants(['0.6x'], ['1.5x'])).toEqual(['0.6x', '1.0x', '1.5x']);
+      expect(resolveSpeedVariants()).toEqual(['0.8x', '1.0x', '1.2x']);
+    });
+
+    it('should find the slowest audio below normal speed', () => {
+      const audio = (speed: '0.6x' | '0.8x' | '1.0x') => ({
+        sentenceId: 1,
+        speaker: 'M' as const,
+        speed,
+        path: `/a_${speed}.mp3`,
+        duration: 2,
+      });
+      expect(findSlowestAudioFile([audio('1.0x'), audio('0.8x'), audio('0.6x')], 1)?.speed).toBe(
+        '0.6x'
+      );
+      expect(findSlowestAudioFile([audio('1.0x')], 1)).toBeUndefined();
+    });
   });
 
   describe('speedVariants and speedMultipliers', () => {
@@ -151,4 +222,34 @@ describe('TTS Types', () => {
       expect(speedMultipliers['1.2x']).toBe(1.2);
     });
   });
+
+  describe('createAudioCacheKey', () => {
+    const input = {
+      provider: 'edge' as const,
+      voice: 'en-US-GuyNeural',
+      speed: '1.0x' as const,
+      languageCode: 'en-US',
+      text: 'Hello world',
+    };
+
+    it('should produce the same key for the same input', () => {
+      expect(createAudioCacheKey(input)).toBe(createAudioCacheKey({ ...input }));
+      expect(createAudioCacheKey(input)).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    it('should ignore surrounding whitespace in the text', () => {
+      expect(createAudioCacheKey({ ...input, text: '  Hello world\n' })).toBe(
+        createAudioCacheKey(input)
+      );
+    });
+
+    it('should change when any synthesis parameter changes', () => {
+      const key = createAudioCacheKey(input);
+      expect(createAudioCacheKey({ ...input, voice: 'en-US-JennyNeural' })).not.toBe(key);
+      expect(createAudioCacheKey({ ...input, speed: '0.8x' })).not.toBe(key);
+      expect(createAudioCacheKey({ ...input, provider: 'openai' })).not.toBe(key);
+      expect(createAudioCacheKey({ ...input, model: 'tts-1-hd' })).not.toBe(key);
+      expect(createAudioCacheKey({ ...input, text: 'Hello there' })).not.toBe(key);
+    });
+  });
 });
@@ -1,41 +1,145 @@
 import { z } from 'zod';
+import { createHash } from 'crypto';
 
-// Speed variants for interval training
-export const speedVariants = ['0.8x', '1.0x', '1.2x'] as const;
-export type SpeedVariant = (typeof speedVariants)[number];
+// Speed variant label, e.g. '0.8x' (channel config의 tts.speeds로 임의 지정 가능)
+export type SpeedVariant = `${number}x`;
 
-// Speed multiplier mapping
-export const speedMultipliers: Record<SpeedVariant, number> = {
-  '0.8x': 0.8,
-  '1.0x': 1.0,
-  '1.2x': 1.2,
-};
+export const MIN_SPEED_MULTIPLIER = 0.5;
+export const MAX_SPEED_MULTIPLIER = 2.0;
+const SPEED_VARIANT_PATTERN = /^\d+(\.\d+)?x$/;
 
-// TTS Provider type
-export type TTSProvider = 'openai' | 'google';
+// Default speed variants for interval training (tts.speeds가 없을 때)
+export const speedVariants: readonly SpeedVariant[] = ['0.8x', '1.0x', '1.2x'];
+
+// Normal speed (Step1/2/4, Shorts 기본 오디오)
+export const NORMAL_SPEED: SpeedVariant = '1.0x';
+
+/**
+ * Multiplier of a speed variant ('0.8x' → 0.8)
+ */
+export function getSpeedMultiplier(speed: SpeedVariant): number {
+  return parseFloat(speed);
+}
+
+/**
+ * Speed variant label of a multiplier (0.6 → '0.6x', 1 → '1.0x', 0.75 → '0.75x')
+ */
+export function formatSpeedVariant(multiplier: number): SpeedVariant {
+  return `${multiplier.toFixed(2).replace(/0$/, '')}x` as SpeedVariant;
+}
+
+/**
+ * Deduplicate (by multiplier) and sort speed variants from slowest to fastest
+ */
+export function sortSpeedVariants(speeds: readonly SpeedVariant[]): SpeedVariant[] {
+  const unique = new Map<number, SpeedVariant>();
+  for (const speed of speeds) {
+    const multiplier = getSpeedMultiplier(speed);
+    if (!unique.has(multiplier)) unique.set(multiplier, formatSpeedVariant(multiplier));
+  }
+  return [...unique.entries()].sort(([a], [b]) => a - b).map(([, speed]) => speed);
+}
+
+/**
+ * Compare speed variants by multiplier ('0.80x' and '0.8x' are the same speed)
+ */
+export function isSameSpeed(a: SpeedVariant, b: SpeedVariant): boolean {
+  return getSpeedMultiplier(a) === getSpeedMultiplier(b);
+}
+
+/**
+ * Speeds to generate for a channel: configured speeds (or defaults)
+ * plus 1.0x and any speed another feature requires (e.g. step3Program)
+ */
+export function resolveSpeedVariants(
+  configured?: readonly SpeedVariant[],
+  required: readonly SpeedVariant[] = []
+): SpeedVariant[] {
+  return sortSpeedVariants([...(configured ?? speedVariants), NORMAL_SPEED, ...required]);
+}
+
+export const speedVariantSchema = z.custom<SpeedVariant>(
+  (value) => {
+    if (typeof value !== 'string' || !SPEED_VARIANT_PATTERN.test(value)) return false;
+    const multiplier = parseFloat(value);
+    return multiplier >= MIN_SPEED_MULTIPLIER && multiplier <= MAX_SPEED_MULTIPLIER;
+  },
+  {
+    message: `Speed must look like '0.8x' and be between ${MIN_SPEED_MULTIPLIER}x and ${MAX_SPEED_MULTIPLIER}x`,
+  }
+);
+
+// Speed multiplier mapping for the default variants
+export const speedMultipliers: Record<string, number> = Object.fromEntries(
+  speedVariants.map((speed) => [speed, getSpeedMultiplier(speed)])
+);
+
+// TTS Providers
+export const ttsProviders = ['openai', 'google', 'edge', 'elevenlabs'] as const;
+export type TTSProvider = (typeof ttsProviders)[number];
+
+export const ttsProviderSchema = z.enum(ttsProviders);
+
+// Provider capability flags
+export interface TTSProviderCapabilities {
+  /** 속도 조절을 API에서 직접 지원 (아니면 ffmpeg로 time-stretch) */
+  nativeSpeedControl: boolean;
+  /** SSML 입력 지원 */
+  ssml: boolean;
+  /** 단어별 타이밍 제공 (아니면 로컬 추정 정렬) */
+  wordTimings: boolean;
+}
 
 // TTS Options schema
 export const ttsOptionsSchema = z.object({
   text: z.string().min(1, 'Text is required'),
   voice: z.string().min(1, 'Voice is required'),
   speed: z.number().min(0.5).max(2.0),
-  provider: z.enum(['openai', 'google']),
+  provider: ttsProviderSchema,
   languageCode: z.string().min(1, 'Language code is required'),
 });
 
 export type TTSOptions = z.infer<typeof ttsOptionsSchema>;
 
+// Word-level timing (seconds from the start of the audio file)
+export const wordTimingSchema = z.object({
+  word: z.string().min(1),
+  start: z.number().min(0),
+  end: z.number().min(0),
+});
+
+export type WordTiming = z.infer<typeof wordTimingSchema>;
+
+// Where word timings came from: provider events/alignment, or local estimation
+export const wordTimingSourceSchema = z.enum(['provider', 'estimated']);
+export type WordTimingSource = z.infer<typeof wordTimingSourceSchema>;
+
 // Audio file metadata schema
 export const audioFileSchema = z.object({
   sentenceId: z.number().int().positive(),
   speaker: z.enum(['M', 'F']),
-  speed: z.enum(speedVariants),
+  speed: speedVariantSchema,
   path: z.string().min(1, 'Path is required'),
   duration: z.number().min(0, 'Duration must be non-negative'),
+  /** 단어별 타이밍 (카라오케 자막/빈칸 하이라이트용) */
+  words: z.array(wordTimingSchema).optional(),
+  wordTimingSource: wordTimingSourceSchema.optional(),
 });
 
 export type AudioFile = z.infer<typeof audioFileSchema>;
 
+/**
+ * Slowest audio below normal speed for a sentence (Shorts 느린 재생용)
+ */
+export function findSlowestAudioFile(
+  audioFiles: AudioFile[],
+  sentenceId: number
+): AudioFile | undefined {
+  return audioFiles
+    .filter((af) => af.sentenceId === sentenceId && getSpeedMultiplier(af.speed) < 1)
+    .sort((a, b) => getSpeedMultiplier(a.speed) - getSpeedMultiplier(b.speed))[0];
+}
+
 // Audio generation result
 export interface AudioGenerationResult {
   success: boolean;
@@ -43,14 +147,33 @@ export interface AudioGenerationResult {
   error?: string;
 }
 
-// TTS Generator interface
+// Single TTS generation request (one sentence, one speed)
+export interface TTSRequest {
+  text: string;
+  voice: string;
+  speed: SpeedVariant;
+  languageCode: string;
+  outputDir: string;
+  sentenceId: number;
+  speaker: 'M' | 'F';
+  /** Provider-specific model (e.g. tts-1, eleven_v3) */
+  model?: string;
+}
+
+// Voice validation result
+export interface VoiceValidationResult {
+  valid: boolean;
+  error?: string;
+}
+
+// TTS Generator interface (implemented by every provider in the registry)
 export interface TTSGeneratorInterface {
-  generate(
-    text: string,
-    voice: string,
-    speed: SpeedVariant,
-    outputPath: string
-  ): Promise<AudioGenerationResult>;
+  readonly provider: TTSProvider;
+  readonly capabilities: TTSProviderCapabilities;
+  /** Delay between consecutive requests (rate limiting) */
+  readonly requestDelayMs: number;
+  validateVoice(voice: string, languageCode?: string): VoiceValidationResult;
+  generate(request: TTSRequest): Promise<AudioGenerationResult>;
 }
 
 // Voice selection helper
@@ -68,6 +191,32 @@ export function generateAudioFilename(
 }
 
 // Calculate expected audio files count
-export function calculateExpectedAudioCount(sentenceCount: number): number {
-  return sentenceCount * speedVariants.length;
+export function calculateExpectedAudioCount(
+  sentenceCount: number,
+  speeds: readonly SpeedVariant[] = speedVariants
+): number {
+  return sentenceCount * speeds.length;
+}
+
+// Audio cache key fields (everything that changes the synthesized audio)
+export interface AudioCacheKeyInput {
+  provider: TTSProvider;
+  voice: string;
+  speed: SpeedVariant;
+  languageCode: string;
+  text: string;
+  model?: string;
+}
+
+// Content-addressed cache key (identical input → identical key across runs)
+export function createAudioCacheKey(input: AudioCacheKeyInput): string {
+  const payload = JSON.stringify([
+    input.provider,
+    input.model ?? '',
+    input.voice,
+    input.speed,
+    input.languageCode,
+    input.text.trim(),
+  ]);
+  return createHash('sha256').update(payload).digest('hex');
 }
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateEdgeVoice,
+  validateGoogleVoice,
+  validateOpenAIVoice,
+  validateElevenLabsVoice,
+} from './voices';
+
+describe('TTS Voice Validation', () => {
+  describe('validateEdgeVoice', () => {
+    it('should accept neural voices', () => {
+      expect(validateEdgeVoice('en-US-GuyNeural').valid).toBe(true);
+      expect(validateEdgeVoice('zh-CN-liaoning-XiaobeiNeural').valid).toBe(true);
+    });
+
+    it('should reject voices from other providers', () => {
+      expect(validateEdgeVoice('onyx').valid).toBe(false);
+      expect(validateEdgeVoice('en-US-Neural2-D').valid).toBe(false);
+    });
+
+    it('should reject voices for another language', () => {
+      const result = validateEdgeVoice('ko-KR-SunHiNeural', 'en-US');
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('en-US');
+    });
+  });
+
+  describe('validateGoogleVoice', () => {
+    it('should accept Neural2 and Chirp3 HD voices', () => {
+      expect(validateGoogleVoice('en-US-Neural2-D', 'en-US').valid).toBe(true);
+      expect(validateGoogleVoice('ko-KR-Chirp3-HD-Achird', 'ko-KR').valid).toBe(true);
+    });
+
+    it('should reject malformed voices', () => {
+      expect(validateGoogleVoice('nova').valid).toBe(false);
+    });
+  });
+
+  describe('validateOpenAIVoice', () => {
+    it('should accept built-in voices only', () => {
+      expect(validateOpenAIVoice('onyx').valid).toBe(true);
+      expect(validateOpenAIVoice('en-US-GuyNeural').valid).toBe(false);
+    });
+  });
+
+  describe('validateElevenLabsVoice', () => {
+    it('should accept voice IDs and known voice names', () => {
+      expect(validateElevenLabsVoice('21m00Tcm4TlvDq8ikWAM').valid).toBe(true);
+      expect(validateElevenLabsVoice('rachel', ['rachel']).valid).toBe(true);
+    });
+
+    it('should reject unknown voice names', () => {
+      expect(validateElevenLabsVoice('rachel').valid).toBe(false);
+    });
+  });
+});
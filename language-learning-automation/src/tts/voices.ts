@@ -0,0 +1,64 @@
+import type { VoiceValidationResult } from './types';
+
+// OpenAI TTS voices
+export const OPENAI_VOICES = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'] as const;
+
+// Edge: en-US-GuyNeural, zh-CN-liaoning-XiaobeiNeural
+const EDGE_VOICE_PATTERN = /^[a-z]{2,3}-[A-Za-z]{2,4}(-[a-z]+)?-[A-Za-z]+Neural$/;
+
+// Google: en-US-Neural2-D, ko-KR-Chirp3-HD-Achird
+const GOOGLE_VOICE_PATTERN = /^[a-z]{2,3}-[A-Z]{2}(-[A-Za-z0-9]+)+$/;
+
+// ElevenLabs voice ID: 21m00Tcm4TlvDq8ikWAM
+const ELEVENLABS_VOICE_ID_PATTERN = /^[A-Za-z0-9]{20}$/;
+
+const VALID: VoiceValidationResult = { valid: true };
+
+function invalid(error: string): VoiceValidationResult {
+  return { valid: false, error };
+}
+
+/**
+ * Check that a locale-prefixed voice matches the language code (en-US-... ↔ en-US)
+ */
+function checkLocale(voice: string, languageCode?: string): VoiceValidationResult {
+  if (!languageCode) return VALID;
+  const voiceLanguage = voice.split('-')[0].toLowerCase();
+  const expectedLanguage = languageCode.split('-')[0].toLowerCase();
+  return voiceLanguage === expectedLanguage
+    ? VALID
+    : invalid(`Voice "${voice}" does not match language code "${languageCode}"`);
+}
+
+export function validateEdgeVoice(voice: string, languageCode?: string): VoiceValidationResult {
+  if (!EDGE_VOICE_PATTERN.test(voice)) {
+    return invalid(`Invalid Edge voice "${voice}" (expected e.g. en-US-GuyNeural)`);
+  }
+  return checkLocale(voice, languageCode);
+}
+
+export function validateGoogleVoice(voice: string, languageCode?: string): VoiceValidationResult {
+  if (!GOOGLE_VOICE_PATTERN.test(voice)) {
+    return invalid(`Invalid Google voice "${voice}" (expected e.g. en-US-Neural2-D)`);
+  }
+  return checkLocale(voice, languageCode);
+}
+
+export function validateOpenAIVoice(voice: string): VoiceValidationResult {
+  return (OPENAI_VOICES as readonly string[]).includes(voice)
+    ? VALID
+    : invalid(`Invalid OpenAI voice "${voice}". Available: ${OPENAI_VOICES.join(', ')}`);
+}
+
+/**
+ * ElevenLabs voices are either a raw voice ID or a known voice name (e.g. rachel)
+ */
+export function validateElevenLabsVoice(
+  voice: string,
+  knownVoiceNames: readonly string[] = []
+): VoiceValidationResult {
+  if (ELEVENLABS_VOICE_ID_PATTERN.test(voice) || knownVoiceNames.includes(voice)) {
+    return VALID;
+  }
+  return invalid(`Invalid ElevenLabs voice "${voice}" (expected a voice ID or known voice name)`);
+}
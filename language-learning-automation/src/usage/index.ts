@@ -0,0 +1,5 @@
+export * from './types';
+export * from './ledger';
+export * from './store';
+export * from './tracker';
+export * from './report';
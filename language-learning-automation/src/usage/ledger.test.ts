@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  aggregateUsage,
+  estimateUsageCost,
+  formatUsageTable,
+  getUsagePrice,
+  mergeUsagePrices,
+} from './ledger';
+import { DEFAULT_USAGE_PRICES, usageRecordSchema, type UsageRecord } from './types';
+
+const record = (overrides: Partial<UsageRecord>): UsageRecord => ({
+  timestamp: '2026-01-15T10:00:00.000Z',
+  service: 'gemini_text',
+  model: 'gemini-3-pro-preview',
+  latencyMs: 1000,
+  success: true,
+  costUsd: 0,
+  ...overrides,
+});
+
+describe('Usage Ledger', () => {
+  it('should price tokens, characters, seconds and images', () => {
+    const prices = DEFAULT_USAGE_PRICES;
+    expect(
+      estimateUsageCost(prices, 'gemini_text', 'any', { inputTokens: 1_000_000, outputTokens: 0 })
+    ).toBe(2);
+    expect(estimateUsageCost(prices, 'veo', 'veo-3.1', { seconds: 8 })).toBeCloseTo(3.2);
+    expect(estimateUsageCost(prices, 'gemini_image', 'x', { images: 2 })).toBeCloseTo(0.268);
+    expect(estimateUsageCost(prices, 'openai', 'tts-1', { characters: 2000 })).toBeCloseTo(0.03);
+  });
+
+  it('should prefer model prices over the service default', () => {
+    expect(getUsagePrice(DEFAULT_USAGE_PRICES, 'openai', 'tts-1')).toEqual({
+      perThousandCharacters: 0.015,
+    });
+    expect(getUsagePrice(DEFAULT_USAGE_PRICES, 'openai', 'gpt-4o').perMillionInputTokens).toBe(2.5);
+  });
+
+  it('should merge price overrides per model', () => {
+    const merged = mergeUsagePrices(DEFAULT_USAGE_PRICES, { veo: { fast: { perSecond: 0.15 } } });
+    expect(getUsagePrice(merged, 'veo', 'fast').perSecond).toBe(0.15);
+    expect(getUsagePrice(merged, 'veo', 'other').perSecond).toBe(0.4);
+    expect(merged.openai).toBe(DEFAULT_USAGE_PRICES.openai);
+  });
+
+  it('should aggregate by channel, day and provider', () => {
+    const records = [
+      record({ channelId: 'english', inputTokens: 100, costUsd: 0.5 }),
+      record({ channelId: 'english', service: 'veo', seconds: 8, costUsd: 3.2, latencyMs: 3000 }),
+      record({ channelId: 'cat', timestamp: '2026-01-16T01:00:00.000Z', success: false }),
+      record({}),
+    ];
+
+    const byChannel = aggregateUsage(records, 'channel');
+    expect(byChannel.map((r) => r.key)).toEqual(['(no channel)', 'cat', 'english']);
+    expect(byChannel[2]).toMatchObject({ calls: 2, costUsd: 3.7, avgLatencyMs: 2000, seconds: 8 });
+
+    expect(aggregateUsage(records, 'day').map((r) => [r.key, r.calls])).toEqual([
+      ['2026-01-15', 3],
+      ['2026-01-16', 1],
+    ]);
+    const byProvider = aggregateUsage(records, 'provider');
+    expect(byProvider.find((r) => r.key === 'gemini_text')).toMatchObject({
+      calls: 3,
+      failures: 1,
+      inputTokens: 100,
+    });
+  });
+
+  it('should format a table with a cost total', () => {
+    const table = formatUsageTable(
+      'By provider:',
+      aggregateUsage([record({ costUsd: 1.5 })], 'provider')
+    );
+    expect(table.split('\n')[0]).toBe('By provider:');
+    expect(table).toContain('gemini_text');
+    expect(table.trimEnd().endsWith('1.5000')).toBe(true);
+  });
+
+  it('should validate ledger lines', () => {
+    expect(usageRecordSchema.safeParse(record({})).success).toBe(true);
+    expect(usageRecordSchema.safeParse({ ...record({}), service: 'unknown' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Usage ledger calculations
+ * 호출 단위 기록에 가격표를 적용하고 채널/날짜/서비스별로 합산
+ */
+
+import type {
+  UsageGrouping,
+  UsagePrice,
+  UsagePriceTable,
+  UsageRecord,
+  UsageService,
+  UsageSummary,
+  UsageUnits,
+} from './types';
+
+/**
+ * Price of a model (falls back to the service's '*' entry)
+ */
+export function getUsagePrice(
+  prices: UsagePriceTable,
+  service: UsageService,
+  model: string
+): UsagePrice {
+  const servicePrices = prices[service] ?? {};
+  return servicePrices[model] ?? servicePrices['*'] ?? {};
+}
+
+/**
+ * Estimated cost in USD of one call
+ */
+export function estimateUsageCost(
+  prices: UsagePriceTable,
+  service: UsageService,
+  model: string,
+  units: UsageUnits
+): number {
+  const price = getUsagePrice(prices, service, model);
+  const cost =
+    ((units.inputTokens ?? 0) * (price.perMillionInputTokens ?? 0)) / 1_000_000 +
+    ((units.outputTokens ?? 0) * (price.perMillionOutputTokens ?? 0)) / 1_000_000 +
+    ((units.characters ?? 0) * (price.perThousandCharacters ?? 0)) / 1_000 +
+    (units.seconds ?? 0) * (price.perSecond ?? 0) +
+    (units.images ?? 0) * (price.perImage ?? 0);
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Merge a partial price table over the defaults (per service, per model)
+ */
+export function mergeUsagePrices(
+  defaults: UsagePriceTable,
+  overrides: UsagePriceTable
+): UsagePriceTable {
+  const merged: UsagePriceTable = { ...defaults };
+  for (const [service, models] of Object.entries(overrides) as Array<
+    [UsageService, Record<string, UsagePrice>]
+  >) {
+    merged[service] = { ...defaults[service], ...models };
+  }
+  return merged;
+}
+
+/**
+ * Grouping key of a record (day = UTC date of the call)
+ */
+export function getUsageGroupKey(record: UsageRecord, by: UsageGrouping): string {
+  switch (by) {
+    case 'channel':
+      return record.channelId ?? '(no channel)';
+    case 'day':
+      return record.timestamp.slice(0, 10);
+    case 'provider':
+      return record.service;
+  }
+}
+
+/**
+ * Sum records per channel, day or provider (sorted by key)
+ */
+export function aggregateUsage(records: UsageRecord[], by: UsageGrouping): UsageSummary[] {
+  const groups = new Map<string, UsageSummary & { totalLatencyMs: number }>();
+
+  for (const record of records) {
+    const key = getUsageGroupKey(record, by);
+    const group = groups.get(key) ?? {
+      key,
+      calls: 0,
+      failures: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      characters: 0,
+      seconds: 0,
+      images: 0,
+      costUsd: 0,
+      avgLatencyMs: 0,
+      totalLatencyMs: 0,
+    };
+
+    group.calls++;
+    if (!record.success) group.failures++;
+    group.inputTokens += record.inputTokens ?? 0;
+    group.outputTokens += record.outputTokens ?? 0;
+    group.characters += record.characters ?? 0;
+    group.seconds += record.seconds ?? 0;
+    group.images += record.images ?? 0;
+    group.costUsd += record.costUsd;
+    group.totalLatencyMs += record.latencyMs;
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .sort((a, b) => a.key.localeCompare(b.key))
+    .map(({ totalLatencyMs, ...summary }) => ({
+      ...summary,
+      costUsd: Math.round(summary.costUsd * 10_000) / 10_000,
+      avgLatencyMs: Math.round(totalLatencyMs / summary.calls),
+    }));
+}
+
+/**
+ * Plain-text table for the CLI report
+ */
+export function formatUsageTable(title: string, rows: UsageSummary[]): string {
+  const header = `${'key'.padEnd(24)} ${'calls'.padStart(6)} ${'fail'.padStart(5)} ${'tokens in/out'.padStart(18)} ${'chars'.padStart(9)} ${'sec'.padStart(6)} ${'img'.padStart(4)} ${'avg ms'.padStart(7)} ${'cost $'.padStart(9)}`;
+  const lines = rows.map(
+    (r) =>
+      `${r.key.padEnd(24)} ${String(r.calls).padStart(6)} ${String(r.failures).padStart(5)} ${`${r.inputTokens}/${r.outputTokens}`.padStart(18)} ${String(r.characters).padStart(9)} ${String(r.seconds).padStart(6)} ${String(r.images).padStart(4)} ${String(r.avgLatencyMs).padStart(7)} ${r.costUsd.toFixed(4).padStart(9)}`
+  );
+  const total = rows.reduce((sum, r) => sum + r.costUsd, 0);
+  return [title, header, ...lines, `${'total'.padEnd(24)} ${total.toFixed(4).padStart(71)}`].join(
+    '\n'
+  );
+}
@@ -0,0 +1,27 @@
+import { aggregateUsage, formatUsageTable } from './ledger';
+import { DEFAULT_USAGE_DIR, loadAllUsageRecords } from './store';
+import { usageGroupings } from './types';
+
+/**
+ * Print usage and estimated cost per channel, day and provider
+ * @param since - YYYY-MM-DD, 이 날짜 이후 호출만 집계
+ */
+export async function showUsageReport(
+  options: { rootDir?: string; since?: string } = {}
+): Promise<void> {
+  const rootDir = options.rootDir ?? DEFAULT_USAGE_DIR;
+  const records = (await loadAllUsageRecords(rootDir)).filter(
+    (record) => !options.since || record.timestamp.slice(0, 10) >= options.since
+  );
+
+  if (records.length === 0) {
+    console.log(`📊 No usage recorded under ${rootDir}`);
+    return;
+  }
+
+  console.log(`\n📊 API usage (${records.length} calls)\n`);
+  for (const by of usageGroupings) {
+    console.log(formatUsageTable(`By ${by}:`, aggregateUsage(records, by)));
+    console.log('');
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Usage ledger persistence ({runDir}/usage.jsonl)
+ */
+
+import { promises as fs, type Dirent } from 'fs';
+import path from 'path';
+import { mergeUsagePrices } from './ledger';
+import {
+  DEFAULT_USAGE_PRICES,
+  USAGE_LEDGER_FILENAME,
+  usagePriceTableSchema,
+  usageRecordSchema,
+  type UsagePriceTable,
+  type UsageRecord,
+} from './types';
+
+export const DEFAULT_USAGE_DIR = 'output';
+
+// 가격표 오버라이드 (없으면 기본 가격)
+const USAGE_PRICES_FILE = process.env.USAGE_PRICES_FILE || 'usage-prices.json';
+
+/**
+ * Append records to a run's ledger
+ */
+export async function appendUsageRecords(runDir: string, records: UsageRecord[]): Promise<void> {
+  if (records.length === 0) return;
+  await fs.mkdir(runDir, { recursive: true });
+  const lines = records.map((record) => JSON.stringify(record)).join('\n');
+  await fs.appendFile(path.join(runDir, USAGE_LEDGER_FILENAME), `${lines}\n`, 'utf-8');
+}
+
+/**
+ * Read one usage.jsonl (invalid lines are skipped with a warning)
+ */
+export async function loadUsageRecords(ledgerPath: string): Promise<UsageRecord[]> {
+  const content = await fs.readFile(ledgerPath, 'utf-8');
+  const records: UsageRecord[] = [];
+
+  content.split('\n').forEach((line, i) => {
+    if (!line.trim()) return;
+    try {
+      const result = usageRecordSchema.safeParse(JSON.parse(line));
+      if (result.success) {
+        records.push(result.data);
+        return;
+      }
+    } catch {
+      // JSON 파싱 실패 - 아래에서 경고
+    }
+    console.warn(`   ⚠️ Skipping invalid usage record: ${ledgerPath}:${i + 1}`);
+  });
+
+  return records;
+}
+
+/**
+ * Find every usage.jsonl under the output root
+ */
+export async function findUsageLedgers(rootDir = DEFAULT_USAGE_DIR, depth = 4): Promise<string[]> {
+  let entries: Dirent[];
+  try {
+    entries = await fs.readdir(rootDir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const ledgers: string[] = [];
+  for (const entry of entries) {
+    const entryPath = path.join(rootDir, entry.name);
+    if (entry.isFile() && entry.name === USAGE_LEDGER_FILENAME) {
+      ledgers.push(entryPath);
+    } else if (entry.isDirectory() && depth > 0 && !entry.name.startsWith('.')) {
+      ledgers.push(...(await findUsageLedgers(entryPath, depth - 1)));
+    }
+  }
+  return ledgers;
+}
+
+/**
+ * Load all records under the output root
+ */
+export async function loadAllUsageRecords(rootDir = DEFAULT_USAGE_DIR): Promise<UsageRecord[]> {
+  const records: UsageRecord[] = [];
+  for (const ledgerPath of await findUsageLedgers(rootDir)) {
+    records.push(...(await loadUsageRecords(ledgerPath)));
+  }
+  return records;
+}
+
+/**
+ * Price table: defaults merged with usage-prices.json (USAGE_PRICES_FILE)
+ * @throws Error if the override file exists but is invalid
+ */
+export async function loadUsagePrices(pricesPath = USAGE_PRICES_FILE): Promise<UsagePriceTable> {
+  let content: string;
+  try {
+    content = await fs.readFile(pricesPath, 'utf-8');
+  } catch {
+    return DEFAULT_USAGE_PRICES;
+  }
+
+  const result = usagePriceTableSchema.safeParse(JSON.parse(content));
+  if (!result.success) {
+    const errors = result.error.issues
+      .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      .join(', ');
+    throw new Error(`Invalid usage price table in ${pricesPath}: ${errors}`);
+  }
+
+  return mergeUsagePrices(DEFAULT_USAGE_PRICES, result.data);
+}
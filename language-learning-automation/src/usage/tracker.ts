@@ -0,0 +1,135 @@
+/**
+ * Usage tracking for external API calls
+ * 파이프라인이 채널/실행 폴더 컨텍스트를 열면 그 안의 모든 호출이 해당 실행의 usage.jsonl에 기록됨
+ * (실행 폴더가 정해지기 전 호출은 버퍼에 모았다가 setUsageRunDir 시점에 기록)
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { estimateUsageCost } from './ledger';
+import { DEFAULT_USAGE_DIR, appendUsageRecords, loadUsagePrices } from './store';
+import {
+  DEFAULT_USAGE_PRICES,
+  type UsagePriceTable,
+  type UsageRecord,
+  type UsageService,
+  type UsageUnits,
+} from './types';
+
+export interface UsageContext {
+  channelId?: string;
+  runDir?: string;
+}
+
+interface ActiveUsageContext extends UsageContext {
+  pending: UsageRecord[];
+}
+
+export interface UsageCall {
+  service: UsageService;
+  model: string;
+}
+
+const usageStorage = new AsyncLocalStorage<ActiveUsageContext>();
+let pricesPromise: Promise<UsagePriceTable> | null = null;
+
+/**
+ * Run a pipeline with a channel / run folder attached to every recorded call
+ */
+export async function withUsageContext<T>(
+  context: UsageContext,
+  run: () => Promise<T>
+): Promise<T> {
+  const active: ActiveUsageContext = { ...context, pending: [] };
+  try {
+    return await usageStorage.run(active, run);
+  } finally {
+    // 실행 폴더 없이 끝난 경우 공용 ledger로
+    await writeRecords(active.pending, active.runDir ?? DEFAULT_USAGE_DIR);
+    active.pending = [];
+  }
+}
+
+/**
+ * Bind the run folder once it is known and flush calls recorded before it
+ */
+export async function setUsageRunDir(runDir: string): Promise<void> {
+  const active = usageStorage.getStore();
+  if (!active) return;
+  active.runDir = runDir;
+  const pending = active.pending;
+  active.pending = [];
+  await writeRecords(pending, runDir);
+}
+
+/**
+ * Record one API call with its estimated cost
+ */
+export async function recordUsage(
+  call: UsageCall,
+  units: UsageUnits,
+  latencyMs: number,
+  success = true
+): Promise<void> {
+  const active = usageStorage.getStore();
+  const record: UsageRecord = {
+    timestamp: new Date().toISOString(),
+    service: call.service,
+    model: call.model,
+    ...units,
+    latencyMs: Math.round(latencyMs),
+    success,
+    ...(active?.channelId ? { channelId: active.channelId } : {}),
+    ...(active?.runDir ? { runDir: active.runDir } : {}),
+    costUsd: success ? estimateUsageCost(await getPrices(), call.service, call.model, units) : 0,
+  };
+
+  if (active && !active.runDir) {
+    active.pending.push(record);
+    return;
+  }
+  await writeRecords([record], active?.runDir ?? DEFAULT_USAGE_DIR);
+}
+
+/**
+ * Time a call and record it (failed calls are recorded with no cost, then rethrown)
+ * @param measure - 결과에서 토큰/문자/초/이미지 수 추출
+ */
+export async function trackUsage<T>(
+  call: UsageCall,
+  run: () => Promise<T>,
+  measure: (result: T) => UsageUnits = () => ({})
+): Promise<T> {
+  const startedAt = Date.now();
+  let result: T;
+  try {
+    result = await run();
+  } catch (error) {
+    await recordUsage(call, {}, Date.now() - startedAt, false);
+    throw error;
+  }
+  await recordUsage(call, measure(result), Date.now() - startedAt);
+  return result;
+}
+
+/**
+ * Price table for cost estimates (잘못된 usage-prices.json 은 한 번만 경고하고 기본 가격 사용)
+ */
+function getPrices(): Promise<UsagePriceTable> {
+  pricesPromise ??= loadUsagePrices().catch((error) => {
+    console.warn(`   ⚠️ Failed to load usage prices, using defaults: ${error}`);
+    return DEFAULT_USAGE_PRICES;
+  });
+  return pricesPromise;
+}
+
+async function writeRecords(records: UsageRecord[], runDir: string): Promise<void> {
+  try {
+    await appendUsageRecords(
+      runDir,
+      records.map((record) => ({ ...record, runDir: record.runDir ?? runDir }))
+    );
+  } catch (error) {
+    // 사용량 기록 실패로 파이프라인을 멈추지 않음
+    console.warn(`   ⚠️ Failed to write usage ledger: ${error}`);
+  }
+}
@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import { API_KEY_SERVICES } from '../config/key-pool';
+
+// Every external API we pay for (key-pool services + Google Cloud TTS)
+export const usageServices = [...API_KEY_SERVICES, 'google_tts'] as const;
+export const usageServiceSchema = z.enum(usageServices);
+export type UsageService = z.infer<typeof usageServiceSchema>;
+
+export const USAGE_LEDGER_FILENAME = 'usage.jsonl';
+
+// Billable quantities reported by a call
+export const usageUnitsSchema = z.object({
+  inputTokens: z.number().nonnegative().optional(),
+  outputTokens: z.number().nonnegative().optional(),
+  characters: z.number().nonnegative().optional(),
+  /** 생성된 영상 길이 */
+  seconds: z.number().nonnegative().optional(),
+  images: z.number().nonnegative().optional(),
+});
+
+export type UsageUnits = z.infer<typeof usageUnitsSchema>;
+
+// One line of usage.jsonl
+export const usageRecordSchema = usageUnitsSchema.extend({
+  timestamp: z.string().min(1),
+  service: usageServiceSchema,
+  model: z.string().min(1),
+  latencyMs: z.number().nonnegative(),
+  success: z.boolean(),
+  channelId: z.string().optional(),
+  /** 실행 출력 폴더 */
+  runDir: z.string().optional(),
+  /** 가격표 기준 예상 비용 (USD) */
+  costUsd: z.number().nonnegative(),
+});
+
+export type UsageRecord = z.infer<typeof usageRecordSchema>;
+
+// Unit prices in USD
+export const usagePriceSchema = z.object({
+  perMillionInputTokens: z.number().nonnegative().optional(),
+  perMillionOutputTokens: z.number().nonnegative().optional(),
+  perThousandCharacters: z.number().nonnegative().optional(),
+  perSecond: z.number().nonnegative().optional(),
+  perImage: z.number().nonnegative().optional(),
+});
+
+export type UsagePrice = z.infer<typeof usagePriceSchema>;
+
+/** service → model → price ('*' = any other model of the service) */
+export const usagePriceTableSchema = z.record(
+  usageServiceSchema,
+  z.record(z.string(), usagePriceSchema)
+);
+
+export type UsagePriceTable = z.infer<typeof usagePriceTableSchema>;
+
+export const DEFAULT_USAGE_PRICES: UsagePriceTable = {
+  gemini_text: { '*': { perMillionInputTokens: 2, perMillionOutputTokens: 12 } },
+  gemini_image: { '*': { perImage: 0.134 } },
+  veo: { '*': { perSecond: 0.4 } },
+  elevenlabs: { '*': { perThousandCharacters: 0.3 } },
+  google_tts: { '*': { perThousandCharacters: 0.016 } },
+  openai: {
+    '*': { perMillionInputTokens: 2.5, perMillionOutputTokens: 10 },
+    'tts-1': { perThousandCharacters: 0.015 },
+    'tts-1-hd': { perThousandCharacters: 0.03 },
+  },
+};
+
+export const usageGroupings = ['channel', 'day', 'provider'] as const;
+export type UsageGrouping = (typeof usageGroupings)[number];
+
+// Aggregated row of the usage report
+export interface UsageSummary extends Required<UsageUnits> {
+  key: string;
+  calls: number;
+  failures: number;
+  costUsd: number;
+  avgLatencyMs: number;
+}
@@ -0,0 +1,31 @@
+/**
+ * Veo 캐릭터 라벨 유틸리티
+ * 캐릭터 style 문구로 kitten/puppy 등 프롬프트·자막용 라벨을 결정
+ */
+
+import type { Character } from '../config/types';
+
+export type CharacterLabel = 'kitten' | 'puppy' | 'character';
+
+const CHARACTER_ICONS: Record<CharacterLabel, string> = {
+  kitten: '🐱',
+  puppy: '🐶',
+  character: '🎤',
+};
+
+/**
+ * Simple heuristic: check if style contains "kitten"/"cat" or "puppy"/"dog"
+ */
+export function getCharacterLabel(character: Pick<Character, 'style'>): CharacterLabel {
+  const style = character.style.toLowerCase();
+  if (style.includes('dog') || style.includes('puppy')) return 'puppy';
+  if (style.includes('cat') || style.includes('kitten')) return 'kitten';
+  return 'character';
+}
+
+/**
+ * Emoji shown next to the channel name in Shorts
+ */
+export function getCharacterIcon(character: Pick<Character, 'style'>): string {
+  return CHARACTER_ICONS[getCharacterLabel(character)];
+}
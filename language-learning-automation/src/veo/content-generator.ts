@@ -5,39 +5,10 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { getGeminiApiKey, GEMINI_API_URLS } from '../config/gemini';
-
-// 채널 설정 타입
-export interface ChannelConfig {
-  channelId: string;
-  channelName: string;
-  contentType: 'interview' | 'dialogue';
-  character: {
-    id: string;
-    name: string;
-    nameEnglish: string;
-    type: 'animal' | 'human';
-    imagePath?: string;
-    style: string;
-    voiceStyle: string;
-    personality: string;
-    age: string;
-  };
-  props?: {
-    microphone?: string;
-  };
-  veoConfig: {
-    useReferenceImages: boolean;
-    aspectRatio: string;
-    durationSeconds: number;
-    personGeneration: string;
-  };
-  interviewConfig?: {
-    reporterLanguage: string;
-    characterLanguage: string;
-    reporterVisible: boolean;
-  };
-}
+import { getTextProvider } from '../llm/provider';
+import { loadVeoConfig } from '../config/loader';
+import type { InterviewChannelConfig, VeoChannelConfig } from '../config/types';
+import { getCharacterLabel } from './character';
 
 // 일일 콘텐츠 타입
 export interface DailyContent {
@@ -51,17 +22,8 @@ export interface DailyContent {
   background: string;
   outfit: string | null;
   veoPrompt: string;
-}
-
-/**
- * 채널 설정 로드
- */
-export function loadChannelConfig(channelId: string): ChannelConfig {
-  const configPath = path.join('channels', `${channelId}.json`);
-  if (!fs.existsSync(configPath)) {
-    throw new Error(`Channel config not found: ${configPath}`);
-  }
-  return JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  /** clipMode가 per_dialogue일 때 대화별 클립 프롬프트 */
+  clipPrompts?: string[];
 }
 
 /**
@@ -71,7 +33,7 @@ export async function generateDailyContent(
   channelId: string,
   options?: { theme?: string }
 ): Promise<DailyContent> {
-  const config = loadChannelConfig(channelId);
+  const config = await loadVeoConfig(channelId);
   const today = new Date().toISOString().split('T')[0];
 
   console.log(`🎬 Generating daily content for ${config.channelName}`);
@@ -82,46 +44,36 @@ export async function generateDailyContent(
 
   // Veo 프롬프트 빌드
   const veoPrompt = buildVeoPrompt(config, contentPlan);
+  const clipPrompts =
+    config.veoConfig.clipMode === 'per_dialogue'
+      ? buildClipPrompts(config, contentPlan)
+      : undefined;
 
   return {
     date: today,
     ...contentPlan,
     veoPrompt,
+    ...(clipPrompts ? { clipPrompts } : {}),
   };
 }
 
 /**
- * Gemini로 콘텐츠 플랜 생성
+ * LLM으로 콘텐츠 플랜 생성
  */
 async function generateContentPlan(
-  config: ChannelConfig,
+  config: VeoChannelConfig,
   suggestedTheme?: string
 ): Promise<Omit<DailyContent, 'date' | 'veoPrompt'>> {
-  const apiKey = getGeminiApiKey();
-
   const prompt = buildContentPlanPrompt(config, suggestedTheme);
 
-  const response = await fetch(`${GEMINI_API_URLS.text}?key=${apiKey}`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      contents: [{ parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: 0.8,
-        responseMimeType: 'application/json',
-      },
-    }),
+  const { text } = await getTextProvider().generateText({
+    prompt,
+    temperature: 0.8,
+    responseMimeType: 'application/json',
   });
 
-  if (!response.ok) {
-    throw new Error(`Gemini API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-
   if (!text) {
-    throw new Error('No response from Gemini');
+    throw new Error('No response from LLM provider');
   }
 
   return JSON.parse(text);
@@ -130,7 +82,7 @@ async function generateContentPlan(
 /**
  * 콘텐츠 플랜 생성 프롬프트
  */
-function buildContentPlanPrompt(config: ChannelConfig, suggestedTheme?: string): string {
+function buildContentPlanPrompt(config: VeoChannelConfig, suggestedTheme?: string): string {
   const themeHint = suggestedTheme ? `Today's theme should be related to: ${suggestedTheme}` : '';
 
   if (config.contentType === 'interview') {
@@ -147,7 +99,7 @@ This is an English learning interview format:
 - Reporter asks in Korean: "OOO"는? (asking how to say something in English)
 - Character answers with the English translation
 
-Generate 2 question-answer pairs for today's content.
+Generate ${config.veoConfig.dialogueCount} question-answer pairs for today's content.
 
 IMPORTANT RULES:
 1. Questions are Korean phrases the reporter asks to translate, format: "한국어표현"는?
@@ -194,7 +146,7 @@ Make the Korean phrases practical and commonly used. Keep English answers short
  * Veo 프롬프트 빌드
  */
 function buildVeoPrompt(
-  config: ChannelConfig,
+  config: VeoChannelConfig,
   content: Omit<DailyContent, 'date' | 'veoPrompt'>
 ): string {
   if (config.contentType === 'interview') {
@@ -203,27 +155,39 @@ function buildVeoPrompt(
   return buildDialogueVeoPrompt(config, content);
 }
 
+/**
+ * 대화마다 하나씩 클립 프롬프트 빌드
+ * 두 번째 클립부터는 이전 클립의 마지막 프레임에서 이어지도록 연속성 지시 추가
+ */
+export function buildClipPrompts(
+  config: VeoChannelConfig,
+  content: Omit<DailyContent, 'date' | 'veoPrompt'>
+): string[] {
+  return content.dialogues.map((dialogue, i) => {
+    const prompt = buildVeoPrompt(config, { ...content, dialogues: [dialogue] });
+    return i === 0 ? prompt : `${CONTINUATION_PROMPT}\n\n${prompt}`;
+  });
+}
+
+const CONTINUATION_PROMPT =
+  'This shot continues directly from the provided starting frame: keep the same character, outfit, background, lighting and camera framing.';
+
 /**
  * 인터뷰 형식 Veo 프롬프트
  */
 function buildInterviewVeoPrompt(
-  config: ChannelConfig,
+  config: InterviewChannelConfig,
   content: Omit<DailyContent, 'date' | 'veoPrompt'>
 ): string {
   const { character, interviewConfig } = config;
   const { dialogues, background, outfit } = content;
 
-  // Language settings with defaults
-  const reporterLang = interviewConfig?.reporterLanguage || 'Korean';
-  const characterLang = interviewConfig?.characterLanguage || 'English';
+  // Language settings (defaults filled by the channel schema)
+  const reporterLang = interviewConfig.reporterLanguage;
+  const characterLang = interviewConfig.characterLanguage;
 
   // Determine character type label (e.g., "kitten", "puppy", or just "character")
-  // Simple heuristic: check if style contains "kitten" or "puppy"
-  const charLabel = character.style.toLowerCase().includes('dog') || character.style.toLowerCase().includes('puppy') 
-    ? 'puppy' 
-    : character.style.toLowerCase().includes('cat') || character.style.toLowerCase().includes('kitten') 
-      ? 'kitten' 
-      : 'character';
+  const charLabel = getCharacterLabel(character);
 
   const outfitDesc = outfit ? `The ${charLabel} is wearing ${outfit}, dressed like a human.` : '';
 
@@ -261,7 +225,7 @@ No subtitles, no captions, no text overlays, no on-screen text of any kind.`;
  * 대화 형식 Veo 프롬프트 (할머니-손자 등)
  */
 function buildDialogueVeoPrompt(
-  config: ChannelConfig,
+  config: VeoChannelConfig,
   content: Omit<DailyContent, 'date' | 'veoPrompt'>
 ): string {
   // TODO: 대화 형식 구현
@@ -272,7 +236,7 @@ function buildDialogueVeoPrompt(
  * 콘텐츠 저장
  */
 export function saveDailyContent(channelId: string, content: DailyContent): string {
-  const outputDir = path.join('output', channelId, content.date);
+  const outputDir = getDailyContentDir(channelId, content.date);
   if (!fs.existsSync(outputDir)) {
     fs.mkdirSync(outputDir, { recursive: true });
   }
@@ -283,3 +247,23 @@ export function saveDailyContent(channelId: string, content: DailyContent): stri
   console.log(`💾 Content saved: ${outputPath}`);
   return outputPath;
 }
+
+/**
+ * 일일 콘텐츠 출력 폴더 (output/{channelId}/{date})
+ */
+export function getDailyContentDir(channelId: string, date: string): string {
+  return path.join('output', channelId, date);
+}
+
+/**
+ * 저장된 일일 콘텐츠 로드 (없거나 읽을 수 없으면 null)
+ */
+export function loadDailyContent(channelId: string, date: string): DailyContent | null {
+  const contentPath = path.join(getDailyContentDir(channelId, date), 'content.json');
+  try {
+    const content = JSON.parse(fs.readFileSync(contentPath, 'utf-8')) as DailyContent;
+    return content.date === date && Array.isArray(content.dialogues) ? content : null;
+  } catch {
+    return null;
+  }
+}
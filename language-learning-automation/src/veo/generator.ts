@@ -1,7 +1,9 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { GoogleGenAI, type GenerateVideosOperation } from '@google/genai';
+import { GenerateVideosOperation, GoogleGenAI } from '@google/genai';
+import { ApiKeysExhaustedError } from '../config/api-keys';
 import { getVeoApiKey, veoApiKeyManager } from '../config/gemini';
+import { trackUsage } from '../usage/tracker';
 import type { VeoConfig, VeoRequest, VeoResult, VeoOperationStatus, ReferenceImage } from './types';
 import { veoConfigSchema } from './types';
 
@@ -21,6 +23,16 @@ interface LoadedReferenceImage {
   referenceType: 'asset' | 'style';
 }
 
+/**
+ * 영상 다운로드 HTTP 오류 (호출자는 status 로 재시도 여부 판단)
+ */
+export class VeoDownloadError extends Error {
+  constructor(readonly status: number) {
+    super(`Failed to download video: ${status}`);
+    this.name = 'VeoDownloadError';
+  }
+}
+
 /**
  * Veo 3.1 영상 생성기
  * @google/genai SDK를 사용하여 reference images 지원
@@ -52,30 +64,61 @@ export class VeoGenerator {
       `   Config: ${config.aspectRatio}, ${config.durationSeconds}s, ${config.resolution}`
     );
 
+    const { operation, operationId } = await this.submitOperation(request, config);
+
+    // 완료까지 폴링
+    const result = await this.pollUntilComplete(operation);
+
+    return {
+      ...result,
+      operationId,
+    };
+  }
+
+  /**
+   * 영상 생성 요청만 제출하고 바로 반환 (폴링은 job queue 워커가 담당)
+   * @returns operation ID와 제출에 사용한 API 키 인덱스
+   */
+  async submitVideo(request: VeoRequest): Promise<{ operationId: string; keyIndex: number }> {
+    const config = veoConfigSchema.parse(request.config || {});
+    console.log(`🎬 Submitting Veo job: ${request.prompt.substring(0, 80)}...`);
+
+    const { operationId } = await this.submitOperation(request, config);
+    return { operationId, keyIndex: veoApiKeyManager.getCurrentKeyIndex() };
+  }
+
+  private async submitOperation(
+    request: VeoRequest,
+    config: VeoConfig
+  ): Promise<{ operation: GenerateVideosOperation; operationId: string }> {
     // Reference images 로드
     const referenceImages = await this.loadReferenceImages(request.referenceImages || []);
     if (referenceImages.length > 0) {
       console.log(`   Reference images: ${referenceImages.length}`);
     }
 
+    // 첫 프레임 이미지 로드 (이전 클립 이어가기)
+    const [firstFrame] = request.firstFrameImagePath
+      ? await this.loadReferenceImages([
+          { imagePath: request.firstFrameImagePath, referenceType: 'asset' },
+        ])
+      : [];
+    if (firstFrame) {
+      console.log(`   First frame: ${request.firstFrameImagePath}`);
+    }
+
     // 영상 생성 요청 (재시도 로직 포함)
     const operation = await this.submitGenerationRequest(
       request.prompt,
       referenceImages,
       config,
-      request.negativePrompt
+      request.negativePrompt,
+      firstFrame
     );
 
     const operationId = operation.name || 'unknown';
     console.log(`   Operation ID: ${operationId}`);
-
-    // 완료까지 폴링
-    const result = await this.pollUntilComplete(operation);
-
-    return {
-      ...result,
-      operationId,
-    };
+    return { operation, operationId };
   }
 
   /**
@@ -114,7 +157,8 @@ export class VeoGenerator {
     prompt: string,
     referenceImages: LoadedReferenceImage[],
     config: VeoConfig,
-    negativePrompt?: string
+    negativePrompt?: string,
+    firstFrame?: LoadedReferenceImage
   ): Promise<GenerateVideosOperation> {
     // Reference images가 있으면 8초 필수, 16:9만 지원
     const duration = referenceImages.length > 0 ? 8 : parseInt(config.durationSeconds);
@@ -148,14 +192,24 @@ export class VeoGenerator {
         }
 
         // generateVideos 호출
-        const operation = await this.client.models.generateVideos({
-          model: VEO_MODEL,
-          prompt: prompt,
-          config: requestConfig,
-        });
+        const operation = await trackUsage(
+          { service: 'veo', model: VEO_MODEL },
+          () =>
+            this.client.models.generateVideos({
+              model: VEO_MODEL,
+              prompt: prompt,
+              ...(firstFrame
+                ? { image: { imageBytes: firstFrame.imageBytes, mimeType: firstFrame.mimeType } }
+                : {}),
+              config: requestConfig,
+            }),
+          () => ({ seconds: duration })
+        );
+        veoApiKeyManager.recordSubmission();
 
         return operation;
       } catch (error) {
+        if (error instanceof ApiKeysExhaustedError) throw error;
         lastError = error as Error;
         const errorMsg = lastError.message;
 
@@ -172,7 +226,7 @@ export class VeoGenerator {
             continue;
           }
           // 모든 키 소진됨
-          throw new Error('All API keys exhausted. Please wait for quota reset.');
+          throw new ApiKeysExhaustedError('veo');
         }
 
         console.warn(`⚠️ Attempt ${attempt + 1}/${MAX_RETRIES} failed: ${errorMsg}`);
@@ -190,11 +244,12 @@ export class VeoGenerator {
 
   /**
    * 작업 상태 확인
+   * @param keyIndex - 제출에 사용한 API 키 인덱스 (없으면 현재 키)
    */
-  async checkOperationStatus(operationId: string): Promise<VeoOperationStatus> {
+  async checkOperationStatus(operationId: string, keyIndex?: number): Promise<VeoOperationStatus> {
     try {
       // REST API로 상태 확인
-      const apiKey = getVeoApiKey();
+      const apiKey = keyIndex === undefined ? getVeoApiKey() : veoApiKeyManager.getKeyAt(keyIndex);
       const url = `https://generativelanguage.googleapis.com/v1beta/${operationId}?key=${apiKey}`;
 
       const response = await fetch(url);
@@ -218,6 +273,45 @@ export class VeoGenerator {
     }
   }
 
+  /**
+   * 제출된 작업 조회 (완료 시 결과 포함)
+   * @param keyIndex - 제출에 사용한 API 키 인덱스
+   */
+  async getOperationResult(
+    operationId: string,
+    keyIndex?: number
+  ): Promise<{ status: VeoOperationStatus; result?: VeoResult; error?: string }> {
+    const client =
+      keyIndex === undefined
+        ? this.client
+        : new GoogleGenAI({ apiKey: veoApiKeyManager.getKeyAt(keyIndex) });
+
+    const pending = new GenerateVideosOperation();
+    pending.name = operationId;
+    const operation = await client.operations.getVideosOperation({ operation: pending });
+
+    if (operation.error) {
+      return {
+        status: 'failed',
+        error: String(operation.error.message ?? JSON.stringify(operation.error)),
+      };
+    }
+    if (!operation.done) {
+      return { status: 'running' };
+    }
+    // 완료됐지만 영상이 없음 (안전 필터 등) - 다시 폴링해도 바뀌지 않음
+    if (!operation.response?.generatedVideos?.[0]?.video?.uri) {
+      const reasons = operation.response?.raiMediaFilteredReasons ?? [];
+      return {
+        status: 'failed',
+        error: reasons.length
+          ? `Video filtered: ${reasons.join('; ')}`
+          : 'No video URI in operation result',
+      };
+    }
+    return { status: 'completed', result: this.extractResult(operation) };
+  }
+
   /**
    * 완료까지 폴링
    */
@@ -307,7 +401,8 @@ export class VeoGenerator {
       negativePrompt?: string;
     }
   ): Promise<VeoResult> {
-    if (!previousResult._videoObject) {
+    const videoObject = previousResult._videoObject;
+    if (!videoObject) {
       throw new Error('Previous result does not contain video object for extension');
     }
 
@@ -329,12 +424,18 @@ export class VeoGenerator {
         }
 
         // 영상 연장 요청
-        const operation = await this.client.models.generateVideos({
-          model: VEO_MODEL,
-          prompt: prompt,
-          video: previousResult._videoObject,
-          config: requestConfig,
-        });
+        const operation = await trackUsage(
+          { service: 'veo', model: VEO_MODEL },
+          () =>
+            this.client.models.generateVideos({
+              model: VEO_MODEL,
+              prompt: prompt,
+              video: videoObject,
+              config: requestConfig,
+            }),
+          () => ({ seconds: 8 })
+        );
+        veoApiKeyManager.recordSubmission();
 
         const operationId = operation.name || 'unknown';
         console.log(`   Operation ID: ${operationId}`);
@@ -397,7 +498,7 @@ export class VeoGenerator {
   /**
    * 영상 다운로드
    */
-  async downloadVideo(videoUri: string, outputPath: string): Promise<string> {
+  async downloadVideo(videoUri: string, outputPath: string, keyIndex?: number): Promise<string> {
     console.log(`📥 Downloading video to: ${outputPath}`);
 
     // 출력 디렉토리 생성
@@ -406,8 +507,8 @@ export class VeoGenerator {
       fs.mkdirSync(outputDir, { recursive: true });
     }
 
-    // API 키를 URL에 추가
-    const apiKey = getVeoApiKey();
+    // API 키를 URL에 추가 (작업을 제출한 키)
+    const apiKey = keyIndex === undefined ? getVeoApiKey() : veoApiKeyManager.getKeyAt(keyIndex);
     const downloadUrl = videoUri.includes('?')
       ? `${videoUri}&key=${apiKey}`
       : `${videoUri}?key=${apiKey}`;
@@ -416,7 +517,7 @@ export class VeoGenerator {
     const response = await fetch(downloadUrl);
 
     if (!response.ok) {
-      throw new Error(`Failed to download video: ${response.status}`);
+      throw new VeoDownloadError(response.status);
     }
 
     const buffer = Buffer.from(await response.arrayBuffer());
@@ -435,5 +536,10 @@ export class VeoGenerator {
   }
 }
 
-// 싱글톤 인스턴스
-export const veoGenerator = new VeoGenerator();
+// 싱글톤 인스턴스 (처음 쓸 때 생성 - import 만으로는 API 키가 필요 없음)
+let veoGenerator: VeoGenerator | null = null;
+
+export function getVeoGenerator(): VeoGenerator {
+  veoGenerator ??= new VeoGenerator();
+  return veoGenerator;
+}
@@ -1,2 +1,5 @@
 export * from './types';
 export * from './generator';
+export * from './queue';
+export * from './job-store';
+export * from './worker';
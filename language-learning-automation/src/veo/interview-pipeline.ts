@@ -1,46 +1,87 @@
 /**
  * 인터뷰 콘텐츠 파이프라인
- * 채널 설정 → 콘텐츠 생성 → Veo 영상 생성
+ * 채널 설정 → 콘텐츠 생성 → Veo 영상 생성 → 9:16 크롭 → 쇼츠 렌더링 → 업로드 정보
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { loadVeoConfig } from '../config/loader';
+import type { VeoChannelConfig } from '../config/types';
 import {
-  loadChannelConfig,
   generateDailyContent,
+  getDailyContentDir,
+  loadDailyContent,
   saveDailyContent,
-  type ChannelConfig,
   type DailyContent,
 } from './content-generator';
-import { VeoGenerator } from './generator';
+import { enqueueVeoJobs, loadVeoQueue } from './job-store';
+import { runVeoWorker } from './worker';
 import type { VeoRequest } from './types';
+import {
+  INTERVIEW_SHORT_COMPOSITION_ID,
+  buildInterviewShortProps,
+  buildInterviewUploadInfo,
+  type InterviewClipInfo,
+} from './shorts';
+import { cropVideo } from '../video/crop';
+import { concatWithCrossfade, extractLastFrame, getVideoDuration } from '../video/concat';
+import { detectSpeechSegments } from '../video/speech';
+import {
+  createProgressLogger,
+  getChannelPublicDir,
+  renderComposition,
+  toStaticPath,
+} from '../render';
+import { setUsageRunDir, withUsageContext } from '../usage/tracker';
+
+// 클립 1개 생성 대기 한도 (넘으면 작업은 큐에 남고 파이프라인을 다시 실행하면 이어받기)
+const VEO_JOB_TIMEOUT_MS = 600000; // 10분
 
 export interface PipelineResult {
   content: DailyContent;
   videoPath: string;
   outputDir: string;
+  /** Rendered 9:16 Short (empty when video/render was skipped) */
+  shortPath: string;
+  uploadInfoPath: string;
+}
+
+export interface InterviewPipelineOptions {
+  theme?: string;
+  skipVideoGeneration?: boolean;
+  /** Stop after the raw Veo clip (no crop/render) */
+  skipRender?: boolean;
 }
 
 /**
- * 인터뷰 콘텐츠 파이프라인 실행
+ * 인터뷰 콘텐츠 파이프라인 실행 (API 사용량은 출력 폴더의 usage.jsonl에 기록)
  */
 export async function runInterviewPipeline(
   channelId: string,
-  options?: {
-    theme?: string;
-    skipVideoGeneration?: boolean;
-  }
+  options?: InterviewPipelineOptions
+): Promise<PipelineResult> {
+  return withUsageContext({ channelId }, () => runInterviewStages(channelId, options));
+}
+
+async function runInterviewStages(
+  channelId: string,
+  options?: InterviewPipelineOptions
 ): Promise<PipelineResult> {
   console.log('🚀 Starting Interview Content Pipeline\n');
 
   // 1. 채널 설정 로드
-  const config = loadChannelConfig(channelId);
+  const config = await loadVeoConfig(channelId);
   console.log(`📺 Channel: ${config.channelName}`);
   console.log(`🐱 Character: ${config.character.name}\n`);
 
-  // 2. 일일 콘텐츠 생성
-  console.log('📝 Generating daily content...');
-  const content = await generateDailyContent(channelId, { theme: options?.theme });
+  // 2. 일일 콘텐츠 생성 (오늘 실행이 중간에 멈췄으면 저장된 콘텐츠로 이어서 - Veo 작업 재사용)
+  const resumed = await loadUnfinishedContent(channelId);
+  if (resumed) {
+    console.log(`♻️ Resuming today's saved content (${resumed.date})...`);
+  } else {
+    console.log('📝 Generating daily content...');
+  }
+  const content = resumed ?? (await generateDailyContent(channelId, { theme: options?.theme }));
 
   console.log(`   Theme: ${content.theme}`);
   console.log(`   Dialogues:`);
@@ -54,6 +95,7 @@ export async function runInterviewPipeline(
   // 3. 콘텐츠 저장
   const contentPath = saveDailyContent(channelId, content);
   const outputDir = path.dirname(contentPath);
+  await setUsageRunDir(outputDir);
 
   // 4. Veo 영상 생성
   let videoPath = '';
@@ -66,29 +108,122 @@ export async function runInterviewPipeline(
     videoPath = await generateInterviewVideo(config, content, outputDir);
   }
 
+  // 5. 9:16 크롭 + 쇼츠 렌더링
+  let shortPath = '';
+  if (videoPath && !options?.skipRender) {
+    shortPath = await renderInterviewShort(config, content, videoPath, outputDir);
+  }
+
+  // 6. 업로드 정보
+  const uploadInfoPath = path.join(outputDir, 'upload_info.json');
+  const uploadInfo = buildInterviewUploadInfo(config, content);
+  fs.writeFileSync(uploadInfoPath, JSON.stringify(uploadInfo, null, 2));
+  console.log(`📝 Upload info: ${uploadInfoPath}`);
+
   console.log('\n✅ Pipeline completed!');
   console.log(`   Content: ${contentPath}`);
   if (videoPath) {
     console.log(`   Video: ${videoPath}`);
   }
+  if (shortPath) {
+    console.log(`   Short: ${shortPath}`);
+  }
 
   return {
     content,
     videoPath,
     outputDir,
+    shortPath,
+    uploadInfoPath,
   };
 }
 
+/**
+ * 오늘 저장된 콘텐츠 중 쇼츠가 아직 없고 Veo 작업이 큐에 남아 있는 것
+ * (중단 / 타임아웃 후 다시 실행하면 콘텐츠와 Veo 작업을 새로 만들지 않음)
+ */
+async function loadUnfinishedContent(channelId: string): Promise<DailyContent | null> {
+  const today = new Date().toISOString().split('T')[0];
+  const saved = loadDailyContent(channelId, today);
+  if (!saved) return null;
+
+  const outputDir = getDailyContentDir(channelId, today);
+  if (fs.existsSync(getInterviewShortPath(outputDir, saved, channelId))) return null;
+
+  const prompts =
+    saved.clipPrompts && saved.clipPrompts.length > 1 ? saved.clipPrompts : [saved.veoPrompt];
+  const queue = await loadVeoQueue();
+  const hasJobs = queue.jobs.some(
+    (job) => job.status !== 'failed' && prompts.includes(job.request.prompt)
+  );
+  return hasJobs ? saved : null;
+}
+
+function getInterviewShortPath(
+  outputDir: string,
+  content: DailyContent,
+  channelId: string
+): string {
+  return path.join(outputDir, `${content.date}_${channelId}_short.mp4`);
+}
+
+/**
+ * Veo 클립을 9:16으로 크롭하고 CatInterviewShort로 렌더링
+ */
+async function renderInterviewShort(
+  config: VeoChannelConfig,
+  content: DailyContent,
+  videoPath: string,
+  outputDir: string
+): Promise<string> {
+  console.log('\n✂️  Cropping clip to 9:16...');
+  const croppedPath =
+    config.veoConfig.aspectRatio === '9:16' ? videoPath : cropVideo(videoPath, '9:16');
+
+  // 영상 길이 / 자막 타이밍은 클립을 직접 측정 (참조 이미지가 있으면 Veo 는 항상 8초)
+  const clip: InterviewClipInfo = {};
+  try {
+    clip.duration = getVideoDuration(croppedPath);
+    clip.speech = detectSpeechSegments(croppedPath, clip.duration);
+    console.log(
+      `   🗣️ Detected ${clip.speech.length} speech segment(s) in ${clip.duration.toFixed(1)}s`
+    );
+  } catch (error) {
+    console.warn(`   ⚠️ ${error} - splitting subtitles evenly`);
+  }
+
+  // publicDir = output/{channelId} → staticFile 경로는 {date}/{file}
+  const inputProps = buildInterviewShortProps(
+    config,
+    content,
+    toStaticPath(getChannelPublicDir(config.channelId), croppedPath),
+    clip
+  );
+
+  const shortPath = getInterviewShortPath(outputDir, content, config.channelId);
+  console.log(`🎬 Rendering Short to: ${shortPath}`);
+  const result = await renderComposition({
+    channelId: config.channelId,
+    compositionId: INTERVIEW_SHORT_COMPOSITION_ID,
+    inputProps,
+    outputPath: shortPath,
+    onProgress: createProgressLogger(),
+  });
+  console.log(
+    `\n   Duration: ${result.durationInFrames} frames (${(result.durationInFrames / result.fps).toFixed(1)}s)`
+  );
+
+  return shortPath;
+}
+
 /**
  * 인터뷰 영상 생성
  */
 async function generateInterviewVideo(
-  config: ChannelConfig,
+  config: VeoChannelConfig,
   content: DailyContent,
   outputDir: string
 ): Promise<string> {
-  const generator = new VeoGenerator();
-
   // Reference images 준비
   const referenceImages: { imagePath: string; referenceType: 'asset' | 'style' }[] = [];
 
@@ -111,27 +246,69 @@ async function generateInterviewVideo(
   }
 
   // Veo 요청 생성
-  const request: VeoRequest = {
+  const baseRequest: VeoRequest = {
     prompt: content.veoPrompt,
     referenceImages: referenceImages.length > 0 ? referenceImages : undefined,
     config: {
       model: 'veo-3.1-generate-preview',
-      aspectRatio: config.veoConfig.aspectRatio as '16:9' | '9:16',
+      aspectRatio: config.veoConfig.aspectRatio,
       resolution: '720p',
       durationSeconds: String(config.veoConfig.durationSeconds),
-      personGeneration: config.veoConfig.personGeneration as 'allow_adult' | 'allow_all',
+      personGeneration: config.veoConfig.personGeneration,
     },
     negativePrompt:
       'blurry, low quality, distorted, subtitles, captions, text overlay, on-screen text, watermark',
   };
 
-  // 영상 생성
-  const result = await generator.generateVideo(request);
-
-  // 영상 다운로드
   const videoFileName = `${content.date}_${config.channelId}.mp4`;
   const videoPath = path.join(outputDir, videoFileName);
-  await generator.downloadVideo(result.videoPath, videoPath);
 
+  // 대화별 클립: 순서대로 생성하고 이전 클립의 마지막 프레임에서 이어감
+  if (content.clipPrompts && content.clipPrompts.length > 1) {
+    const clipsDir = path.join(outputDir, 'clips');
+    fs.mkdirSync(clipsDir, { recursive: true });
+
+    const clipPaths: string[] = [];
+    let firstFrameImagePath: string | undefined;
+    for (const [i, prompt] of content.clipPrompts.entries()) {
+      const clipName = `clip_${String(i + 1).padStart(2, '0')}`;
+      console.log(`\n🎞️  Clip ${i + 1}/${content.clipPrompts.length}`);
+
+      const clipPath = await generateQueuedClip(
+        config,
+        { ...baseRequest, prompt, ...(firstFrameImagePath ? { firstFrameImagePath } : {}) },
+        path.join(clipsDir, `${clipName}.mp4`)
+      );
+      clipPaths.push(clipPath);
+      firstFrameImagePath = extractLastFrame(clipPath, path.join(clipsDir, `${clipName}_last.png`));
+    }
+
+    return concatWithCrossfade(clipPaths, videoPath, config.veoConfig.crossfadeSeconds);
+  }
+
+  await generateQueuedClip(config, baseRequest, videoPath);
   return videoPath;
 }
+
+/**
+ * 작업 큐에 등록 후 완료까지 대기 (같은 작업이 큐에 있으면 재사용 - 다시 실행하면 이어받기)
+ */
+async function generateQueuedClip(
+  config: VeoChannelConfig,
+  request: VeoRequest,
+  outputPath: string
+): Promise<string> {
+  const [job] = await enqueueVeoJobs([{ channelId: config.channelId, request, outputPath }]);
+  const [finished] = await runVeoWorker({ jobIds: [job.id], timeoutMs: VEO_JOB_TIMEOUT_MS });
+
+  if (finished?.status === 'queued' || finished?.status === 'running') {
+    throw new Error(
+      `Veo job ${job.id} still ${finished.status} - run the pipeline again later ` +
+        '(saved content and Veo jobs are reused) or wait with: npx tsx scripts/veo-worker.ts'
+    );
+  }
+  if (finished?.status !== 'downloaded') {
+    throw new Error(`Veo job ${job.id} ${finished?.status ?? 'missing'}: ${finished?.error ?? ''}`);
+  }
+  return outputPath;
+}
@@ -0,0 +1,98 @@
+/**
+ * Veo job queue persistence (output/veo-jobs.json)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  VEO_QUEUE_FILENAME,
+  createVeoJob,
+  findReusableVeoJob,
+  veoJobQueueSchema,
+  type NewVeoJob,
+  type VeoJob,
+  type VeoJobQueue,
+} from './queue';
+
+export const DEFAULT_VEO_QUEUE_DIR = 'output';
+
+/**
+ * Load the job queue
+ * @returns Empty queue if the file is missing
+ * @throws Error if the file exists but is invalid
+ */
+export async function loadVeoQueue(queueDir = DEFAULT_VEO_QUEUE_DIR): Promise<VeoJobQueue> {
+  const queuePath = path.join(queueDir, VEO_QUEUE_FILENAME);
+
+  let content: string;
+  try {
+    content = await fs.readFile(queuePath, 'utf-8');
+  } catch {
+    return { jobs: [] };
+  }
+
+  const result = veoJobQueueSchema.safeParse(JSON.parse(content));
+  if (!result.success) {
+    const errors = result.error.issues
+      .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      .join(', ');
+    throw new Error(`Invalid Veo job queue in ${queuePath}: ${errors}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Save the job queue (write to a temp file, then rename)
+ */
+export async function saveVeoQueue(
+  queue: VeoJobQueue,
+  queueDir = DEFAULT_VEO_QUEUE_DIR
+): Promise<void> {
+  await fs.mkdir(queueDir, { recursive: true });
+  const queuePath = path.join(queueDir, VEO_QUEUE_FILENAME);
+  const tempPath = `${queuePath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(queue, null, 2), 'utf-8');
+  await fs.rename(tempPath, queuePath);
+}
+
+/**
+ * Add jobs to the persisted queue
+ * 같은 출력 / 프롬프트의 작업이 이미 있으면 새로 만들지 않고 재사용 (할당량 보호)
+ */
+export async function enqueueVeoJobs(
+  inputs: NewVeoJob[],
+  queueDir = DEFAULT_VEO_QUEUE_DIR
+): Promise<VeoJob[]> {
+  const queue = await loadVeoQueue(queueDir);
+  const created: VeoJob[] = [];
+  const jobs: VeoJob[] = [];
+
+  for (const input of inputs) {
+    const existing = findReusableVeoJob(queue, input);
+    // 다운로드된 파일이 지워졌으면 다시 생성
+    if (existing && (existing.status !== 'downloaded' || (await fileExists(existing.outputPath)))) {
+      console.log(`♻️ Reusing Veo job ${existing.id} (${existing.status})`);
+      jobs.push(existing);
+      continue;
+    }
+    const job = createVeoJob(input);
+    created.push(job);
+    jobs.push(job);
+  }
+
+  if (created.length > 0) {
+    await saveVeoQueue({ jobs: [...queue.jobs, ...created] }, queueDir);
+    console.log(`📥 Queued ${created.length} Veo job(s)`);
+  }
+  return jobs;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createVeoJob,
+  findReusableVeoJob,
+  getActiveVeoJobs,
+  recordVeoJobFailure,
+  selectJobsToSubmit,
+  summarizeVeoQueue,
+  toVeoJobStatus,
+  updateVeoJob,
+  veoJobQueueSchema,
+  type VeoJobQueue,
+} from './queue';
+
+const job = (id: string, minute: number) =>
+  createVeoJob(
+    { id, request: { prompt: `prompt ${id}` }, outputPath: `out/${id}.mp4` },
+    new Date(Date.UTC(2026, 0, 1, 0, minute))
+  );
+
+describe('Veo Job Queue', () => {
+  const queue: VeoJobQueue = { jobs: [job('b', 2), job('a', 1), job('c', 3)] };
+
+  it('should create queued jobs that pass the queue schema', () => {
+    expect(queue.jobs[0]).toMatchObject({ status: 'queued', attempts: 0 });
+    expect(veoJobQueueSchema.safeParse(queue).success).toBe(true);
+  });
+
+  it('should submit the oldest queued jobs within the in-flight limit', () => {
+    expect(selectJobsToSubmit(queue, 2).map((j) => j.id)).toEqual(['a', 'b']);
+
+    const running = updateVeoJob(queue, 'a', { status: 'running', operationId: 'op/1' });
+    expect(selectJobsToSubmit(running, 2).map((j) => j.id)).toEqual(['b']);
+    expect(selectJobsToSubmit(running, 2, ['c']).map((j) => j.id)).toEqual(['c']);
+  });
+
+  it('should keep the operation and key index when a job is updated', () => {
+    const updated = updateVeoJob(queue, 'a', {
+      status: 'running',
+      operationId: 'models/veo/operations/1',
+      keyIndex: 2,
+    });
+    expect(updated.jobs.find((j) => j.id === 'a')).toMatchObject({
+      operationId: 'models/veo/operations/1',
+      keyIndex: 2,
+    });
+    expect(() => updateVeoJob(queue, 'missing', { status: 'failed' })).toThrow('not found');
+  });
+
+  it('should treat downloaded and failed jobs as done', () => {
+    let next = updateVeoJob(queue, 'a', { status: 'downloaded' });
+    next = updateVeoJob(next, 'b', { status: 'failed' });
+
+    expect(getActiveVeoJobs(next).map((j) => j.id)).toEqual(['c']);
+    expect(summarizeVeoQueue(next)).toMatchObject({ queued: 1, downloaded: 1, failed: 1 });
+    expect(toVeoJobStatus('pending')).toBe('running');
+  });
+
+  it('should fail a job after repeated poll or download errors', () => {
+    let next = updateVeoJob(queue, 'a', { status: 'running', operationId: 'op/1' });
+    for (let i = 1; i < 3; i++) {
+      const recorded = recordVeoJobFailure(next, 'a', 'poll', 'fetch failed', { maxFailures: 3 });
+      expect(recorded).toMatchObject({ failures: i, failed: false });
+      next = recorded.queue;
+    }
+    expect(next.jobs.find((j) => j.id === 'a')).toMatchObject({
+      status: 'running',
+      pollFailures: 2,
+    });
+
+    const last = recordVeoJobFailure(next, 'a', 'poll', 'fetch failed', { maxFailures: 3 });
+    expect(last.failed).toBe(true);
+    expect(last.queue.jobs.find((j) => j.id === 'a')).toMatchObject({
+      status: 'failed',
+      error: 'fetch failed',
+    });
+  });
+
+  it('should fail a job right away on a permanent error', () => {
+    const completed = updateVeoJob(queue, 'b', { status: 'completed', videoUri: 'uri' });
+    const recorded = recordVeoJobFailure(completed, 'b', 'download', '404', {
+      maxFailures: 3,
+      permanent: true,
+    });
+
+    expect(recorded).toMatchObject({ failures: 1, failed: true });
+    expect(recorded.queue.jobs.find((j) => j.id === 'b')).toMatchObject({
+      status: 'failed',
+      downloadFailures: 1,
+      pollFailures: 0,
+    });
+  });
+
+  it('should reuse an unfailed job for the same output and prompt', () => {
+    const input = { request: { prompt: 'prompt a' }, outputPath: 'out/a.mp4' };
+    expect(findReusableVeoJob(queue, input)?.id).toBe('a');
+
+    const downloaded = updateVeoJob(queue, 'a', { status: 'downloaded' });
+    expect(findReusableVeoJob(downloaded, input)?.id).toBe('a');
+    expect(findReusableVeoJob(queue, { ...input, outputPath: 'out/other.mp4' })).toBeUndefined();
+    expect(findReusableVeoJob(queue, { ...input, request: { prompt: 'new' } })).toBeUndefined();
+
+    const failed = updateVeoJob(queue, 'a', { status: 'failed' });
+    expect(findReusableVeoJob(failed, input)).toBeUndefined();
+  });
+});
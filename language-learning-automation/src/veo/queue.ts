@@ -0,0 +1,181 @@
+/**
+ * Veo job queue state
+ * 제출한 작업의 operation ID / API 키 인덱스 / 요청을 기록해서
+ * 프로세스가 죽어도 다음 실행에서 이어서 폴링·다운로드
+ */
+
+import { z } from 'zod';
+import { veoRequestSchema, type VeoOperationStatus } from './types';
+
+export const VEO_QUEUE_FILENAME = 'veo-jobs.json';
+
+// queued: 미제출 → running: 제출됨 → completed: 생성 완료 → downloaded: 파일 저장 완료
+export const veoJobStatusSchema = z.enum([
+  'queued',
+  'running',
+  'completed',
+  'downloaded',
+  'failed',
+]);
+export type VeoJobStatus = z.infer<typeof veoJobStatusSchema>;
+
+export const veoJobSchema = z.object({
+  id: z.string().min(1),
+  channelId: z.string().optional(),
+  request: veoRequestSchema,
+  /** 완료된 영상을 저장할 경로 */
+  outputPath: z.string().min(1),
+  status: veoJobStatusSchema,
+  operationId: z.string().optional(),
+  /** 제출에 사용한 API 키 인덱스 (폴링/다운로드도 같은 키) */
+  keyIndex: z.number().int().nonnegative().optional(),
+  videoUri: z.string().optional(),
+  /** 제출 시도 횟수 */
+  attempts: z.number().int().nonnegative().default(0),
+  /** 연속 폴링 / 다운로드 실패 횟수 (한도를 넘으면 failed) */
+  pollFailures: z.number().int().nonnegative().default(0),
+  downloadFailures: z.number().int().nonnegative().default(0),
+  error: z.string().optional(),
+  createdAt: z.string().min(1),
+  updatedAt: z.string().min(1),
+  submittedAt: z.string().optional(),
+});
+
+export type VeoJob = z.infer<typeof veoJobSchema>;
+
+export const veoJobQueueSchema = z.object({
+  jobs: z.array(veoJobSchema).default([]),
+});
+
+export type VeoJobQueue = z.infer<typeof veoJobQueueSchema>;
+
+export type NewVeoJob = Pick<VeoJob, 'request' | 'outputPath'> &
+  Partial<Pick<VeoJob, 'id' | 'channelId'>>;
+
+/**
+ * Create a queued job (not submitted yet)
+ */
+export function createVeoJob(input: NewVeoJob, now = new Date()): VeoJob {
+  const timestamp = now.toISOString();
+  return {
+    id: input.id ?? `veo_${now.getTime().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+    ...(input.channelId ? { channelId: input.channelId } : {}),
+    request: input.request,
+    outputPath: input.outputPath,
+    status: 'queued',
+    attempts: 0,
+    pollFailures: 0,
+    downloadFailures: 0,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+}
+
+/**
+ * Existing job that already produces this output from the same prompt
+ * (failed 작업은 제외 - 다시 큐에 넣어야 함)
+ */
+export function findReusableVeoJob(queue: VeoJobQueue, input: NewVeoJob): VeoJob | undefined {
+  return queue.jobs.find(
+    (job) =>
+      job.status !== 'failed' &&
+      job.outputPath === input.outputPath &&
+      job.request.prompt === input.request.prompt
+  );
+}
+
+/**
+ * Return a new queue with one job patched
+ */
+export function updateVeoJob(
+  queue: VeoJobQueue,
+  id: string,
+  patch: Partial<Omit<VeoJob, 'id' | 'createdAt'>>,
+  now = new Date()
+): VeoJobQueue {
+  if (!queue.jobs.some((job) => job.id === id)) {
+    throw new Error(`Veo job not found: ${id}`);
+  }
+  return {
+    jobs: queue.jobs.map((job) =>
+      job.id === id ? { ...job, ...patch, updatedAt: now.toISOString() } : job
+    ),
+  };
+}
+
+/**
+ * Record a failed poll or download
+ * 연속 실패가 maxFailures 에 닿거나 복구할 수 없는 오류(permanent)면 failed
+ */
+export function recordVeoJobFailure(
+  queue: VeoJobQueue,
+  id: string,
+  stage: 'poll' | 'download',
+  error: string,
+  options: { maxFailures: number; permanent?: boolean }
+): { queue: VeoJobQueue; failures: number; failed: boolean } {
+  const job = queue.jobs.find((j) => j.id === id);
+  if (!job) {
+    throw new Error(`Veo job not found: ${id}`);
+  }
+  const field = stage === 'poll' ? 'pollFailures' : 'downloadFailures';
+  const failures = job[field] + 1;
+  const failed = options.permanent === true || failures >= options.maxFailures;
+  return {
+    queue: updateVeoJob(queue, id, {
+      [field]: failures,
+      error,
+      ...(failed ? { status: 'failed' as const } : {}),
+    }),
+    failures,
+    failed,
+  };
+}
+
+/**
+ * Map an operation status onto the job status
+ */
+export function toVeoJobStatus(status: VeoOperationStatus): VeoJobStatus {
+  return status === 'pending' ? 'running' : status;
+}
+
+/**
+ * Queued jobs that fit into the remaining in-flight slots (oldest first)
+ */
+export function selectJobsToSubmit(
+  queue: VeoJobQueue,
+  maxInFlight: number,
+  jobIds?: string[]
+): VeoJob[] {
+  const inFlight = queue.jobs.filter((job) => job.status === 'running').length;
+  const slots = Math.max(0, maxInFlight - inFlight);
+  return queue.jobs
+    .filter((job) => job.status === 'queued' && (!jobIds || jobIds.includes(job.id)))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .slice(0, slots);
+}
+
+/**
+ * Jobs the worker still has to act on (submit, poll or download)
+ */
+export function getActiveVeoJobs(queue: VeoJobQueue, jobIds?: string[]): VeoJob[] {
+  return queue.jobs.filter(
+    (job) =>
+      (!jobIds || jobIds.includes(job.id)) &&
+      (job.status === 'queued' || job.status === 'running' || job.status === 'completed')
+  );
+}
+
+/**
+ * Job count per status (for worker logs)
+ */
+export function summarizeVeoQueue(queue: VeoJobQueue): Record<VeoJobStatus, number> {
+  const summary = Object.fromEntries(veoJobStatusSchema.options.map((s) => [s, 0])) as Record<
+    VeoJobStatus,
+    number
+  >;
+  for (const job of queue.jobs) {
+    summary[job.status]++;
+  }
+  return summary;
+}
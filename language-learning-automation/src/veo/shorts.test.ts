@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { interviewChannelConfigSchema } from '../config/types';
+import {
+  alignDialogueTimings,
+  buildDialogueTimings,
+  buildInterviewShortProps,
+  buildInterviewUploadInfo,
+  extractQuestionPhrase,
+  getInterviewVideoDuration,
+} from './shorts';
+
+const config = interviewChannelConfigSchema.parse({
+  channelId: 'puppy_interview',
+  channelName: '강아지 인터뷰',
+  contentType: 'interview',
+  character: {
+    id: 'baekgu',
+    name: '백구',
+    nameEnglish: 'Baekgu',
+    type: 'animal',
+    style: 'white Samoyed puppy',
+    voiceStyle: 'cheerful voice',
+    personality: 'playful',
+    age: '3 months',
+  },
+  veoConfig: { durationSeconds: 8 },
+});
+
+const content = {
+  date: '2026-01-12',
+  theme: 'Snowy Day',
+  outfit: null,
+  dialogues: [
+    { question: '"눈이 와요"는?', answer: "It's snowing!", gesture: 'looks up' },
+    { question: '"추워요"는?', answer: "It's cold!" },
+  ],
+};
+
+describe('Interview Shorts', () => {
+  it('should strip quotes and the question suffix', () => {
+    expect(extractQuestionPhrase('"눈이 와요"는?')).toBe('눈이 와요');
+    expect(extractQuestionPhrase('“손이 시려워요”은?')).toBe('손이 시려워요');
+  });
+
+  it('should split the clip evenly with the question before the answer', () => {
+    const dialogues = buildDialogueTimings(content.dialogues, 8);
+
+    expect(dialogues.map((d) => d.timing)).toEqual([
+      { start: 0, answerStart: 1.6, end: 4 },
+      { start: 4, answerStart: 5.6, end: 8 },
+    ]);
+    expect(dialogues[0]).toMatchObject({ translation: '눈이 와요', gesture: 'looks up' });
+  });
+
+  it('should follow detected speech for question and answer timings', () => {
+    const speech = [
+      { start: 0.3, end: 1.2 },
+      { start: 1.8, end: 2.6 },
+      { start: 2.7, end: 3.1 }, // 답변 중 짧은 쉼
+      { start: 4.5, end: 5.4 },
+      { start: 6.1, end: 7.2 },
+    ];
+    const dialogues = alignDialogueTimings(content.dialogues, speech, 8);
+
+    expect(dialogues.map((d) => d.timing)).toEqual([
+      { start: 0.3, answerStart: 1.8, end: 4.5 },
+      { start: 4.5, answerStart: 6.1, end: 8 },
+    ]);
+    expect(alignDialogueTimings(content.dialogues, speech.slice(0, 3), 8)).toEqual(
+      buildDialogueTimings(content.dialogues, 8)
+    );
+  });
+
+  it('should time dialogues over the stitched clips in per-dialogue mode', () => {
+    const perDialogue = {
+      ...config,
+      veoConfig: { ...config.veoConfig, clipMode: 'per_dialogue' as const, crossfadeSeconds: 0.5 },
+    };
+
+    expect(getInterviewVideoDuration(perDialogue, 3)).toBe(23);
+    expect(getInterviewVideoDuration(config, 3)).toBe(8);
+    const props = buildInterviewShortProps(perDialogue, content, 'clip.mp4');
+    expect(props.dialogues.at(-1)?.timing?.end).toBe(15.5);
+  });
+
+  it('should time dialogues over the measured clip length', () => {
+    const props = buildInterviewShortProps(config, content, 'clip.mp4', { duration: 6 });
+
+    expect(props.dialogues.map((d) => d.timing)).toEqual(
+      buildDialogueTimings(content.dialogues, 6).map((d) => d.timing)
+    );
+    expect(props.dialogues.at(-1)?.timing?.end).toBe(6);
+  });
+
+  it('should map content to full-frame composition props', () => {
+    const props = buildInterviewShortProps(config, content, '2026-01-12/clip_9x16.mp4');
+
+    expect(props).toMatchObject({
+      videoPath: '2026-01-12/clip_9x16.mp4',
+      channelName: '강아지 인터뷰',
+      channelIcon: '🐶',
+      fullFrameVideo: true,
+    });
+    expect(props.outfit).toBeUndefined();
+  });
+
+  it('should build upload metadata from the dialogues', () => {
+    const info = buildInterviewUploadInfo(config, content);
+
+    expect(info.title).toBe('"눈이 와요" → It\'s snowing! | 강아지 인터뷰 #shorts');
+    expect(info.description).toContain("🐶 추워요 → It's cold!");
+    expect(info.description).toContain('#shorts #Baekgu #SnowyDay');
+    expect(info.tags).toContain("It's snowing");
+  });
+});
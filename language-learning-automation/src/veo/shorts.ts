@@ -0,0 +1,174 @@
+/**
+ * 인터뷰 쇼츠 props / 업로드 메타데이터
+ * DailyContent 대화를 CatInterviewShort 컴포지션 입력으로 변환
+ */
+
+import type { VeoChannelConfig } from '../config/types';
+import type {
+  CatInterviewDialogue,
+  CatInterviewShortProps,
+} from '../compositions/CatInterviewShort';
+import type { DailyContent } from './content-generator';
+import { getStitchedDuration } from '../video/concat';
+import { mergeSpeechSegments, type SpeechSegment } from '../video/speech';
+import { getCharacterIcon } from './character';
+
+export const INTERVIEW_SHORT_COMPOSITION_ID = 'CatInterviewShort';
+
+// 대화 구간 중 질문(리포터) 비율 - 나머지는 캐릭터 답변
+const QUESTION_SHARE = 0.4;
+
+export interface InterviewUploadInfo {
+  channelId: string;
+  date: string;
+  theme: string;
+  title: string;
+  description: string;
+  tags: string[];
+}
+
+/**
+ * Korean phrase from a reporter question ("눈이 와요"는? → 눈이 와요)
+ */
+export function extractQuestionPhrase(question: string): string {
+  return question
+    .trim()
+    .replace(/^["“]/, '')
+    .replace(/["”]\s*(는|은)\?$/, '')
+    .trim();
+}
+
+/**
+ * Split the Veo clip evenly across dialogues (question first, then answer)
+ */
+export function buildDialogueTimings(
+  dialogues: DailyContent['dialogues'],
+  clipDurationSeconds: number
+): CatInterviewDialogue[] {
+  const slot = clipDurationSeconds / Math.max(dialogues.length, 1);
+
+  return dialogues.map((d, i) => {
+    const start = i * slot;
+    return {
+      question: d.question,
+      answer: d.answer,
+      ...(d.gesture ? { gesture: d.gesture } : {}),
+      translation: extractQuestionPhrase(d.question),
+      timing: {
+        start: round(start),
+        answerStart: round(start + slot * QUESTION_SHARE),
+        end: round(start + slot),
+      },
+    };
+  });
+}
+
+/**
+ * Time dialogues from the speech detected in the clip
+ * 말하는 구간을 질문/답변 순서로 짝지음 - 구간이 부족하면 균등 분할
+ */
+export function alignDialogueTimings(
+  dialogues: DailyContent['dialogues'],
+  speech: SpeechSegment[],
+  clipDurationSeconds: number
+): CatInterviewDialogue[] {
+  const evenly = buildDialogueTimings(dialogues, clipDurationSeconds);
+  const needed = dialogues.length * 2;
+  if (needed === 0 || speech.length < needed) return evenly;
+
+  const segments = mergeSpeechSegments(speech, needed);
+  return evenly.map((dialogue, i) => ({
+    ...dialogue,
+    timing: {
+      start: round(segments[2 * i].start),
+      answerStart: round(segments[2 * i + 1].start),
+      end: round(i === dialogues.length - 1 ? clipDurationSeconds : segments[2 * i + 2].start),
+    },
+  }));
+}
+
+/**
+ * Length of the interview video (stitched clips when generated per dialogue)
+ */
+export function getInterviewVideoDuration(config: VeoChannelConfig, dialogueCount: number): number {
+  const { clipMode, durationSeconds, crossfadeSeconds } = config.veoConfig;
+  if (clipMode !== 'per_dialogue' || dialogueCount < 2) return durationSeconds;
+  return getStitchedDuration(Array(dialogueCount).fill(durationSeconds), crossfadeSeconds);
+}
+
+// Measured from the cropped clip before rendering
+export interface InterviewClipInfo {
+  /** 실제 클립 길이 (없으면 설정값으로 추정) */
+  duration?: number;
+  /** 감지한 음성 구간 (없으면 균등 분할) */
+  speech?: SpeechSegment[];
+}
+
+/**
+ * CatInterviewShort props for a day's content
+ * @param videoPath - 크롭된 클립의 staticFile 경로 (publicDir 기준)
+ * @param clip - 클립에서 측정한 길이 / 음성 구간
+ */
+export function buildInterviewShortProps(
+  config: VeoChannelConfig,
+  content: Pick<DailyContent, 'dialogues' | 'theme' | 'outfit'>,
+  videoPath: string,
+  clip: InterviewClipInfo = {}
+): CatInterviewShortProps {
+  const { speech } = clip;
+  const duration = clip.duration ?? getInterviewVideoDuration(config, content.dialogues.length);
+  return {
+    dialogues: speech
+      ? alignDialogueTimings(content.dialogues, speech, duration)
+      : buildDialogueTimings(content.dialogues, duration),
+    videoPath,
+    theme: content.theme,
+    ...(content.outfit ? { outfit: content.outfit } : {}),
+    channelName: config.channelName,
+    channelIcon: getCharacterIcon(config.character),
+    fullFrameVideo: true,
+  };
+}
+
+/**
+ * Title, description and tags for uploading the Short
+ */
+export function buildInterviewUploadInfo(
+  config: VeoChannelConfig,
+  content: Pick<DailyContent, 'date' | 'dialogues' | 'theme'>
+): InterviewUploadInfo {
+  const [first] = content.dialogues;
+  const title = first
+    ? `"${extractQuestionPhrase(first.question)}" → ${first.answer} | ${config.channelName} #shorts`
+    : `${config.channelName} #shorts`;
+
+  const lines = content.dialogues.map(
+    (d) =>
+      `${getCharacterIcon(config.character)} ${extractQuestionPhrase(d.question)} → ${d.answer}`
+  );
+  const hashtags = ['shorts', config.character.nameEnglish, content.theme]
+    .map((tag) => `#${tag.replace(/\s/g, '')}`)
+    .join(' ');
+
+  const tags = [
+    config.channelName,
+    config.character.name,
+    config.character.nameEnglish,
+    content.theme,
+    ...content.dialogues.map((d) => d.answer.replace(/[!?.]+$/, '')),
+    'shorts',
+  ];
+
+  return {
+    channelId: config.channelId,
+    date: content.date,
+    theme: content.theme,
+    title,
+    description: `${lines.join('\n')}\n\n${hashtags}`,
+    tags: [...new Set(tags)],
+  };
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 100) / 100;
+}
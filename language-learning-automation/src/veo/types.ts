@@ -30,6 +30,8 @@ export const veoRequestSchema = z.object({
   prompt: z.string().min(1),
   referenceImages: z.array(referenceImageSchema).max(3).optional(),
   negativePrompt: z.string().optional(),
+  /** 첫 프레임 이미지 (이전 클립의 마지막 프레임 - 클립 간 연속성 유지) */
+  firstFrameImagePath: z.string().optional(),
   config: veoConfigSchema.optional(),
 });
 
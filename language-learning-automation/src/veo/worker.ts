@@ -0,0 +1,224 @@
+/**
+ * Veo job queue worker
+ * 대기 중인 작업을 할당량(동시 실행 수) 안에서 제출하고,
+ * 제출된 작업을 폴링해서 완료된 영상을 다운로드 - 재시작해도 큐 파일에서 이어서 진행
+ */
+
+import { ApiKeysExhaustedError } from '../config/api-keys';
+import { DEFAULT_VEO_QUEUE_DIR, loadVeoQueue, saveVeoQueue } from './job-store';
+import { VeoGenerator } from './generator';
+import {
+  getActiveVeoJobs,
+  recordVeoJobFailure,
+  selectJobsToSubmit,
+  summarizeVeoQueue,
+  toVeoJobStatus,
+  updateVeoJob,
+  type VeoJob,
+  type VeoJobQueue,
+} from './queue';
+
+// Veo 기본 동시 생성 한도 (키당 요청 제한에 맞춤)
+const DEFAULT_MAX_IN_FLIGHT = 2;
+const DEFAULT_POLL_INTERVAL_MS = 10000; // 10초
+const MAX_SUBMIT_ATTEMPTS = 3;
+// 일시적인 네트워크 오류를 버티는 연속 실패 한도 (4xx 는 바로 failed)
+const MAX_POLL_FAILURES = 5;
+const MAX_DOWNLOAD_FAILURES = 3;
+
+export interface VeoWorkerOptions {
+  queueDir?: string;
+  /** Only process these jobs (default: every job in the queue) */
+  jobIds?: string[];
+  maxInFlight?: number;
+  pollIntervalMs?: number;
+  /** Give up waiting after this long (jobs stay in the queue) */
+  timeoutMs?: number;
+  /** Run a single submit/poll/download pass */
+  once?: boolean;
+  generator?: VeoGenerator;
+}
+
+/**
+ * Process the queue until the selected jobs are downloaded or failed
+ * @returns Selected jobs in their latest state
+ */
+export async function runVeoWorker(options: VeoWorkerOptions = {}): Promise<VeoJob[]> {
+  const {
+    queueDir = DEFAULT_VEO_QUEUE_DIR,
+    jobIds,
+    maxInFlight = DEFAULT_MAX_IN_FLIGHT,
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+    timeoutMs,
+    once = false,
+  } = options;
+  const generator = options.generator ?? new VeoGenerator();
+  const startTime = Date.now();
+
+  for (;;) {
+    const submitted = await submitQueuedJobs(
+      await loadVeoQueue(queueDir),
+      generator,
+      maxInFlight,
+      jobIds,
+      queueDir
+    );
+    let queue = submitted.queue;
+    queue = await pollRunningJobs(queue, generator, jobIds, queueDir);
+    queue = await downloadCompletedJobs(queue, generator, jobIds, queueDir);
+
+    const summary = summarizeVeoQueue(queue);
+    console.log(
+      `   📋 Veo queue: ${summary.queued} queued, ${summary.running} running, ${summary.downloaded} downloaded, ${summary.failed} failed`
+    );
+
+    const selected = queue.jobs.filter((job) => !jobIds || jobIds.includes(job.id));
+    if (getActiveVeoJobs(queue, jobIds).length === 0 || once) {
+      return selected;
+    }
+    // 키가 모두 소진됐고 기다릴 실행 중 작업도 없으면 다음 실행으로 미룸
+    if (submitted.keysExhausted && !selected.some((job) => job.status === 'running')) {
+      console.warn('⚠️ No Veo API key available and nothing running (jobs stay queued)');
+      return selected;
+    }
+    if (timeoutMs !== undefined && Date.now() - startTime >= timeoutMs) {
+      console.warn(`⏱️ Veo worker timed out after ${timeoutMs / 1000}s (jobs stay queued)`);
+      return selected;
+    }
+
+    await sleep(pollIntervalMs);
+  }
+}
+
+async function submitQueuedJobs(
+  queue: VeoJobQueue,
+  generator: VeoGenerator,
+  maxInFlight: number,
+  jobIds: string[] | undefined,
+  queueDir: string
+): Promise<{ queue: VeoJobQueue; keysExhausted: boolean }> {
+  for (const job of selectJobsToSubmit(queue, maxInFlight, jobIds)) {
+    try {
+      const { operationId, keyIndex } = await generator.submitVideo(job.request);
+      queue = updateVeoJob(queue, job.id, {
+        status: 'running',
+        operationId,
+        keyIndex,
+        attempts: job.attempts + 1,
+        submittedAt: new Date().toISOString(),
+        error: undefined,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      // 모든 키가 소진되면 남은 작업은 다음 실행으로 미룸
+      if (error instanceof ApiKeysExhaustedError) {
+        console.warn(`⚠️ ${message}. Remaining jobs stay queued.`);
+        return { queue, keysExhausted: true };
+      }
+
+      const attempts = job.attempts + 1;
+      console.warn(
+        `⚠️ Failed to submit ${job.id} (${attempts}/${MAX_SUBMIT_ATTEMPTS}): ${message}`
+      );
+      queue = updateVeoJob(queue, job.id, {
+        status: attempts >= MAX_SUBMIT_ATTEMPTS ? 'failed' : 'queued',
+        attempts,
+        error: message,
+      });
+    }
+    await saveVeoQueue(queue, queueDir);
+  }
+  return { queue, keysExhausted: false };
+}
+
+async function pollRunningJobs(
+  queue: VeoJobQueue,
+  generator: VeoGenerator,
+  jobIds: string[] | undefined,
+  queueDir: string
+): Promise<VeoJobQueue> {
+  const running = queue.jobs.filter(
+    (job) => job.status === 'running' && job.operationId && (!jobIds || jobIds.includes(job.id))
+  );
+
+  for (const job of running) {
+    try {
+      const { status, result, error } = await generator.getOperationResult(
+        job.operationId!,
+        job.keyIndex
+      );
+      const next = toVeoJobStatus(status);
+      if (next === job.status && job.pollFailures === 0) continue;
+
+      queue = updateVeoJob(queue, job.id, {
+        status: next,
+        pollFailures: 0,
+        ...(result ? { videoUri: result.videoPath } : {}),
+        ...(error ? { error } : {}),
+      });
+      if (next !== job.status) {
+        console.log(`   ${next === 'failed' ? '❌' : '✅'} ${job.id}: ${next}`);
+      }
+      await saveVeoQueue(queue, queueDir);
+    } catch (error) {
+      // 네트워크 오류는 다음 폴링에서 재시도, 만료된 operation(4xx)은 복구 불가
+      const recorded = recordVeoJobFailure(queue, job.id, 'poll', String(error), {
+        maxFailures: MAX_POLL_FAILURES,
+        permanent: isPermanentHttpError(error),
+      });
+      queue = recorded.queue;
+      console.warn(
+        `   ${recorded.failed ? '❌' : '⚠️'} Could not poll ${job.id} (${recorded.failures}/${MAX_POLL_FAILURES}): ${error}`
+      );
+      await saveVeoQueue(queue, queueDir);
+    }
+  }
+  return queue;
+}
+
+async function downloadCompletedJobs(
+  queue: VeoJobQueue,
+  generator: VeoGenerator,
+  jobIds: string[] | undefined,
+  queueDir: string
+): Promise<VeoJobQueue> {
+  const completed = queue.jobs.filter(
+    (job) => job.status === 'completed' && job.videoUri && (!jobIds || jobIds.includes(job.id))
+  );
+
+  for (const job of completed) {
+    try {
+      await generator.downloadVideo(job.videoUri!, job.outputPath, job.keyIndex);
+      queue = updateVeoJob(queue, job.id, { status: 'downloaded', downloadFailures: 0 });
+      await saveVeoQueue(queue, queueDir);
+    } catch (error) {
+      // 영상 URI 가 만료되면(4xx) 다시 받아도 실패
+      const recorded = recordVeoJobFailure(queue, job.id, 'download', String(error), {
+        maxFailures: MAX_DOWNLOAD_FAILURES,
+        permanent: isPermanentHttpError(error),
+      });
+      queue = recorded.queue;
+      console.warn(
+        `   ${recorded.failed ? '❌' : '⚠️'} Could not download ${job.id} (${recorded.failures}/${MAX_DOWNLOAD_FAILURES}): ${error}`
+      );
+      await saveVeoQueue(queue, queueDir);
+    }
+  }
+  return queue;
+}
+
+/**
+ * 4xx responses (except timeouts / rate limits) will not succeed on retry
+ * @google/genai ApiError 와 VeoDownloadError 모두 HTTP status 를 가짐
+ */
+function isPermanentHttpError(error: unknown): boolean {
+  const status = (error as { status?: unknown } | null)?.status;
+  return (
+    typeof status === 'number' && status >= 400 && status < 500 && ![408, 429].includes(status)
+  );
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
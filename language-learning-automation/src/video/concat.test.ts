@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { buildCrossfadeFilter, getCrossfadeOffsets, getStitchedDuration } from './concat';
+
+describe('Clip Concatenation', () => {
+  it('should start each crossfade before the end of the stitched clips', () => {
+    expect(getCrossfadeOffsets([8, 8, 8], 0.5)).toEqual([7.5, 15]);
+    expect(getStitchedDuration([8, 8, 8], 0.5)).toBe(23);
+    expect(getStitchedDuration([8], 0.5)).toBe(8);
+  });
+
+  it('should chain xfade and acrossfade into [vout] and [aout]', () => {
+    const filter = buildCrossfadeFilter([8, 8, 8], 0.5);
+
+    expect(filter).toContain('[v0][v1]xfade=transition=fade:duration=0.5:offset=7.5[vx1]');
+    expect(filter).toContain('[vx1][v2]xfade=transition=fade:duration=0.5:offset=15[vout]');
+    expect(filter).toContain('[ax1][2:a]acrossfade=d=0.5[aout]');
+  });
+
+  it('should reject a single clip or clips shorter than the crossfade', () => {
+    expect(() => buildCrossfadeFilter([8], 0.5)).toThrow();
+    expect(() => buildCrossfadeFilter([8, 0.4], 0.5)).toThrow();
+  });
+});
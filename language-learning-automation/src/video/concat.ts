@@ -0,0 +1,131 @@
+/**
+ * 비디오 이어붙이기 유틸리티
+ * 여러 Veo 클립을 크로스페이드(xfade/acrossfade)로 연결하고,
+ * 다음 클립의 첫 프레임으로 쓸 마지막 프레임을 추출
+ */
+
+import { execSync } from 'child_process';
+
+// 정규화 프레임레이트 (xfade는 입력 타임베이스/프레임레이트가 같아야 함)
+const CONCAT_FPS = 30;
+
+/**
+ * Offsets (seconds) where each crossfade starts in the stitched timeline
+ */
+export function getCrossfadeOffsets(durations: number[], crossfade: number): number[] {
+  const offsets: number[] = [];
+  let elapsed = 0;
+  for (let i = 0; i < durations.length - 1; i++) {
+    elapsed += durations[i];
+    offsets.push(round(elapsed - crossfade * (i + 1)));
+  }
+  return offsets;
+}
+
+/**
+ * Length of the stitched video
+ */
+export function getStitchedDuration(durations: number[], crossfade: number): number {
+  const total = durations.reduce((sum, d) => sum + d, 0);
+  return round(total - crossfade * Math.max(0, durations.length - 1));
+}
+
+/**
+ * FFmpeg filter_complex chaining xfade (video) and acrossfade (audio)
+ * Output labels: [vout], [aout]
+ */
+export function buildCrossfadeFilter(durations: number[], crossfade: number): string {
+  if (durations.length < 2) {
+    throw new Error('Crossfade needs at least two clips');
+  }
+  if (durations.some((d) => d <= crossfade)) {
+    throw new Error(`Every clip must be longer than the ${crossfade}s crossfade`);
+  }
+
+  const offsets = getCrossfadeOffsets(durations, crossfade);
+  const filters = durations.map(
+    (_, i) => `[${i}:v]format=yuv420p,fps=${CONCAT_FPS},settb=AVTB[v${i}]`
+  );
+
+  let video = 'v0';
+  let audio = '0:a';
+  for (let i = 1; i < durations.length; i++) {
+    const last = i === durations.length - 1;
+    const nextVideo = last ? 'vout' : `vx${i}`;
+    const nextAudio = last ? 'aout' : `ax${i}`;
+    filters.push(
+      `[${video}][v${i}]xfade=transition=fade:duration=${crossfade}:offset=${offsets[i - 1]}[${nextVideo}]`
+    );
+    filters.push(`[${audio}][${i}:a]acrossfade=d=${crossfade}[${nextAudio}]`);
+    video = nextVideo;
+    audio = nextAudio;
+  }
+
+  return filters.join(';');
+}
+
+/**
+ * Video duration in seconds (ffprobe)
+ */
+export function getVideoDuration(videoPath: string): number {
+  const result = execSync(
+    `ffprobe -v error -show_entries format=duration -of default=noprint_wrappers=1:nokey=1 "${videoPath}"`,
+    { encoding: 'utf-8' }
+  );
+  return parseFloat(result.trim());
+}
+
+/**
+ * Concatenate clips with crossfades
+ * @returns 출력 파일 경로
+ */
+export function concatWithCrossfade(
+  inputPaths: string[],
+  outputPath: string,
+  crossfade = 0.5
+): string {
+  if (inputPaths.length === 0) {
+    throw new Error('No clips to concatenate');
+  }
+
+  console.log(`🎞️  Stitching ${inputPaths.length} clip(s) with ${crossfade}s crossfade...`);
+
+  const cmd =
+    inputPaths.length === 1
+      ? `ffmpeg -y -i "${inputPaths[0]}" -c copy "${outputPath}"`
+      : [
+          'ffmpeg -y',
+          ...inputPaths.map((p) => `-i "${p}"`),
+          `-filter_complex "${buildCrossfadeFilter(inputPaths.map(getVideoDuration), crossfade)}"`,
+          '-map "[vout]" -map "[aout]" -c:v libx264 -c:a aac',
+          `"${outputPath}"`,
+        ].join(' ');
+
+  try {
+    execSync(cmd, { stdio: 'pipe' });
+    console.log(`✅ Stitched: ${outputPath}`);
+    return outputPath;
+  } catch (error) {
+    const err = error as Error;
+    throw new Error(`FFmpeg concat failed: ${err.message}`);
+  }
+}
+
+/**
+ * Save the last frame of a video as an image (next clip's first frame)
+ */
+export function extractLastFrame(videoPath: string, outputPath: string): string {
+  try {
+    execSync(`ffmpeg -y -sseof -0.1 -i "${videoPath}" -frames:v 1 -update 1 "${outputPath}"`, {
+      stdio: 'pipe',
+    });
+    return outputPath;
+  } catch (error) {
+    const err = error as Error;
+    throw new Error(`FFmpeg last-frame extraction failed: ${err.message}`);
+  }
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
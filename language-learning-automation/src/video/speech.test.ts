@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { mergeSpeechSegments, parseSilenceDetect, toSpeechSegments } from './speech';
+
+const OUTPUT = `
+[silencedetect @ 0x1] silence_start: -0.002
+[silencedetect @ 0x1] silence_end: 0.41 | silence_duration: 0.412
+[silencedetect @ 0x1] silence_start: 1.5
+[silencedetect @ 0x1] silence_end: 2.1 | silence_duration: 0.6
+[silencedetect @ 0x1] silence_start: 7.4
+`;
+
+describe('Speech Detection', () => {
+  it('should parse silences and close one still open at the end', () => {
+    expect(parseSilenceDetect(OUTPUT, 8)).toEqual([
+      { start: 0, end: 0.41 },
+      { start: 1.5, end: 2.1 },
+      { start: 7.4, end: 8 },
+    ]);
+  });
+
+  it('should turn silences into speech segments and drop blips', () => {
+    const silences = [
+      ...parseSilenceDetect(OUTPUT, 8),
+      { start: 4, end: 4.9 },
+      { start: 5, end: 6 },
+    ];
+
+    expect(toSpeechSegments(silences, 8)).toEqual([
+      { start: 0.41, end: 1.5 },
+      { start: 2.1, end: 4 },
+      { start: 6, end: 7.4 },
+    ]);
+  });
+
+  it('should merge across the shortest pauses', () => {
+    const segments = [
+      { start: 0, end: 1 },
+      { start: 1.1, end: 2 },
+      { start: 3, end: 4 },
+    ];
+
+    expect(mergeSpeechSegments(segments, 2)).toEqual([
+      { start: 0, end: 2 },
+      { start: 3, end: 4 },
+    ]);
+    expect(mergeSpeechSegments(segments, 5)).toEqual(segments);
+  });
+});
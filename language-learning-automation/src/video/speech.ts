@@ -0,0 +1,107 @@
+/**
+ * 음성 구간 감지 유틸리티
+ * FFmpeg silencedetect 로 무음 구간을 찾고, 그 사이를 말하는 구간으로 사용
+ */
+
+import { execSync } from 'child_process';
+import { getVideoDuration } from './concat';
+
+// 이보다 조용하면 무음 (Veo 클립의 배경음은 보통 이보다 작음)
+const SILENCE_NOISE_DB = -30;
+// 이보다 짧은 무음은 말 사이의 숨 고르기로 보고 무시
+const MIN_SILENCE_SECONDS = 0.3;
+// 이보다 짧은 소리는 잡음
+const MIN_SPEECH_SECONDS = 0.2;
+
+export interface SpeechSegment {
+  start: number;
+  end: number;
+}
+
+/**
+ * Silence intervals from FFmpeg silencedetect output (stderr)
+ * 끝나지 않은 무음은 영상 끝까지로 처리
+ */
+export function parseSilenceDetect(output: string, duration: number): SpeechSegment[] {
+  const silences: SpeechSegment[] = [];
+  let start: number | null = null;
+
+  for (const line of output.split('\n')) {
+    const startMatch = line.match(/silence_start:\s*(-?[\d.]+)/);
+    if (startMatch) {
+      start = Math.max(0, parseFloat(startMatch[1]));
+      continue;
+    }
+    const endMatch = line.match(/silence_end:\s*([\d.]+)/);
+    if (endMatch) {
+      silences.push({ start: start ?? 0, end: parseFloat(endMatch[1]) });
+      start = null;
+    }
+  }
+  if (start !== null) {
+    silences.push({ start, end: duration });
+  }
+  return silences;
+}
+
+/**
+ * Speech intervals between the silences (very short blips are dropped)
+ */
+export function toSpeechSegments(
+  silences: SpeechSegment[],
+  duration: number,
+  minSpeechSeconds = MIN_SPEECH_SECONDS
+): SpeechSegment[] {
+  const segments: SpeechSegment[] = [];
+  let cursor = 0;
+  for (const silence of [...silences].sort((a, b) => a.start - b.start)) {
+    segments.push({ start: cursor, end: silence.start });
+    cursor = Math.max(cursor, silence.end);
+  }
+  segments.push({ start: cursor, end: duration });
+
+  return segments
+    .filter((s) => s.end - s.start >= minSpeechSeconds)
+    .map((s) => ({ start: round(s.start), end: round(s.end) }));
+}
+
+/**
+ * Merge the segments separated by the shortest pauses until `count` remain
+ */
+export function mergeSpeechSegments(segments: SpeechSegment[], count: number): SpeechSegment[] {
+  const merged = [...segments];
+  while (merged.length > Math.max(count, 1)) {
+    let shortest = 0;
+    for (let i = 1; i < merged.length - 1; i++) {
+      const gap = merged[i + 1].start - merged[i].end;
+      if (gap < merged[shortest + 1].start - merged[shortest].end) shortest = i;
+    }
+    merged.splice(shortest, 2, { start: merged[shortest].start, end: merged[shortest + 1].end });
+  }
+  return merged;
+}
+
+/**
+ * Speech intervals of a video's audio track
+ * @param duration - 이미 측정한 영상 길이 (없으면 ffprobe 로 측정)
+ */
+export function detectSpeechSegments(
+  videoPath: string,
+  duration: number = getVideoDuration(videoPath)
+): SpeechSegment[] {
+  try {
+    // silencedetect 결과는 stderr 로 출력됨
+    const output = execSync(
+      `ffmpeg -hide_banner -i "${videoPath}" -af silencedetect=noise=${SILENCE_NOISE_DB}dB:d=${MIN_SILENCE_SECONDS} -f null - 2>&1`,
+      { encoding: 'utf-8' }
+    );
+    return toSpeechSegments(parseSilenceDetect(output, duration), duration);
+  } catch (error) {
+    const err = error as Error;
+    throw new Error(`FFmpeg silence detection failed: ${err.message}`);
+  }
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}